@@ -0,0 +1,44 @@
+-- DropForeignKey
+ALTER TABLE "Payment" DROP CONSTRAINT "Payment_orderId_fkey";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "checkoutId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "checkoutId" TEXT,
+ALTER COLUMN "orderId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "Checkout" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentMethod" TEXT NOT NULL DEFAULT 'paypal',
+    "shippingType" TEXT NOT NULL DEFAULT 'standard',
+    "shippingFee" INTEGER NOT NULL DEFAULT 0,
+    "subtotalAmount" INTEGER NOT NULL DEFAULT 0,
+    "totalAmountKobo" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Checkout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Checkout_userId_idx" ON "Checkout"("userId");
+
+-- CreateIndex
+CREATE INDEX "Order_checkoutId_idx" ON "Order"("checkoutId");
+
+-- AddForeignKey
+ALTER TABLE "Checkout" ADD CONSTRAINT "Checkout_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "Checkout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "Checkout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
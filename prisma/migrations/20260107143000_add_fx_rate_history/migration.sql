@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "usdNgnRate" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "usdNgnRate" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "FxRate" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "previousRate" DECIMAL(65,30),
+    "source" TEXT NOT NULL DEFAULT 'admin',
+    "changedById" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FxRate_key_createdAt_idx" ON "FxRate"("key", "createdAt");
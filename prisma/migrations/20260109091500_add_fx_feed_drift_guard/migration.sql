@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "FxRateStatus" AS ENUM ('APPLIED', 'PENDING_CONFIRMATION', 'REJECTED', 'SUPERSEDED');
+
+-- AlterTable
+ALTER TABLE "FxRate" ADD COLUMN     "driftPercent" DECIMAL(65,30),
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ADD COLUMN     "status" "FxRateStatus" NOT NULL DEFAULT 'APPLIED';
+
+-- CreateIndex
+CREATE INDEX "FxRate_status_idx" ON "FxRate"("status");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "fxRate" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "fxRate" DECIMAL(65,30);
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ReconciliationReport" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "triggeredById" TEXT,
+    "checked" INTEGER NOT NULL DEFAULT 0,
+    "settledPaid" INTEGER NOT NULL DEFAULT 0,
+    "settledFailed" INTEGER NOT NULL DEFAULT 0,
+    "stillPending" INTEGER NOT NULL DEFAULT 0,
+    "errored" INTEGER NOT NULL DEFAULT 0,
+    "ordersCancelled" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationReport_startedAt_idx" ON "ReconciliationReport"("startedAt");
@@ -0,0 +1,107 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('CLEARING', 'VENDOR_PAYABLE', 'PLATFORM_COMMISSION', 'PAYOUTS_IN_TRANSIT');
+
+-- CreateEnum
+CREATE TYPE "LedgerDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('ORDER_PAID', 'REFUND', 'CHARGEBACK', 'PAYOUT', 'PAYOUT_SETTLED', 'PAYOUT_CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'SETTLED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "LedgerTransaction" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerTransactionType" NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "description" TEXT,
+    "orderId" TEXT,
+    "refundId" TEXT,
+    "payoutId" TEXT,
+    "commissionPercent" DECIMAL(65,30),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "vendorId" TEXT,
+    "direction" "LedgerDirection" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "totalAmount" INTEGER NOT NULL,
+    "note" TEXT,
+    "reference" TEXT,
+    "createdById" TEXT,
+    "settledById" TEXT,
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerTransaction_idempotencyKey_key" ON "LedgerTransaction"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_orderId_idx" ON "LedgerTransaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_payoutId_idx" ON "LedgerTransaction"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_vendorId_currency_idx" ON "LedgerEntry"("vendorId", "currency");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_account_currency_idx" ON "LedgerEntry"("account", "currency");
+
+-- CreateIndex
+CREATE INDEX "PayoutBatch_status_idx" ON "PayoutBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "Payout_batchId_idx" ON "Payout"("batchId");
+
+-- CreateIndex
+CREATE INDEX "Payout_vendorId_idx" ON "Payout"("vendorId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "LedgerTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PayoutBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "heightCm" INTEGER,
+ADD COLUMN     "lengthCm" INTEGER,
+ADD COLUMN     "weightGrams" INTEGER,
+ADD COLUMN     "widthCm" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Checkout" ADD COLUMN     "shippingAddress" JSONB,
+ADD COLUMN     "shippingQuoteId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingAddress" JSONB,
+ADD COLUMN     "shippingRateId" TEXT,
+ADD COLUMN     "shippingZoneId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "countries" TEXT[],
+    "regions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "postalPrefixes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "vendorId" TEXT,
+    "shippingType" TEXT NOT NULL,
+    "minWeightGrams" INTEGER NOT NULL DEFAULT 0,
+    "maxWeightGrams" INTEGER,
+    "baseFeeUsdCents" INTEGER NOT NULL,
+    "perKgUsdCents" INTEGER NOT NULL DEFAULT 0,
+    "freeAboveUsdCents" INTEGER,
+    "minDays" INTEGER,
+    "maxDays" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingQuote" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "fxRate" DECIMAL(65,30) NOT NULL,
+    "address" JSONB NOT NULL,
+    "itemsKey" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShippingQuote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_zoneId_shippingType_idx" ON "ShippingRate"("zoneId", "shippingType");
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_vendorId_idx" ON "ShippingRate"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "ShippingQuote_userId_idx" ON "ShippingQuote"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "OrderEvent" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actor" TEXT NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderEvent_orderId_createdAt_idx" ON "OrderEvent"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderEvent" ADD CONSTRAINT "OrderEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one creation event per existing order, plus its current status if it moved on
+INSERT INTO "OrderEvent" ("id", "orderId", "fromStatus", "toStatus", "actor", "createdAt")
+SELECT 'oe_' || md5(random()::text || o."id"), o."id", NULL, 'PENDING', 'user', o."createdAt"
+FROM "Order" o;
+
+INSERT INTO "OrderEvent" ("id", "orderId", "fromStatus", "toStatus", "actor", "note", "createdAt")
+SELECT 'oe_' || md5(random()::text || o."id" || 'current'), o."id", 'PENDING', o."status", 'system', 'Backfilled from order status', o."updatedAt"
+FROM "Order" o
+WHERE o."status" <> 'PENDING';
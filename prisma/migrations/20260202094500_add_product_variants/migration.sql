@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "BarterItem" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "sku" TEXT,
+ADD COLUMN     "variantId" TEXT,
+ADD COLUMN     "variantName" TEXT;
+
+-- AlterTable
+ALTER TABLE "StockReservation" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "WishlistItem" ADD COLUMN     "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProductVariant" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "attributes" JSONB NOT NULL DEFAULT '{}',
+    "priceUsdCents" INTEGER NOT NULL,
+    "weightGrams" INTEGER,
+    "stockQuantity" INTEGER,
+    "reservedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "lowStockThreshold" INTEGER,
+    "lowStockAlertedAt" TIMESTAMP(3),
+    "soldOutAt" TIMESTAMP(3),
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_productId_idx" ON "ProductVariant"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductVariant_vendorId_sku_key" ON "ProductVariant"("vendorId", "sku");
+
+-- AddForeignKey
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "ProductVariant_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WishlistItem" ADD CONSTRAINT "WishlistItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BarterItem" ADD CONSTRAINT "BarterItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Never more reserved than on hand
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "ProductVariant_stock_nonnegative" CHECK ("stockQuantity" IS NULL OR ("stockQuantity" >= 0 AND "reservedQuantity" <= "stockQuantity"));
@@ -0,0 +1,31 @@
+-- Weighted search document: name (A) > short description (B) > description + benefits (C).
+-- array_to_string is only STABLE, so wrap it to use in a generated column.
+CREATE OR REPLACE FUNCTION product_search_document(name TEXT, short_desc TEXT, description TEXT, benefits TEXT[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE PARALLEL SAFE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce(short_desc, '')), 'B')
+      || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'C')
+      || setweight(to_tsvector('english'::regconfig, coalesce(array_to_string(benefits, ' '), '')), 'C')
+$$;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "searchVector" tsvector
+  GENERATED ALWAYS AS (product_search_document("name", "shortDesc", "description", "benefits")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_vendorId_idx" ON "Product"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "Product_category_idx" ON "Product"("category");
+
+-- CreateIndex
+CREATE INDEX "Product_priceUsdCents_idx" ON "Product"("priceUsdCents");
+
+-- CreateIndex
+CREATE INDEX "Product_createdAt_idx" ON "Product"("createdAt");
@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "imageUrl" TEXT,
+    "parentId" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "categoryId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Product_categoryId_idx" ON "Product"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- ===== Map free-text categories onto the taxonomy =====
+
+-- Starting taxonomy: food groups with the categories vendors already use underneath
+INSERT INTO "Category" ("id", "name", "slug", "parentId", "sortOrder", "updatedAt") VALUES
+    ('cat_pantry',     'Pantry',              'pantry',     NULL,          10, CURRENT_TIMESTAMP),
+    ('cat_fresh',      'Fresh Food',          'fresh-food', NULL,          20, CURRENT_TIMESTAMP),
+    ('cat_drinks',     'Drinks',              'drinks',     NULL,          30, CURRENT_TIMESTAMP),
+    ('cat_household',  'Household',           'household',  NULL,          40, CURRENT_TIMESTAMP),
+    ('cat_grains',     'Grains',              'grains',     'cat_pantry',  10, CURRENT_TIMESTAMP),
+    ('cat_staples',    'Staples',             'staples',    'cat_pantry',  20, CURRENT_TIMESTAMP),
+    ('cat_oil',        'Oil',                 'oil',        'cat_pantry',  30, CURRENT_TIMESTAMP),
+    ('cat_baking',     'Baking',              'baking',     'cat_pantry',  40, CURRENT_TIMESTAMP),
+    ('cat_pasta',      'Pasta & Noodles',     'pasta',      'cat_pantry',  50, CURRENT_TIMESTAMP),
+    ('cat_canned',     'Canned Food',         'canned',     'cat_pantry',  60, CURRENT_TIMESTAMP),
+    ('cat_breakfast',  'Breakfast',           'breakfast',  'cat_pantry',  70, CURRENT_TIMESTAMP),
+    ('cat_essentials', 'Essentials',          'essentials', 'cat_pantry',  80, CURRENT_TIMESTAMP),
+    ('cat_vegetables', 'Vegetables',          'vegetables', 'cat_fresh',   10, CURRENT_TIMESTAMP),
+    ('cat_protein',    'Meat, Fish & Eggs',   'protein',    'cat_fresh',   20, CURRENT_TIMESTAMP),
+    ('cat_dairy',      'Dairy',               'dairy',      'cat_fresh',   30, CURRENT_TIMESTAMP);
+
+-- Spellings vendors have typed, by slugified form
+CREATE TEMP TABLE "_CategoryAlias" ("alias" TEXT PRIMARY KEY, "slug" TEXT NOT NULL);
+INSERT INTO "_CategoryAlias" ("alias", "slug") VALUES
+    ('grain', 'grains'), ('cereal', 'grains'), ('cereals', 'grains'), ('rice', 'grains'), ('beans', 'grains'),
+    ('staple', 'staples'), ('tubers', 'staples'), ('yam', 'staples'),
+    ('oils', 'oil'), ('cooking-oil', 'oil'),
+    ('vegetable', 'vegetables'), ('veg', 'vegetables'), ('veggies', 'vegetables'), ('produce', 'vegetables'),
+    ('meat', 'protein'), ('fish', 'protein'), ('seafood', 'protein'), ('poultry', 'protein'), ('eggs', 'protein'), ('proteins', 'protein'),
+    ('milk', 'dairy'),
+    ('drink', 'drinks'), ('beverage', 'drinks'), ('beverages', 'drinks'),
+    ('noodles', 'pasta'), ('pastas', 'pasta'),
+    ('can', 'canned'), ('canned-goods', 'canned'), ('tinned', 'canned'),
+    ('bakery', 'baking'),
+    ('cleaning', 'household'), ('home', 'household'),
+    ('essential', 'essentials'), ('spices', 'essentials'), ('condiments', 'essentials');
+
+-- Slugified free text, then resolved through the aliases
+CREATE TEMP TABLE "_ProductCategorySlug" AS
+SELECT p."id" AS "productId", COALESCE(a."slug", s."slug") AS "slug", s."label"
+FROM "Product" p
+CROSS JOIN LATERAL (
+    SELECT trim(both '-' from regexp_replace(lower(trim(p."category")), '[^a-z0-9]+', '-', 'g')) AS "slug",
+           trim(p."category") AS "label"
+) s
+LEFT JOIN "_CategoryAlias" a ON a."alias" = s."slug"
+WHERE p."category" IS NOT NULL AND s."slug" <> '';
+
+-- Anything we don't recognise becomes its own top-level category (admins can re-home it later)
+INSERT INTO "Category" ("id", "name", "slug", "sortOrder", "updatedAt")
+SELECT 'cat_' || substr(md5(m."slug"), 1, 20), initcap(min(m."label")), m."slug", 100, CURRENT_TIMESTAMP
+FROM "_ProductCategorySlug" m
+WHERE NOT EXISTS (SELECT 1 FROM "Category" c WHERE c."slug" = m."slug")
+GROUP BY m."slug";
+
+UPDATE "Product" p
+SET "categoryId" = c."id", "category" = c."name"
+FROM "_ProductCategorySlug" m
+JOIN "Category" c ON c."slug" = m."slug"
+WHERE m."productId" = p."id";
+
+DROP TABLE "_ProductCategorySlug";
+DROP TABLE "_CategoryAlias";
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "ProductStatus" ADD VALUE 'PENDING_REVIEW';
+ALTER TYPE "ProductStatus" ADD VALUE 'REJECTED';
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "approvedAt" TIMESTAMP(3),
+ADD COLUMN "approvedSnapshot" JSONB,
+ADD COLUMN "rejectionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProductModerationEvent" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "fromStatus" "ProductStatus" NOT NULL,
+    "toStatus" "ProductStatus" NOT NULL,
+    "actor" TEXT NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductModerationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductModerationEvent_productId_createdAt_idx" ON "ProductModerationEvent"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Product_status_createdAt_idx" ON "Product"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProductModerationEvent" ADD CONSTRAINT "ProductModerationEvent_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Products already live count as approved as they stand today
+UPDATE "Product" p
+SET "approvedAt" = CURRENT_TIMESTAMP,
+    "approvedSnapshot" = jsonb_build_object(
+        'name', p."name",
+        'description', p."description",
+        'shortDesc', p."shortDesc",
+        'priceUsdCents', p."priceUsdCents",
+        'variantPrices', COALESCE(
+            (SELECT jsonb_object_agg(v."id", v."priceUsdCents")
+             FROM "ProductVariant" v
+             WHERE v."productId" = p."id" AND v."isDeleted" = false),
+            '{}'::jsonb
+        )
+    )
+WHERE p."status" = 'ACTIVE';
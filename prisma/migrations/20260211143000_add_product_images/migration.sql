@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "ProductImage" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "altText" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "storageKey" TEXT,
+    "thumbUrl" TEXT NOT NULL,
+    "mediumUrl" TEXT NOT NULL,
+    "largeUrl" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "bytes" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductImage_productId_sortOrder_idx" ON "ProductImage"("productId", "sortOrder");
+
+-- AddForeignKey
+ALTER TABLE "ProductImage" ADD CONSTRAINT "ProductImage_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing single images become the cover of a one-image gallery (no renditions yet)
+INSERT INTO "ProductImage" ("id", "productId", "sortOrder", "thumbUrl", "mediumUrl", "largeUrl")
+SELECT 'img_' || substr(md5(p."id"), 1, 21), p."id", 0, p."imageUrl", p."imageUrl", p."imageUrl"
+FROM "Product" p
+WHERE p."imageUrl" IS NOT NULL AND p."imageUrl" <> '';
@@ -0,0 +1,6 @@
+-- Partner documents are addressed by storage key instead of a public /uploads path
+ALTER TABLE "PartnerDocument" RENAME COLUMN "filePath" TO "storageKey";
+
+UPDATE "PartnerDocument"
+SET "storageKey" = substring("storageKey" FROM 10)
+WHERE "storageKey" LIKE '/uploads/%';
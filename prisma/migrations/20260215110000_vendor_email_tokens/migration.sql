@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Vendor" ADD COLUMN "emailVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- Vendors from before verification existed were vetted by hand when approved
+UPDATE "Vendor" SET "emailVerified" = true;
+
+-- CreateTable
+CREATE TABLE "VendorEmailVerificationToken" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorEmailVerificationToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VendorPasswordResetToken" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "used" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorPasswordResetToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorEmailVerificationToken_token_key" ON "VendorEmailVerificationToken"("token");
+
+-- CreateIndex
+CREATE INDEX "VendorEmailVerificationToken_vendorId_idx" ON "VendorEmailVerificationToken"("vendorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorPasswordResetToken_token_key" ON "VendorPasswordResetToken"("token");
+
+-- CreateIndex
+CREATE INDEX "VendorPasswordResetToken_vendorId_idx" ON "VendorPasswordResetToken"("vendorId");
+
+-- AddForeignKey
+ALTER TABLE "VendorEmailVerificationToken" ADD CONSTRAINT "VendorEmailVerificationToken_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorPasswordResetToken" ADD CONSTRAINT "VendorPasswordResetToken_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
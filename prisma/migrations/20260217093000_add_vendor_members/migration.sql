@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "VendorMemberRole" AS ENUM ('OWNER', 'MANAGER', 'FULFILMENT', 'FINANCE');
+
+-- CreateEnum
+CREATE TYPE "VendorMemberStatus" AS ENUM ('INVITED', 'ACTIVE', 'DISABLED');
+
+-- CreateTable
+CREATE TABLE "VendorMember" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT,
+    "role" "VendorMemberRole" NOT NULL,
+    "status" "VendorMemberStatus" NOT NULL DEFAULT 'INVITED',
+    "inviteTokenHash" TEXT,
+    "inviteExpiresAt" TIMESTAMP(3),
+    "invitedById" TEXT,
+    "lastLoginAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VendorMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VendorActivity" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "memberId" TEXT,
+    "actorName" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entityId" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "vendorMemberId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorMember_email_key" ON "VendorMember"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorMember_inviteTokenHash_key" ON "VendorMember"("inviteTokenHash");
+
+-- CreateIndex
+CREATE INDEX "VendorMember_vendorId_idx" ON "VendorMember"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "VendorActivity_vendorId_createdAt_idx" ON "VendorActivity"("vendorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "VendorActivity_memberId_idx" ON "VendorActivity"("memberId");
+
+-- CreateIndex
+CREATE INDEX "Session_vendorMemberId_idx" ON "Session"("vendorMemberId");
+
+-- AddForeignKey
+ALTER TABLE "VendorMember" ADD CONSTRAINT "VendorMember_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorActivity" ADD CONSTRAINT "VendorActivity_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorActivity" ADD CONSTRAINT "VendorActivity_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "VendorMember"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_vendorMemberId_fkey" FOREIGN KEY ("vendorMemberId") REFERENCES "VendorMember"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'REFUND_REVERSED';
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "providerRefundId" TEXT,
+ADD COLUMN     "refundOutcome" "RefundStatus";
+
+-- CreateIndex
+CREATE INDEX "Refund_provider_providerRefundId_idx" ON "Refund"("provider", "providerRefundId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "VendorPasswordResetToken" ADD COLUMN     "memberId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VendorPasswordResetToken_memberId_idx" ON "VendorPasswordResetToken"("memberId");
+
+-- AddForeignKey
+ALTER TABLE "VendorPasswordResetToken" ADD CONSTRAINT "VendorPasswordResetToken_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "VendorMember"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "twoFactorFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "twoFactorLockedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Vendor" ADD COLUMN     "twoFactorFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "twoFactorLockedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "VendorMember" ADD COLUMN     "twoFactorFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "twoFactorLockedUntil" TIMESTAMP(3);
@@ -137,6 +137,13 @@ async function main() {
     { name: "Tissue (Pack)", price: 1800, category: "Household" },
   ];
 
+  // Seed names are the slugs of categories created by the add_categories migration
+  const categories = await prisma.category.findMany({
+    where: { slug: { in: productsSeed.map((p) => p.category.toLowerCase()) } },
+    select: { id: true, name: true, slug: true },
+  });
+  const categoryBySlug = new Map(categories.map((c) => [c.slug, c]));
+
   // Remove existing products for these vendors (so reseeding is clean)
   await prisma.product.deleteMany({
     where: { vendorId: { in: [vendor1.id, vendor2.id] } },
@@ -148,7 +155,8 @@ async function main() {
     description: `Quality ${p.name} from vendor ${vendor1.email}`,
     priceKobo: moneyKobo(p.price),
     currency: "NGN",
-    category: p.category,
+    categoryId: categoryBySlug.get(p.category.toLowerCase())?.id ?? null,
+    category: categoryBySlug.get(p.category.toLowerCase())?.name ?? p.category,
     isAvailable: true,
     isDeleted: false,
     status: ProductStatus.ACTIVE, // ✅ your enum uses ACTIVE
@@ -160,14 +168,26 @@ async function main() {
     description: `Quality ${p.name} from vendor ${vendor2.email}`,
     priceKobo: moneyKobo(p.price),
     currency: "NGN",
-    category: p.category,
+    categoryId: categoryBySlug.get(p.category.toLowerCase())?.id ?? null,
+    category: categoryBySlug.get(p.category.toLowerCase())?.name ?? p.category,
     isAvailable: true,
     isDeleted: false,
     status: ProductStatus.ACTIVE, // ✅ your enum uses ACTIVE
   }));
 
+  // Seeded products count as already approved (see lib/product-moderation.ts)
   await prisma.product.createMany({
-    data: [...vendor1Products, ...vendor2Products],
+    data: [...vendor1Products, ...vendor2Products].map((p) => ({
+      ...p,
+      approvedAt: new Date(),
+      approvedSnapshot: {
+        name: p.name,
+        description: p.description,
+        shortDesc: null,
+        priceUsdCents: p.priceKobo,
+        variantPrices: {},
+      },
+    })),
   });
 
   const totalProducts = await prisma.product.count({
@@ -175,10 +195,29 @@ async function main() {
   });
 
   console.log(`✅ Products seeded: ${totalProducts}`);
+
+  // Default shipping zone: same $5 standard / $15 express the old flat fees charged
+  const existingZone = await prisma.shippingZone.findFirst({ where: { name: "Nigeria" } });
+  if (!existingZone) {
+    await prisma.shippingZone.create({
+      data: {
+        name: "Nigeria",
+        countries: ["NG"],
+        rates: {
+          create: [
+            { shippingType: "standard", baseFeeUsdCents: 500, minDays: 3, maxDays: 7 },
+            { shippingType: "express", baseFeeUsdCents: 1500, minDays: 1, maxDays: 2 },
+          ],
+        },
+      },
+    });
+  }
+
+  console.log("✅ Shipping zones seeded");
   console.log("🌱 Seeding complete.\n");
 
   console.log("=== Test Accounts ===");
-  console.log("ADMIN:", adminEmail, "password:", "Admin12345!");
+  console.log("ADMIN:", adminEmail, "password:", "Admin12345!", "(enable 2FA after login for admin access)");
   console.log("USER :", userEmail, "password:", "User12345!");
   console.log("V1   :", vendor1Email, "password:", "Vendor12345!");
   console.log("V2   :", vendor2Email, "password:", "Vendor12345!");
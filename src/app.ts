@@ -14,7 +14,11 @@ import vendorBarterRoutes from "./routes/vendor-barter.routes";
 
 import ordersRoutes from "./routes/orders.routes";
 
-import paymentsRoutes, { paystackWebhookHandler } from "./routes/payments.routes";
+import paymentsRoutes, {
+  paystackWebhookHandler,
+  paypalWebhookHandler,
+  fakeWebhookHandler,
+} from "./routes/payments.routes";
 import productsRoutes from "./routes/products.routes";
 
 import adminUsersRoutes from "./routes/admin-users.routes";
@@ -26,13 +30,26 @@ import adminBarterRoutes from "./routes/admin-barter.routes";
 import adminPartnerContentRoutes from "./routes/admin-partner-content.routes";
 
 import logisticsRoutes from "./routes/logistics.routes";
-import path from "path";
 import wishlistRoutes from "./routes/wishlist.routes";
 import fxRoutes from "./routes/fx.routes";
 import adminFxRoutes from "./routes/admin-fx.routes";
 import adminProductsRoutes from "./routes/admin-products.routes";
+import adminWebhooksRoutes from "./routes/admin-webhooks.routes";
+import adminReconciliationRoutes from "./routes/admin-reconciliation.routes";
+import adminPayoutsRoutes from "./routes/admin-payouts.routes";
+import vendorFinanceRoutes from "./routes/vendor-finance.routes";
+import adminPromotionsRoutes from "./routes/admin-promotions.routes";
+import vendorPromotionsRoutes from "./routes/vendor-promotions.routes";
+import shippingRoutes from "./routes/shipping.routes";
+import adminShippingRoutes from "./routes/admin-shipping.routes";
+import vendorShippingRoutes from "./routes/vendor-shipping.routes";
+import vendorTeamRoutes from "./routes/vendor-team.routes";
+import categoriesRoutes from "./routes/categories.routes";
+import adminCategoriesRoutes from "./routes/admin-categories.routes";
 
 import partnershipRoutes from "./routes/partnership.routes";
+import filesRoutes from "./routes/files.routes";
+import { isPrivateUploadPath, LOCAL_ROOT } from "./services/storage";
 
 
 
@@ -40,7 +57,14 @@ import partnershipRoutes from "./routes/partnership.routes";
 
 const app = express();
 
-app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
+// Public files of the local storage driver; private prefixes only via /api/files
+app.use("/uploads", (req, res, next) => {
+  if (isPrivateUploadPath(req.path)) {
+    return res.status(404).json({ success: false, message: "Not found" });
+  }
+  return next();
+});
+app.use("/uploads", express.static(LOCAL_ROOT));
 
 // ======================================================
 // 🔵 Core Middleware
@@ -91,7 +115,7 @@ app.use(
 app.use(morgan("dev"));
 
 // ======================================================
-// 🔵 Paystack Webhook (RAW BODY) — MUST COME BEFORE express.json()
+// 🔵 Payment Webhooks (RAW BODY) — MUST COME BEFORE express.json()
 // ======================================================
 app.post(
   "/api/payments/paystack/webhook",
@@ -99,6 +123,20 @@ app.post(
   paystackWebhookHandler
 );
 
+// PayPal: captures complete even if the buyer closes the tab after approving
+app.post(
+  "/api/payments/paypal/webhook",
+  express.raw({ type: "application/json" }),
+  paypalWebhookHandler
+);
+
+// Fake provider webhook (offline testing; 404 unless FAKE_PAYMENTS_ENABLED)
+app.post(
+  "/api/payments/fake/webhook",
+  express.raw({ type: "application/json" }),
+  fakeWebhookHandler
+);
+
 // ======================================================
 // 🔵 JSON Body Parsers for normal endpoints
 // ======================================================
@@ -113,6 +151,7 @@ app.use("/api/orders", ordersRoutes);
 app.use("/api/payments", paymentsRoutes);
 
 app.use("/api/products", productsRoutes);
+app.use("/api/categories", categoriesRoutes);
 
 // ======================================================
 // 🔵 VENDOR ROUTES
@@ -121,6 +160,10 @@ app.use("/api/vendor/auth", vendorAuthRoutes);
 app.use("/api/vendor/products", vendorProductsRoutes);
 app.use("/api/vendor/orders", vendorOrdersRoutes);
 app.use("/api/vendor/barter", vendorBarterRoutes);
+app.use("/api/vendor/finance", vendorFinanceRoutes);
+app.use("/api/vendor/promotions", vendorPromotionsRoutes);
+app.use("/api/vendor/shipping", vendorShippingRoutes);
+app.use("/api/vendor/team", vendorTeamRoutes);
 
 // ======================================================
 // 🔵 ADMIN ROUTES (split into separate files)
@@ -144,11 +187,21 @@ app.use("/api/wishlist", wishlistRoutes);
 
 app.use("/api/partnership", partnershipRoutes);
 
+app.use("/api/files", filesRoutes);
+
 app.use("/api/fx", fxRoutes);
 
+app.use("/api/shipping", shippingRoutes);
+
 app.use("/api/admin/fx", adminFxRoutes);
 
 app.use("/api/admin/products", adminProductsRoutes);
+app.use("/api/admin/categories", adminCategoriesRoutes);
+app.use("/api/admin/webhooks", adminWebhooksRoutes);
+app.use("/api/admin/promotions", adminPromotionsRoutes);
+app.use("/api/admin/shipping", adminShippingRoutes);
+app.use("/api/admin/reconciliation", adminReconciliationRoutes);
+app.use("/api/admin/payouts", adminPayoutsRoutes);
 
 
 // ======================================================
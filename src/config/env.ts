@@ -25,6 +25,10 @@ const envSchema = z.object({
   JWT_EXPIRES_IN: z.string().default("15m"),
   REFRESH_EXPIRES_IN: z.string().default("7d"),
 
+  // Two-factor (TOTP)
+  TWO_FACTOR_ISSUER: z.string().default("FoodCheQ"), // name shown in authenticator apps
+  TWO_FACTOR_ENCRYPTION_KEY: z.string().optional(), // encrypts stored secrets; falls back to JWT_REFRESH_SECRET
+
   // Paystack (optional for now)
   PAYSTACK_SECRET_KEY: z.string().optional(),
   PAYSTACK_PUBLIC_KEY: z.string().optional(),
@@ -35,6 +39,54 @@ const envSchema = z.object({
   PAYPAL_CLIENT_ID: z.string().optional(),
   PAYPAL_CLIENT_SECRET: z.string().optional(),
   PAYPAL_MODE: z.enum(["sandbox", "live"]).default("sandbox"),
+  PAYPAL_WEBHOOK_ID: z.string().optional(), // needed to verify PayPal webhook signatures
+
+  // Fake payment provider (offline testing; never available in production)
+  FAKE_PAYMENTS_ENABLED: z.string().default("false").transform((v) => v === "true"),
+  FAKE_PAYMENT_OUTCOME: z.enum(["success", "failure", "pending"]).default("success"),
+  FAKE_PAYMENT_WEBHOOK_SECRET: z.string().default("fake-webhook-secret"),
+
+  // FX rate feed
+  FX_PROVIDER: z.enum(["manual", "feed", "fixed"]).default("manual"),
+  FX_DEFAULT_RATE: z.string().default("1600").transform(Number),
+  FX_FEED_URL: z.string().optional(), // http(s) URL or local file path to a JSON document
+  FX_FEED_RATE_PATH: z.string().default("rate"), // dotted path to the NGN-per-USD value
+  FX_FIXED_RATE: z.string().optional(),
+  FX_REFRESH_INTERVAL_MINUTES: z.string().default("60").transform(Number), // 0 disables the job
+  FX_MAX_DRIFT_PERCENT: z.string().default("5").transform(Number),
+
+  // Vendor settlement
+  PLATFORM_COMMISSION_PERCENT: z.string().default("10").transform(Number), // of order subtotal
+
+  // Payment reconciliation
+  RECONCILE_INTERVAL_MINUTES: z.string().default("15").transform(Number), // 0 disables the job
+  RECONCILE_STALE_AFTER_MINUTES: z.string().default("30").transform(Number), // PENDING older than this gets checked
+  UNPAID_ORDER_CANCEL_AFTER_HOURS: z.string().default("24").transform(Number), // 0 = never auto-cancel
+
+  // Inventory
+  STOCK_RESERVATION_MINUTES: z.string().default("60").transform(Number), // unpaid order holds stock this long
+  STOCK_SWEEP_INTERVAL_MINUTES: z.string().default("5").transform(Number), // 0 disables the expiry job
+  LOW_STOCK_THRESHOLD: z.string().default("5").transform(Number), // default per-product alert level
+
+  // Product moderation: edits past these limits send an approved product back to review
+  PRODUCT_REVIEW_PRICE_CHANGE_PERCENT: z.string().default("20").transform(Number), // vs the approved price
+  PRODUCT_REVIEW_TEXT_CHANGE_PERCENT: z.string().default("30").transform(Number), // share of words added/removed
+
+  // Uploads
+  UPLOAD_CLEANUP_INTERVAL_MINUTES: z.string().default("1440").transform(Number), // orphaned-file sweep; 0 disables
+
+  // File storage (see services/storage); "s3" also works against MinIO
+  STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+  STORAGE_LOCAL_DIR: z.string().default("uploads"), // relative to the working directory
+  STORAGE_SIGNING_SECRET: z.string().optional(), // local signed URLs; falls back to JWT_ACCESS_SECRET
+  STORAGE_SIGNED_URL_TTL_SECONDS: z.string().default("300").transform(Number),
+  S3_ENDPOINT: z.string().optional(), // e.g. http://localhost:9000 for MinIO; unset = AWS
+  S3_REGION: z.string().default("us-east-1"),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.string().default("true").transform((v) => v === "true"), // MinIO needs path-style
+  S3_PUBLIC_URL: z.string().optional(), // base URL for public objects (CDN); default = bucket URL
 
   // Email (Resend)
   RESEND_API_KEY: z.string().optional(),
@@ -0,0 +1,87 @@
+// src/jobs/fx-refresh.ts
+import { env } from "../config/env";
+import { FxRateProvider, createFxProviderFromEnv } from "../lib/fx-providers";
+import { driftPercent, getUsdNgnRateInfo, proposeUsdNgnRate, setUsdNgnRate } from "../lib/fx";
+
+export type FxRefreshResult =
+  | { outcome: "skipped"; reason: string }
+  | { outcome: "unchanged"; rate: number }
+  | { outcome: "applied"; rate: number; previousRate: number; driftPercent: number }
+  | { outcome: "pending_confirmation"; rate: number; previousRate: number; driftPercent: number; proposalId: string };
+
+/**
+ * Pull the latest rate from the provider and store it.
+ * Moves larger than FX_MAX_DRIFT_PERCENT are parked for admin confirmation
+ * instead of silently repricing every NGN checkout.
+ */
+export async function refreshUsdNgnRate(
+  provider: FxRateProvider = createFxProviderFromEnv()
+): Promise<FxRefreshResult> {
+  const next = await provider.fetchUsdNgnRate();
+  if (next === null) {
+    return { outcome: "skipped", reason: `${provider.name} provider returned no rate` };
+  }
+
+  const { rate: current, updatedAt } = await getUsdNgnRateInfo();
+
+  if (next === current) {
+    return { outcome: "unchanged", rate: current };
+  }
+
+  const drift = driftPercent(current, next);
+  const maxDrift = Number(env.FX_MAX_DRIFT_PERCENT || 0);
+
+  // First rate ever stored has nothing to drift from
+  if (updatedAt && maxDrift > 0 && drift > maxDrift) {
+    const proposal = await proposeUsdNgnRate(next, {
+      source: provider.name,
+      driftPercent: drift,
+      note: `Drift ${drift.toFixed(2)}% exceeds ${maxDrift}% limit`,
+    });
+
+    console.warn("FX refresh held for confirmation:", {
+      current,
+      next,
+      drift: drift.toFixed(2),
+      proposalId: proposal.id,
+    });
+
+    return {
+      outcome: "pending_confirmation",
+      rate: next,
+      previousRate: current,
+      driftPercent: drift,
+      proposalId: proposal.id,
+    };
+  }
+
+  await setUsdNgnRate(next, { source: provider.name, note: "Scheduled refresh" });
+
+  return { outcome: "applied", rate: next, previousRate: current, driftPercent: drift };
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startFxRefreshJob(): void {
+  const minutes = Number(env.FX_REFRESH_INTERVAL_MINUTES || 0);
+  // Manual mode has nothing to pull; admins set the rate themselves
+  if (env.FX_PROVIDER === "manual" || !(minutes > 0) || timer) return;
+
+  const run = () =>
+    refreshUsdNgnRate()
+      .then((result) => {
+        if (result.outcome === "applied") {
+          console.log("FX rate refreshed:", result);
+        }
+      })
+      .catch((err) => console.error("FX refresh error:", err?.message || err));
+
+  run();
+  timer = setInterval(run, minutes * 60 * 1000);
+  timer.unref();
+}
+
+export function stopFxRefreshJob(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,257 @@
+// src/jobs/payment-reconciliation.ts
+import { Payment, Refund } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "../lib/prisma";
+import { applyPaymentResult } from "../lib/checkout";
+import { refundCancelledOrders, settleRefund } from "../lib/refunds";
+import { OrderTransitionError, transitionOrder } from "../lib/order-lifecycle";
+import { captureApprovedPayment, getPaymentProvider } from "../services/payments";
+
+// Payments looked up per run; least recently touched first, so stubborn
+// PENDING ones (their rawResponse is refreshed each time) rotate to the back
+const BATCH_SIZE = 100;
+const CANCEL_BATCH_SIZE = 500;
+
+type PaymentCheck = {
+  paymentId: string;
+  provider: string;
+  providerRef: string | null;
+  result: "PAID" | "FAILED" | "PENDING" | "SKIPPED" | "ERROR";
+  detail?: string;
+};
+
+async function settlePayment(payment: Payment): Promise<PaymentCheck> {
+  const check = {
+    paymentId: payment.id,
+    provider: payment.provider,
+    providerRef: payment.providerRef,
+  };
+
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider || !payment.providerRef) {
+    return { ...check, result: "ERROR", detail: "Provider not available" };
+  }
+
+  try {
+    let result = await provider.verifyPayment(payment.providerRef);
+
+    // Buyer approved but never came back to /capture
+    if (result.needsCapture) {
+      result = await captureApprovedPayment(provider, payment.providerRef);
+    }
+
+    if (result.status === "PENDING") {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { rawResponse: result.raw },
+      });
+      return { ...check, result: "PENDING" };
+    }
+
+    const outcome = result.status;
+
+    // False when a webhook or the buyer's capture got there first
+    const settled = await prisma.$transaction((tx) => applyPaymentResult(tx, payment, outcome, result.raw));
+
+    if (!settled) {
+      return { ...check, result: "SKIPPED", detail: "Settled elsewhere during the run" };
+    }
+
+    if (outcome === "PAID") {
+      await refundCancelledOrders(payment.id);
+    }
+
+    return { ...check, result: outcome };
+  } catch (error: any) {
+    console.error(`Reconciliation error for payment ${payment.id}:`, error?.response?.data || error?.message || error);
+    return { ...check, result: "ERROR", detail: String(error?.message || error).slice(0, 500) };
+  }
+}
+
+type RefundCheck = {
+  refundId: string;
+  provider: string;
+  providerRefundId: string | null;
+  result: "SUCCEEDED" | "FAILED" | "PENDING" | "SKIPPED" | "ERROR";
+  detail?: string;
+};
+
+// A refund the provider accepted as pending: has it gone through since?
+async function settlePendingRefund(refund: Refund): Promise<RefundCheck> {
+  const check = {
+    refundId: refund.id,
+    provider: refund.provider,
+    providerRefundId: refund.providerRefundId,
+  };
+
+  const provider = getPaymentProvider(refund.provider);
+  if (!provider || !refund.providerRefundId) {
+    return { ...check, result: "ERROR", detail: "Provider not available" };
+  }
+
+  try {
+    const result = await provider.refundStatus(refund.providerRefundId);
+    const settled = await settleRefund(refund, result);
+
+    if (result.status === "PENDING") {
+      return { ...check, result: "PENDING" };
+    }
+    if (!settled) {
+      return { ...check, result: "SKIPPED", detail: "Settled elsewhere during the run" };
+    }
+    return { ...check, result: result.status };
+  } catch (error: any) {
+    console.error(`Reconciliation error for refund ${refund.id}:`, error?.response?.data || error?.message || error);
+    return { ...check, result: "ERROR", detail: String(error?.message || error).slice(0, 500) };
+  }
+}
+
+/**
+ * Cancel orders still unpaid after UNPAID_ORDER_CANCEL_AFTER_HOURS.
+ * A payment that lands later is refunded automatically (refundCancelledOrders).
+ */
+async function cancelUnpaidOrders(): Promise<string[]> {
+  const hours = Number(env.UNPAID_ORDER_CANCEL_AFTER_HOURS || 0);
+  if (!(hours > 0)) return [];
+
+  const unpaid = {
+    status: "PENDING" as const,
+    paymentStatus: { in: ["PENDING" as const, "FAILED" as const] },
+    createdAt: { lt: new Date(Date.now() - hours * 60 * 60 * 1000) },
+  };
+
+  const orders = await prisma.order.findMany({
+    where: unpaid,
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: CANCEL_BATCH_SIZE,
+  });
+
+  if (!orders.length) return [];
+
+  const cancelled: string[] = [];
+
+  for (const order of orders) {
+    try {
+      // The guard re-checks the filter so an order paid meanwhile is left alone
+      await transitionOrder(order.id, "CANCELLED", {
+        actor: "system",
+        note: `Not paid within ${hours} hours`,
+        guard: { paymentStatus: unpaid.paymentStatus },
+      });
+      cancelled.push(order.id);
+    } catch (e) {
+      if (!(e instanceof OrderTransitionError)) throw e;
+    }
+  }
+
+  return cancelled;
+}
+
+let running = false;
+
+/**
+ * Settle stale PENDING payments and refunds against their provider, cancel
+ * long-unpaid orders and store a ReconciliationReport (refund outcomes are in
+ * its details). Returns null if a run is already going.
+ */
+export async function reconcilePayments(
+  opts: { trigger: "schedule" | "admin"; triggeredById?: string | null } = { trigger: "schedule" }
+) {
+  if (running) return null;
+  running = true;
+
+  try {
+    const report = await prisma.reconciliationReport.create({
+      data: { trigger: opts.trigger, triggeredById: opts.triggeredById ?? null },
+    });
+
+    const staleMinutes = Number(env.RECONCILE_STALE_AFTER_MINUTES || 0);
+    const staleBefore = new Date(Date.now() - staleMinutes * 60 * 1000);
+
+    const stale = await prisma.payment.findMany({
+      where: {
+        status: "PENDING",
+        createdAt: { lt: staleBefore },
+      },
+      orderBy: { updatedAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    // One at a time; providers rate-limit status lookups
+    const checks: PaymentCheck[] = [];
+    for (const payment of stale) {
+      checks.push(await settlePayment(payment));
+    }
+
+    // Without a provider refund id there is nothing to look up
+    const pendingRefunds = await prisma.refund.findMany({
+      where: {
+        status: "PENDING",
+        providerRefundId: { not: null },
+        createdAt: { lt: staleBefore },
+      },
+      orderBy: { updatedAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    const refundChecks: RefundCheck[] = [];
+    for (const refund of pendingRefunds) {
+      refundChecks.push(await settlePendingRefund(refund));
+    }
+
+    const cancelledOrderIds = await cancelUnpaidOrders();
+
+    const count = (result: PaymentCheck["result"]) =>
+      checks.filter((c) => c.result === result).length;
+
+    return await prisma.reconciliationReport.update({
+      where: { id: report.id },
+      data: {
+        checked: checks.length,
+        settledPaid: count("PAID"),
+        settledFailed: count("FAILED"),
+        stillPending: count("PENDING"),
+        errored: count("ERROR"),
+        ordersCancelled: cancelledOrderIds.length,
+        details: { payments: checks, refunds: refundChecks, cancelledOrderIds },
+        finishedAt: new Date(),
+      },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startPaymentReconciliationJob(): void {
+  const minutes = Number(env.RECONCILE_INTERVAL_MINUTES || 0);
+  if (!(minutes > 0) || timer) return;
+
+  const run = () =>
+    reconcilePayments()
+      .then((report) => {
+        if (report && (report.checked > 0 || report.ordersCancelled > 0)) {
+          console.log("Payment reconciliation:", {
+            reportId: report.id,
+            checked: report.checked,
+            settledPaid: report.settledPaid,
+            settledFailed: report.settledFailed,
+            stillPending: report.stillPending,
+            errored: report.errored,
+            ordersCancelled: report.ordersCancelled,
+          });
+        }
+      })
+      .catch((err) => console.error("Payment reconciliation error:", err?.message || err));
+
+  run();
+  timer = setInterval(run, minutes * 60 * 1000);
+  timer.unref();
+}
+
+export function stopPaymentReconciliationJob(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
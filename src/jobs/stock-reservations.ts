@@ -0,0 +1,62 @@
+// src/jobs/stock-reservations.ts
+import { env } from "../config/env";
+import { prisma } from "../lib/prisma";
+import { releaseExpiredOrderStock, sendLowStockAlerts } from "../lib/inventory";
+
+const BATCH_SIZE = 200;
+
+/**
+ * Hand back the stock held by unpaid orders once the hold runs out
+ * (STOCK_RESERVATION_MINUTES). The orders stay open: a payment that lands
+ * later reserves again (commitOrderStock), and orders that never get paid
+ * are cancelled by payment reconciliation (UNPAID_ORDER_CANCEL_AFTER_HOURS).
+ */
+async function expireReservations(): Promise<string[]> {
+  const expired = await prisma.stockReservation.findMany({
+    where: {
+      status: "ACTIVE",
+      orderId: { not: null },
+      expiresAt: { lt: new Date() },
+    },
+    select: { orderId: true },
+    distinct: ["orderId"],
+    orderBy: { orderId: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  const released: string[] = [];
+
+  for (const { orderId } of expired) {
+    // Only ACTIVE holds go; one committed by a payment meanwhile is left alone
+    const count = await prisma.$transaction((tx) => releaseExpiredOrderStock(tx, orderId!));
+    if (count > 0) released.push(orderId!);
+  }
+
+  return released;
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startStockReservationJob(): void {
+  const minutes = Number(env.STOCK_SWEEP_INTERVAL_MINUTES || 0);
+  if (!(minutes > 0) || timer) return;
+
+  const run = () =>
+    expireReservations()
+      .then(async (releasedOrderIds) => {
+        if (releasedOrderIds.length) {
+          console.log("Stock reservations expired:", { ordersReleased: releasedOrderIds.length });
+        }
+        await sendLowStockAlerts();
+      })
+      .catch((err) => console.error("Stock reservation sweep error:", err?.message || err));
+
+  run();
+  timer = setInterval(run, minutes * 60 * 1000);
+  timer.unref();
+}
+
+export function stopStockReservationJob(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,30 @@
+// src/jobs/upload-cleanup.ts
+import { env } from "../config/env";
+import { sweepOrphanedUploads } from "../lib/product-images";
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Remove product image files no product or gallery image points at any more
+ * (see sweepOrphanedUploads).
+ */
+export function startUploadCleanupJob(): void {
+  const minutes = Number(env.UPLOAD_CLEANUP_INTERVAL_MINUTES || 0);
+  if (!(minutes > 0) || timer) return;
+
+  const run = () =>
+    sweepOrphanedUploads()
+      .then((removed) => {
+        if (removed) console.log("Orphaned uploads removed:", { files: removed });
+      })
+      .catch((err) => console.error("Upload cleanup error:", err?.message || err));
+
+  run();
+  timer = setInterval(run, minutes * 60 * 1000);
+  timer.unref();
+}
+
+export function stopUploadCleanupJob(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
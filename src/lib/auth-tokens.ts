@@ -0,0 +1,155 @@
+// src/lib/auth-tokens.ts
+import { UserRole } from "@prisma/client";
+import jwt, { SignOptions } from "jsonwebtoken";
+import crypto from "crypto";
+import { env } from "../config/env";
+
+/**
+ * Typed JWT claims. Shoppers, admins and vendors share the signing secrets, so
+ * every token names who it is for in `aud` and what it is in `typ`, and every
+ * check says which audiences it accepts. Without that a shopper's `sub` would
+ * pass as a vendor id.
+ *
+ *   aud "user"   shopper access/refresh tokens
+ *   aud "admin"  access tokens of users whose role was ADMIN when issued
+ *   aud "vendor" vendor access/refresh tokens
+ *
+ * Between password and second factor a login holds only a challenge token
+ * (typ "2fa_challenge"), which no route accepts as an access token.
+ */
+
+export type TokenAudience = "user" | "admin" | "vendor";
+
+export type UserAccessClaims = {
+  typ: "access";
+  aud: "user" | "admin";
+  sub: string; // User.id
+  sid: string; // Session.id
+  role: UserRole;
+};
+
+export type VendorAccessClaims = {
+  typ: "access";
+  aud: "vendor";
+  sub: string; // Vendor.id
+  sid: string;
+  mid?: string; // VendorMember.id; absent for the account holder
+};
+
+export type AccessClaims = UserAccessClaims | VendorAccessClaims;
+
+export type RefreshClaims = {
+  typ: "refresh";
+  aud: "user" | "vendor"; // admins refresh as users; the role is re-read then
+  sub: string;
+  sid: string;
+};
+
+export type ChallengeClaims = {
+  typ: "2fa_challenge";
+  aud: "user" | "vendor";
+  sub: string; // User.id or Vendor.id
+  mid?: string; // VendorMember.id
+};
+
+const ALGORITHM = "HS256";
+const CHALLENGE_EXPIRES_IN = "5m";
+
+function isClaims(value: unknown): value is { typ: string; aud: string; sub: string; sid: string } {
+  const v = value as Record<string, unknown> | null;
+  return (
+    !!v &&
+    typeof v.typ === "string" &&
+    typeof v.aud === "string" &&
+    typeof v.sub === "string" &&
+    typeof v.sid === "string"
+  );
+}
+
+export function signAccessToken(claims: Omit<UserAccessClaims, "typ"> | Omit<VendorAccessClaims, "typ">): string {
+  const { aud, ...payload } = claims;
+  return jwt.sign({ ...payload, typ: "access" }, env.JWT_ACCESS_SECRET, {
+    algorithm: ALGORITHM,
+    audience: aud,
+    expiresIn: env.JWT_EXPIRES_IN as SignOptions["expiresIn"],
+  });
+}
+
+/**
+ * Signed refresh token plus its expiry. The jti makes every token unique,
+ * even two issued for the same session in the same second.
+ */
+export function signRefreshToken(claims: Omit<RefreshClaims, "typ">): { token: string; expiresAt: Date } {
+  const { aud, ...payload } = claims;
+  const token = jwt.sign({ ...payload, typ: "refresh" }, env.JWT_REFRESH_SECRET, {
+    algorithm: ALGORITHM,
+    audience: aud,
+    expiresIn: env.REFRESH_EXPIRES_IN as SignOptions["expiresIn"],
+    jwtid: crypto.randomBytes(16).toString("hex"),
+  });
+
+  const { exp } = jwt.decode(token) as { exp: number };
+  return { token, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * Claims of a valid access token for one of `audiences`, else null (bad
+ * signature, expired, refresh token, other audience, or missing claims).
+ */
+export function verifyAccessToken(
+  token: string,
+  audiences: [TokenAudience, ...TokenAudience[]]
+): AccessClaims | null {
+  try {
+    const claims = jwt.verify(token, env.JWT_ACCESS_SECRET, {
+      algorithms: [ALGORITHM],
+      audience: audiences,
+    });
+    if (!isClaims(claims) || claims.typ !== "access") return null;
+    if (claims.aud !== "vendor" && typeof (claims as { role?: unknown }).role !== "string") return null;
+    return claims as AccessClaims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Short-lived proof that the password was right; exchanged for a session
+ * once the second factor checks out.
+ */
+export function signChallengeToken(claims: Omit<ChallengeClaims, "typ">): string {
+  const { aud, ...payload } = claims;
+  return jwt.sign({ ...payload, typ: "2fa_challenge" }, env.JWT_ACCESS_SECRET, {
+    algorithm: ALGORITHM,
+    audience: aud,
+    expiresIn: CHALLENGE_EXPIRES_IN,
+    jwtid: crypto.randomBytes(16).toString("hex"),
+  });
+}
+
+export function verifyChallengeToken(token: string, audience: ChallengeClaims["aud"]): ChallengeClaims | null {
+  try {
+    const claims = jwt.verify(token, env.JWT_ACCESS_SECRET, {
+      algorithms: [ALGORITHM],
+      audience,
+    }) as Partial<ChallengeClaims>;
+    if (claims.typ !== "2fa_challenge" || typeof claims.sub !== "string") return null;
+    if (claims.mid !== undefined && typeof claims.mid !== "string") return null;
+    return claims as ChallengeClaims;
+  } catch {
+    return null;
+  }
+}
+
+export function verifyRefreshToken(token: string, audience: RefreshClaims["aud"]): RefreshClaims | null {
+  try {
+    const claims = jwt.verify(token, env.JWT_REFRESH_SECRET, {
+      algorithms: [ALGORITHM],
+      audience,
+    });
+    if (!isClaims(claims) || claims.typ !== "refresh") return null;
+    return claims as RefreshClaims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,183 @@
+// src/lib/categories.ts
+import { Category, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+
+/**
+ * Product taxonomy. Categories form a tree (parentId); products point at one
+ * node via Product.categoryId, and Product.category keeps a copy of the
+ * category name so older clients reading the free-text field still work.
+ */
+
+/**
+ * Category change refused; `statusCode` is what the route should answer with.
+ */
+export class CategoryError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "CategoryError";
+  }
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// -----------------------------
+// Validation (admin CRUD)
+// -----------------------------
+const categoryFields = {
+  name: z.string().trim().min(1).max(80),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug must be lower-case words separated by -")
+    .max(80)
+    .optional(),
+  description: z.string().max(1000).nullable().optional(),
+  imageUrl: z.string().url().nullable().optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  sortOrder: z.number().int().min(0).max(10000).optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const categoryCreateSchema = z.object(categoryFields);
+export const categoryUpdateSchema = z.object(categoryFields).partial();
+
+export function isDuplicateSlugError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Throws if `parentId` doesn't exist or would put `categoryId` under itself.
+ */
+export async function assertValidParent(categoryId: string | null, parentId: string | null): Promise<void> {
+  if (!parentId) return;
+  if (parentId === categoryId) {
+    throw new CategoryError("A category cannot be its own parent");
+  }
+
+  // Walk up from the new parent; meeting categoryId means a cycle
+  let current: string | null = parentId;
+  const seen = new Set<string>();
+  while (current) {
+    if (seen.has(current)) break;
+    seen.add(current);
+
+    const node: { parentId: string | null } | null = await prisma.category.findUnique({
+      where: { id: current },
+      select: { parentId: true },
+    });
+    if (!node) {
+      throw new CategoryError(current === parentId ? "Parent category not found" : "Category tree is inconsistent");
+    }
+    if (categoryId && node.parentId === categoryId) {
+      throw new CategoryError("A category cannot be moved under one of its own subcategories");
+    }
+    current = node.parentId;
+  }
+}
+
+// -----------------------------
+// Tree helpers
+// -----------------------------
+export type CategoryNode = Pick<
+  Category,
+  "id" | "name" | "slug" | "description" | "imageUrl" | "parentId" | "sortOrder"
+> & { productCount: number; children: CategoryNode[] };
+
+/**
+ * Nest a flat category list. Orphans (parent filtered out) become roots.
+ */
+export function buildCategoryTree(
+  rows: Omit<CategoryNode, "children" | "productCount">[],
+  productCounts: Map<string, number> = new Map()
+): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    rows.map((r) => [r.id, { ...r, productCount: productCounts.get(r.id) ?? 0, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sort = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    for (const n of list) {
+      sort(n.children);
+      // A parent's count includes everything underneath it
+      n.productCount += n.children.reduce((sum, c) => sum + c.productCount, 0);
+    }
+  };
+  sort(roots);
+
+  return roots;
+}
+
+/**
+ * Ids of the given categories and all their descendants.
+ */
+export async function categoryIdsWithDescendants(ids: string[]): Promise<string[]> {
+  if (!ids.length) return [];
+
+  const all = await prisma.category.findMany({ select: { id: true, parentId: true } });
+  const children = new Map<string, string[]>();
+  for (const c of all) {
+    if (!c.parentId) continue;
+    children.set(c.parentId, [...(children.get(c.parentId) ?? []), c.id]);
+  }
+
+  const result = new Set<string>();
+  const queue = [...ids];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    queue.push(...(children.get(id) ?? []));
+  }
+  return [...result];
+}
+
+/**
+ * Resolve what a vendor sent for a product's category: a categoryId, or a
+ * slug / exact name (case-insensitive) in `category` for older clients.
+ * Returns undefined when neither was sent and null to clear it.
+ */
+export async function resolveProductCategory(input: {
+  categoryId?: string | null;
+  category?: string | null;
+}): Promise<{ categoryId: string | null; category: string | null } | undefined> {
+  if (input.categoryId === undefined && input.category === undefined) return undefined;
+
+  const value = input.categoryId ?? input.category;
+  if (value === null || value === undefined || value.trim() === "") {
+    return { categoryId: null, category: null };
+  }
+
+  const found = await prisma.category.findFirst({
+    where: {
+      isActive: true,
+      OR:
+        input.categoryId !== undefined && input.categoryId !== null
+          ? [{ id: input.categoryId }]
+          : [
+              { slug: slugify(value) },
+              { name: { equals: value.trim(), mode: "insensitive" } },
+            ],
+    },
+    select: { id: true, name: true },
+  });
+
+  if (!found) {
+    throw new CategoryError(`Unknown category: ${value}. See GET /api/categories for the list.`);
+  }
+
+  return { categoryId: found.id, category: found.name };
+}
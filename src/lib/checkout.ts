@@ -0,0 +1,188 @@
+// src/lib/checkout.ts
+import { Prisma, PaymentStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { postOrderPaid } from "./ledger";
+import { applyOrderTransition } from "./order-lifecycle";
+import { commitOrderStock, releaseOrderStock } from "./inventory";
+import { releasePromotionRedemption, restorePromotionRedemption } from "./promotions";
+
+/**
+ * Something a shopper can pay for: either a legacy single order,
+ * or a checkout whose child orders (one per vendor) are paid together.
+ */
+export type Payable = {
+  orderId: string | null;
+  checkoutId: string | null;
+  referenceId: string; // id we hand to the provider as our reference
+  amount: number; // minor units of currency
+  currency: string;
+  paymentMethod: string;
+  paymentStatus: PaymentStatus;
+  isCancelled: boolean;
+  email: string | null;
+};
+
+/**
+ * Resolve what the user is paying for.
+ * An orderId that belongs to a checkout resolves to the whole checkout,
+ * because child orders share a single payment.
+ */
+export async function findPayableForUser(
+  userId: string,
+  ref: { orderId?: string; checkoutId?: string }
+): Promise<Payable | null> {
+  let checkoutId = ref.checkoutId;
+
+  if (!checkoutId && ref.orderId) {
+    const order = await prisma.order.findFirst({
+      where: { id: ref.orderId, userId },
+      select: {
+        id: true,
+        checkoutId: true,
+        totalAmount: true,
+        currency: true,
+        paymentMethod: true,
+        paymentStatus: true,
+        status: true,
+        user: { select: { email: true } },
+      },
+    });
+
+    if (!order) return null;
+
+    if (!order.checkoutId) {
+      return {
+        orderId: order.id,
+        checkoutId: null,
+        referenceId: order.id,
+        amount: order.totalAmount,
+        currency: order.currency,
+        paymentMethod: order.paymentMethod,
+        paymentStatus: order.paymentStatus,
+        isCancelled: order.status === "CANCELLED",
+        email: order.user?.email ?? null,
+      };
+    }
+
+    checkoutId = order.checkoutId;
+  }
+
+  if (!checkoutId) return null;
+
+  const checkout = await prisma.checkout.findFirst({
+    where: { id: checkoutId, userId },
+    select: {
+      id: true,
+      totalAmount: true,
+      currency: true,
+      paymentMethod: true,
+      paymentStatus: true,
+      orders: { select: { status: true } },
+      user: { select: { email: true } },
+    },
+  });
+
+  if (!checkout) return null;
+
+  return {
+    orderId: null,
+    checkoutId: checkout.id,
+    referenceId: checkout.id,
+    amount: checkout.totalAmount,
+    currency: checkout.currency,
+    paymentMethod: checkout.paymentMethod,
+    paymentStatus: checkout.paymentStatus,
+    isCancelled:
+      checkout.orders.length > 0 &&
+      checkout.orders.every((o) => o.status === "CANCELLED"),
+    email: checkout.user?.email ?? null,
+  };
+}
+
+// A provider-confirmed capture also overrides an earlier failure
+const SETTLEABLE_FROM: Record<"PAID" | "FAILED", PaymentStatus[]> = {
+  PAID: ["PENDING", "FAILED"],
+  FAILED: ["PENDING"],
+};
+
+/**
+ * Settle a payment and propagate the result to every order it covers.
+ * Must run inside a transaction so payment, orders and checkout stay in sync.
+ * Returns false (and changes nothing) when the payment was already settled,
+ * e.g. by a webhook and the reconciliation job racing each other.
+ */
+export async function applyPaymentResult(
+  tx: Prisma.TransactionClient,
+  payment: { id: string; orderId: string | null; checkoutId: string | null },
+  status: "PAID" | "FAILED",
+  rawResponse: Prisma.InputJsonValue
+): Promise<boolean> {
+  const claimed = await tx.payment.updateMany({
+    where: { id: payment.id, status: { in: SETTLEABLE_FROM[status] } },
+    data: { status, rawResponse },
+  });
+  if (claimed.count === 0) return false;
+
+  // Never fall through to an empty filter (that would match every order)
+  if (!payment.checkoutId && !payment.orderId) return true;
+
+  const orderWhere: Prisma.OrderWhereInput = payment.checkoutId
+    ? { checkoutId: payment.checkoutId }
+    : { id: payment.orderId! };
+
+  await tx.order.updateMany({
+    where: orderWhere,
+    data: { paymentStatus: status },
+  });
+
+  // ✅ if payment is successful, move pending orders forward
+  if (status === "PAID") {
+    // A code given back when an earlier attempt failed counts again (before
+    // any out-of-stock cancel below, which gives it back for good)
+    if (payment.checkoutId) {
+      await restorePromotionRedemption(tx, payment.checkoutId);
+    }
+
+    const pending = await tx.order.findMany({
+      where: { ...orderWhere, status: "PENDING" },
+      select: { id: true, status: true, paymentStatus: true },
+    });
+    for (const order of pending) {
+      // Stock ran out after the hold lapsed: cancel, refundCancelledOrders pays it back
+      if (!(await commitOrderStock(tx, order.id))) {
+        await applyOrderTransition(tx, order, "CANCELLED", { actor: "system", note: "Out of stock" });
+        continue;
+      }
+      await applyOrderTransition(tx, order, "ACCEPTED", { actor: "system", note: "Payment received" });
+    }
+
+    // Credit each vendor (minus commission) in the settlement ledger
+    const paidOrders = await tx.order.findMany({ where: orderWhere, select: { id: true } });
+    for (const order of paidOrders) {
+      await postOrderPaid(tx, order.id);
+    }
+  }
+
+  // Let go of held stock; a retried payment reserves again in commitOrderStock
+  if (status === "FAILED") {
+    const unpaid = await tx.order.findMany({
+      where: { ...orderWhere, status: "PENDING" },
+      select: { id: true },
+    });
+    for (const order of unpaid) {
+      await releaseOrderStock(tx, order.id, "Payment failed");
+    }
+    if (payment.checkoutId) {
+      await releasePromotionRedemption(tx, payment.checkoutId);
+    }
+  }
+
+  if (payment.checkoutId) {
+    await tx.checkout.update({
+      where: { id: payment.checkoutId },
+      data: { paymentStatus: status },
+    });
+  }
+
+  return true;
+}
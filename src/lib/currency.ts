@@ -0,0 +1,65 @@
+// src/lib/currency.ts
+
+/**
+ * Currencies we can price orders in.
+ * minorUnits = number of decimal places (NGN kobo = 2, XOF has none).
+ * All Order/Payment amounts are stored as integers in these minor units.
+ */
+export const CURRENCIES = {
+  USD: { code: "USD", name: "US Dollar", symbol: "$", minorUnits: 2 },
+  NGN: { code: "NGN", name: "Nigerian Naira", symbol: "₦", minorUnits: 2 },
+  GHS: { code: "GHS", name: "Ghanaian Cedi", symbol: "GH₵", minorUnits: 2 },
+  KES: { code: "KES", name: "Kenyan Shilling", symbol: "KSh", minorUnits: 2 },
+  ZAR: { code: "ZAR", name: "South African Rand", symbol: "R", minorUnits: 2 },
+  XOF: { code: "XOF", name: "West African CFA Franc", symbol: "CFA", minorUnits: 0 },
+  GBP: { code: "GBP", name: "British Pound", symbol: "£", minorUnits: 2 },
+  EUR: { code: "EUR", name: "Euro", symbol: "€", minorUnits: 2 },
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCIES;
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+// Product prices are always stored in USD cents
+export const BASE_CURRENCY: CurrencyCode = "USD";
+
+export type PaymentMethod = "paypal" | "paystack" | "fake";
+
+// What each provider can actually settle in (first entry = default)
+export const PAYMENT_METHOD_CURRENCIES: Record<PaymentMethod, CurrencyCode[]> = {
+  paypal: ["USD", "EUR", "GBP"],
+  paystack: ["NGN", "GHS", "KES", "ZAR", "XOF", "USD"],
+  fake: ["USD", "NGN", "GHS", "KES", "ZAR", "XOF", "GBP", "EUR"], // offline testing only
+};
+
+export function isCurrencyCode(code: string): code is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(CURRENCIES, code);
+}
+
+export function minorUnitsOf(code: CurrencyCode): number {
+  return CURRENCIES[code].minorUnits;
+}
+
+export function defaultCurrencyFor(method: PaymentMethod): CurrencyCode {
+  return PAYMENT_METHOD_CURRENCIES[method][0];
+}
+
+export function isSupportedBy(method: PaymentMethod, code: CurrencyCode): boolean {
+  return PAYMENT_METHOD_CURRENCIES[method].includes(code);
+}
+
+/**
+ * USD cents -> minor units of `currency`, using `rate` units of currency per 1 USD.
+ */
+export function convertUsdCents(usdCents: number, currency: CurrencyCode, rate: number): number {
+  const major = (Number(usdCents || 0) / 100) * Number(rate || 0);
+  return Math.round(major * 10 ** minorUnitsOf(currency));
+}
+
+/**
+ * Minor units -> decimal string for providers that want major units (e.g. PayPal "12.50").
+ */
+export function formatMajor(amountMinor: number, currency: CurrencyCode): string {
+  const digits = minorUnitsOf(currency);
+  return (Number(amountMinor || 0) / 10 ** digits).toFixed(digits);
+}
@@ -0,0 +1,91 @@
+// src/lib/fx-providers.ts
+import axios from "axios";
+import fs from "fs/promises";
+import { env } from "../config/env";
+
+/**
+ * A source of USD -> NGN rates.
+ * fetchUsdNgnRate() resolves to null when the source has nothing to offer
+ * (manual mode), in which case we keep the current rate.
+ */
+export interface FxRateProvider {
+  name: string;
+  fetchUsdNgnRate(): Promise<number | null>;
+}
+
+function toRate(value: unknown): number | null {
+  const r = Number(value);
+  return Number.isFinite(r) && r > 0 ? r : null;
+}
+
+// Read "data.rates.NGN" style dotted paths out of a JSON document
+function pick(obj: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), obj);
+}
+
+/**
+ * Manual: admins set the rate through PATCH /api/admin/fx/usd-ngn, and that
+ * rate is the only source of truth. There is nothing to fetch.
+ */
+export function createManualProvider(): FxRateProvider {
+  return {
+    name: "manual",
+    async fetchUsdNgnRate() {
+      return null;
+    },
+  };
+}
+
+/**
+ * JSON feed: http(s) URL or a local file path.
+ */
+export function createFeedProvider(source: string, ratePath: string): FxRateProvider {
+  return {
+    name: "feed",
+    async fetchUsdNgnRate() {
+      let body: unknown;
+
+      if (/^https?:\/\//i.test(source)) {
+        const response = await axios.get(source, { timeout: 10_000 });
+        body = response.data;
+      } else {
+        const file = source.replace(/^file:\/\//i, "");
+        body = JSON.parse(await fs.readFile(file, "utf8"));
+      }
+
+      const rate = toRate(pick(body, ratePath));
+      if (rate === null) {
+        throw new Error(`FX feed has no valid rate at "${ratePath}"`);
+      }
+      return rate;
+    },
+  };
+}
+
+/**
+ * Fixed stub: always returns the same rate (tests / local dev).
+ */
+export function createFixedProvider(rate: number): FxRateProvider {
+  return {
+    name: "fixed",
+    async fetchUsdNgnRate() {
+      return toRate(rate);
+    },
+  };
+}
+
+export function createFxProviderFromEnv(): FxRateProvider {
+  switch (env.FX_PROVIDER) {
+    case "feed":
+      if (!env.FX_FEED_URL) throw new Error("FX_FEED_URL is required when FX_PROVIDER=feed");
+      return createFeedProvider(env.FX_FEED_URL, env.FX_FEED_RATE_PATH);
+    case "fixed":
+      if (!toRate(env.FX_FIXED_RATE)) throw new Error("FX_FIXED_RATE is required when FX_PROVIDER=fixed");
+      return createFixedProvider(Number(env.FX_FIXED_RATE));
+    default:
+      return createManualProvider();
+  }
+}
@@ -1,24 +1,227 @@
 // src/lib/fx.ts
 import { prisma } from "./prisma";
 import { Prisma } from "@prisma/client";
+import { env } from "../config/env";
+import { CURRENCY_CODES, CurrencyCode } from "./currency";
 
-const FX_KEY = "USD_NGN_RATE";
-const DEFAULT_RATE = 1600;
+// AppSetting key holding "units of <currency> per 1 USD"
+export function fxKey(currency: CurrencyCode): string {
+  return `USD_${currency}_RATE`;
+}
+
+export const FX_KEY = fxKey("NGN");
+
+function defaultRate(): number {
+  const r = Number(env.FX_DEFAULT_RATE || 0);
+  return r > 0 ? r : 1600;
+}
 
 export async function getUsdNgnRate(): Promise<number> {
   const row = await prisma.appSetting.findUnique({ where: { key: FX_KEY } });
   const rate = row ? Number(row.value) : 0;
-  return rate > 0 ? rate : DEFAULT_RATE;
+  return rate > 0 ? rate : defaultRate();
+}
+
+/**
+ * Current rate plus when it was last changed (null if never set).
+ */
+export async function getUsdNgnRateInfo(): Promise<{ rate: number; updatedAt: Date | null }> {
+  const row = await prisma.appSetting.findUnique({
+    where: { key: FX_KEY },
+    select: { value: true, updatedAt: true },
+  });
+  const rate = row ? Number(row.value) : 0;
+  return {
+    rate: rate > 0 ? rate : defaultRate(),
+    updatedAt: row?.updatedAt ?? null,
+  };
 }
 
-export async function setUsdNgnRate(rate: number): Promise<void> {
+type RateChangeMeta = {
+  changedById?: string | null;
+  source?: string;
+  note?: string | null;
+};
+
+function assertValidRate(rate: number): number {
   const r = Number(rate || 0);
   if (!Number.isFinite(r) || r <= 0) throw new Error("Invalid FX rate");
+  return r;
+}
 
-  await prisma.appSetting.upsert({
-    where: { key: FX_KEY },
-    update: { value: new Prisma.Decimal(r) },
-    create: { key: FX_KEY, value: new Prisma.Decimal(r) },
+/**
+ * Save the rate and append an FxRate history row in the same transaction.
+ */
+export async function setUsdNgnRate(rate: number, meta: RateChangeMeta = {}): Promise<void> {
+  return setUsdRate("NGN", rate, meta);
+}
+
+/**
+ * Units of `currency` per 1 USD, or null when no rate has been configured.
+ * USD is always 1; NGN falls back to the default rate like getUsdNgnRate().
+ */
+export async function getUsdRate(currency: CurrencyCode): Promise<number | null> {
+  if (currency === "USD") return 1;
+  if (currency === "NGN") return getUsdNgnRate();
+
+  const row = await prisma.appSetting.findUnique({ where: { key: fxKey(currency) } });
+  const rate = row ? Number(row.value) : 0;
+  return rate > 0 ? rate : null;
+}
+
+/**
+ * Every registry currency with its current USD rate (null = not configured yet).
+ */
+export async function getUsdRates(): Promise<
+  { currency: CurrencyCode; rate: number | null; updatedAt: Date | null }[]
+> {
+  const rows = await prisma.appSetting.findMany({
+    where: { key: { in: CURRENCY_CODES.map(fxKey) } },
+    select: { key: true, value: true, updatedAt: true },
+  });
+  const byKey = new Map(rows.map((r) => [r.key, r]));
+
+  return CURRENCY_CODES.map((currency) => {
+    if (currency === "USD") return { currency, rate: 1, updatedAt: null };
+
+    const row = byKey.get(fxKey(currency));
+    const rate = row ? Number(row.value) : 0;
+
+    return {
+      currency,
+      rate: rate > 0 ? rate : currency === "NGN" ? defaultRate() : null,
+      updatedAt: row?.updatedAt ?? null,
+    };
+  });
+}
+
+/**
+ * Generic version of setUsdNgnRate() for any registry currency.
+ */
+export async function setUsdRate(
+  currency: CurrencyCode,
+  rate: number,
+  meta: RateChangeMeta = {}
+): Promise<void> {
+  if (currency === "USD") throw new Error("USD rate is fixed at 1");
+
+  const r = assertValidRate(rate);
+  const key = fxKey(currency);
+
+  await prisma.$transaction(async (tx) => {
+    const previous = await tx.appSetting.findUnique({ where: { key } });
+
+    await tx.appSetting.upsert({
+      where: { key },
+      update: { value: new Prisma.Decimal(r) },
+      create: { key, value: new Prisma.Decimal(r) },
+    });
+
+    await tx.fxRate.create({
+      data: {
+        key,
+        rate: new Prisma.Decimal(r),
+        previousRate: previous?.value ?? null,
+        source: meta.source ?? "admin",
+        changedById: meta.changedById ?? null,
+        note: meta.note ?? null,
+      },
+    });
+  });
+}
+
+/**
+ * Percentage move from the current rate to the next one (always positive).
+ */
+export function driftPercent(current: number, next: number): number {
+  if (!(current > 0)) return 0;
+  return (Math.abs(next - current) / current) * 100;
+}
+
+/**
+ * Record a rate that needs admin confirmation before it goes live.
+ * Any older pending proposal is superseded by the new one, unless it already
+ * proposes this rate, in which case it is returned as is.
+ */
+export async function proposeUsdNgnRate(
+  rate: number,
+  meta: RateChangeMeta & { driftPercent: number }
+) {
+  const r = assertValidRate(rate);
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.appSetting.findUnique({ where: { key: FX_KEY } });
+
+    const pending = await tx.fxRate.findFirst({
+      where: { key: FX_KEY, status: "PENDING_CONFIRMATION" },
+      orderBy: { createdAt: "desc" },
+    });
+    if (pending && Number(pending.rate) === r) return pending;
+
+    await tx.fxRate.updateMany({
+      where: { key: FX_KEY, status: "PENDING_CONFIRMATION" },
+      data: { status: "SUPERSEDED" },
+    });
+
+    return tx.fxRate.create({
+      data: {
+        key: FX_KEY,
+        rate: new Prisma.Decimal(r),
+        previousRate: current?.value ?? null,
+        status: "PENDING_CONFIRMATION",
+        source: meta.source ?? "feed",
+        changedById: meta.changedById ?? null,
+        note: meta.note ?? null,
+        driftPercent: new Prisma.Decimal(meta.driftPercent.toFixed(4)),
+      },
+    });
+  });
+}
+
+/**
+ * Approve or reject a pending proposal. Approval makes it the live rate.
+ * Returns null when the proposal does not exist or is no longer pending.
+ */
+export async function reviewPendingUsdNgnRate(
+  id: string,
+  decision: "confirm" | "reject",
+  reviewedById: string
+) {
+  return prisma.$transaction(async (tx) => {
+    const pending = await tx.fxRate.findFirst({
+      where: { id, key: FX_KEY, status: "PENDING_CONFIRMATION" },
+    });
+
+    if (!pending) return null;
+
+    if (decision === "confirm") {
+      const current = await tx.appSetting.findUnique({ where: { key: FX_KEY } });
+
+      await tx.appSetting.upsert({
+        where: { key: FX_KEY },
+        update: { value: pending.rate },
+        create: { key: FX_KEY, value: pending.rate },
+      });
+
+      return tx.fxRate.update({
+        where: { id: pending.id },
+        data: {
+          status: "APPLIED",
+          previousRate: current?.value ?? null,
+          reviewedById,
+          reviewedAt: new Date(),
+        },
+      });
+    }
+
+    return tx.fxRate.update({
+      where: { id: pending.id },
+      data: {
+        status: "REJECTED",
+        reviewedById,
+        reviewedAt: new Date(),
+      },
+    });
   });
 }
 
@@ -0,0 +1,520 @@
+// src/lib/inventory.ts
+import { Prisma, StockReservationStatus } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "./prisma";
+import { getLowStockEmailHtml, sendEmail } from "../services/email";
+
+/**
+ * Product stock.
+ *
+ *   available = stockQuantity - reservedQuantity
+ *
+ *   reserve   reserved += q              (unpaid order / accepted barter)     ACTIVE
+ *   commit    stock -= q, reserved -= q  (payment captured / barter fulfilled) COMMITTED
+ *   release   reserved -= q              (failed / cancelled / expired)       RELEASED
+ *             stock += q if it was already committed (restock)
+ *
+ * Products with stockQuantity = null are not tracked and never run out.
+ * A line for a product variant draws on the variant's own stock instead.
+ * Anything whose available stock hits 0 is hidden (isAvailable = false,
+ * soldOutAt set) and shown again automatically once it is restocked.
+ */
+
+export type StockLine = { productId: string; variantId?: string | null; quantity: number };
+
+/**
+ * Not enough stock; `statusCode` is what the route should answer with.
+ */
+export class InventoryError extends Error {
+  constructor(message: string, public statusCode = 409, public productId?: string) {
+    super(message);
+    this.name = "InventoryError";
+  }
+}
+
+// Stock lives on the variant when one is chosen, else on the product
+type StockRef = { productId: string; variantId: string | null };
+
+const lineKey = (l: StockRef) => `${l.productId}:${l.variantId ?? ""}`;
+
+function stockTable(ref: StockRef) {
+  return ref.variantId ? Prisma.sql`"ProductVariant"` : Prisma.sql`"Product"`;
+}
+
+// One line per product/variant, in a fixed order so concurrent reservations lock rows the same way
+function mergeLines(lines: StockLine[]): (StockRef & { quantity: number })[] {
+  const totals = new Map<string, StockRef & { quantity: number }>();
+  for (const line of lines) {
+    const ref = { productId: line.productId, variantId: line.variantId ?? null };
+    const current = totals.get(lineKey(ref));
+    totals.set(lineKey(ref), { ...ref, quantity: (current?.quantity ?? 0) + line.quantity });
+  }
+  return [...totals.values()]
+    .filter((l) => l.quantity > 0)
+    .sort((a, b) => lineKey(a).localeCompare(lineKey(b)));
+}
+
+type StockLevel = StockRef & {
+  name: string;
+  stockQuantity: number | null;
+  reservedQuantity: number;
+};
+
+// Current stock for each line, keyed by lineKey
+async function stockLevels(db: Prisma.TransactionClient, refs: StockRef[]): Promise<Map<string, StockLevel>> {
+  const productIds = refs.filter((r) => !r.variantId).map((r) => r.productId);
+  const variantIds = refs.filter((r) => r.variantId).map((r) => r.variantId!);
+
+  const [products, variants] = await Promise.all([
+    productIds.length
+      ? db.product.findMany({
+          where: { id: { in: productIds } },
+          select: { id: true, name: true, stockQuantity: true, reservedQuantity: true },
+        })
+      : [],
+    variantIds.length
+      ? db.productVariant.findMany({
+          where: { id: { in: variantIds } },
+          select: {
+            id: true,
+            productId: true,
+            name: true,
+            stockQuantity: true,
+            reservedQuantity: true,
+            product: { select: { name: true } },
+          },
+        })
+      : [],
+  ]);
+
+  const levels = new Map<string, StockLevel>();
+  for (const p of products) {
+    const ref = { productId: p.id, variantId: null };
+    levels.set(lineKey(ref), { ...ref, name: p.name, stockQuantity: p.stockQuantity, reservedQuantity: p.reservedQuantity });
+  }
+  for (const v of variants) {
+    const ref = { productId: v.productId, variantId: v.id };
+    levels.set(lineKey(ref), {
+      ...ref,
+      name: `${v.product.name} (${v.name})`,
+      stockQuantity: v.stockQuantity,
+      reservedQuantity: v.reservedQuantity,
+    });
+  }
+  return levels;
+}
+
+/**
+ * First line that can't be covered by current available stock, without holding anything.
+ */
+export async function stockShortage(
+  db: Prisma.TransactionClient,
+  lines: StockLine[]
+): Promise<{ productId: string; variantId: string | null; name: string; available: number; requested: number } | null> {
+  const merged = mergeLines(lines);
+  if (!merged.length) return null;
+
+  const levels = await stockLevels(db, merged);
+
+  for (const line of merged) {
+    const level = levels.get(lineKey(line));
+    if (!level || level.stockQuantity === null) continue;
+    const available = Math.max(0, level.stockQuantity - level.reservedQuantity);
+    if (available < line.quantity) {
+      return { ...line, name: level.name, available, requested: line.quantity };
+    }
+  }
+  return null;
+}
+
+/**
+ * Hold stock for an order or barter. Throws InventoryError (409) if any
+ * tracked product is short; the caller's transaction then rolls everything back.
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  lines: StockLine[],
+  holder: { orderId?: string; barterOfferId?: string; expiresAt?: Date | null }
+): Promise<void> {
+  const merged = mergeLines(lines);
+  if (!merged.length) return;
+
+  const levels = await stockLevels(tx, merged);
+  const reserved: StockRef[] = [];
+
+  for (const line of merged) {
+    const level = levels.get(lineKey(line));
+    if (!level || level.stockQuantity === null) continue;
+
+    // Conditional increment; the row lock makes this safe against concurrent checkouts
+    const updated = await tx.$executeRaw`
+      UPDATE ${stockTable(line)}
+      SET "reservedQuantity" = "reservedQuantity" + ${line.quantity}, "updatedAt" = NOW()
+      WHERE "id" = ${line.variantId ?? line.productId}
+        AND "stockQuantity" IS NOT NULL
+        AND "stockQuantity" - "reservedQuantity" >= ${line.quantity}
+    `;
+
+    if (updated === 0) {
+      const current = (await stockLevels(tx, [line])).get(lineKey(line));
+      const available = Math.max(0, (current?.stockQuantity ?? 0) - (current?.reservedQuantity ?? 0));
+      throw new InventoryError(
+        available > 0 ? `Only ${available} left of ${level.name}` : `${level.name} is out of stock`,
+        409,
+        line.productId
+      );
+    }
+
+    await tx.stockReservation.create({
+      data: {
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        orderId: holder.orderId ?? null,
+        barterOfferId: holder.barterOfferId ?? null,
+        expiresAt: holder.expiresAt ?? null,
+      },
+    });
+    reserved.push(line);
+  }
+
+  await syncStockFlagsFor(tx, reserved);
+}
+
+/**
+ * Turn ACTIVE reservations into sold stock.
+ */
+async function commitReservations(
+  tx: Prisma.TransactionClient,
+  where: Prisma.StockReservationWhereInput
+): Promise<number> {
+  const reservations = await tx.stockReservation.findMany({
+    where: { ...where, status: "ACTIVE" },
+    orderBy: [{ productId: "asc" }, { variantId: "asc" }],
+  });
+
+  const committed: typeof reservations = [];
+  for (const r of reservations) {
+    // Skip a hold the expiry sweep released meanwhile
+    const claimed = await tx.stockReservation.updateMany({
+      where: { id: r.id, status: "ACTIVE" },
+      data: { status: "COMMITTED" },
+    });
+    if (claimed.count === 0) continue;
+    committed.push(r);
+
+    await tx.$executeRaw`
+      UPDATE ${stockTable(r)}
+      SET "stockQuantity" = GREATEST("stockQuantity" - ${r.quantity}, 0),
+          "reservedQuantity" = GREATEST("reservedQuantity" - ${r.quantity}, 0),
+          "updatedAt" = NOW()
+      WHERE "id" = ${r.variantId ?? r.productId} AND "stockQuantity" IS NOT NULL
+    `;
+  }
+
+  await syncStockFlagsFor(tx, committed);
+  return committed.length;
+}
+
+/**
+ * Give stock back. ACTIVE holds are dropped; COMMITTED ones are restocked.
+ */
+async function releaseReservations(
+  tx: Prisma.TransactionClient,
+  where: Prisma.StockReservationWhereInput,
+  reason: string,
+  statuses: StockReservationStatus[] = ["ACTIVE", "COMMITTED"]
+): Promise<number> {
+  const reservations = await tx.stockReservation.findMany({
+    where: { ...where, status: { in: statuses } },
+    orderBy: [{ productId: "asc" }, { variantId: "asc" }],
+  });
+
+  const released: typeof reservations = [];
+  for (const r of reservations) {
+    // Claim the row first: a payment committing the same hold may race us
+    const claimed = await tx.stockReservation.updateMany({
+      where: { id: r.id, status: r.status },
+      data: { status: "RELEASED", releaseReason: reason },
+    });
+    if (claimed.count === 0) continue;
+    released.push(r);
+
+    if (r.status === "ACTIVE") {
+      await tx.$executeRaw`
+        UPDATE ${stockTable(r)}
+        SET "reservedQuantity" = GREATEST("reservedQuantity" - ${r.quantity}, 0), "updatedAt" = NOW()
+        WHERE "id" = ${r.variantId ?? r.productId}
+      `;
+    } else {
+      await tx.$executeRaw`
+        UPDATE ${stockTable(r)}
+        SET "stockQuantity" = "stockQuantity" + ${r.quantity}, "updatedAt" = NOW()
+        WHERE "id" = ${r.variantId ?? r.productId} AND "stockQuantity" IS NOT NULL
+      `;
+    }
+  }
+
+  await syncStockFlagsFor(tx, released);
+  return released.length;
+}
+
+// -----------------------------
+// Orders
+// -----------------------------
+
+// Commit and expiry both take this, so a hold is never half committed
+async function lockOrder(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+}
+
+/**
+ * Payment captured: take the order's items out of stock.
+ * If its hold already lapsed, try to reserve again; returns false when the
+ * stock is gone so the caller can cancel (and refund) the order instead.
+ */
+export async function commitOrderStock(tx: Prisma.TransactionClient, orderId: string): Promise<boolean> {
+  await lockOrder(tx, orderId);
+  const held = await tx.stockReservation.groupBy({
+    by: ["status"],
+    where: { orderId },
+    _count: { _all: true },
+  });
+  const count = (status: string) => held.find((h) => h.status === status)?._count._all ?? 0;
+
+  if (count("COMMITTED") > 0) return true;
+
+  if (count("ACTIVE") === 0) {
+    const items = await tx.orderItem.findMany({
+      where: { orderId },
+      select: { productId: true, variantId: true, quantity: true },
+    });
+    try {
+      await reserveStock(tx, items, { orderId });
+    } catch (e) {
+      if (e instanceof InventoryError) return false;
+      throw e;
+    }
+  }
+
+  await commitReservations(tx, { orderId });
+  return true;
+}
+
+export async function releaseOrderStock(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  return releaseReservations(tx, { orderId }, reason);
+}
+
+/**
+ * Drop an order's ACTIVE holds that ran out. The order is left as it is.
+ */
+export async function releaseExpiredOrderStock(tx: Prisma.TransactionClient, orderId: string): Promise<number> {
+  await lockOrder(tx, orderId);
+  return releaseReservations(tx, { orderId, expiresAt: { lt: new Date() } }, "Reservation expired", ["ACTIVE"]);
+}
+
+// -----------------------------
+// Barter
+// -----------------------------
+
+export async function commitBarterStock(
+  tx: Prisma.TransactionClient,
+  barterOfferId: string,
+  productIds?: string[]
+): Promise<number> {
+  return commitReservations(tx, {
+    barterOfferId,
+    ...(productIds ? { productId: { in: productIds } } : {}),
+  });
+}
+
+export async function releaseBarterStock(
+  tx: Prisma.TransactionClient,
+  barterOfferId: string,
+  reason: string
+): Promise<number> {
+  // Goods already handed over in a fulfilled leg are not put back
+  return releaseReservations(tx, { barterOfferId }, reason, ["ACTIVE"]);
+}
+
+/**
+ * Settle held barter stock for an offer that reached a final status
+ * (admin resolution or override). Other statuses leave the holds alone.
+ */
+export async function settleBarterStock(
+  tx: Prisma.TransactionClient,
+  barterOfferId: string,
+  status: string
+): Promise<void> {
+  if (status === "COMPLETED") {
+    await commitBarterStock(tx, barterOfferId);
+  } else if (status === "CANCELLED" || status === "REJECTED") {
+    await releaseBarterStock(tx, barterOfferId, `Barter ${status.toLowerCase()}`);
+  }
+}
+
+// -----------------------------
+// Availability + alerts
+// -----------------------------
+
+type StockFlags = {
+  stockQuantity: number | null;
+  reservedQuantity: number;
+  lowStockThreshold: number | null;
+  lowStockAlertedAt: Date | null;
+  isAvailable: boolean;
+  soldOutAt: Date | null;
+};
+
+// Field changes that bring a product/variant's flags in line with its stock
+function stockFlagChanges(row: StockFlags) {
+  const data: { isAvailable?: boolean; soldOutAt?: Date | null; lowStockAlertedAt?: null } = {};
+
+  if (row.stockQuantity === null) {
+    // Tracking switched off: undo anything stock did
+    if (row.soldOutAt) Object.assign(data, { isAvailable: true, soldOutAt: null });
+    if (row.lowStockAlertedAt) data.lowStockAlertedAt = null;
+    return data;
+  }
+
+  const available = row.stockQuantity - row.reservedQuantity;
+  const threshold = row.lowStockThreshold ?? Number(env.LOW_STOCK_THRESHOLD || 0);
+
+  if (available <= 0 && row.isAvailable) {
+    Object.assign(data, { isAvailable: false, soldOutAt: new Date() });
+  } else if (available > 0 && row.soldOutAt) {
+    Object.assign(data, { isAvailable: true, soldOutAt: null });
+  }
+
+  if (available > threshold && row.lowStockAlertedAt) {
+    data.lowStockAlertedAt = null;
+  }
+
+  return data;
+}
+
+const stockFlagSelect = {
+  id: true,
+  stockQuantity: true,
+  reservedQuantity: true,
+  lowStockThreshold: true,
+  lowStockAlertedAt: true,
+  isAvailable: true,
+  soldOutAt: true,
+} as const;
+
+/**
+ * Hide sold-out products and variants, bring back restocked ones we hid, and
+ * re-arm the low-stock alert once stock is back above the threshold. Anything
+ * the vendor switched off by hand (soldOutAt null) stays off.
+ */
+export async function syncStockFlags(
+  tx: Prisma.TransactionClient,
+  productIds: string[],
+  variantIds: string[] = []
+): Promise<void> {
+  const pIds = [...new Set(productIds)];
+  const vIds = [...new Set(variantIds)];
+
+  if (pIds.length) {
+    const products = await tx.product.findMany({ where: { id: { in: pIds } }, select: stockFlagSelect });
+    for (const p of products) {
+      const data = stockFlagChanges(p);
+      if (Object.keys(data).length) await tx.product.update({ where: { id: p.id }, data });
+    }
+  }
+
+  if (vIds.length) {
+    const variants = await tx.productVariant.findMany({ where: { id: { in: vIds } }, select: stockFlagSelect });
+    for (const v of variants) {
+      const data = stockFlagChanges(v);
+      if (Object.keys(data).length) await tx.productVariant.update({ where: { id: v.id }, data });
+    }
+  }
+}
+
+function syncStockFlagsFor(tx: Prisma.TransactionClient, refs: { productId: string; variantId: string | null }[]) {
+  return syncStockFlags(
+    tx,
+    refs.filter((r) => !r.variantId).map((r) => r.productId),
+    refs.filter((r) => r.variantId).map((r) => r.variantId!)
+  );
+}
+
+type LowStockRow = { kind: "product" | "variant"; id: string; name: string; available: number; vendorId: string };
+
+/**
+ * Email each vendor a single digest of products and variants that dropped to
+ * their low-stock threshold since the last alert. Safe to run repeatedly.
+ */
+export async function sendLowStockAlerts(): Promise<number> {
+  const fallback = Number(env.LOW_STOCK_THRESHOLD || 0);
+
+  const low = await prisma.$queryRaw<LowStockRow[]>`
+    SELECT 'product' AS "kind", p."id", p."name",
+           GREATEST(p."stockQuantity" - p."reservedQuantity", 0)::int AS "available", p."vendorId"
+    FROM "Product" p
+    WHERE p."stockQuantity" IS NOT NULL
+      AND p."isDeleted" = false
+      AND p."lowStockAlertedAt" IS NULL
+      AND p."stockQuantity" - p."reservedQuantity" <= COALESCE(p."lowStockThreshold", ${fallback})
+    UNION ALL
+    SELECT 'variant' AS "kind", v."id", p."name" || ' (' || v."name" || ')',
+           GREATEST(v."stockQuantity" - v."reservedQuantity", 0)::int, v."vendorId"
+    FROM "ProductVariant" v JOIN "Product" p ON p."id" = v."productId"
+    WHERE v."stockQuantity" IS NOT NULL
+      AND v."isDeleted" = false
+      AND p."isDeleted" = false
+      AND v."lowStockAlertedAt" IS NULL
+      AND v."stockQuantity" - v."reservedQuantity" <= COALESCE(v."lowStockThreshold", ${fallback})
+    LIMIT 500
+  `;
+  if (!low.length) return 0;
+
+  const byVendor = new Map<string, LowStockRow[]>();
+  for (const row of low) {
+    byVendor.set(row.vendorId, [...(byVendor.get(row.vendorId) ?? []), row]);
+  }
+
+  const vendors = await prisma.vendor.findMany({
+    where: { id: { in: [...byVendor.keys()] } },
+    select: { id: true, email: true, businessName: true },
+  });
+
+  let sent = 0;
+  for (const vendor of vendors) {
+    const group = byVendor.get(vendor.id)!;
+    const ids = (kind: LowStockRow["kind"]) => group.filter((r) => r.kind === kind).map((r) => r.id);
+
+    // Mark first so a slow mail provider can't cause a second alert
+    const alertedAt = new Date();
+    await prisma.product.updateMany({
+      where: { id: { in: ids("product") }, lowStockAlertedAt: null },
+      data: { lowStockAlertedAt: alertedAt },
+    });
+    await prisma.productVariant.updateMany({
+      where: { id: { in: ids("variant") }, lowStockAlertedAt: null },
+      data: { lowStockAlertedAt: alertedAt },
+    });
+
+    try {
+      await sendEmail({
+        to: vendor.email,
+        subject: group.length === 1 ? `Low stock: ${group[0].name}` : `Low stock on ${group.length} products`,
+        html: getLowStockEmailHtml(
+          vendor.businessName,
+          group.map((r) => ({ name: r.name, available: r.available }))
+        ),
+      });
+      sent++;
+    } catch (e) {
+      console.error(`Low stock alert to vendor ${vendor.id} failed:`, e);
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,518 @@
+// src/lib/ledger.ts
+import {
+  LedgerAccount,
+  LedgerDirection,
+  LedgerTransactionType,
+  Prisma,
+} from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "./prisma";
+
+/**
+ * Vendor settlement ledger (double-entry).
+ *
+ *   order paid   DEBIT CLEARING            CREDIT VENDOR_PAYABLE + PLATFORM_COMMISSION
+ *   refund       DEBIT VENDOR_PAYABLE + PLATFORM_COMMISSION (pro rata)   CREDIT CLEARING
+ *   refund failed  the refund's entries again, sides swapped
+ *
+ * Platform-funded promotions are paid to the vendor out of PLATFORM_COMMISSION, so the
+ * commission leg of an order/refund can flip side when the discount exceeds the commission.
+ *   chargeback   DEBIT VENDOR_PAYABLE      CREDIT CLEARING
+ *   payout       DEBIT VENDOR_PAYABLE      CREDIT PAYOUTS_IN_TRANSIT
+ *   settled      DEBIT PAYOUTS_IN_TRANSIT  CREDIT CLEARING
+ *   cancelled    DEBIT PAYOUTS_IN_TRANSIT  CREDIT VENDOR_PAYABLE
+ *
+ * A vendor's balance is CREDIT - DEBIT on their VENDOR_PAYABLE entries, per currency.
+ */
+
+type EntryInput = {
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amount: number;
+  vendorId?: string | null;
+};
+
+/**
+ * Ledger operation refused; `statusCode` is what the route should answer with.
+ */
+export class LedgerError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+async function postTransaction(
+  tx: Prisma.TransactionClient,
+  input: {
+    type: LedgerTransactionType;
+    idempotencyKey: string;
+    currency: string;
+    description?: string | null;
+    orderId?: string | null;
+    refundId?: string | null;
+    payoutId?: string | null;
+    commissionPercent?: number | null;
+    createdById?: string | null;
+    entries: EntryInput[];
+  }
+) {
+  // Posting twice for the same event is a no-op
+  const existing = await tx.ledgerTransaction.findUnique({
+    where: { idempotencyKey: input.idempotencyKey },
+  });
+  if (existing) return existing;
+
+  const entries = input.entries.filter((e) => e.amount > 0);
+  if (!entries.length) return null;
+
+  const total = (direction: LedgerDirection) =>
+    entries.filter((e) => e.direction === direction).reduce((sum, e) => sum + e.amount, 0);
+
+  if (total("DEBIT") !== total("CREDIT")) {
+    throw new Error(
+      `Unbalanced ledger transaction ${input.idempotencyKey}: ${total("DEBIT")} debit vs ${total("CREDIT")} credit`
+    );
+  }
+
+  const { entries: _entries, ...data } = input;
+
+  return tx.ledgerTransaction.create({
+    data: {
+      ...data,
+      entries: {
+        create: entries.map((e) => ({
+          account: e.account,
+          direction: e.direction,
+          amount: e.amount,
+          vendorId: e.vendorId ?? null,
+          currency: input.currency,
+        })),
+      },
+    },
+  });
+}
+
+export function platformCommissionPercent(): number {
+  return Number(env.PLATFORM_COMMISSION_PERCENT || 0);
+}
+
+/**
+ * Commission is charged on items only (after vendor-funded item discounts);
+ * shipping passes through to the vendor. `platformDiscount` is what the platform owes
+ * the vendor for promotions it funded.
+ */
+async function orderSettlement(
+  tx: Prisma.TransactionClient,
+  order: { id: string; subtotalAmount: number; totalAmount: number },
+  percent: number
+): Promise<{ commission: number; platformDiscount: number }> {
+  const discounts = await tx.orderDiscount.findMany({
+    where: { orderId: order.id },
+    select: { type: true, amount: true, fundedBy: true },
+  });
+
+  const vendorItemDiscount = discounts
+    .filter((d) => d.fundedBy === "vendor" && d.type !== "FREE_SHIPPING")
+    .reduce((sum, d) => sum + d.amount, 0);
+  const platformDiscount = discounts
+    .filter((d) => d.fundedBy === "platform")
+    .reduce((sum, d) => sum + d.amount, 0);
+
+  const base = Math.max(0, order.subtotalAmount - vendorItemDiscount);
+  const commission = Math.min(Math.round((base * percent) / 100), order.totalAmount + platformDiscount);
+
+  return { commission, platformDiscount };
+}
+
+// Net commission leg: positive = platform keeps it (CREDIT), negative = platform pays in (DEBIT)
+function commissionEntry(net: number, side: "earned" | "reversed"): EntryInput {
+  const earned = side === "earned" ? net : -net;
+  return {
+    account: "PLATFORM_COMMISSION",
+    direction: earned >= 0 ? "CREDIT" : "DEBIT",
+    amount: Math.abs(net),
+  };
+}
+
+/**
+ * Credit the vendor for a paid order, minus platform commission.
+ */
+export async function postOrderPaid(tx: Prisma.TransactionClient, orderId: string) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, vendorId: true, totalAmount: true, subtotalAmount: true, currency: true },
+  });
+
+  if (!order) return null;
+
+  const percent = platformCommissionPercent();
+  const { commission, platformDiscount } = await orderSettlement(tx, order, percent);
+
+  return postTransaction(tx, {
+    type: "ORDER_PAID",
+    idempotencyKey: `order-paid:${order.id}`,
+    currency: order.currency,
+    description: `Order ${order.id} paid`,
+    orderId: order.id,
+    commissionPercent: percent,
+    entries: [
+      { account: "CLEARING", direction: "DEBIT", amount: order.totalAmount },
+      {
+        account: "VENDOR_PAYABLE",
+        vendorId: order.vendorId,
+        direction: "CREDIT",
+        amount: order.totalAmount + platformDiscount - commission,
+      },
+      commissionEntry(commission - platformDiscount, "earned"),
+    ],
+  });
+}
+
+/**
+ * Debit the vendor for a refund; the platform gives back its commission pro rata,
+ * at the rate used when the order was credited.
+ */
+export async function postRefund(
+  tx: Prisma.TransactionClient,
+  refund: { id: string; orderId: string | null; amount: number; currency: string }
+) {
+  if (!refund.orderId) return null;
+
+  const credited = await tx.ledgerTransaction.findUnique({
+    where: { idempotencyKey: `order-paid:${refund.orderId}` },
+    select: { commissionPercent: true },
+  });
+
+  // Order was never credited (paid before the ledger existed): nothing to reverse
+  if (!credited) return null;
+
+  const order = await tx.order.findUnique({
+    where: { id: refund.orderId },
+    select: { id: true, vendorId: true, totalAmount: true, subtotalAmount: true },
+  });
+
+  if (!order || order.totalAmount <= 0) return null;
+
+  const percent = Number(credited.commissionPercent ?? 0);
+  const settlement = await orderSettlement(tx, order, percent);
+  const share = (value: number) => Math.round((value * refund.amount) / order.totalAmount);
+  const commission = share(settlement.commission);
+  const platformDiscount = share(settlement.platformDiscount);
+
+  return postTransaction(tx, {
+    type: "REFUND",
+    idempotencyKey: `refund:${refund.id}`,
+    currency: refund.currency,
+    description: `Refund ${refund.id} on order ${refund.orderId}`,
+    orderId: refund.orderId,
+    refundId: refund.id,
+    commissionPercent: percent,
+    entries: [
+      {
+        account: "VENDOR_PAYABLE",
+        vendorId: order.vendorId,
+        direction: "DEBIT",
+        amount: refund.amount + platformDiscount - commission,
+      },
+      commissionEntry(commission - platformDiscount, "reversed"),
+      { account: "CLEARING", direction: "CREDIT", amount: refund.amount },
+    ],
+  });
+}
+
+/**
+ * Undo a refund's posting when the provider gives up on a refund it had
+ * accepted as pending.
+ */
+export async function postRefundReversed(tx: Prisma.TransactionClient, refund: { id: string }) {
+  const posted = await tx.ledgerTransaction.findUnique({
+    where: { idempotencyKey: `refund:${refund.id}` },
+    include: { entries: true },
+  });
+
+  if (!posted) return null;
+
+  return postTransaction(tx, {
+    type: "REFUND_REVERSED",
+    idempotencyKey: `refund-reversed:${refund.id}`,
+    currency: posted.currency,
+    description: `Refund ${refund.id} failed at the provider`,
+    orderId: posted.orderId,
+    refundId: refund.id,
+    commissionPercent: posted.commissionPercent ? Number(posted.commissionPercent) : null,
+    entries: posted.entries.map((e) => ({
+      account: e.account,
+      vendorId: e.vendorId,
+      direction: e.direction === "DEBIT" ? "CREDIT" : "DEBIT",
+      amount: e.amount,
+    })),
+  });
+}
+
+/**
+ * Debit the vendor for a chargeback the provider took back. Only orders whose
+ * payment was credited to the vendor can be charged back.
+ * `reference` is the provider's dispute id, so the same dispute is only posted once.
+ */
+export async function postChargeback(input: {
+  orderId: string;
+  reference: string;
+  amount?: number;
+  reason?: string | null;
+  createdById?: string | null;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: input.orderId },
+      select: { id: true, vendorId: true, totalAmount: true, currency: true },
+    });
+
+    if (!order) {
+      throw new LedgerError("Order not found", 404);
+    }
+
+    const credited = await tx.ledgerTransaction.findUnique({
+      where: { idempotencyKey: `order-paid:${order.id}` },
+      select: { id: true },
+    });
+
+    if (!credited) {
+      throw new LedgerError("Order payment was never credited to the vendor; nothing to charge back");
+    }
+
+    const amount = input.amount ?? order.totalAmount;
+    if (amount <= 0 || amount > order.totalAmount) {
+      throw new LedgerError(`Chargeback amount must be between 1 and ${order.totalAmount}`);
+    }
+
+    return postTransaction(tx, {
+      type: "CHARGEBACK",
+      idempotencyKey: `chargeback:${order.id}:${input.reference}`,
+      currency: order.currency,
+      description: input.reason ? `Chargeback ${input.reference}: ${input.reason}` : `Chargeback ${input.reference}`,
+      orderId: order.id,
+      createdById: input.createdById ?? null,
+      entries: [
+        { account: "VENDOR_PAYABLE", vendorId: order.vendorId, direction: "DEBIT", amount },
+        { account: "CLEARING", direction: "CREDIT", amount },
+      ],
+    });
+  });
+}
+
+// ===== Balances =====
+
+async function payableBalances(
+  client: Prisma.TransactionClient,
+  where: Prisma.LedgerEntryWhereInput
+): Promise<Map<string, number>> {
+  const rows = await client.ledgerEntry.groupBy({
+    by: ["vendorId", "currency", "direction"],
+    where: { ...where, account: "VENDOR_PAYABLE" },
+    _sum: { amount: true },
+  });
+
+  // key: `${vendorId}:${currency}`
+  const balances = new Map<string, number>();
+  for (const row of rows) {
+    const key = `${row.vendorId}:${row.currency}`;
+    const amount = row._sum.amount ?? 0;
+    balances.set(key, (balances.get(key) ?? 0) + (row.direction === "CREDIT" ? amount : -amount));
+  }
+  return balances;
+}
+
+/**
+ * What the vendor is owed, per currency, plus amounts in pending/settled payouts.
+ */
+export async function getVendorBalances(vendorId: string) {
+  const [balances, payouts] = await Promise.all([
+    payableBalances(prisma, { vendorId }),
+    prisma.payout.groupBy({
+      by: ["currency"],
+      where: { vendorId, batch: { status: "PENDING" } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const pending = new Map(payouts.map((p) => [p.currency, p._sum.amount ?? 0]));
+  const currencies = new Set([
+    ...[...balances.keys()].map((key) => key.split(":")[1]),
+    ...pending.keys(),
+  ]);
+
+  return [...currencies].sort().map((currency) => ({
+    currency,
+    balance: balances.get(`${vendorId}:${currency}`) ?? 0, // available for the next payout
+    pendingPayout: pending.get(currency) ?? 0,
+  }));
+}
+
+/**
+ * Non-zero balances of every vendor (optionally in one currency), largest first.
+ */
+export async function listVendorBalances(currency?: string) {
+  const balances = await payableBalances(prisma, currency ? { currency } : {});
+
+  return [...balances.entries()]
+    .map(([key, balance]) => {
+      const [vendorId, cur] = key.split(":");
+      return { vendorId, currency: cur, balance };
+    })
+    .filter((b) => b.vendorId && b.balance !== 0)
+    .sort((a, b) => b.balance - a.balance);
+}
+
+/**
+ * Signed VENDOR_PAYABLE balance (credit - debit) before `before`.
+ */
+export async function getVendorBalanceAt(vendorId: string, currency: string, before?: Date) {
+  const balances = await payableBalances(prisma, {
+    vendorId,
+    currency,
+    ...(before ? { createdAt: { lt: before } } : {}),
+  });
+  return balances.get(`${vendorId}:${currency}`) ?? 0;
+}
+
+// ===== Payouts =====
+
+/**
+ * Batch every vendor's available balance in `currency` for payout.
+ * Balances move to PAYOUTS_IN_TRANSIT so they can't be batched twice.
+ */
+export async function createPayoutBatch(input: {
+  currency: string;
+  vendorIds?: string[];
+  minAmount?: number;
+  note?: string | null;
+  createdById?: string | null;
+}) {
+  const minAmount = Math.max(1, input.minAmount ?? 1);
+
+  // Serializable so a concurrent batch can't pay the same balance out twice
+  return prisma.$transaction(
+    async (tx) => {
+      const balances = await payableBalances(tx, {
+        currency: input.currency,
+        ...(input.vendorIds?.length ? { vendorId: { in: input.vendorIds } } : {}),
+      });
+
+      const eligible = [...balances.entries()]
+        .map(([key, amount]) => ({ vendorId: key.split(":")[0], amount }))
+        .filter((b) => b.vendorId && b.amount >= minAmount);
+
+      if (!eligible.length) {
+        throw new LedgerError("No vendor balances to pay out");
+      }
+
+      const batch = await tx.payoutBatch.create({
+        data: {
+          currency: input.currency,
+          totalAmount: eligible.reduce((sum, b) => sum + b.amount, 0),
+          note: input.note ?? null,
+          createdById: input.createdById ?? null,
+        },
+      });
+
+      for (const b of eligible) {
+        const payout = await tx.payout.create({
+          data: {
+            batchId: batch.id,
+            vendorId: b.vendorId,
+            amount: b.amount,
+            currency: input.currency,
+          },
+        });
+
+        await postTransaction(tx, {
+          type: "PAYOUT",
+          idempotencyKey: `payout:${payout.id}`,
+          currency: input.currency,
+          description: `Payout batch ${batch.id}`,
+          payoutId: payout.id,
+          createdById: input.createdById ?? null,
+          entries: [
+            { account: "VENDOR_PAYABLE", vendorId: b.vendorId, direction: "DEBIT", amount: b.amount },
+            { account: "PAYOUTS_IN_TRANSIT", direction: "CREDIT", amount: b.amount },
+          ],
+        });
+      }
+
+      return tx.payoutBatch.findUnique({
+        where: { id: batch.id },
+        include: { payouts: true },
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Close a PENDING batch: SETTLED once the transfers went out, or CANCELLED to
+ * hand the money back to vendor balances. The batch is claimed with a
+ * conditional update before anything is posted, so a settle racing a cancel
+ * (or a double click) closes it once; the loser gets a LedgerError.
+ */
+export async function closePayoutBatch(
+  batchId: string,
+  decision: "settle" | "cancel",
+  input: { reference?: string | null; closedById?: string | null }
+) {
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: { payouts: true },
+    });
+
+    if (!batch) {
+      throw new LedgerError("Payout batch not found", 404);
+    }
+
+    const claimed = await tx.payoutBatch.updateMany({
+      where: { id: batch.id, status: "PENDING" },
+      data:
+        decision === "settle"
+          ? {
+              status: "SETTLED",
+              reference: input.reference ?? null,
+              settledById: input.closedById ?? null,
+              settledAt: new Date(),
+            }
+          : { status: "CANCELLED" },
+    });
+
+    if (claimed.count === 0) {
+      const current = await tx.payoutBatch.findUnique({ where: { id: batch.id }, select: { status: true } });
+      throw new LedgerError(`Payout batch is already ${(current?.status ?? batch.status).toLowerCase()}`);
+    }
+
+    for (const payout of batch.payouts) {
+      await postTransaction(tx, {
+        type: decision === "settle" ? "PAYOUT_SETTLED" : "PAYOUT_CANCELLED",
+        // One key for either outcome: a payout is closed exactly once
+        idempotencyKey: `payout-closed:${payout.id}`,
+        currency: payout.currency,
+        description: `Payout batch ${batch.id} ${decision === "settle" ? "settled" : "cancelled"}`,
+        payoutId: payout.id,
+        createdById: input.closedById ?? null,
+        entries:
+          decision === "settle"
+            ? [
+                { account: "PAYOUTS_IN_TRANSIT", direction: "DEBIT", amount: payout.amount },
+                { account: "CLEARING", direction: "CREDIT", amount: payout.amount },
+              ]
+            : [
+                { account: "PAYOUTS_IN_TRANSIT", direction: "DEBIT", amount: payout.amount },
+                { account: "VENDOR_PAYABLE", vendorId: payout.vendorId, direction: "CREDIT", amount: payout.amount },
+              ],
+      });
+    }
+
+    return tx.payoutBatch.findUniqueOrThrow({
+      where: { id: batch.id },
+      include: { payouts: true },
+    });
+  });
+}
@@ -0,0 +1,319 @@
+// src/lib/order-lifecycle.ts
+import { OrderStatus, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { refundOrder, RefundError } from "./refunds";
+import { formatShippingAddress, ShippingAddress } from "./shipping";
+import { releaseOrderStock } from "./inventory";
+import { releasePromotionIfCheckoutCancelled } from "./promotions";
+import { getOrderStatusEmailHtml, sendEmail } from "../services/email";
+
+/**
+ * Order lifecycle: the only place order status changes.
+ *
+ *   PENDING ──pay──> ACCEPTED ──> PREPARING ──> READY ──> COMPLETED
+ *      │                │  │          │           │
+ *      │                │  └──────────┴─> REJECTED (vendor can't fulfil)
+ *      └────────────────┴───────────────> CANCELLED
+ *
+ * Every change is checked against TRANSITIONS, written with a compare-and-set on
+ * the current status, and recorded as an OrderEvent. Held stock (and, once the
+ * whole checkout is off, its promotion code) goes back in the same transaction
+ * on reject/cancel; other side effects (refund, delivery on READY, emails) run
+ * after the status is committed.
+ */
+
+export type OrderActor = "user" | "vendor" | "admin" | "system";
+
+type Transition = {
+  from: OrderStatus[];
+  to: OrderStatus;
+  actors: OrderActor[];
+};
+
+const TRANSITIONS: Transition[] = [
+  { from: ["PENDING"], to: "ACCEPTED", actors: ["system", "vendor", "admin"] },
+  { from: ["ACCEPTED"], to: "PREPARING", actors: ["vendor", "admin"] },
+  { from: ["ACCEPTED", "PREPARING"], to: "READY", actors: ["vendor", "admin"] },
+  { from: ["ACCEPTED", "PREPARING", "READY"], to: "COMPLETED", actors: ["vendor", "admin", "system"] },
+  { from: ["PENDING", "ACCEPTED", "PREPARING"], to: "REJECTED", actors: ["vendor", "admin"] },
+  { from: ["PENDING", "ACCEPTED"], to: "CANCELLED", actors: ["user", "admin", "system"] },
+  { from: ["PREPARING", "READY"], to: "CANCELLED", actors: ["admin"] },
+];
+
+// Fulfilment steps need the money in (a partial refund doesn't stop fulfilment)
+const REQUIRES_PAYMENT: OrderStatus[] = ["ACCEPTED", "PREPARING", "READY", "COMPLETED"];
+const PAID_STATUSES = ["PAID", "PARTIALLY_REFUNDED"];
+
+// Terminal states that give the shopper their money back
+const REFUND_ON: OrderStatus[] = ["REJECTED", "CANCELLED"];
+
+/**
+ * Transition refused; `statusCode` is what the route should answer with.
+ */
+export class OrderTransitionError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean {
+  return TRANSITIONS.some((t) => t.to === to && t.from.includes(from) && t.actors.includes(actor));
+}
+
+/**
+ * Statuses `actor` may move an order to from `from` (for UIs).
+ */
+export function nextStatuses(from: OrderStatus, actor: OrderActor): OrderStatus[] {
+  return TRANSITIONS.filter((t) => t.from.includes(from) && t.actors.includes(actor)).map((t) => t.to);
+}
+
+export type TransitionContext = {
+  actor: OrderActor;
+  actorId?: string | null;
+  note?: string | null;
+  // Extra condition the order must still meet when it is updated (e.g. "still unpaid")
+  guard?: Prisma.OrderWhereInput;
+};
+
+type OrderSnapshot = { id: string; status: OrderStatus; paymentStatus: string };
+
+/**
+ * Validate and apply one transition inside a transaction. No side effects beyond
+ * releasing stock: use this when the caller already owns the transaction
+ * (e.g. payment settlement).
+ */
+export async function applyOrderTransition(
+  tx: Prisma.TransactionClient,
+  order: OrderSnapshot,
+  to: OrderStatus,
+  ctx: TransitionContext
+) {
+  if (order.status === to) {
+    throw new OrderTransitionError(`Order is already ${to.toLowerCase()}`);
+  }
+
+  if (!canTransition(order.status, to, ctx.actor)) {
+    // Legal move, wrong actor -> 403; illegal move -> 400
+    const legal = TRANSITIONS.some((t) => t.to === to && t.from.includes(order.status));
+    throw legal
+      ? new OrderTransitionError(`A ${ctx.actor} cannot move an order from ${order.status} to ${to}`, 403)
+      : new OrderTransitionError(`Cannot move an order from ${order.status} to ${to}`);
+  }
+
+  if (REQUIRES_PAYMENT.includes(to) && !PAID_STATUSES.includes(order.paymentStatus)) {
+    throw new OrderTransitionError(`Cannot move an order to ${to} until payment is PAID`);
+  }
+
+  // Compare-and-set: a concurrent change (or a failed guard) makes this a no-op
+  const updated = await tx.order.updateMany({
+    where: { ...ctx.guard, id: order.id, status: order.status },
+    data: { status: to },
+  });
+
+  if (updated.count === 0) {
+    throw new OrderTransitionError("Order changed while updating, please retry", 409);
+  }
+
+  await tx.orderEvent.create({
+    data: {
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: to,
+      actor: ctx.actor,
+      actorId: ctx.actorId ?? null,
+      note: ctx.note ?? null,
+    },
+  });
+
+  if (REFUND_ON.includes(to)) {
+    await releaseOrderStock(tx, order.id, ctx.note || `Order ${to.toLowerCase()}`);
+    await releasePromotionIfCheckoutCancelled(tx, order.id);
+  }
+}
+
+/**
+ * Creation event for a new order (called from checkout).
+ */
+export function orderCreatedEvent(userId: string) {
+  return { create: { toStatus: "PENDING" as const, actor: "user", actorId: userId } };
+}
+
+// -----------------------------
+// Deliveries
+// -----------------------------
+function genTrackingCode() {
+  // FCQ-TRK-XXXXXX
+  const rand = Math.random().toString(36).slice(2, 8).toUpperCase();
+  return `FCQ-TRK-${rand}`;
+}
+
+export type DeliveryInput = {
+  pickupLocation?: string | null;
+  dropoffLocation?: string | null;
+  riderName?: string | null;
+  riderPhone?: string | null;
+  notes?: string | null;
+};
+
+/**
+ * Create the order's delivery (and its first DeliveryEvent) unless it already has one.
+ * Dropoff defaults to the checkout shipping address. Returns null when no location is known.
+ */
+export async function createOrderDelivery(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  input: DeliveryInput
+) {
+  const existing = await tx.delivery.findUnique({ where: { orderId } });
+  if (existing) return { delivery: existing, created: false };
+
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      userId: true,
+      vendorId: true,
+      shippingAddress: true,
+      vendor: { select: { businessName: true } },
+    },
+  });
+  if (!order) return null;
+
+  const dropoffLocation =
+    input.dropoffLocation ||
+    (order.shippingAddress ? formatShippingAddress(order.shippingAddress as ShippingAddress) : null);
+  const pickupLocation = input.pickupLocation || order.vendor.businessName;
+
+  if (!dropoffLocation) return null;
+
+  const delivery = await tx.delivery.create({
+    data: {
+      orderId: order.id,
+      vendorId: order.vendorId,
+      userId: order.userId,
+      pickupLocation,
+      dropoffLocation,
+      riderName: input.riderName || null,
+      riderPhone: input.riderPhone || null,
+      notes: input.notes || null,
+      status: "PENDING",
+      trackingCode: genTrackingCode(),
+    },
+  });
+
+  await tx.deliveryEvent.create({
+    data: {
+      deliveryId: delivery.id,
+      status: "PENDING",
+      title: "Delivery created",
+    },
+  });
+
+  return { delivery, created: true };
+}
+
+// -----------------------------
+// Notifications
+// -----------------------------
+type NotifiableStatus = Exclude<OrderStatus, "PENDING">;
+
+async function notifyOrderStatus(orderId: string, status: NotifiableStatus, ctx: TransitionContext) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      user: { select: { email: true, name: true } },
+      vendor: { select: { email: true, businessName: true } },
+    },
+  });
+  if (!order) return;
+
+  if (ctx.actor !== "user") {
+    await sendEmail({
+      to: order.user.email,
+      subject: `Your FoodCheQ order is ${status.toLowerCase()}`,
+      html: getOrderStatusEmailHtml(order.user.name, order.id, status, ctx.note),
+    });
+  }
+
+  // Vendors hear about cancellations they didn't make
+  if (status === "CANCELLED") {
+    await sendEmail({
+      to: order.vendor.email,
+      subject: `Order ${order.id} was cancelled`,
+      html: getOrderStatusEmailHtml(order.vendor.businessName, order.id, "CANCELLED", ctx.note),
+    });
+  }
+}
+
+// -----------------------------
+// Entry point for routes and jobs
+// -----------------------------
+
+/**
+ * Move an order to `to` on behalf of `ctx.actor`, then run the side effects.
+ * `scope` restricts which orders the actor can see (vendorId for vendors, userId for shoppers).
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  ctx: TransitionContext & {
+    scope?: { vendorId?: string; userId?: string };
+    delivery?: DeliveryInput;
+  }
+) {
+  const { order, delivery } = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findFirst({
+      where: { id: orderId, ...ctx.scope },
+      select: { id: true, status: true, paymentStatus: true },
+    });
+
+    if (!order) {
+      throw new OrderTransitionError("Order not found", 404);
+    }
+
+    await applyOrderTransition(tx, order, to, ctx);
+
+    // Ready for dispatch: open the delivery so it can be tracked
+    const delivery = to === "READY" ? await createOrderDelivery(tx, order.id, ctx.delivery ?? {}) : null;
+
+    return { order, delivery };
+  });
+
+  // Money already captured goes back to the buyer
+  let refund = null;
+  let refundError: string | null = null;
+
+  if (REFUND_ON.includes(to) && PAID_STATUSES.includes(order.paymentStatus)) {
+    try {
+      refund = await refundOrder(order.id, {
+        reason: ctx.note || `Order ${to.toLowerCase()} by ${ctx.actor}`,
+        initiatedBy: ctx.actor,
+        initiatedById: ctx.actorId ?? null,
+      });
+    } catch (e) {
+      // The status change stands; admins can retry the refund from the dashboard
+      console.error(`Auto-refund for order ${order.id} failed:`, e);
+      refundError = e instanceof RefundError ? e.message : "Refund failed";
+    }
+  }
+
+  if (to !== "PENDING") {
+    notifyOrderStatus(order.id, to, ctx).catch((e) =>
+      console.error(`Order ${order.id} notification failed:`, e)
+    );
+  }
+
+  const updated = await prisma.order.findUnique({
+    where: { id: order.id },
+    select: {
+      id: true,
+      status: true,
+      paymentStatus: true,
+      updatedAt: true,
+    },
+  });
+
+  return { order: updated!, refund, refundError, delivery: delivery?.delivery ?? null };
+}
@@ -0,0 +1,158 @@
+// src/lib/order-timeline.ts
+import { prisma } from "./prisma";
+
+export type TimelineEntry = {
+  at: Date;
+  source: "order" | "payment" | "refund" | "delivery";
+  status: string;
+  title: string;
+  note?: string | null;
+  actor?: string | null;
+  amount?: number;
+  currency?: string;
+};
+
+const ORDER_TITLES: Record<string, string> = {
+  PENDING: "Order placed",
+  ACCEPTED: "Order confirmed",
+  REJECTED: "Order rejected by vendor",
+  PREPARING: "Vendor is preparing your order",
+  READY: "Order ready for dispatch",
+  COMPLETED: "Order completed",
+  CANCELLED: "Order cancelled",
+};
+
+const PAYMENT_TITLES: Record<string, string> = {
+  PAID: "Payment confirmed",
+  FAILED: "Payment failed",
+  PENDING: "Payment pending",
+};
+
+const REFUND_TITLES: Record<string, string> = {
+  PENDING: "Refund requested",
+  SUCCEEDED: "Refund issued",
+  FAILED: "Refund failed",
+};
+
+/**
+ * One chronological feed for an order: status changes (OrderEvent), its payment
+ * (initiation, processed provider webhooks, refunds) and DeliveryEvent entries.
+ * Payments shared by a checkout appear on every order of that checkout.
+ */
+export async function getOrderTimeline(order: { id: string; checkoutId: string | null }) {
+  const [events, payments, delivery] = await Promise.all([
+    prisma.orderEvent.findMany({
+      where: { orderId: order.id },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.payment.findMany({
+      where: {
+        OR: [{ orderId: order.id }, ...(order.checkoutId ? [{ checkoutId: order.checkoutId }] : [])],
+      },
+      select: {
+        id: true,
+        provider: true,
+        providerRef: true,
+        amount: true,
+        currency: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        // Refunds on a checkout payment belong to one order each
+        refunds: { where: { OR: [{ orderId: order.id }, { orderId: null }] } },
+      },
+    }),
+    prisma.delivery.findUnique({
+      where: { orderId: order.id },
+      select: { trackingCode: true, events: { orderBy: { createdAt: "asc" } } },
+    }),
+  ]);
+
+  const refs = payments.map((p) => p.providerRef).filter((r): r is string => !!r);
+  const webhooks = refs.length
+    ? await prisma.webhookEvent.findMany({
+        where: { providerRef: { in: refs }, status: "PROCESSED" },
+        select: { provider: true, providerRef: true, outcome: true, eventType: true, processedAt: true, createdAt: true },
+      })
+    : [];
+
+  const entries: TimelineEntry[] = [];
+
+  for (const e of events) {
+    entries.push({
+      at: e.createdAt,
+      source: "order",
+      status: e.toStatus,
+      title: ORDER_TITLES[e.toStatus] ?? e.toStatus,
+      note: e.note,
+      actor: e.actor,
+    });
+  }
+
+  for (const p of payments) {
+    entries.push({
+      at: p.createdAt,
+      source: "payment",
+      status: "INITIATED",
+      title: `Payment started with ${p.provider}`,
+      amount: p.amount,
+      currency: p.currency,
+    });
+
+    const confirmations = webhooks.filter((w) => w.provider === p.provider && w.providerRef === p.providerRef);
+    for (const w of confirmations) {
+      const status = w.outcome ?? "PENDING";
+      entries.push({
+        at: w.processedAt ?? w.createdAt,
+        source: "payment",
+        status,
+        title: PAYMENT_TITLES[status] ?? status,
+        note: w.eventType,
+      });
+    }
+
+    // Settled by capture / reconciliation rather than a webhook. A refunded
+    // payment was paid first; refunds move updatedAt, so the first one bounds it
+    const wasPaid = p.status === "PAID" || p.status === "PARTIALLY_REFUNDED" || p.status === "REFUNDED";
+    if (!confirmations.length && (wasPaid || p.status === "FAILED")) {
+      const firstRefundAt = p.refunds.reduce<Date | null>(
+        (min, r) => (!min || r.createdAt < min ? r.createdAt : min),
+        null
+      );
+      const status = wasPaid ? "PAID" : "FAILED";
+      entries.push({
+        at: firstRefundAt && firstRefundAt < p.updatedAt ? firstRefundAt : p.updatedAt,
+        source: "payment",
+        status,
+        title: PAYMENT_TITLES[status],
+      });
+    }
+
+    for (const r of p.refunds) {
+      entries.push({
+        at: r.status === "PENDING" ? r.createdAt : r.updatedAt,
+        source: "refund",
+        status: r.status,
+        title: REFUND_TITLES[r.status] ?? r.status,
+        note: r.reason,
+        actor: r.initiatedBy,
+        amount: r.amount,
+        currency: r.currency,
+      });
+    }
+  }
+
+  for (const d of delivery?.events ?? []) {
+    entries.push({
+      at: d.createdAt,
+      source: "delivery",
+      status: d.status,
+      title: d.title,
+      note: d.note ?? d.location,
+    });
+  }
+
+  entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  return { trackingCode: delivery?.trackingCode ?? null, timeline: entries };
+}
@@ -0,0 +1,332 @@
+// src/lib/product-images.ts
+import { Prisma } from "@prisma/client";
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { prisma } from "./prisma";
+import { getStorage, keyFromPublicUrl } from "../services/storage";
+
+/**
+ * Product image gallery.
+ *
+ * Uploads are decoded with sharp, so a file only gets in if it really is an
+ * image (the mimetype header is just a first filter). Each upload is stored as
+ * three public webp renditions in the storage service, rotated per its EXIF
+ * orientation and then written without any metadata (EXIF, GPS, ICC), so the
+ * original bytes are never kept:
+ *
+ *   vendor-products/<productId>/<key>-thumb.webp   200px
+ *                               <key>-medium.webp  600px
+ *                               <key>-large.webp   1200px
+ *
+ * Product.imageUrl mirrors the cover (sortOrder 0) for older clients. Files of
+ * removed images are deleted straight away; sweepOrphanedUploads catches
+ * anything left behind (crash mid-upload, pre-gallery single images).
+ */
+
+const PRODUCT_DIR = "vendor-products";
+
+export const MAX_IMAGES_PER_PRODUCT = 10;
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // 5MB per file
+const MAX_INPUT_PIXELS = 40_000_000; // ~40MP; refuses decompression bombs
+
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp", "gif", "avif", "heif"]);
+
+export const RENDITIONS = {
+  thumb: 200,
+  medium: 600,
+  large: 1200,
+} as const;
+
+export type RenditionName = keyof typeof RENDITIONS;
+
+/**
+ * Upload refused; `statusCode` is what the route should answer with.
+ */
+export class ImageError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "ImageError";
+  }
+}
+
+// Files stay in memory until sharp has checked and re-encoded them
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_IMAGES_PER_PRODUCT },
+  fileFilter: (_req, file, cb) => {
+    if (!file.mimetype || !file.mimetype.startsWith("image/")) {
+      return cb(new ImageError("Only image uploads are allowed"));
+    }
+    cb(null, true);
+  },
+});
+
+function multerErrorResponse(err: multer.MulterError): { status: number; message: string } {
+  switch (err.code) {
+    case "LIMIT_FILE_SIZE":
+      return { status: 413, message: `Each image must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB` };
+    case "LIMIT_FILE_COUNT":
+      return { status: 400, message: `Upload at most ${MAX_IMAGES_PER_PRODUCT} images at a time` };
+    case "LIMIT_UNEXPECTED_FILE":
+      return { status: 400, message: `Unexpected file field "${err.field}"` };
+    default:
+      return { status: 400, message: err.message };
+  }
+}
+
+// Multer fails before the route's try/catch; answer its errors with a 4xx here
+function withUploadErrors(handler: RequestHandler): RequestHandler {
+  return (req, res, next) =>
+    handler(req, res, (err?: unknown) => {
+      if (err instanceof ImageError) {
+        return res.status(err.statusCode).json({ success: false, message: err.message });
+      }
+      if (err instanceof multer.MulterError) {
+        const { status, message } = multerErrorResponse(err);
+        return res.status(status).json({ success: false, message });
+      }
+      return next(err);
+    });
+}
+
+export const imageUpload = {
+  single: (field: string) => withUploadErrors(upload.single(field)),
+  array: (field: string, maxCount?: number) => withUploadErrors(upload.array(field, maxCount)),
+};
+
+function renditionKey(storageKey: string, name: RenditionName): string {
+  return `${storageKey}-${name}.webp`;
+}
+
+function renditionUrl(storageKey: string, name: RenditionName): string {
+  return getStorage().publicUrl(renditionKey(storageKey, name));
+}
+
+export type ProcessedImage = {
+  storageKey: string;
+  thumbUrl: string;
+  mediumUrl: string;
+  largeUrl: string;
+  width: number;
+  height: number;
+  bytes: number;
+};
+
+/**
+ * Validate an upload and write its renditions. Throws ImageError for anything
+ * that isn't a decodable image in an accepted format.
+ */
+export async function processProductImage(productId: string, buffer: Buffer): Promise<ProcessedImage> {
+  let format: string | undefined;
+  try {
+    const meta = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    format = meta.format;
+  } catch {
+    throw new ImageError("File is not a valid image");
+  }
+  if (!format || !ACCEPTED_FORMATS.has(format)) {
+    throw new ImageError("Unsupported image type; use JPEG, PNG, WebP, GIF or AVIF");
+  }
+
+  const storageKey = `${PRODUCT_DIR}/${productId}/${crypto.randomBytes(12).toString("hex")}`;
+
+  // Render everything before storing anything, so a bad file leaves nothing behind
+  const rendered: { name: RenditionName; data: Buffer }[] = [];
+  let large = { width: 0, height: 0 };
+  try {
+    for (const [name, size] of Object.entries(RENDITIONS) as [RenditionName, number][]) {
+      // failOn "error" rejects truncated/corrupt files that only decode partially
+      const { data, info } = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS, failOn: "error" })
+        .rotate() // apply EXIF orientation before the metadata is dropped
+        .resize({ width: size, height: size, fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 82 })
+        .toBuffer({ resolveWithObject: true });
+      rendered.push({ name, data });
+      if (name === "large") large = { width: info.width, height: info.height };
+    }
+  } catch {
+    throw new ImageError("File is not a valid image");
+  }
+
+  try {
+    for (const { name, data } of rendered) {
+      await getStorage().put({
+        key: renditionKey(storageKey, name),
+        body: data,
+        contentType: "image/webp",
+        visibility: "public",
+      });
+    }
+  } catch (e) {
+    await removeImageFiles([storageKey]);
+    throw e;
+  }
+
+  return {
+    storageKey,
+    thumbUrl: renditionUrl(storageKey, "thumb"),
+    mediumUrl: renditionUrl(storageKey, "medium"),
+    largeUrl: renditionUrl(storageKey, "large"),
+    width: large.width,
+    height: large.height,
+    bytes: buffer.length,
+  };
+}
+
+/**
+ * Delete the renditions of removed images. Never throws; the sweep retries leftovers.
+ */
+export async function removeImageFiles(storageKeys: (string | null)[]): Promise<void> {
+  for (const key of storageKeys) {
+    if (!key) continue;
+    for (const name of Object.keys(RENDITIONS) as RenditionName[]) {
+      await getStorage().delete(renditionKey(key, name)).catch((e) => {
+        console.error("Remove image file failed:", e?.message || e);
+      });
+    }
+  }
+}
+
+/**
+ * Point Product.imageUrl at the current cover (null once the gallery is empty).
+ */
+export async function syncCoverImage(tx: Prisma.TransactionClient, productId: string): Promise<void> {
+  const [cover, product] = await Promise.all([
+    tx.productImage.findFirst({
+      where: { productId },
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+      select: { largeUrl: true },
+    }),
+    tx.product.findUniqueOrThrow({ where: { id: productId }, select: { imageUrl: true } }),
+  ]);
+
+  const imageUrl = cover?.largeUrl ?? null;
+  if (imageUrl !== product.imageUrl) {
+    await tx.product.update({ where: { id: productId }, data: { imageUrl } });
+  }
+}
+
+/**
+ * Renumber a product's images 0..n-1 in the given order (ids not listed keep
+ * their relative order after the listed ones).
+ */
+export async function reorderImages(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  orderedIds: string[]
+): Promise<void> {
+  const images = await tx.productImage.findMany({
+    where: { productId },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    select: { id: true, sortOrder: true },
+  });
+
+  const known = new Set(images.map((i) => i.id));
+  const unknown = orderedIds.find((id) => !known.has(id));
+  if (unknown) throw new ImageError(`Image ${unknown} does not belong to this product`);
+
+  const listed = new Set(orderedIds);
+  const order = [...listed, ...images.filter((i) => !listed.has(i.id)).map((i) => i.id)];
+  const current = new Map(images.map((i) => [i.id, i.sortOrder]));
+
+  for (const [index, id] of order.entries()) {
+    if (current.get(id) !== index) {
+      await tx.productImage.update({ where: { id }, data: { sortOrder: index } });
+    }
+  }
+}
+
+/**
+ * Drop every gallery image of deleted products, files included.
+ */
+export async function deleteProductImages(productIds: string[]): Promise<number> {
+  if (!productIds.length) return 0;
+
+  const images = await prisma.productImage.findMany({
+    where: { productId: { in: productIds } },
+    select: { storageKey: true },
+  });
+  await prisma.productImage.deleteMany({ where: { productId: { in: productIds } } });
+  await removeImageFiles(images.map((i) => i.storageKey));
+
+  return images.length;
+}
+
+// -----------------------------
+// Orphan sweep
+// -----------------------------
+/**
+ * Delete product image objects nothing points at: not a rendition of a gallery
+ * image, not a product's imageUrl. Objects younger than `graceMinutes` are
+ * skipped so uploads still being saved aren't caught.
+ */
+export async function sweepOrphanedUploads(graceMinutes = 60): Promise<number> {
+  const storage = getStorage();
+  const objects = await storage.list(`${PRODUCT_DIR}/`);
+  if (!objects.length) return 0;
+
+  const [images, products] = await Promise.all([
+    prisma.productImage.findMany({ select: { storageKey: true, thumbUrl: true, mediumUrl: true, largeUrl: true } }),
+    prisma.product.findMany({ where: { imageUrl: { not: null } }, select: { imageUrl: true } }),
+  ]);
+
+  const referenced = new Set<string>();
+  for (const i of images) {
+    if (i.storageKey) {
+      for (const name of Object.keys(RENDITIONS) as RenditionName[]) referenced.add(renditionKey(i.storageKey, name));
+    }
+    // URLs too: rows from before the gallery point at single uploaded files
+    for (const url of [i.thumbUrl, i.mediumUrl, i.largeUrl]) {
+      const key = keyFromPublicUrl(url);
+      if (key) referenced.add(key);
+    }
+  }
+  for (const p of products) {
+    const key = keyFromPublicUrl(p.imageUrl!);
+    if (key) referenced.add(key);
+  }
+
+  const cutoff = Date.now() - graceMinutes * 60 * 1000;
+  let removed = 0;
+
+  for (const object of objects) {
+    if (referenced.has(object.key) || object.lastModified.getTime() > cutoff) continue;
+
+    await storage.delete(object.key);
+    removed++;
+  }
+
+  return removed;
+}
+
+export type NewImage = Omit<Prisma.ProductImageUncheckedCreateInput, "id" | "productId" | "sortOrder" | "createdAt">;
+
+/**
+ * Put `image` in place of the cover (sortOrder 0), or just drop the cover when
+ * null. Returns the replaced image's storage key so its files can be removed
+ * once the transaction has committed.
+ */
+export async function replaceCoverImage(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  image: NewImage | null
+): Promise<string | null> {
+  const cover = await tx.productImage.findFirst({
+    where: { productId },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    select: { id: true, storageKey: true },
+  });
+  if (cover) await tx.productImage.delete({ where: { id: cover.id } });
+
+  const created = image ? await tx.productImage.create({ data: { ...image, productId, sortOrder: 0 } }) : null;
+  await reorderImages(tx, productId, created ? [created.id] : []);
+  await syncCoverImage(tx, productId);
+
+  return cover?.storageKey ?? null;
+}
+
+export function externalImage(url: string, altText: string | null = null): NewImage {
+  return { altText, storageKey: null, thumbUrl: url, mediumUrl: url, largeUrl: url };
+}
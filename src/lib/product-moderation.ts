@@ -0,0 +1,336 @@
+// src/lib/product-moderation.ts
+import { Prisma, ProductStatus } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "./prisma";
+import { getProductReviewEmailHtml, sendEmail } from "../services/email";
+
+/**
+ * Product moderation. Nothing is public until an admin has approved it.
+ *
+ *   DRAFT ──submit──> PENDING_REVIEW ──approve──> ACTIVE <──> INACTIVE
+ *                          │   ^                    │
+ *                     reject   └──material edit─────┘
+ *                          v
+ *                      REJECTED ──resubmit──> PENDING_REVIEW
+ *
+ * Approval stores a snapshot of name, copy and prices. A later edit that moves
+ * the price by more than PRODUCT_REVIEW_PRICE_CHANGE_PERCENT, or rewrites more
+ * than PRODUCT_REVIEW_TEXT_CHANGE_PERCENT of a text field, clears the approval
+ * and sends a live product back to PENDING_REVIEW. Smaller edits are compared
+ * against the snapshot too, so they can't creep past the limit one at a time.
+ */
+
+// What shoppers may see or buy; use everywhere a product is public
+export const publicProductWhere = {
+  isDeleted: false,
+  isAvailable: true,
+  status: ProductStatus.ACTIVE,
+} satisfies Prisma.ProductWhereInput;
+
+export type ModerationActor = "vendor" | "admin" | "system";
+
+// Statuses a vendor may ask for; ACTIVE means "publish" and goes through review first
+export type VendorProductStatus = "DRAFT" | "ACTIVE" | "INACTIVE";
+
+/**
+ * Moderation step refused; `statusCode` is what the route should answer with.
+ */
+export class ModerationError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "ModerationError";
+  }
+}
+
+// -----------------------------
+// Material changes
+// -----------------------------
+type ApprovedSnapshot = {
+  name: string;
+  description: string | null;
+  shortDesc: string | null;
+  priceUsdCents: number;
+  variantPrices: Record<string, number>;
+};
+
+export type ProductEdit = {
+  name?: string;
+  description?: string | null;
+  shortDesc?: string | null;
+  priceUsdCents?: number;
+  // variantId null = a new variant
+  variant?: { variantId: string | null; priceUsdCents: number };
+};
+
+function wordCounts(text: string | null | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of (text ?? "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Words added plus words removed, as a percentage of the longer text.
+ * Case, punctuation and spacing don't count.
+ */
+export function textChangePercent(before: string | null | undefined, after: string | null | undefined): number {
+  const a = wordCounts(before);
+  const b = wordCounts(after);
+
+  let changed = 0;
+  let totalA = 0;
+  let totalB = 0;
+  for (const [word, n] of a) {
+    totalA += n;
+    changed += Math.max(0, n - (b.get(word) ?? 0));
+  }
+  for (const [word, n] of b) {
+    totalB += n;
+    changed += Math.max(0, n - (a.get(word) ?? 0));
+  }
+
+  const longer = Math.max(totalA, totalB);
+  return longer === 0 ? 0 : (changed / longer) * 100;
+}
+
+function priceChangePercent(before: number, after: number): number {
+  return before <= 0 ? 100 : (Math.abs(after - before) / before) * 100;
+}
+
+function isSnapshot(value: unknown): value is ApprovedSnapshot {
+  return !!value && typeof value === "object" && typeof (value as ApprovedSnapshot).priceUsdCents === "number";
+}
+
+/**
+ * Why `edit` needs another review, measured against the approved snapshot;
+ * empty when it doesn't.
+ */
+export function materialChanges(snapshot: Prisma.JsonValue | null, edit: ProductEdit): string[] {
+  if (!isSnapshot(snapshot)) return [];
+
+  const reasons: string[] = [];
+  const priceLimit = env.PRODUCT_REVIEW_PRICE_CHANGE_PERCENT;
+  const textLimit = env.PRODUCT_REVIEW_TEXT_CHANGE_PERCENT;
+
+  if (edit.name !== undefined && textChangePercent(snapshot.name, edit.name) > 0) {
+    reasons.push("Name changed");
+  }
+  if (edit.description !== undefined && textChangePercent(snapshot.description, edit.description) > textLimit) {
+    reasons.push("Description rewritten");
+  }
+  if (edit.shortDesc !== undefined && textChangePercent(snapshot.shortDesc, edit.shortDesc) > textLimit) {
+    reasons.push("Short description rewritten");
+  }
+  if (
+    edit.priceUsdCents !== undefined &&
+    priceChangePercent(snapshot.priceUsdCents, edit.priceUsdCents) > priceLimit
+  ) {
+    reasons.push(`Price changed from ${snapshot.priceUsdCents} to ${edit.priceUsdCents} cents`);
+  }
+  if (edit.variant) {
+    const approved =
+      (edit.variant.variantId && snapshot.variantPrices?.[edit.variant.variantId]) || snapshot.priceUsdCents;
+    if (priceChangePercent(approved, edit.variant.priceUsdCents) > priceLimit) {
+      reasons.push(`Variant price ${edit.variant.priceUsdCents} cents is far from the approved ${approved}`);
+    }
+  }
+
+  return reasons;
+}
+
+type ModeratedProduct = {
+  status: ProductStatus;
+  approvedAt: Date | null;
+  approvedSnapshot: Prisma.JsonValue | null;
+};
+
+/**
+ * Where a vendor create/edit leaves the product. `approvalLost` means the
+ * update must also clear approvedAt; `backToReview` means a live product was
+ * pulled and the vendor should hear why (`reason`).
+ */
+export function statusAfterVendorEdit(
+  existing: ModeratedProduct,
+  edit: ProductEdit & { status?: VendorProductStatus }
+): { status: ProductStatus; approvalLost: boolean; backToReview: boolean; reason: string | null } {
+  const changes = existing.approvedAt ? materialChanges(existing.approvedSnapshot, edit) : [];
+  const approved = !!existing.approvedAt && changes.length === 0;
+
+  const requested = edit.status ?? existing.status;
+  let status: ProductStatus;
+  if (requested === "ACTIVE" || requested === "PENDING_REVIEW") {
+    status = approved ? "ACTIVE" : "PENDING_REVIEW";
+  } else {
+    status = requested; // DRAFT, INACTIVE, or REJECTED until the vendor resubmits
+  }
+
+  return {
+    status,
+    approvalLost: changes.length > 0,
+    backToReview: existing.status === "ACTIVE" && status === "PENDING_REVIEW",
+    reason: changes.length ? changes.join("; ") : null,
+  };
+}
+
+// -----------------------------
+// Recording and notifying
+// -----------------------------
+export async function recordModerationEvent(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  fromStatus: ProductStatus,
+  toStatus: ProductStatus,
+  actor: ModerationActor,
+  actorId: string | null,
+  reason: string | null = null
+): Promise<void> {
+  if (fromStatus === toStatus && !reason) return;
+  await tx.productModerationEvent.create({
+    data: { productId, fromStatus, toStatus, actor, actorId, reason },
+  });
+}
+
+/**
+ * Clear a product's approval after a material edit made outside the product
+ * form (e.g. a variant price); a live product goes back to PENDING_REVIEW.
+ * Returns true when a live product was pulled.
+ */
+export async function sendBackToReview(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  reason: string,
+  actor: ModerationActor,
+  actorId: string | null
+): Promise<boolean> {
+  const product = await tx.product.findUnique({
+    where: { id: productId },
+    select: { status: true, approvedAt: true },
+  });
+  if (!product?.approvedAt) return false;
+
+  const status: ProductStatus = product.status === "ACTIVE" ? "PENDING_REVIEW" : product.status;
+  await tx.product.update({
+    where: { id: productId },
+    data: { approvedAt: null, status },
+  });
+  await recordModerationEvent(tx, productId, product.status, status, actor, actorId, reason);
+
+  return product.status === "ACTIVE";
+}
+
+export type ReviewOutcome = "APPROVED" | "REJECTED" | "IN_REVIEW";
+
+/**
+ * Email the vendor about a moderation outcome. Never throws.
+ */
+export async function notifyVendorOfReview(
+  productId: string,
+  outcome: ReviewOutcome,
+  reason: string | null
+): Promise<void> {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { name: true, vendor: { select: { email: true, businessName: true } } },
+    });
+    if (!product) return;
+
+    const subjects: Record<ReviewOutcome, string> = {
+      APPROVED: `Approved: ${product.name} is now live`,
+      REJECTED: `Changes needed: ${product.name}`,
+      IN_REVIEW: `Back in review: ${product.name}`,
+    };
+
+    await sendEmail({
+      to: product.vendor.email,
+      subject: subjects[outcome],
+      html: getProductReviewEmailHtml(product.vendor.businessName, product.name, outcome, reason),
+    });
+  } catch (e) {
+    console.error("Product review notification failed:", e);
+  }
+}
+
+// -----------------------------
+// Admin decisions
+// -----------------------------
+async function snapshotOf(tx: Prisma.TransactionClient, productId: string): Promise<ApprovedSnapshot> {
+  const product = await tx.product.findUniqueOrThrow({
+    where: { id: productId },
+    select: {
+      name: true,
+      description: true,
+      shortDesc: true,
+      priceUsdCents: true,
+      variants: { where: { isDeleted: false }, select: { id: true, priceUsdCents: true } },
+    },
+  });
+
+  return {
+    name: product.name,
+    description: product.description,
+    shortDesc: product.shortDesc,
+    priceUsdCents: product.priceUsdCents,
+    variantPrices: Object.fromEntries(product.variants.map((v) => [v.id, v.priceUsdCents])),
+  };
+}
+
+/**
+ * Approve a product waiting for review (or reverse a rejection). It goes live
+ * unless the vendor has switched it off.
+ */
+export async function approveProduct(productId: string, adminId: string, note: string | null): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const product = await tx.product.findUnique({
+      where: { id: productId },
+      select: { status: true, isDeleted: true },
+    });
+    if (!product || product.isDeleted) throw new ModerationError("Product not found", 404);
+    if (product.status !== "PENDING_REVIEW" && product.status !== "REJECTED") {
+      throw new ModerationError(`Only products in review or rejected can be approved (status is ${product.status})`, 409);
+    }
+
+    // Compare-and-set so two admins can't both decide
+    const updated = await tx.product.updateMany({
+      where: { id: productId, status: product.status },
+      data: {
+        status: "ACTIVE",
+        approvedAt: new Date(),
+        approvedSnapshot: await snapshotOf(tx, productId),
+        rejectionReason: null,
+      },
+    });
+    if (updated.count === 0) throw new ModerationError("Product changed meanwhile; reload and try again", 409);
+
+    await recordModerationEvent(tx, productId, product.status, "ACTIVE", "admin", adminId, note);
+  });
+
+  await notifyVendorOfReview(productId, "APPROVED", note);
+}
+
+/**
+ * Reject a product in review, or take down a live one. The vendor gets the reason.
+ */
+export async function rejectProduct(productId: string, adminId: string, reason: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const product = await tx.product.findUnique({
+      where: { id: productId },
+      select: { status: true, isDeleted: true },
+    });
+    if (!product || product.isDeleted) throw new ModerationError("Product not found", 404);
+    if (product.status !== "PENDING_REVIEW" && product.status !== "ACTIVE" && product.status !== "INACTIVE") {
+      throw new ModerationError(`A ${product.status} product cannot be rejected`, 409);
+    }
+
+    const updated = await tx.product.updateMany({
+      where: { id: productId, status: product.status },
+      data: { status: "REJECTED", approvedAt: null, rejectionReason: reason },
+    });
+    if (updated.count === 0) throw new ModerationError("Product changed meanwhile; reload and try again", 409);
+
+    await recordModerationEvent(tx, productId, product.status, "REJECTED", "admin", adminId, reason);
+  });
+
+  await notifyVendorOfReview(productId, "REJECTED", reason);
+}
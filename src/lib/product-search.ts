@@ -0,0 +1,241 @@
+// src/lib/product-search.ts
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { categoryIdsWithDescendants } from "./categories";
+
+/**
+ * Public catalogue search.
+ *
+ * Matching uses Postgres full-text search on Product."searchVector", a generated
+ * column weighting name > shortDesc > description/benefits (see the
+ * add_product_search migration). Pages are keyset cursors over (sort value, id),
+ * so deep pages cost the same as the first one.
+ *
+ * `category` takes category slugs and also matches everything underneath them.
+ *
+ * Facet counts ignore their own filter (picking a category still lists the
+ * other categories with their counts) but respect every other filter.
+ */
+
+export const SEARCH_SORTS = ["relevance", "newest", "price_asc", "price_desc"] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+const FACET_LIMIT = 50;
+
+// Comma-separated list in a query string -> string[]
+const csv = z
+  .string()
+  .optional()
+  .transform((v) =>
+    v
+      ? v
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : []
+  )
+  .pipe(z.array(z.string().max(120)).max(50));
+
+export const productSearchQuerySchema = z
+  .object({
+    q: z.string().trim().max(200).optional().or(z.literal("").transform(() => undefined)),
+    category: csv,
+    vendorId: csv,
+    minPrice: z.coerce.number().int().min(0).optional(), // USD cents
+    maxPrice: z.coerce.number().int().min(0).optional(), // USD cents
+    // in_stock = can be bought now; sold_out = hidden by stock (not by the vendor); any = both
+    availability: z.enum(["in_stock", "sold_out", "any"]).default("in_stock"),
+    sort: z.enum(SEARCH_SORTS).optional(),
+    cursor: z.string().max(500).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(24),
+  })
+  .refine((v) => v.minPrice === undefined || v.maxPrice === undefined || v.minPrice <= v.maxPrice, {
+    message: "minPrice must not exceed maxPrice",
+    path: ["minPrice"],
+  });
+
+export type ProductSearchQuery = z.infer<typeof productSearchQuerySchema>;
+
+/**
+ * Bad search input (e.g. a cursor from another query); `statusCode` is what the route should answer with.
+ */
+export class SearchError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "SearchError";
+  }
+}
+
+// -----------------------------
+// Cursors
+// -----------------------------
+type Cursor = { s: SearchSort; q: string; v: string | number; id: string };
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: SearchSort, q: string): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    throw new SearchError("Invalid cursor");
+  }
+
+  if (
+    !cursor ||
+    cursor.s !== sort ||
+    cursor.q !== q ||
+    typeof cursor.id !== "string" ||
+    (typeof cursor.v !== "string" && typeof cursor.v !== "number")
+  ) {
+    throw new SearchError("Cursor does not match this search; start again without it");
+  }
+  return cursor;
+}
+
+// -----------------------------
+// SQL pieces
+// -----------------------------
+type Filters = Pick<ProductSearchQuery, "vendorId" | "minPrice" | "maxPrice" | "availability"> & {
+  categoryIds: string[] | null; // null = no category filter
+};
+
+function filterConditions(
+  tsQuery: Prisma.Sql | null,
+  f: Filters,
+  skip: { category?: boolean; vendor?: boolean } = {}
+): Prisma.Sql {
+  // Approved, live products only (see lib/product-moderation.ts)
+  const conditions: Prisma.Sql[] = [Prisma.sql`p."isDeleted" = false`, Prisma.sql`p."status" = 'ACTIVE'`];
+
+  if (f.availability === "in_stock") {
+    conditions.push(Prisma.sql`p."isAvailable" = true`);
+  } else if (f.availability === "sold_out") {
+    conditions.push(Prisma.sql`p."isAvailable" = false AND p."soldOutAt" IS NOT NULL`);
+  } else {
+    // Products the vendor switched off stay hidden
+    conditions.push(Prisma.sql`(p."isAvailable" = true OR p."soldOutAt" IS NOT NULL)`);
+  }
+
+  if (tsQuery) conditions.push(Prisma.sql`p."searchVector" @@ ${tsQuery}`);
+  if (!skip.category && f.categoryIds) {
+    // Unknown slugs match nothing rather than being ignored
+    conditions.push(
+      f.categoryIds.length ? Prisma.sql`p."categoryId" IN (${Prisma.join(f.categoryIds)})` : Prisma.sql`FALSE`
+    );
+  }
+  if (!skip.vendor && f.vendorId.length) conditions.push(Prisma.sql`p."vendorId" IN (${Prisma.join(f.vendorId)})`);
+  if (f.minPrice !== undefined) conditions.push(Prisma.sql`p."priceUsdCents" >= ${f.minPrice}`);
+  if (f.maxPrice !== undefined) conditions.push(Prisma.sql`p."priceUsdCents" <= ${f.maxPrice}`);
+
+  return Prisma.join(conditions, " AND ");
+}
+
+function sortSpec(sort: SearchSort, tsQuery: Prisma.Sql | null) {
+  switch (sort) {
+    case "relevance":
+      return { value: Prisma.sql`ts_rank(p."searchVector", ${tsQuery!})`, cast: Prisma.sql`real`, desc: true };
+    case "price_asc":
+      return { value: Prisma.sql`p."priceUsdCents"`, cast: Prisma.sql`integer`, desc: false };
+    case "price_desc":
+      return { value: Prisma.sql`p."priceUsdCents"`, cast: Prisma.sql`integer`, desc: true };
+    case "newest":
+      return { value: Prisma.sql`p."createdAt"`, cast: Prisma.sql`timestamp(3)`, desc: true };
+  }
+}
+
+// -----------------------------
+// Search
+// -----------------------------
+export type CategoryFacet = { categoryId: string; slug: string; name: string; count: number };
+export type VendorFacet = { vendorId: string; businessName: string; count: number };
+
+export type ProductSearchPage = {
+  ids: string[]; // in result order
+  nextCursor: string | null;
+  total: number;
+  sort: SearchSort;
+  facets: { categories: CategoryFacet[]; vendors: VendorFacet[] };
+};
+
+export async function searchProducts(query: ProductSearchQuery): Promise<ProductSearchPage> {
+  const q = query.q ?? "";
+  // Relevance only means something with a search term
+  const sort: SearchSort = query.sort && (query.sort !== "relevance" || q) ? query.sort : q ? "relevance" : "newest";
+
+  let categoryIds: string[] | null = null;
+  if (query.category.length) {
+    const picked = await prisma.category.findMany({
+      where: { slug: { in: query.category }, isActive: true },
+      select: { id: true },
+    });
+    categoryIds = await categoryIdsWithDescendants(picked.map((c) => c.id));
+  }
+  const filters: Filters = { ...query, categoryIds };
+
+  const tsQuery = q ? Prisma.sql`websearch_to_tsquery('english', ${q})` : null;
+  const where = filterConditions(tsQuery, filters);
+  const spec = sortSpec(sort, tsQuery);
+  const dir = spec.desc ? Prisma.sql`DESC` : Prisma.sql`ASC`;
+
+  let after = Prisma.sql`TRUE`;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, sort, q);
+    const cmp = spec.desc ? Prisma.sql`<` : Prisma.sql`>`;
+    after = Prisma.sql`(t."sortValue", t."id") ${cmp} (CAST(${cursor.v} AS ${spec.cast}), ${cursor.id})`;
+  }
+
+  const [rows, totals, categories, vendors] = await Promise.all([
+    prisma.$queryRaw<{ id: string; sortValue: Date | number }[]>`
+      SELECT t."id", t."sortValue" FROM (
+        SELECT p."id", ${spec.value} AS "sortValue"
+        FROM "Product" p
+        WHERE ${where}
+      ) t
+      WHERE ${after}
+      ORDER BY t."sortValue" ${dir}, t."id" ${dir}
+      LIMIT ${query.limit + 1}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS "total" FROM "Product" p WHERE ${where}
+    `,
+    prisma.$queryRaw<CategoryFacet[]>`
+      SELECT c."id" AS "categoryId", c."slug", c."name", COUNT(*)::int AS "count"
+      FROM "Product" p JOIN "Category" c ON c."id" = p."categoryId"
+      WHERE ${filterConditions(tsQuery, filters, { category: true })} AND c."isActive" = true
+      GROUP BY c."id", c."slug", c."name"
+      ORDER BY "count" DESC, c."name" ASC
+      LIMIT ${FACET_LIMIT}
+    `,
+    prisma.$queryRaw<VendorFacet[]>`
+      SELECT p."vendorId", v."businessName", COUNT(*)::int AS "count"
+      FROM "Product" p JOIN "Vendor" v ON v."id" = p."vendorId"
+      WHERE ${filterConditions(tsQuery, filters, { vendor: true })}
+      GROUP BY p."vendorId", v."businessName"
+      ORDER BY "count" DESC, v."businessName" ASC
+      LIMIT ${FACET_LIMIT}
+    `,
+  ]);
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    ids: page.map((r) => r.id),
+    nextCursor:
+      rows.length > query.limit && last
+        ? encodeCursor({
+            s: sort,
+            q,
+            v: last.sortValue instanceof Date ? last.sortValue.toISOString() : Number(last.sortValue),
+            id: last.id,
+          })
+        : null,
+    total: totals[0]?.total ?? 0,
+    sort,
+    facets: { categories, vendors },
+  };
+}
@@ -0,0 +1,418 @@
+// src/lib/promotions.ts
+import { Prisma, Promotion } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { CurrencyCode, formatMajor } from "./currency";
+
+/**
+ * Promotion could not be applied or saved; `statusCode` is what the route should answer with.
+ */
+export class PromotionError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "PromotionError";
+  }
+}
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// -----------------------------
+// Validation (shared by admin + vendor CRUD)
+// -----------------------------
+const promotionFields = {
+  code: z
+    .string()
+    .transform(normalizePromotionCode)
+    .pipe(z.string().regex(/^[A-Z0-9_-]{3,32}$/, "Code must be 3-32 letters, digits, - or _")),
+  name: z.string().min(1).max(120),
+  description: z.string().max(1000).nullable().optional(),
+  type: z.enum(["PERCENTAGE", "FIXED_AMOUNT", "FREE_SHIPPING", "BUY_X_GET_Y"]),
+  productIds: z.array(z.string().min(1)).max(200).optional(),
+  percentOff: z.number().int().min(1).max(100).nullable().optional(),
+  maxDiscountUsdCents: z.number().int().positive().nullable().optional(),
+  amountOffUsdCents: z.number().int().positive().nullable().optional(),
+  buyQuantity: z.number().int().min(1).max(100).nullable().optional(),
+  getQuantity: z.number().int().min(1).max(100).nullable().optional(),
+  minSubtotalUsdCents: z.number().int().min(0).nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const promotionCreateSchema = z.object(promotionFields);
+export const promotionUpdateSchema = z.object(promotionFields).partial();
+
+type PromotionRules = Pick<
+  Promotion,
+  "type" | "percentOff" | "amountOffUsdCents" | "buyQuantity" | "getQuantity" | "startsAt" | "endsAt"
+>;
+
+/**
+ * Check the rule values a promotion type needs. Returns an error message or null.
+ */
+export function promotionRuleError(p: PromotionRules): string | null {
+  if (p.type === "PERCENTAGE" && !p.percentOff) {
+    return "percentOff is required for PERCENTAGE promotions";
+  }
+  if (p.type === "FIXED_AMOUNT" && !p.amountOffUsdCents) {
+    return "amountOffUsdCents is required for FIXED_AMOUNT promotions";
+  }
+  if (p.type === "BUY_X_GET_Y" && (!p.buyQuantity || !p.getQuantity)) {
+    return "buyQuantity and getQuantity are required for BUY_X_GET_Y promotions";
+  }
+  if (p.startsAt && p.endsAt && p.endsAt <= p.startsAt) {
+    return "endsAt must be after startsAt";
+  }
+  return null;
+}
+
+// -----------------------------
+// Applying a code at checkout
+// -----------------------------
+export type PricedLine = {
+  productId: string;
+  quantity: number;
+  unitPrice: number; // minor units of the order currency
+};
+
+export type PricedVendorOrder = {
+  vendorId: string;
+  lines: PricedLine[];
+  shippingFee: number;
+};
+
+export type AppliedPromotion = {
+  promotion: Promotion;
+  discounts: Map<string, number>; // vendorId -> discount (minor units)
+  total: number;
+};
+
+// Split `total` across vendors in proportion to `weight`; the last one absorbs rounding
+function allocate(total: number, weights: { vendorId: string; weight: number }[]): Map<string, number> {
+  const result = new Map<string, number>();
+  const sum = weights.reduce((s, w) => s + w.weight, 0);
+  if (sum <= 0 || total <= 0) return result;
+
+  let remaining = total;
+  weights.forEach((w, index) => {
+    const share =
+      index === weights.length - 1 ? remaining : Math.floor((total * w.weight) / sum);
+    result.set(w.vendorId, share);
+    remaining -= share;
+  });
+
+  return result;
+}
+
+/**
+ * Validate `code` for this shopper and cart and work out the discount per vendor order.
+ * Fixed amounts / minimums are stored in USD cents and converted with `toOrderCurrency`.
+ */
+export async function applyPromotion(
+  code: string,
+  input: {
+    userId: string;
+    currency: CurrencyCode;
+    orders: PricedVendorOrder[];
+    toOrderCurrency: (usdCents: number) => number;
+  }
+): Promise<AppliedPromotion> {
+  const promotion = await prisma.promotion.findUnique({
+    where: { code: normalizePromotionCode(code) },
+  });
+
+  if (!promotion || !promotion.isActive) {
+    throw new PromotionError("Invalid promotion code");
+  }
+
+  const now = new Date();
+  if (promotion.startsAt && now < promotion.startsAt) {
+    throw new PromotionError("Promotion is not active yet");
+  }
+  if (promotion.endsAt && now > promotion.endsAt) {
+    throw new PromotionError("Promotion has expired");
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    throw new PromotionError("Promotion usage limit reached");
+  }
+  // The per-user limit is checked by redeemPromotion, inside the checkout transaction
+
+  // Lines the promotion covers, per vendor order
+  const eligible = input.orders
+    .filter((o) => !promotion.vendorId || o.vendorId === promotion.vendorId)
+    .map((o) => ({
+      vendorId: o.vendorId,
+      shippingFee: o.shippingFee,
+      lines: o.lines.filter(
+        (l) => !promotion.productIds.length || promotion.productIds.includes(l.productId)
+      ),
+    }))
+    .filter((o) => o.lines.length > 0);
+
+  if (!eligible.length) {
+    throw new PromotionError("Promotion does not apply to these items");
+  }
+
+  const lineTotal = (lines: PricedLine[]) =>
+    lines.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0);
+
+  const weights = eligible.map((o) => ({ vendorId: o.vendorId, weight: lineTotal(o.lines) }));
+  const eligibleSubtotal = weights.reduce((sum, w) => sum + w.weight, 0);
+
+  if (promotion.minSubtotalUsdCents) {
+    const minimum = input.toOrderCurrency(promotion.minSubtotalUsdCents);
+    if (eligibleSubtotal < minimum) {
+      throw new PromotionError(
+        `Spend at least ${formatMajor(minimum, input.currency)} ${input.currency} on eligible items to use this code`
+      );
+    }
+  }
+
+  let discounts = new Map<string, number>();
+
+  switch (promotion.type) {
+    case "PERCENTAGE": {
+      let total = Math.round((eligibleSubtotal * (promotion.percentOff ?? 0)) / 100);
+      if (promotion.maxDiscountUsdCents) {
+        total = Math.min(total, input.toOrderCurrency(promotion.maxDiscountUsdCents));
+      }
+      discounts = allocate(total, weights);
+      break;
+    }
+
+    case "FIXED_AMOUNT": {
+      const total = Math.min(input.toOrderCurrency(promotion.amountOffUsdCents ?? 0), eligibleSubtotal);
+      discounts = allocate(total, weights);
+      break;
+    }
+
+    case "FREE_SHIPPING": {
+      for (const o of eligible) discounts.set(o.vendorId, o.shippingFee);
+      break;
+    }
+
+    case "BUY_X_GET_Y": {
+      // Every full group of X+Y eligible units (priciest first) gets its Y cheapest free
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const units = eligible
+        .flatMap((o) =>
+          o.lines.flatMap((l) =>
+            Array.from({ length: l.quantity }, () => ({ vendorId: o.vendorId, price: l.unitPrice }))
+          )
+        )
+        .sort((a, b) => b.price - a.price);
+
+      const groupSize = buy + get;
+      const groups = groupSize > 0 ? Math.floor(units.length / groupSize) : 0;
+
+      for (let g = 0; g < groups; g++) {
+        for (const unit of units.slice(g * groupSize + buy, (g + 1) * groupSize)) {
+          discounts.set(unit.vendorId, (discounts.get(unit.vendorId) ?? 0) + unit.price);
+        }
+      }
+      break;
+    }
+  }
+
+  const total = [...discounts.values()].reduce((sum, d) => sum + d, 0);
+
+  if (total <= 0) {
+    throw new PromotionError("Promotion does not apply to these items");
+  }
+
+  return { promotion, discounts, total };
+}
+
+/**
+ * Count a redemption inside the checkout transaction.
+ * The conditional increment keeps concurrent checkouts from overshooting usageLimit,
+ * and the row lock it takes makes the per-user count below safe too.
+ */
+export async function redeemPromotion(
+  tx: Prisma.TransactionClient,
+  applied: AppliedPromotion,
+  input: { userId: string; checkoutId: string; currency: string }
+): Promise<void> {
+  const { promotion } = applied;
+
+  const updated = await tx.promotion.updateMany({
+    where: {
+      id: promotion.id,
+      ...(promotion.usageLimit !== null ? { usageCount: { lt: promotion.usageLimit } } : {}),
+    },
+    data: { usageCount: { increment: 1 } },
+  });
+
+  if (updated.count === 0) {
+    throw new PromotionError("Promotion usage limit reached", 409);
+  }
+
+  if (promotion.perUserLimit !== null) {
+    const used = await tx.promotionRedemption.count({
+      where: { promotionId: promotion.id, userId: input.userId },
+    });
+    if (used >= promotion.perUserLimit) {
+      throw new PromotionError("You have already used this promotion", 409);
+    }
+  }
+
+  await tx.promotionRedemption.create({
+    data: {
+      promotionId: promotion.id,
+      userId: input.userId,
+      checkoutId: input.checkoutId,
+      discountAmount: applied.total,
+      currency: input.currency,
+    },
+  });
+}
+
+/**
+ * Give a checkout's redemption back (payment failed, or every order cancelled),
+ * so the code counts again for the shopper and against usageLimit.
+ */
+export async function releasePromotionRedemption(
+  tx: Prisma.TransactionClient,
+  checkoutId: string
+): Promise<void> {
+  const redemptions = await tx.promotionRedemption.findMany({
+    where: { checkoutId },
+    select: { id: true, promotionId: true },
+  });
+
+  for (const r of redemptions) {
+    const deleted = await tx.promotionRedemption.deleteMany({ where: { id: r.id } });
+    if (deleted.count === 0) continue;
+    await tx.promotion.updateMany({
+      where: { id: r.promotionId, usageCount: { gt: 0 } },
+      data: { usageCount: { decrement: 1 } },
+    });
+  }
+}
+
+/**
+ * Count a released redemption again once its checkout does get paid. No limit
+ * check here: the shopper has already paid the discounted price.
+ */
+export async function restorePromotionRedemption(
+  tx: Prisma.TransactionClient,
+  checkoutId: string
+): Promise<void> {
+  const existing = await tx.promotionRedemption.count({ where: { checkoutId } });
+  if (existing > 0) return;
+
+  // Paid after everything was cancelled: it gets refunded, the code stays free
+  const open = await tx.order.count({
+    where: { checkoutId, status: { notIn: ["CANCELLED", "REJECTED"] } },
+  });
+  if (open === 0) return;
+
+  const discounts = await tx.orderDiscount.findMany({
+    where: { order: { checkoutId }, promotionId: { not: null } },
+    select: { promotionId: true, amount: true, order: { select: { userId: true, currency: true } } },
+  });
+  if (!discounts.length) return;
+
+  const { promotionId, order } = discounts[0];
+  await tx.promotion.updateMany({
+    where: { id: promotionId! },
+    data: { usageCount: { increment: 1 } },
+  });
+  await tx.promotionRedemption.create({
+    data: {
+      promotionId: promotionId!,
+      userId: order.userId,
+      checkoutId,
+      discountAmount: discounts.reduce((sum, d) => sum + d.amount, 0),
+      currency: order.currency,
+    },
+  });
+}
+
+/**
+ * Release the promotion of an order's checkout once all of its orders were
+ * cancelled or rejected.
+ */
+export async function releasePromotionIfCheckoutCancelled(
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<void> {
+  const order = await tx.order.findUnique({ where: { id: orderId }, select: { checkoutId: true } });
+  if (!order?.checkoutId) return;
+
+  const open = await tx.order.count({
+    where: { checkoutId: order.checkoutId, status: { notIn: ["CANCELLED", "REJECTED"] } },
+  });
+  if (open === 0) {
+    await releasePromotionRedemption(tx, order.checkoutId);
+  }
+}
+
+// -----------------------------
+// CRUD helpers
+// -----------------------------
+
+/**
+ * productIds must exist and, for vendor promotions, belong to that vendor.
+ * Returns an error message or null.
+ */
+export async function promotionProductsError(
+  productIds: string[],
+  vendorId: string | null
+): Promise<string | null> {
+  if (!productIds.length) return null;
+
+  const found = await prisma.product.findMany({
+    where: {
+      id: { in: productIds },
+      isDeleted: false,
+      ...(vendorId ? { vendorId } : {}),
+    },
+    select: { id: true },
+  });
+
+  const foundIds = new Set(found.map((p) => p.id));
+  const missing = productIds.filter((id) => !foundIds.has(id));
+
+  return missing.length ? `Unknown products: ${missing.join(", ")}` : null;
+}
+
+/**
+ * Redemption count and discount given, per currency.
+ */
+export async function getPromotionStats(promotionId: string) {
+  const rows = await prisma.promotionRedemption.groupBy({
+    by: ["currency"],
+    where: { promotionId },
+    _count: { _all: true },
+    _sum: { discountAmount: true },
+  });
+
+  return rows.map((r) => ({
+    currency: r.currency,
+    redemptions: r._count._all,
+    discountAmount: r._sum.discountAmount ?? 0,
+  }));
+}
+
+/**
+ * Remove a promotion; once it has been redeemed it is only deactivated, so orders keep their history.
+ */
+export async function deletePromotion(promotion: Pick<Promotion, "id" | "usageCount">) {
+  if (promotion.usageCount > 0) {
+    await prisma.promotion.update({ where: { id: promotion.id }, data: { isActive: false } });
+    return { deleted: false, deactivated: true };
+  }
+
+  await prisma.promotion.delete({ where: { id: promotion.id } });
+  return { deleted: true, deactivated: false };
+}
+
+export function isDuplicateCodeError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
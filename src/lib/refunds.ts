@@ -0,0 +1,352 @@
+// src/lib/refunds.ts
+import { PaymentStatus, Prisma, RefundStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { isCurrencyCode } from "./currency";
+import { postRefund, postRefundReversed } from "./ledger";
+import { getPaymentProvider, PaymentProviderError, RefundResult } from "../services/payments";
+
+export type RefundActor = {
+  initiatedBy: "admin" | "vendor" | "user" | "system";
+  initiatedById?: string | null;
+};
+
+/**
+ * Refund could not be issued; `statusCode` is what the route should answer with.
+ */
+export class RefundError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ["PAID", "PARTIALLY_REFUNDED"];
+
+// Refunds that hold money back from the refundable balance
+const COUNTED_REFUND_STATUSES: RefundStatus[] = ["PENDING", "SUCCEEDED"];
+
+function sumAmounts(rows: { amount: number }[]): number {
+  return rows.reduce((sum, r) => sum + r.amount, 0);
+}
+
+function refundedStatus(refunded: number, total: number): PaymentStatus {
+  if (refunded <= 0) return "PAID";
+  return refunded >= total ? "REFUNDED" : "PARTIALLY_REFUNDED";
+}
+
+/**
+ * Captured payment covering an order: its own payment, or its checkout's.
+ */
+export async function findCapturedPaymentForOrder(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, checkoutId: true },
+  });
+
+  if (!order) return null;
+
+  return prisma.payment.findFirst({
+    where: {
+      status: { in: REFUNDABLE_STATUSES },
+      OR: [
+        { orderId: order.id },
+        ...(order.checkoutId ? [{ checkoutId: order.checkoutId }] : []),
+      ],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Recompute payment / order / checkout payment statuses from the refunds on a payment.
+ */
+export async function syncRefundedStatuses(
+  tx: Prisma.TransactionClient,
+  paymentId: string
+): Promise<void> {
+  const payment = await tx.payment.findUnique({
+    where: { id: paymentId },
+    select: {
+      id: true,
+      amount: true,
+      orderId: true,
+      checkoutId: true,
+      refunds: {
+        where: { status: { in: COUNTED_REFUND_STATUSES } },
+        select: { amount: true, orderId: true },
+      },
+    },
+  });
+
+  if (!payment) return;
+
+  const paymentStatus = refundedStatus(sumAmounts(payment.refunds), payment.amount);
+
+  await tx.payment.update({
+    where: { id: payment.id },
+    data: { status: paymentStatus },
+  });
+
+  if (payment.checkoutId) {
+    await tx.checkout.update({
+      where: { id: payment.checkoutId },
+      data: { paymentStatus },
+    });
+  }
+
+  if (!payment.checkoutId && !payment.orderId) return;
+
+  const orders = await tx.order.findMany({
+    where: payment.checkoutId ? { checkoutId: payment.checkoutId } : { id: payment.orderId! },
+    select: { id: true, totalAmount: true },
+  });
+
+  for (const order of orders) {
+    const orderRefunded =
+      paymentStatus === "REFUNDED"
+        ? order.totalAmount
+        : sumAmounts(payment.refunds.filter((r) => r.orderId === order.id));
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: { paymentStatus: refundedStatus(orderRefunded, order.totalAmount) },
+    });
+  }
+}
+
+/**
+ * Refund (part of) a captured payment through its provider.
+ *
+ * The amount is reserved as a PENDING Refund row before the provider is called,
+ * so a crash or provider error never leaves money returned without a record.
+ * Defaults to everything still refundable for the order.
+ */
+export async function refundPayment(
+  input: {
+    paymentId: string;
+    orderId?: string | null;
+    amount?: number; // minor units; omitted = full remaining amount
+    reason?: string | null;
+  } & RefundActor
+) {
+  // Serializable so two concurrent refunds can't both pass the balance check
+  const { refund, payment } = await prisma.$transaction(
+    async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: input.paymentId },
+        include: {
+          refunds: {
+            where: { status: { in: COUNTED_REFUND_STATUSES } },
+            select: { amount: true, orderId: true },
+          },
+        },
+      });
+
+      if (!payment) {
+        throw new RefundError("Payment not found", 404);
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+        throw new RefundError(`Payment is ${payment.status.toLowerCase()}, nothing to refund`);
+      }
+
+      if (!payment.providerRef) {
+        throw new RefundError("Payment has no provider reference");
+      }
+
+      // Checkout payments cover several vendors' orders; refunds must say which
+      const orderId = input.orderId ?? payment.orderId;
+      if (!orderId) {
+        throw new RefundError("orderId is required to refund a checkout payment");
+      }
+
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        select: { id: true, totalAmount: true, checkoutId: true },
+      });
+
+      const covered =
+        !!order &&
+        (payment.orderId === order.id ||
+          (!!payment.checkoutId && payment.checkoutId === order.checkoutId));
+
+      if (!order || !covered) {
+        throw new RefundError("Order is not covered by this payment");
+      }
+
+      const refundable = Math.min(
+        payment.amount - sumAmounts(payment.refunds),
+        order.totalAmount - sumAmounts(payment.refunds.filter((r) => r.orderId === order.id))
+      );
+
+      if (refundable <= 0) {
+        throw new RefundError("Nothing left to refund for this order");
+      }
+
+      const amount = input.amount ?? refundable;
+
+      if (amount <= 0 || amount > refundable) {
+        throw new RefundError(`Refund amount must be between 1 and ${refundable}`);
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          orderId: order.id,
+          amount,
+          currency: payment.currency,
+          reason: input.reason ?? null,
+          status: "PENDING",
+          provider: payment.provider,
+          initiatedBy: input.initiatedBy,
+          initiatedById: input.initiatedById ?? null,
+        },
+      });
+
+      return { refund, payment };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  const provider = getPaymentProvider(payment.provider);
+
+  if (!provider || !isCurrencyCode(payment.currency)) {
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: "FAILED", rawResponse: { error: "Provider not available" } },
+    });
+    throw new RefundError(`Refunds are not available for ${payment.provider}`);
+  }
+
+  let result;
+  try {
+    result = await provider.refund({
+      providerRef: payment.providerRef!,
+      amount: refund.amount,
+      currency: payment.currency,
+      reason: refund.reason,
+    });
+  } catch (error: any) {
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: "FAILED",
+        rawResponse: { error: error?.response?.data ?? error?.message ?? String(error) },
+      },
+    });
+
+    throw new RefundError(
+      error instanceof PaymentProviderError ? error.message : `${provider.label} refund request failed`,
+      502
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: result.status,
+        providerRefundId: result.providerRefundId,
+        rawResponse: result.raw,
+      },
+    });
+
+    if (result.status !== "FAILED") {
+      await syncRefundedStatuses(tx, payment.id);
+      await postRefund(tx, updated);
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Record the provider's final answer on a refund it accepted as PENDING
+ * (refund webhook or reconciliation). A refund that failed stops counting
+ * against the payment and its ledger posting is reversed. Returns false
+ * when the refund was already settled, or is still pending.
+ */
+export async function settleRefund(
+  refund: { id: string },
+  result: Pick<RefundResult, "status" | "raw">
+): Promise<boolean> {
+  if (result.status === "PENDING") {
+    await prisma.refund.updateMany({
+      where: { id: refund.id, status: "PENDING" },
+      data: { rawResponse: result.raw },
+    });
+    return false;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.refund.updateMany({
+      where: { id: refund.id, status: "PENDING" },
+      data: { status: result.status, rawResponse: result.raw },
+    });
+    if (claimed.count === 0) return false;
+
+    const settled = await tx.refund.findUniqueOrThrow({ where: { id: refund.id } });
+    await syncRefundedStatuses(tx, settled.paymentId);
+
+    if (settled.status === "SUCCEEDED") {
+      await postRefund(tx, settled);
+    } else {
+      await postRefundReversed(tx, settled);
+    }
+    return true;
+  });
+}
+
+/**
+ * Money that arrived after its orders were cancelled (late webhook, reconciliation)
+ * goes straight back. Best effort: a failed attempt stays visible as a FAILED Refund.
+ */
+export async function refundCancelledOrders(paymentId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: { id: true, status: true, orderId: true, checkoutId: true },
+  });
+
+  if (!payment || payment.status !== "PAID") return [];
+  if (!payment.checkoutId && !payment.orderId) return [];
+
+  const orders = await prisma.order.findMany({
+    where: {
+      ...(payment.checkoutId ? { checkoutId: payment.checkoutId } : { id: payment.orderId! }),
+      status: "CANCELLED",
+    },
+    select: { id: true },
+  });
+
+  const refunds = [];
+  for (const order of orders) {
+    try {
+      refunds.push(
+        await refundPayment({
+          paymentId: payment.id,
+          orderId: order.id,
+          reason: "Payment received after the order was cancelled",
+          initiatedBy: "system",
+        })
+      );
+    } catch (e) {
+      console.error(`Late payment refund failed for order ${order.id}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  return refunds;
+}
+
+/**
+ * Refund whatever is still refundable on an order (or `amount` of it).
+ * Returns null when the order has no captured payment.
+ */
+export async function refundOrder(
+  orderId: string,
+  input: { amount?: number; reason?: string | null } & RefundActor
+) {
+  const payment = await findCapturedPaymentForOrder(orderId);
+  if (!payment) return null;
+
+  return refundPayment({ ...input, paymentId: payment.id, orderId });
+}
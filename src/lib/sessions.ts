@@ -0,0 +1,326 @@
+// src/lib/sessions.ts
+import { Prisma, SessionSubject, UserRole, VendorMemberStatus, VendorStatus } from "@prisma/client";
+import crypto from "crypto";
+import { Request } from "express";
+import { prisma } from "./prisma";
+import { hashToken } from "../services/tokens";
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from "./auth-tokens";
+
+/**
+ * Login sessions for users and vendors.
+ *
+ * Every login creates a Session and hands out a short-lived access token plus
+ * a refresh token, both carrying the session id (`sid`). Only a hash of the
+ * current refresh token is stored. Refreshing swaps it for a new one; since
+ * the old token is then useless, seeing it again means it was copied, so the
+ * whole session is revoked (reuse detection) and the real owner has to log in
+ * again.
+ *
+ * Access tokens are checked against their session on every request, so logout,
+ * logout-all and admin revocation take effect immediately rather than when the
+ * access token runs out.
+ *
+ * Admins get an admin token only once two-factor is on; until then they are
+ * logged in as plain users so they can enrol.
+ */
+
+export type SessionOwner =
+  | { type: "USER"; id: string; role: UserRole; twoFactor: boolean } // admin tokens need twoFactor
+  | { type: "VENDOR"; id: string; memberId: string | null }; // memberId null = account holder
+
+// Whose sessions to list or revoke. For vendors, memberId null means the
+// account holder's own, a member id that member's, and leaving it out the
+// whole team's.
+export type SessionScope = { type: SessionSubject; id: string; memberId?: string | null };
+
+export type SessionTokens = {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+};
+
+export type RevokeReason =
+  | "logout"
+  | "logout_all"
+  | "reuse_detected"
+  | "admin"
+  | "password_reset"
+  | "two_factor"; // 2FA switched on, off or reset
+
+// Revoked and expired rows are kept this long (reuse detection, audit), then dropped
+const STALE_SESSION_DAYS = 30;
+
+/**
+ * Refresh or session check refused; `statusCode` is what the route should answer with.
+ */
+export class SessionError extends Error {
+  constructor(message: string, public statusCode = 401) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export type SessionContext = {
+  device: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+const PLATFORMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Coarse "Browser on OS" label when the client doesn't name its device
+function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1];
+  const name = [browser, platform].filter(Boolean).join(" on ");
+  return name || userAgent.slice(0, 60);
+}
+
+/**
+ * Device, IP and user agent of the request starting or refreshing a session.
+ * Clients may name themselves with `device` in the body ("Pixel 8 app").
+ */
+export function sessionContext(req: Request): SessionContext {
+  const userAgent = req.get("user-agent")?.slice(0, 512) || null;
+  const named = typeof req.body?.device === "string" ? req.body.device.trim().slice(0, 100) : "";
+  return {
+    device: named || describeDevice(userAgent),
+    ipAddress: req.ip || null,
+    userAgent,
+  };
+}
+
+function ownerWhere(scope: SessionScope): Prisma.SessionWhereInput {
+  if (scope.type === "USER") return { userId: scope.id };
+  return scope.memberId === undefined
+    ? { vendorId: scope.id }
+    : { vendorId: scope.id, vendorMemberId: scope.memberId };
+}
+
+/**
+ * Why a vendor may not hold a session right now, or null when they may.
+ */
+export function vendorBlockedReason(vendor: { status: VendorStatus; isActive: boolean }): string | null {
+  if (vendor.status === "SUSPENDED") return "Vendor account is suspended";
+  if (vendor.status !== "APPROVED") return "Vendor account not approved yet";
+  if (!vendor.isActive) return "Vendor account is inactive";
+  return null;
+}
+
+/**
+ * Why a vendor team member may not hold a session right now, or null when they may.
+ */
+export function memberBlockedReason(member: { status: VendorMemberStatus }): string | null {
+  if (member.status === "DISABLED") return "Team account is disabled";
+  if (member.status !== "ACTIVE") return "Invitation has not been accepted yet";
+  return null;
+}
+
+function signTokens(owner: SessionOwner, sessionId: string): { accessToken: string; refreshToken: string; expiresAt: Date } {
+  const accessToken =
+    owner.type === "USER"
+      ? signAccessToken({
+          aud: owner.role === "ADMIN" && owner.twoFactor ? "admin" : "user",
+          sub: owner.id,
+          sid: sessionId,
+          role: owner.role,
+        })
+      : signAccessToken({
+          aud: "vendor",
+          sub: owner.id,
+          sid: sessionId,
+          ...(owner.memberId ? { mid: owner.memberId } : {}),
+        });
+
+  const refresh = signRefreshToken({ aud: owner.type === "USER" ? "user" : "vendor", sub: owner.id, sid: sessionId });
+  return { accessToken, refreshToken: refresh.token, expiresAt: refresh.expiresAt };
+}
+
+/**
+ * Start a session after a successful login or registration.
+ */
+export async function createSession(owner: SessionOwner, context: SessionContext): Promise<SessionTokens> {
+  const sessionId = `ses_${crypto.randomBytes(16).toString("hex")}`;
+  const { accessToken, refreshToken, expiresAt } = signTokens(owner, sessionId);
+
+  const staleBefore = new Date(Date.now() - STALE_SESSION_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.$transaction([
+    prisma.session.deleteMany({
+      where: {
+        ...ownerWhere(owner),
+        OR: [{ expiresAt: { lt: staleBefore } }, { revokedAt: { lt: staleBefore } }],
+      },
+    }),
+    prisma.session.create({
+      data: {
+        id: sessionId,
+        subjectType: owner.type,
+        userId: owner.type === "USER" ? owner.id : null,
+        vendorId: owner.type === "VENDOR" ? owner.id : null,
+        vendorMemberId: owner.type === "VENDOR" ? owner.memberId : null,
+        refreshTokenHash: hashToken(refreshToken),
+        expiresAt,
+        ...context,
+      },
+    }),
+  ]);
+
+  return { accessToken, refreshToken, sessionId };
+}
+
+/**
+ * Exchange a refresh token for a new pair. Throws SessionError when the token
+ * is invalid, expired, belongs to the other kind of account, or has been used
+ * before; in the last case the session is revoked.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  subjectType: SessionSubject,
+  context: SessionContext
+): Promise<SessionTokens> {
+  // Tokens from before typed claims carry no aud/sid; those clients log in again
+  const payload = verifyRefreshToken(refreshToken, subjectType === "USER" ? "user" : "vendor");
+  if (!payload) {
+    throw new SessionError("Invalid or expired refresh token");
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    include: {
+      user: { select: { role: true, twoFactorEnabledAt: true } },
+      vendor: { select: { status: true, isActive: true } },
+      vendorMember: { select: { status: true } },
+    },
+  });
+  if (!session || session.subjectType !== subjectType || (session.userId ?? session.vendorId) !== payload.sub) {
+    throw new SessionError("Invalid or expired refresh token");
+  }
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    throw new SessionError("Session has ended; please log in again");
+  }
+  const blocked =
+    (session.vendor && vendorBlockedReason(session.vendor)) ||
+    (session.vendorMember && memberBlockedReason(session.vendorMember));
+  if (blocked) {
+    throw new SessionError(blocked, 403);
+  }
+
+  const presentedHash = hashToken(refreshToken);
+  const owner: SessionOwner =
+    session.subjectType === "USER"
+      ? {
+          type: "USER",
+          id: session.userId!,
+          role: session.user!.role,
+          twoFactor: !!session.user!.twoFactorEnabledAt,
+        }
+      : { type: "VENDOR", id: session.vendorId!, memberId: session.vendorMemberId };
+  const next = signTokens(owner, session.id);
+
+  // Compare-and-set on the current hash: of two requests racing with the same
+  // token only one wins, and the loser is treated as a replay
+  const updated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(next.refreshToken),
+      rotationCount: { increment: 1 },
+      lastUsedAt: new Date(),
+      expiresAt: next.expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  if (updated.count === 0) {
+    await revokeSession(session.id, "reuse_detected");
+    console.warn(`Refresh token reuse on session ${session.id}; session revoked`);
+    throw new SessionError("Refresh token has already been used; please log in again");
+  }
+
+  return { accessToken: next.accessToken, refreshToken: next.refreshToken, sessionId: session.id };
+}
+
+/**
+ * Is the session behind an access token still live?
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+export async function revokeSession(sessionId: string, reason: RevokeReason): Promise<boolean> {
+  const revoked = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return revoked.count > 0;
+}
+
+/**
+ * End every live session of an account. Returns how many were revoked.
+ */
+export async function revokeAllSessions(scope: SessionScope, reason: RevokeReason): Promise<number> {
+  const revoked = await prisma.session.updateMany({
+    where: { ...ownerWhere(scope), revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return revoked.count;
+}
+
+export const sessionSelect = {
+  id: true,
+  device: true,
+  ipAddress: true,
+  userAgent: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  vendorMember: { select: { id: true, email: true, name: true, role: true } },
+} satisfies Prisma.SessionSelect;
+
+/**
+ * Live sessions of an account, most recently used first; `current` marks the
+ * one making the request.
+ */
+export async function listSessions(scope: SessionScope, currentSessionId?: string) {
+  const sessions = await prisma.session.findMany({
+    where: { ...ownerWhere(scope), revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: "desc" },
+    select: sessionSelect,
+  });
+  return sessions.map((s) => ({ ...s, current: s.id === currentSessionId }));
+}
+
+/**
+ * Revoke one of an account's own sessions (e.g. "sign out that phone").
+ * False when it isn't theirs or has already ended.
+ */
+export async function revokeOwnSession(
+  scope: SessionScope,
+  sessionId: string,
+  reason: RevokeReason = "logout"
+): Promise<boolean> {
+  const revoked = await prisma.session.updateMany({
+    where: { ...ownerWhere(scope), id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return revoked.count > 0;
+}
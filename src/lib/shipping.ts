@@ -0,0 +1,388 @@
+// src/lib/shipping.ts
+import { Prisma, ShippingRate } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { PickedVariant, withVariant } from "./variants";
+
+export const SHIPPING_TYPES = ["standard", "express"] as const;
+export type ShippingType = (typeof SHIPPING_TYPES)[number];
+
+// Used when a product has no weight on file
+const DEFAULT_ITEM_WEIGHT_GRAMS = 500;
+
+// Courier volumetric weight: L x W x H (cm) / 5000 = kg, i.e. / 5 = grams
+const VOLUMETRIC_DIVISOR = 5;
+
+// How long a quote can be used to place an order
+const QUOTE_TTL_MINUTES = 30;
+
+/**
+ * Shipping could not be priced; `statusCode` is what the route should answer with.
+ */
+export class ShippingError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "ShippingError";
+  }
+}
+
+export const shippingAddressSchema = z.object({
+  country: z
+    .string()
+    .trim()
+    .length(2, "country must be an ISO 3166-1 alpha-2 code")
+    .transform((v) => v.toUpperCase()),
+  region: z.string().trim().max(100).optional(), // state / province
+  city: z.string().trim().max(100).optional(),
+  postalCode: z.string().trim().max(20).optional(),
+  line1: z.string().trim().min(1).max(200),
+  line2: z.string().trim().max(200).optional(),
+  recipientName: z.string().trim().max(120).optional(),
+  phone: z.string().trim().max(40).optional(),
+});
+
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+
+// -----------------------------
+// Rate table validation (shared by admin + vendor CRUD)
+// -----------------------------
+export const shippingZoneSchema = z.object({
+  name: z.string().min(1).max(120),
+  countries: z
+    .array(z.string().trim().length(2).transform((v) => v.toUpperCase()))
+    .min(1),
+  regions: z.array(z.string().trim().min(1).transform((v) => v.toLowerCase())).optional(),
+  postalPrefixes: z
+    .array(z.string().trim().min(1).transform((v) => v.replace(/\s+/g, "").toUpperCase()))
+    .optional(),
+  priority: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const shippingRateFields = {
+  zoneId: z.string().min(1),
+  shippingType: z.enum(SHIPPING_TYPES),
+  minWeightGrams: z.number().int().min(0).optional(),
+  maxWeightGrams: z.number().int().positive().nullable().optional(),
+  baseFeeUsdCents: z.number().int().min(0),
+  perKgUsdCents: z.number().int().min(0).optional(),
+  freeAboveUsdCents: z.number().int().min(0).nullable().optional(),
+  minDays: z.number().int().min(0).nullable().optional(),
+  maxDays: z.number().int().min(0).nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const shippingRateCreateSchema = z.object(shippingRateFields);
+export const shippingRateUpdateSchema = z.object(shippingRateFields).omit({ zoneId: true }).partial();
+
+/**
+ * Check a rate row's bands make sense. Returns an error message or null.
+ */
+export function shippingRateError(r: {
+  minWeightGrams?: number | null;
+  maxWeightGrams?: number | null;
+  minDays?: number | null;
+  maxDays?: number | null;
+}): string | null {
+  if (r.maxWeightGrams != null && r.maxWeightGrams <= (r.minWeightGrams ?? 0)) {
+    return "maxWeightGrams must be greater than minWeightGrams";
+  }
+  if (r.minDays != null && r.maxDays != null && r.maxDays < r.minDays) {
+    return "maxDays must be at least minDays";
+  }
+  return null;
+}
+
+/**
+ * One-line address for couriers (Delivery.dropoffLocation).
+ */
+export function formatShippingAddress(address: ShippingAddress): string {
+  return [address.line1, address.line2, address.city, address.region, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export type ShippableProduct = {
+  weightGrams: number | null;
+  lengthCm: number | null;
+  widthCm: number | null;
+  heightCm: number | null;
+};
+
+/**
+ * Billable weight: the greater of actual and volumetric weight, per unit.
+ */
+export function billableWeightGrams(lines: { quantity: number; product: ShippableProduct }[]): number {
+  return lines.reduce((sum, { quantity, product: p }) => {
+    const actual = p.weightGrams ?? DEFAULT_ITEM_WEIGHT_GRAMS;
+    const volumetric =
+      p.lengthCm && p.widthCm && p.heightCm
+        ? Math.ceil((p.lengthCm * p.widthCm * p.heightCm) / VOLUMETRIC_DIVISOR)
+        : 0;
+    return sum + Math.max(actual, volumetric) * quantity;
+  }, 0);
+}
+
+/**
+ * Highest-priority active zone covering the address, or null if we don't ship there.
+ */
+export async function resolveShippingZone(address: ShippingAddress) {
+  const zones = await prisma.shippingZone.findMany({
+    where: { isActive: true, countries: { has: address.country } },
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+  });
+
+  const region = address.region?.toLowerCase();
+  const postal = address.postalCode?.replace(/\s+/g, "").toUpperCase();
+
+  return (
+    zones.find(
+      (z) =>
+        (!z.regions.length || (!!region && z.regions.includes(region))) &&
+        (!z.postalPrefixes.length || (!!postal && z.postalPrefixes.some((p) => postal.startsWith(p))))
+    ) ?? null
+  );
+}
+
+export function rateFeeUsdCents(
+  rate: Pick<ShippingRate, "baseFeeUsdCents" | "perKgUsdCents" | "freeAboveUsdCents" | "minWeightGrams">,
+  weightGrams: number,
+  subtotalUsdCents: number
+): number {
+  if (rate.freeAboveUsdCents !== null && subtotalUsdCents >= rate.freeAboveUsdCents) return 0;
+
+  const extraKg = Math.ceil(Math.max(0, weightGrams - rate.minWeightGrams) / 1000);
+  return rate.baseFeeUsdCents + rate.perKgUsdCents * extraKg;
+}
+
+// A vendor's own rows replace the platform table for that zone + shipping type
+function pickRate(
+  rates: ShippingRate[],
+  vendorId: string,
+  shippingType: ShippingType,
+  weightGrams: number
+): ShippingRate | null {
+  const own = rates.filter((r) => r.vendorId === vendorId && r.shippingType === shippingType);
+  const table = own.length
+    ? own
+    : rates.filter((r) => r.vendorId === null && r.shippingType === shippingType);
+
+  return (
+    table.find(
+      (r) =>
+        weightGrams >= r.minWeightGrams &&
+        (r.maxWeightGrams === null || weightGrams < r.maxWeightGrams)
+    ) ?? null
+  );
+}
+
+// One vendor's parcel
+export type Shipment = {
+  vendorId: string;
+  subtotalUsdCents: number;
+  weightGrams: number;
+};
+
+type CartProduct = ShippableProduct & { vendorId: string; priceUsdCents: number };
+
+/**
+ * Group cart lines into one shipment per vendor (every productId must be in `products`,
+ * every variantId in `variants`).
+ */
+export function buildShipments(
+  items: { productId: string; variantId?: string | null; quantity: number }[],
+  products: Map<string, CartProduct>,
+  variants: Map<string, PickedVariant> = new Map()
+): Shipment[] {
+  const byVendor = new Map<string, { quantity: number; product: CartProduct }[]>();
+  for (const i of items) {
+    const product = withVariant(products.get(i.productId)!, i.variantId ? variants.get(i.variantId) : null);
+    const lines = byVendor.get(product.vendorId) ?? [];
+    lines.push({ quantity: i.quantity, product });
+    byVendor.set(product.vendorId, lines);
+  }
+
+  return [...byVendor.entries()].map(([vendorId, lines]) => ({
+    vendorId,
+    subtotalUsdCents: lines.reduce((sum, l) => sum + l.product.priceUsdCents * l.quantity, 0),
+    weightGrams: billableWeightGrams(lines),
+  }));
+}
+
+export type ShippingOption = {
+  shippingType: ShippingType;
+  available: boolean; // false if any vendor has no rate for this type/weight
+  totalFee: number; // minor units of the quote currency
+  minDays: number | null;
+  maxDays: number | null;
+  vendors: {
+    vendorId: string;
+    rateId: string;
+    weightGrams: number;
+    feeUsdCents: number;
+    fee: number;
+    minDays: number | null;
+    maxDays: number | null;
+  }[];
+  unavailableVendorIds: string[];
+};
+
+export type ShippingPricing = {
+  zone: { id: string; name: string };
+  options: ShippingOption[];
+};
+
+/**
+ * Price every shipping type for the shipments (one per vendor) to `address`.
+ * `toOrderCurrency` converts USD cents to minor units of the checkout currency.
+ */
+export async function priceShipping(
+  address: ShippingAddress,
+  shipments: Shipment[],
+  toOrderCurrency: (usdCents: number) => number
+): Promise<ShippingPricing> {
+  const zone = await resolveShippingZone(address);
+  if (!zone) {
+    throw new ShippingError(
+      `We don't ship to ${[address.region, address.country].filter(Boolean).join(", ")} yet`
+    );
+  }
+
+  const rates = await prisma.shippingRate.findMany({
+    where: {
+      zoneId: zone.id,
+      isActive: true,
+      OR: [{ vendorId: null }, { vendorId: { in: shipments.map((s) => s.vendorId) } }],
+    },
+    orderBy: { minWeightGrams: "asc" },
+  });
+
+  const options = SHIPPING_TYPES.map((shippingType): ShippingOption => {
+    const vendors: ShippingOption["vendors"] = [];
+    const unavailableVendorIds: string[] = [];
+
+    for (const s of shipments) {
+      const rate = pickRate(rates, s.vendorId, shippingType, s.weightGrams);
+      if (!rate) {
+        unavailableVendorIds.push(s.vendorId);
+        continue;
+      }
+
+      const feeUsdCents = rateFeeUsdCents(rate, s.weightGrams, s.subtotalUsdCents);
+      vendors.push({
+        vendorId: s.vendorId,
+        rateId: rate.id,
+        weightGrams: s.weightGrams,
+        feeUsdCents,
+        fee: toOrderCurrency(feeUsdCents),
+        minDays: rate.minDays,
+        maxDays: rate.maxDays,
+      });
+    }
+
+    // The slowest parcel decides the delivery window
+    const days = (key: "minDays" | "maxDays") => {
+      const values = vendors.map((v) => v[key]).filter((d): d is number => d !== null);
+      return values.length ? Math.max(...values) : null;
+    };
+
+    return {
+      shippingType,
+      available: unavailableVendorIds.length === 0,
+      totalFee: vendors.reduce((sum, v) => sum + v.fee, 0),
+      minDays: days("minDays"),
+      maxDays: days("maxDays"),
+      vendors,
+      unavailableVendorIds,
+    };
+  });
+
+  return { zone: { id: zone.id, name: zone.name }, options };
+}
+
+/**
+ * Normalised cart fingerprint, so an order can only use a quote priced for the same items.
+ */
+export function shippingItemsKey(
+  items: { productId: string; variantId?: string | null; quantity: number }[]
+): string {
+  const totals = new Map<string, number>();
+  for (const i of items) {
+    const key = i.variantId ? `${i.productId}/${i.variantId}` : i.productId;
+    totals.set(key, (totals.get(key) ?? 0) + i.quantity);
+  }
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, quantity]) => `${key}:${quantity}`)
+    .join(",");
+}
+
+export async function createShippingQuote(input: {
+  userId: string;
+  currency: string;
+  fxRate: number;
+  address: ShippingAddress;
+  itemsKey: string;
+  pricing: ShippingPricing;
+}) {
+  return prisma.shippingQuote.create({
+    data: {
+      userId: input.userId,
+      currency: input.currency,
+      fxRate: input.fxRate,
+      address: input.address,
+      itemsKey: input.itemsKey,
+      options: { zone: input.pricing.zone, options: input.pricing.options } as Prisma.InputJsonValue,
+      expiresAt: new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000),
+    },
+  });
+}
+
+/**
+ * Load a quote for checkout, checking it belongs to the shopper and still matches the cart.
+ */
+export async function loadShippingQuote(
+  quoteId: string,
+  expected: { userId: string; currency: string; itemsKey: string }
+): Promise<{ id: string; address: ShippingAddress; pricing: ShippingPricing }> {
+  const quote = await prisma.shippingQuote.findFirst({
+    where: { id: quoteId, userId: expected.userId },
+  });
+
+  if (!quote) {
+    throw new ShippingError("Shipping quote not found", 404);
+  }
+  if (quote.usedAt) {
+    throw new ShippingError("Shipping quote has already been used", 409);
+  }
+  if (quote.expiresAt < new Date()) {
+    throw new ShippingError("Shipping quote has expired, request a new one");
+  }
+  if (quote.currency !== expected.currency) {
+    throw new ShippingError(`Shipping quote was priced in ${quote.currency}, not ${expected.currency}`);
+  }
+  if (quote.itemsKey !== expected.itemsKey) {
+    throw new ShippingError("Cart changed since the shipping quote, request a new one");
+  }
+
+  return {
+    id: quote.id,
+    address: quote.address as ShippingAddress,
+    pricing: quote.options as unknown as ShippingPricing,
+  };
+}
+
+/**
+ * Consume a quote inside the checkout transaction (a quote pays for one checkout only).
+ */
+export async function markShippingQuoteUsed(tx: Prisma.TransactionClient, quoteId: string) {
+  const updated = await tx.shippingQuote.updateMany({
+    where: { id: quoteId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (updated.count === 0) {
+    throw new ShippingError("Shipping quote has already been used", 409);
+  }
+}
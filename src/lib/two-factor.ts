@@ -0,0 +1,356 @@
+// src/lib/two-factor.ts
+import crypto from "crypto";
+import { env } from "../config/env";
+import { prisma } from "./prisma";
+import { generateTotpSecret, matchTotp, totpUri } from "./totp";
+import { hashToken } from "../services/tokens";
+
+/**
+ * TOTP two-factor authentication for users, vendors and vendor team members.
+ *
+ * Enrolment is two steps: `beginEnrolment` stores a fresh secret and returns
+ * the otpauth:// URI for the QR code; `confirmEnrolment` switches 2FA on once
+ * the app shows a matching code, and hands out recovery codes (shown once,
+ * stored hashed, each usable once). Secrets are stored AES-256-GCM encrypted.
+ *
+ * With 2FA on, a correct password only earns a challenge token (see
+ * lib/auth-tokens); the session starts when `verifySecondFactor` accepts a
+ * code. It is optional except for admins: admin tokens are only issued to
+ * admins who have it switched on, and they can't switch it off.
+ *
+ * Wrong codes are counted per account, not per IP: after MAX_FAILED_ATTEMPTS
+ * in a row the second step is locked for LOCK_MINUTES.
+ */
+
+export type TwoFactorSubject =
+  | { type: "USER"; id: string }
+  | { type: "VENDOR"; id: string; memberId: string | null }; // memberId null = account holder
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  pendingEnrolment: boolean;
+  recoveryCodesLeft: number;
+};
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_MINUTES = 15;
+
+/**
+ * Second factor refused; `statusCode` is what the route should answer with.
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+type TwoFactorState = {
+  email: string;
+  twoFactorSecret: string | null;
+  twoFactorEnabledAt: Date | null;
+  twoFactorLastStep: number | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorFailedAttempts: number;
+  twoFactorLockedUntil: Date | null;
+};
+
+type TwoFactorData = {
+  twoFactorSecret?: string | null;
+  twoFactorEnabledAt?: Date | null;
+  twoFactorLastStep?: number | null;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorFailedAttempts?: number;
+  twoFactorLockedUntil?: Date | null;
+};
+
+const stateSelect = {
+  email: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorLastStep: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorFailedAttempts: true,
+  twoFactorLockedUntil: true,
+};
+
+// ====== Secret encryption ======
+
+function encryptionKey(): Buffer {
+  return crypto
+    .createHash("sha256")
+    .update(env.TWO_FACTOR_ENCRYPTION_KEY || env.JWT_REFRESH_SECRET)
+    .digest();
+}
+
+// "iv.tag.ciphertext", base64url
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString("base64url")).join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// ====== Recovery codes ======
+
+// "xxxxx-xxxxx" in lower-case hex; matched ignoring case, spaces and dashes
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ""));
+}
+
+// ====== Storage ======
+
+async function loadState(subject: TwoFactorSubject): Promise<TwoFactorState | null> {
+  if (subject.type === "USER") {
+    return prisma.user.findUnique({ where: { id: subject.id }, select: stateSelect });
+  }
+  if (subject.memberId) {
+    return prisma.vendorMember.findFirst({
+      where: { id: subject.memberId, vendorId: subject.id },
+      select: stateSelect,
+    });
+  }
+  return prisma.vendor.findUnique({ where: { id: subject.id }, select: stateSelect });
+}
+
+/**
+ * Write `data` if the row still matches `guard`; false when another request
+ * got there first (a code or recovery code used twice).
+ */
+async function saveState(
+  subject: TwoFactorSubject,
+  data: TwoFactorData,
+  guard: { lastStep?: number | null; recoveryCodeHash?: string } = {}
+): Promise<boolean> {
+  const where = {
+    ...(guard.lastStep !== undefined ? { twoFactorLastStep: guard.lastStep } : {}),
+    ...(guard.recoveryCodeHash ? { twoFactorRecoveryCodes: { has: guard.recoveryCodeHash } } : {}),
+  };
+
+  let result: { count: number };
+  if (subject.type === "USER") {
+    result = await prisma.user.updateMany({ where: { ...where, id: subject.id }, data });
+  } else if (subject.memberId) {
+    result = await prisma.vendorMember.updateMany({
+      where: { ...where, id: subject.memberId, vendorId: subject.id },
+      data,
+    });
+  } else {
+    result = await prisma.vendor.updateMany({ where: { ...where, id: subject.id }, data });
+  }
+  return result.count > 0;
+}
+
+async function requireState(subject: TwoFactorSubject): Promise<TwoFactorState> {
+  const state = await loadState(subject);
+  if (!state) {
+    throw new TwoFactorError("Account not found", 404);
+  }
+  return state;
+}
+
+/**
+ * Count a wrong code. The last one allowed locks the second step for a while;
+ * the count then starts over.
+ */
+async function recordFailure(subject: TwoFactorSubject): Promise<void> {
+  const data = { twoFactorFailedAttempts: { increment: 1 } };
+  const select = { twoFactorFailedAttempts: true };
+
+  // Incremented in the database so parallel guesses are all counted
+  const { twoFactorFailedAttempts: failures } =
+    subject.type === "USER"
+      ? await prisma.user.update({ where: { id: subject.id }, data, select })
+      : subject.memberId
+      ? await prisma.vendorMember.update({ where: { id: subject.memberId }, data, select })
+      : await prisma.vendor.update({ where: { id: subject.id }, data, select });
+
+  if (failures >= MAX_FAILED_ATTEMPTS) {
+    await saveState(subject, {
+      twoFactorFailedAttempts: 0,
+      twoFactorLockedUntil: new Date(Date.now() + LOCK_MINUTES * 60 * 1000),
+    });
+  }
+}
+
+// Accept a TOTP code once: the step must be newer than the last one used
+async function acceptTotp(subject: TwoFactorSubject, state: TwoFactorState, code: string): Promise<boolean> {
+  if (!state.twoFactorSecret) return false;
+  const step = matchTotp(decryptSecret(state.twoFactorSecret), code);
+  if (step === null) return false;
+  if (state.twoFactorLastStep !== null && step <= state.twoFactorLastStep) return false;
+
+  return saveState(subject, { twoFactorLastStep: step }, { lastStep: state.twoFactorLastStep });
+}
+
+// ====== Public API ======
+
+export async function getTwoFactorStatus(subject: TwoFactorSubject): Promise<TwoFactorStatus> {
+  const state = await requireState(subject);
+  return {
+    enabled: !!state.twoFactorEnabledAt,
+    enabledAt: state.twoFactorEnabledAt,
+    pendingEnrolment: !state.twoFactorEnabledAt && !!state.twoFactorSecret,
+    recoveryCodesLeft: state.twoFactorEnabledAt ? state.twoFactorRecoveryCodes.length : 0,
+  };
+}
+
+export async function isTwoFactorEnabled(subject: TwoFactorSubject): Promise<boolean> {
+  const state = await loadState(subject);
+  return !!state?.twoFactorEnabledAt;
+}
+
+/**
+ * Start (or restart) enrolment with a new secret. The secret and URI are
+ * shown to the user now and never again.
+ */
+export async function beginEnrolment(subject: TwoFactorSubject): Promise<{ secret: string; otpauthUrl: string }> {
+  const state = await requireState(subject);
+  if (state.twoFactorEnabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+  }
+
+  const secret = generateTotpSecret();
+  await saveState(subject, {
+    twoFactorSecret: encryptSecret(secret),
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: [],
+  });
+
+  return { secret, otpauthUrl: totpUri(secret, state.email, env.TWO_FACTOR_ISSUER) };
+}
+
+/**
+ * Switch 2FA on once the authenticator shows a matching code. Returns the
+ * recovery codes in plain text; only their hashes are kept.
+ */
+export async function confirmEnrolment(subject: TwoFactorSubject, code: string): Promise<string[]> {
+  const state = await requireState(subject);
+  if (state.twoFactorEnabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+  }
+  if (!state.twoFactorSecret) {
+    throw new TwoFactorError("Start two-factor setup first", 409);
+  }
+
+  const step = matchTotp(decryptSecret(state.twoFactorSecret), code.trim());
+  if (step === null) {
+    throw new TwoFactorError("Invalid authentication code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const enabled = await saveState(
+    subject,
+    {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    },
+    { lastStep: state.twoFactorLastStep }
+  );
+  if (!enabled) {
+    throw new TwoFactorError("Two-factor setup changed meanwhile; please try again", 409);
+  }
+  return recoveryCodes;
+}
+
+type SecondFactorResult = { method: "totp" | "recovery"; recoveryCodesLeft: number };
+
+async function matchSecondFactor(
+  subject: TwoFactorSubject,
+  state: TwoFactorState,
+  code: string
+): Promise<SecondFactorResult | null> {
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    if (await acceptTotp(subject, state, trimmed)) {
+      return { method: "totp", recoveryCodesLeft: state.twoFactorRecoveryCodes.length };
+    }
+    return null;
+  }
+
+  // Compare-and-set on the array so a recovery code works exactly once
+  const codeHash = hashRecoveryCode(trimmed);
+  if (state.twoFactorRecoveryCodes.includes(codeHash)) {
+    const remaining = state.twoFactorRecoveryCodes.filter((h) => h !== codeHash);
+    const spent = await saveState(subject, { twoFactorRecoveryCodes: remaining }, { recoveryCodeHash: codeHash });
+    if (spent) {
+      return { method: "recovery", recoveryCodesLeft: remaining.length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a login's second factor: a 6-digit TOTP code or an unused recovery
+ * code, which is then spent. Throws TwoFactorError (401) when neither matches,
+ * and 429 while the account is locked after too many wrong codes.
+ */
+export async function verifySecondFactor(subject: TwoFactorSubject, code: string): Promise<SecondFactorResult> {
+  const state = await requireState(subject);
+  if (!state.twoFactorEnabledAt) {
+    throw new TwoFactorError("Two-factor authentication is not enabled", 409);
+  }
+
+  const lockedFor = state.twoFactorLockedUntil ? state.twoFactorLockedUntil.getTime() - Date.now() : 0;
+  if (lockedFor > 0) {
+    const minutes = Math.ceil(lockedFor / 60000);
+    throw new TwoFactorError(
+      `Too many wrong codes; try again in ${minutes} minute${minutes === 1 ? "" : "s"}`,
+      429
+    );
+  }
+
+  const result = await matchSecondFactor(subject, state, code);
+  if (!result) {
+    await recordFailure(subject);
+    throw new TwoFactorError("Invalid authentication code", 401);
+  }
+
+  if (state.twoFactorFailedAttempts > 0 || state.twoFactorLockedUntil) {
+    await saveState(subject, { twoFactorFailedAttempts: 0, twoFactorLockedUntil: null });
+  }
+  return result;
+}
+
+/**
+ * New recovery codes after checking a current code; the old ones stop working.
+ */
+export async function regenerateRecoveryCodes(subject: TwoFactorSubject, code: string): Promise<string[]> {
+  await verifySecondFactor(subject, code);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await saveState(subject, { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
+
+/**
+ * Switch 2FA off and forget the secret. Routes check the password and a
+ * current code first; an admin reset skips both.
+ */
+export async function disableTwoFactor(subject: TwoFactorSubject): Promise<void> {
+  await saveState(subject, {
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: [],
+    twoFactorFailedAttempts: 0,
+    twoFactorLockedUntil: null,
+  });
+}
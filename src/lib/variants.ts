@@ -0,0 +1,135 @@
+// src/lib/variants.ts
+import { Prisma, ProductVariant } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+
+/**
+ * Product variants ("1kg bag", "large tray"). A variant has its own SKU,
+ * price, stock and shipping weight; the product keeps name, images and copy.
+ * Once a product has live (not deleted) variants, every order, wishlist or
+ * barter line for it must name one.
+ */
+
+// -----------------------------
+// Validation (vendor CRUD)
+// -----------------------------
+const variantFields = {
+  sku: z
+    .string()
+    .trim()
+    .transform((s) => s.toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9._-]{1,64}$/, "SKU must be 1-64 letters, digits, ., - or _")),
+  name: z.string().trim().min(1).max(120),
+  attributes: z
+    .record(z.string().trim().min(1).max(40), z.string().trim().min(1).max(120))
+    .refine((a) => Object.keys(a).length <= 10, "At most 10 attributes")
+    .optional(),
+  priceUsdCents: z.number().int().min(1, "Price must be at least 1 cent"),
+  weightGrams: z.number().int().positive().max(1000000).nullable().optional(),
+  stockQuantity: z.number().int().min(0).max(1000000).nullable().optional(),
+  lowStockThreshold: z.number().int().min(0).max(1000000).nullable().optional(),
+  isAvailable: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+};
+
+export const variantCreateSchema = z.object(variantFields);
+export const variantUpdateSchema = z.object(variantFields).partial();
+
+export function isDuplicateSkuError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+// -----------------------------
+// Picking variants for cart / wishlist / barter lines
+// -----------------------------
+export type VariantChoice = { productId: string; variantId?: string | null };
+
+export type PickedVariant = Pick<
+  ProductVariant,
+  "id" | "productId" | "sku" | "name" | "priceUsdCents" | "weightGrams" | "isAvailable"
+>;
+
+/**
+ * Check each line's variant against its product. Returns the chosen variants
+ * by id, or the first problem as a message for a 400.
+ */
+export async function resolveVariantChoices(
+  lines: VariantChoice[],
+  opts: { requireAvailable?: boolean } = {}
+): Promise<{ variants: Map<string, PickedVariant>; error: string | null }> {
+  const requireAvailable = opts.requireAvailable ?? true;
+
+  const live = await prisma.productVariant.findMany({
+    where: { productId: { in: [...new Set(lines.map((l) => l.productId))] }, isDeleted: false },
+    select: {
+      id: true,
+      productId: true,
+      sku: true,
+      name: true,
+      priceUsdCents: true,
+      weightGrams: true,
+      isAvailable: true,
+    },
+  });
+
+  const variants = new Map(live.map((v) => [v.id, v]));
+  const hasVariants = new Set(live.map((v) => v.productId));
+
+  for (const line of lines) {
+    if (!line.variantId) {
+      if (hasVariants.has(line.productId)) {
+        return { variants, error: `Choose a variant for product ${line.productId}` };
+      }
+      continue;
+    }
+
+    const variant = variants.get(line.variantId);
+    if (!variant || variant.productId !== line.productId) {
+      return { variants, error: `Invalid variant: ${line.variantId}` };
+    }
+    if (requireAvailable && !variant.isAvailable) {
+      return { variants, error: `Variant ${variant.sku} is not available` };
+    }
+  }
+
+  return { variants, error: null };
+}
+
+/**
+ * The product as sold on this line: variant price and weight win over the product's.
+ */
+export function withVariant<P extends { priceUsdCents: number; weightGrams: number | null }>(
+  product: P,
+  variant: PickedVariant | null | undefined
+): P {
+  if (!variant) return product;
+  return {
+    ...product,
+    priceUsdCents: variant.priceUsdCents,
+    weightGrams: variant.weightGrams ?? product.weightGrams,
+  };
+}
+
+// -----------------------------
+// Public shape
+// -----------------------------
+export const publicVariantSelect = {
+  id: true,
+  sku: true,
+  name: true,
+  attributes: true,
+  priceUsdCents: true,
+  isAvailable: true,
+  stockQuantity: true,
+  reservedQuantity: true,
+} satisfies Prisma.ProductVariantSelect;
+
+type PublicVariantRow = Prisma.ProductVariantGetPayload<{ select: typeof publicVariantSelect }>;
+
+// Shoppers see whether a variant can be bought, not the vendor's stock figures
+export function toPublicVariant({ stockQuantity, reservedQuantity, ...v }: PublicVariantRow) {
+  return {
+    ...v,
+    inStock: v.isAvailable && (stockQuantity === null || stockQuantity - reservedQuantity > 0),
+  };
+}
@@ -0,0 +1,282 @@
+// src/lib/vendor-team.ts
+import { Prisma, VendorMemberRole } from "@prisma/client";
+import { Response, NextFunction } from "express";
+import { env } from "../config/env";
+import { prisma } from "./prisma";
+import { revokeAllSessions } from "./sessions";
+import { issueToken } from "../services/tokens";
+import { sendEmail, getVendorInvitationEmailHtml } from "../services/email";
+import { VendorAuthenticatedRequest } from "../middleware/vendorAuth";
+
+/**
+ * Vendor team accounts.
+ *
+ * The Vendor's own login is the account holder and always acts as OWNER.
+ * Staff log in as VendorMembers (invited by email, password set on accepting)
+ * and get what their role allows:
+ *
+ *   OWNER       everything, including the team
+ *   MANAGER     everything except the team
+ *   FULFILMENT  see products; work orders, deliveries and barter hand-overs
+ *   FINANCE     see products, orders and barter; balance, statement, payouts
+ *
+ * Mutating vendor routes record who acted in VendorActivity.
+ */
+
+export type VendorPermission =
+  | "products:read"
+  | "products:write" // products, variants, images, promotions, shipping rates
+  | "orders:read" // orders and deliveries
+  | "orders:fulfil" // accept/reject/advance orders, create deliveries
+  | "barter:read"
+  | "barter:negotiate" // create, send, answer, cancel and dispute offers
+  | "barter:fulfil"
+  | "finance:read"
+  | "team:manage"; // members, invitations, activity log
+
+const ALL_PERMISSIONS: VendorPermission[] = [
+  "products:read",
+  "products:write",
+  "orders:read",
+  "orders:fulfil",
+  "barter:read",
+  "barter:negotiate",
+  "barter:fulfil",
+  "finance:read",
+  "team:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<VendorMemberRole, VendorPermission[]> = {
+  OWNER: ALL_PERMISSIONS,
+  MANAGER: ALL_PERMISSIONS.filter((p) => p !== "team:manage"),
+  FULFILMENT: ["products:read", "orders:read", "orders:fulfil", "barter:read", "barter:fulfil"],
+  FINANCE: ["products:read", "orders:read", "barter:read", "finance:read"],
+};
+
+export const INVITE_EXPIRY_HOURS = 72;
+
+/**
+ * Team change refused; `statusCode` is what the route should answer with.
+ */
+export class VendorTeamError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = "VendorTeamError";
+  }
+}
+
+export function hasVendorPermission(role: VendorMemberRole, permission: VendorPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Route guard; runs after requireVendorAuth, which sets req.vendorRole.
+ */
+export function requireVendorPermission(permission: VendorPermission) {
+  return (req: VendorAuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.vendorRole) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthenticated vendor",
+      });
+    }
+
+    if (!hasVendorPermission(req.vendorRole, permission)) {
+      return res.status(403).json({
+        success: false,
+        message: `Your role (${req.vendorRole}) does not allow this`,
+        permission,
+      });
+    }
+
+    return next();
+  };
+}
+
+// Who is acting: the member's name or email, else the business itself
+function actorName(req: VendorAuthenticatedRequest): string {
+  const member = req.vendorMember;
+  return member ? member.name || member.email : req.vendor?.businessName ?? "Account holder";
+}
+
+/**
+ * Log a vendor-side action against whoever is logged in. Never throws; a
+ * missing log line must not fail the action itself.
+ */
+export async function recordVendorActivity(
+  req: VendorAuthenticatedRequest,
+  action: string,
+  entityId: string | null,
+  details?: Prisma.InputJsonValue
+): Promise<void> {
+  if (!req.vendorId) return;
+  try {
+    await prisma.vendorActivity.create({
+      data: {
+        vendorId: req.vendorId,
+        memberId: req.vendorMember?.id ?? null,
+        actorName: actorName(req),
+        action,
+        entityId,
+        details,
+      },
+    });
+  } catch (e) {
+    console.error("Record vendor activity failed:", e);
+  }
+}
+
+// Never hand out password or invitation hashes
+export const memberSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  status: true,
+  inviteExpiresAt: true,
+  invitedById: true,
+  lastLoginAt: true,
+  createdAt: true,
+} satisfies Prisma.VendorMemberSelect;
+
+async function sendInvitation(
+  req: VendorAuthenticatedRequest,
+  member: { email: string; role: VendorMemberRole },
+  rawToken: string
+): Promise<void> {
+  const acceptUrl = `${env.FRONTEND_URL}/vendor/accept-invitation.html?token=${rawToken}`;
+  const businessName = req.vendor?.businessName ?? "FoodCheQ vendor";
+  await sendEmail({
+    to: member.email,
+    subject: `You've been invited to ${businessName} on FoodCheQ`,
+    html: getVendorInvitationEmailHtml(businessName, actorName(req), member.role, acceptUrl, INVITE_EXPIRY_HOURS),
+  });
+}
+
+/**
+ * Invite someone to the vendor's team. Emails are unique across vendor
+ * logins and members, since either may be used to log in.
+ */
+export async function inviteMember(
+  req: VendorAuthenticatedRequest,
+  input: { email: string; name?: string; role: VendorMemberRole }
+) {
+  const vendorId = req.vendorId!;
+  const email = input.email.toLowerCase();
+
+  const [vendorLogin, existing] = await Promise.all([
+    prisma.vendor.findUnique({ where: { email }, select: { id: true } }),
+    prisma.vendorMember.findUnique({ where: { email }, select: { vendorId: true, status: true } }),
+  ]);
+  if (vendorLogin) {
+    throw new VendorTeamError("This email belongs to a vendor account", 409);
+  }
+  if (existing) {
+    throw new VendorTeamError(
+      existing.vendorId === vendorId && existing.status === "INVITED"
+        ? "This email has already been invited; resend the invitation instead"
+        : "This email already belongs to a team member",
+      409
+    );
+  }
+
+  const { rawToken, hashedToken, expiresAt } = issueToken(INVITE_EXPIRY_HOURS);
+  const member = await prisma.vendorMember.create({
+    data: {
+      vendorId,
+      email,
+      name: input.name ?? null,
+      role: input.role,
+      inviteTokenHash: hashedToken,
+      inviteExpiresAt: expiresAt,
+      invitedById: req.vendorMember?.id ?? null,
+    },
+    select: memberSelect,
+  });
+
+  await sendInvitation(req, member, rawToken);
+  return member;
+}
+
+/**
+ * Send a pending invitation again with a fresh token; the old link stops working.
+ */
+export async function resendInvitation(req: VendorAuthenticatedRequest, memberId: string) {
+  const member = await prisma.vendorMember.findFirst({
+    where: { id: memberId, vendorId: req.vendorId! },
+    select: { id: true, status: true },
+  });
+  if (!member) {
+    throw new VendorTeamError("Team member not found", 404);
+  }
+  if (member.status !== "INVITED") {
+    throw new VendorTeamError("Invitation has already been accepted", 409);
+  }
+
+  const { rawToken, hashedToken, expiresAt } = issueToken(INVITE_EXPIRY_HOURS);
+  const updated = await prisma.vendorMember.update({
+    where: { id: member.id },
+    data: { inviteTokenHash: hashedToken, inviteExpiresAt: expiresAt },
+    select: memberSelect,
+  });
+
+  await sendInvitation(req, updated, rawToken);
+  return updated;
+}
+
+/**
+ * Change a member's role or enable/disable them. Disabling ends their
+ * sessions at once; a role change applies on their next request, since the
+ * role is read fresh every time. Members can't change their own access, so a
+ * team can't lose its last owner by accident.
+ */
+export async function updateMember(
+  req: VendorAuthenticatedRequest,
+  memberId: string,
+  changes: { role?: VendorMemberRole; status?: "ACTIVE" | "DISABLED" }
+) {
+  if (req.vendorMember?.id === memberId) {
+    throw new VendorTeamError("You cannot change your own role or status", 403);
+  }
+
+  const member = await prisma.vendorMember.findFirst({
+    where: { id: memberId, vendorId: req.vendorId! },
+    select: { id: true, status: true },
+  });
+  if (!member) {
+    throw new VendorTeamError("Team member not found", 404);
+  }
+  if (changes.status && member.status === "INVITED") {
+    throw new VendorTeamError("Invitation has not been accepted yet; remove it instead", 409);
+  }
+
+  const updated = await prisma.vendorMember.update({
+    where: { id: member.id },
+    data: changes,
+    select: memberSelect,
+  });
+
+  const revokedSessions =
+    changes.status === "DISABLED"
+      ? await revokeAllSessions({ type: "VENDOR", id: req.vendorId!, memberId: member.id }, "admin")
+      : 0;
+
+  return { member: updated, revokedSessions };
+}
+
+/**
+ * Remove a member or withdraw an invitation. Their sessions go with them;
+ * activity they logged keeps its actor name.
+ */
+export async function removeMember(req: VendorAuthenticatedRequest, memberId: string) {
+  if (req.vendorMember?.id === memberId) {
+    throw new VendorTeamError("You cannot remove yourself from the team", 403);
+  }
+
+  const removed = await prisma.vendorMember.deleteMany({
+    where: { id: memberId, vendorId: req.vendorId! },
+  });
+  if (removed.count === 0) {
+    throw new VendorTeamError("Team member not found", 404);
+  }
+}
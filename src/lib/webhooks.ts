@@ -0,0 +1,260 @@
+// src/lib/webhooks.ts
+import { Prisma, WebhookEvent, WebhookEventStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { applyPaymentResult } from "./checkout";
+import { refundCancelledOrders, settleRefund } from "./refunds";
+import {
+  captureApprovedPayment,
+  getPaymentProvider,
+  ProviderName,
+  WebhookParseResult,
+} from "../services/payments";
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export type WebhookReceipt = {
+  httpStatus: number; // what to answer the provider with (non-2xx = provider retries)
+  event: WebhookEvent | null;
+  duplicate?: boolean;
+};
+
+// Only keep what's needed to audit a delivery
+function pickHeaders(headers: Headers): Prisma.InputJsonObject {
+  const kept: Record<string, string | string[]> = {};
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    if (
+      key === "content-type" ||
+      key === "user-agent" ||
+      key.startsWith("paypal-") ||
+      key.startsWith("x-paystack-") ||
+      key.startsWith("x-fake-")
+    ) {
+      kept[key] = value;
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Apply a stored event to its payment. Idempotent: only PENDING payments are
+ * settled, plus FAILED ones the provider now reports as paid; anything else
+ * is never touched again (so a late webhook can't undo a refund).
+ */
+async function applyWebhookToPayment(
+  record: WebhookEvent
+): Promise<{ status: WebhookEventStatus; detail: string | null }> {
+  const provider = getPaymentProvider(record.provider);
+  if (!provider) {
+    throw new Error(`Payment provider not available: ${record.provider}`);
+  }
+
+  if (!record.providerRef) {
+    return { status: "IGNORED", detail: "Event has no payment reference" };
+  }
+
+  const payment = await prisma.payment.findFirst({
+    where: { provider: record.provider, providerRef: record.providerRef },
+  });
+
+  if (!payment) {
+    return { status: "IGNORED", detail: "No payment found for reference" };
+  }
+
+  if (payment.status !== "PENDING" && payment.status !== "FAILED") {
+    return { status: "IGNORED", detail: `Payment already ${payment.status}` };
+  }
+
+  let outcome = record.outcome;
+  let raw = record.payload as Prisma.InputJsonValue;
+
+  if (record.needsCapture && !outcome) {
+    const result = await captureApprovedPayment(provider, record.providerRef);
+    outcome = result.status;
+    raw = result.raw;
+  }
+
+  if (outcome !== "PAID" && outcome !== "FAILED") {
+    // Informational event, just keep the latest payload on the payment
+    await prisma.payment.updateMany({
+      where: { id: payment.id, status: payment.status },
+      data: { rawResponse: raw },
+    });
+    return { status: "IGNORED", detail: "No payment state change" };
+  }
+
+  const newPaymentStatus = outcome;
+
+  // Update database atomically (payment + every order it covers); the status
+  // is re-checked in there, so a concurrent settlement wins cleanly
+  const applied = await prisma.$transaction((tx) => applyPaymentResult(tx, payment, newPaymentStatus, raw));
+
+  if (!applied) {
+    const current = await prisma.payment.findUnique({ where: { id: payment.id }, select: { status: true } });
+    return { status: "IGNORED", detail: `Payment already ${current?.status ?? payment.status}` };
+  }
+
+  if (newPaymentStatus === "PAID") {
+    await refundCancelledOrders(payment.id);
+  }
+
+  return { status: "PROCESSED", detail: null };
+}
+
+/**
+ * Settle the refund a refund event is about. Refunds we never issued (e.g.
+ * from the provider's dashboard) are ignored.
+ */
+async function applyWebhookToRefund(
+  record: WebhookEvent
+): Promise<{ status: WebhookEventStatus; detail: string | null }> {
+  const refund = await prisma.refund.findFirst({
+    where: { provider: record.provider, providerRefundId: record.providerRefundId },
+  });
+
+  if (!refund) {
+    return { status: "IGNORED", detail: "No refund found for reference" };
+  }
+
+  const settled = await settleRefund(refund, {
+    status: record.refundOutcome ?? "PENDING",
+    raw: record.payload as Prisma.InputJsonValue,
+  });
+
+  if (!settled) {
+    const detail = refund.status === "PENDING" ? "No refund state change" : `Refund already ${refund.status}`;
+    return { status: "IGNORED", detail };
+  }
+
+  return { status: "PROCESSED", detail: null };
+}
+
+/**
+ * Process (or re-process) a stored, signature-verified event and record the result.
+ */
+export async function processWebhookEvent(record: WebhookEvent): Promise<WebhookReceipt> {
+  try {
+    const { status, detail } = record.providerRefundId
+      ? await applyWebhookToRefund(record)
+      : await applyWebhookToPayment(record);
+
+    const event = await prisma.webhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status,
+        detail,
+        attempts: { increment: 1 },
+        processedAt: new Date(),
+      },
+    });
+
+    return { httpStatus: 200, event };
+  } catch (error: any) {
+    console.error(`Webhook ${record.id} processing error:`, error?.response?.data || error?.message || error);
+
+    const event = await prisma.webhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: "FAILED",
+        detail: String(error?.message || error).slice(0, 1000),
+        attempts: { increment: 1 },
+      },
+    });
+
+    return { httpStatus: 500, event };
+  }
+}
+
+/**
+ * Store an inbound webhook in the ledger, dedupe it and process it.
+ *
+ * Unverified deliveries are kept for auditing but without their event id,
+ * so a forged payload can never claim the dedupe key of the real event.
+ */
+export async function receiveWebhook(
+  providerName: ProviderName,
+  rawBody: Buffer,
+  headers: Headers
+): Promise<WebhookReceipt> {
+  const provider = getPaymentProvider(providerName);
+  if (!provider) {
+    return { httpStatus: 404, event: null };
+  }
+
+  let parsed: WebhookParseResult | null = null;
+  let parseError: string | null = null;
+
+  try {
+    parsed = await provider.parseWebhook(rawBody, headers);
+  } catch (error: any) {
+    parseError = String(error?.message || error);
+  }
+
+  const ev = parsed?.event ?? null;
+  const payload: Prisma.InputJsonValue = ev?.raw ?? { raw: rawBody.toString("utf8") };
+
+  if (!parsed?.verified || !ev) {
+    const event = await prisma.webhookEvent.create({
+      data: {
+        provider: providerName,
+        eventId: null,
+        eventType: ev?.type ?? null,
+        providerRef: ev?.providerRef ?? null,
+        outcome: ev?.status ?? null,
+        signatureValid: false,
+        status: "REJECTED",
+        detail: parseError ? `Unreadable webhook: ${parseError}` : "Invalid signature",
+        payload,
+        headers: pickHeaders(headers),
+      },
+    });
+
+    return { httpStatus: 400, event };
+  }
+
+  const data = {
+    provider: providerName,
+    eventId: ev.eventId,
+    eventType: ev.type,
+    providerRef: ev.providerRef,
+    outcome: ev.status,
+    needsCapture: !!ev.needsCapture,
+    providerRefundId: ev.refund?.providerRefundId ?? null,
+    refundOutcome: ev.refund?.status ?? null,
+    signatureValid: true,
+    payload,
+    headers: pickHeaders(headers),
+  };
+
+  let record: WebhookEvent;
+
+  if (ev.eventId) {
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { provider_eventId: { provider: providerName, eventId: ev.eventId } },
+    });
+
+    // Only a delivery that previously failed is worth another go
+    if (existing && existing.status !== "FAILED") {
+      return { httpStatus: 200, event: existing, duplicate: true };
+    }
+
+    try {
+      record = existing ?? (await prisma.webhookEvent.create({ data }));
+    } catch (error) {
+      // Same event delivered twice at once; the other request handles it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        const current = await prisma.webhookEvent.findUnique({
+          where: { provider_eventId: { provider: providerName, eventId: ev.eventId } },
+        });
+        return { httpStatus: 200, event: current, duplicate: true };
+      }
+      throw error;
+    }
+  } else {
+    record = await prisma.webhookEvent.create({ data });
+  }
+
+  return processWebhookEvent(record);
+}
@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import { prisma } from "../lib/prisma";
-import { env } from "../config/env";
+import { verifyAccessToken, UserAccessClaims } from "../lib/auth-tokens";
+import { isSessionActive } from "../lib/sessions";
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -12,16 +12,9 @@ export interface AuthenticatedRequest extends Request {
   };
   userId?: string;
   userRole?: "USER" | "ADMIN";
+  sessionId?: string;
 }
 
-// Optional: keep this type small + safe
-type JwtPayload = {
-  sub?: string;
-  role?: "USER" | "ADMIN";
-  iat?: number;
-  exp?: number;
-};
-
 export async function requireAuth(req: any, res: Response, next: NextFunction) {
   try {
     const header = String(req.headers.authorization || "");
@@ -35,11 +28,11 @@ export async function requireAuth(req: any, res: Response, next: NextFunction) {
       return res.status(401).json({ success: false, message: "Unauthorized" });
     }
 
-    // ✅ MUST match your auth.routes.ts (accessToken secret)
-    const decoded = jwt.verify(token, env.JWT_ACCESS_SECRET) as JwtPayload;
+    // Shopper and admin tokens only; a vendor token is refused here
+    const decoded = verifyAccessToken(token, ["user", "admin"]) as UserAccessClaims | null;
 
     const userId = decoded?.sub;
-    if (!userId) {
+    if (!decoded || !userId) {
       return res.status(401).json({ success: false, message: "Unauthorized" });
     }
 
@@ -52,10 +45,20 @@ export async function requireAuth(req: any, res: Response, next: NextFunction) {
       return res.status(401).json({ success: false, message: "Unauthorized" });
     }
 
+    // Logged out, revoked by an admin, or ended by refresh-token reuse
+    if (!(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({ success: false, message: "Session has ended" });
+    }
+
+    // Admin rights need both: the role now, and an admin token. A demoted admin
+    // loses them at once; a promoted user gets them with the next refresh.
+    const role = user.role === "ADMIN" && decoded.aud === "admin" ? "ADMIN" : "USER";
+
     // Attach to request
-    req.user = user;
+    req.user = { ...user, role };
     req.userId = user.id;
-    req.userRole = user.role;
+    req.userRole = role;
+    req.sessionId = decoded.sid;
 
     return next();
   } catch (err) {
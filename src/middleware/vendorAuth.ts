@@ -1,18 +1,30 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
-import { env } from "../config/env";
-
-interface JwtPayload {
-  sub: string;
-  iat: number;
-  exp: number;
-}
+import { VendorMemberRole, VendorStatus } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { verifyAccessToken, VendorAccessClaims } from "../lib/auth-tokens";
+import { isSessionActive, memberBlockedReason, vendorBlockedReason } from "../lib/sessions";
 
 export interface VendorAuthenticatedRequest extends Request {
   vendorId?: string;
+  vendor?: {
+    id: string;
+    email: string;
+    businessName: string;
+    status: VendorStatus;
+    isActive: boolean;
+  };
+  // Team member logged in; unset for the account holder
+  vendorMember?: {
+    id: string;
+    email: string;
+    name: string | null;
+    role: VendorMemberRole;
+  };
+  vendorRole?: VendorMemberRole; // OWNER for the account holder
+  sessionId?: string;
 }
 
-export function requireVendorAuth(
+export async function requireVendorAuth(
   req: VendorAuthenticatedRequest,
   res: Response,
   next: NextFunction
@@ -28,15 +40,79 @@ export function requireVendorAuth(
 
   const token = authHeader.substring("Bearer ".length);
 
+  // Vendor tokens only; a shopper or admin token's sub is not a vendor id
+  const claims = verifyAccessToken(token, ["vendor"]) as VendorAccessClaims | null;
+  if (!claims) {
+    return res.status(401).json({
+      success: false,
+      message: "Invalid or expired token",
+    });
+  }
+
   try {
-    const payload = jwt.verify(token, env.JWT_ACCESS_SECRET) as JwtPayload;
-    req.vendorId = payload.sub;
+    const [vendor, member, sessionActive] = await Promise.all([
+      prisma.vendor.findUnique({
+        where: { id: claims.sub },
+        select: {
+          id: true,
+          email: true,
+          businessName: true,
+          status: true,
+          isActive: true,
+        },
+      }),
+      claims.mid
+        ? prisma.vendorMember.findUnique({
+            where: { id: claims.mid },
+            select: {
+              id: true,
+              vendorId: true,
+              email: true,
+              name: true,
+              role: true,
+              status: true,
+            },
+          })
+        : null,
+      isSessionActive(claims.sid),
+    ]);
+
+    // Logged out, revoked by an admin, or ended by refresh-token reuse
+    if (!vendor || !sessionActive || (claims.mid && member?.vendorId !== vendor.id)) {
+      return res.status(401).json({
+        success: false,
+        message: "Session has ended",
+      });
+    }
+
+    // Checked on every request, so a suspension applies at once
+    const blocked = vendorBlockedReason(vendor) || (member && memberBlockedReason(member));
+    if (blocked) {
+      return res.status(403).json({
+        success: false,
+        message: blocked,
+        status: vendor.status,
+      });
+    }
+
+    req.vendor = vendor;
+    req.vendorId = vendor.id;
+    if (member) {
+      req.vendorMember = {
+        id: member.id,
+        email: member.email,
+        name: member.name,
+        role: member.role,
+      };
+    }
+    req.vendorRole = member ? member.role : "OWNER";
+    req.sessionId = claims.sid;
     return next();
   } catch (error) {
     console.error("Vendor auth error:", error);
-    return res.status(401).json({
+    return res.status(500).json({
       success: false,
-      message: "Invalid or expired token",
+      message: "Internal server error",
     });
   }
 }
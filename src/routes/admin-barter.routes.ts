@@ -3,6 +3,7 @@ import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
 import { requireAdminAuth } from "../middleware/adminAuth";
+import { settleBarterStock } from "../lib/inventory";
 
 const router = Router();
 
@@ -154,6 +155,9 @@ router.get("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedReque
             product: {
               select: { id: true, name: true, imageUrl: true, priceUsdCents: true },
             },
+            variant: {
+              select: { id: true, sku: true, name: true, priceUsdCents: true },
+            },
           },
         },
         parentOffer: {
@@ -253,13 +257,16 @@ router.patch("/:id/resolve", requireAuth, requireAdminAuth, async (req: Authenti
       });
     }
 
-    const updatedOffer = await prisma.barterOffer.update({
-      where: { id: offerId },
-      data: {
-        status: newStatus,
-        disputeResolvedBy: adminId,
-        disputeResolution: resolution,
-      },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      await settleBarterStock(tx, offerId, newStatus);
+      return tx.barterOffer.update({
+        where: { id: offerId },
+        data: {
+          status: newStatus,
+          disputeResolvedBy: adminId,
+          disputeResolution: resolution,
+        },
+      });
     });
 
     return res.json({
@@ -300,9 +307,12 @@ router.patch("/:id/status", requireAuth, requireAdminAuth, async (req: Authentic
       });
     }
 
-    const updatedOffer = await prisma.barterOffer.update({
-      where: { id: offerId },
-      data: { status },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      await settleBarterStock(tx, offerId, status);
+      return tx.barterOffer.update({
+        where: { id: offerId },
+        data: { status },
+      });
     });
 
     return res.json({
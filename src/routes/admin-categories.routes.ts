@@ -0,0 +1,203 @@
+// src/routes/admin-categories.routes.ts
+import { Router, Response } from "express";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { prisma } from "../lib/prisma";
+import {
+  CategoryError,
+  assertValidParent,
+  buildCategoryTree,
+  categoryCreateSchema,
+  categoryUpdateSchema,
+  isDuplicateSlugError,
+  slugify,
+} from "../lib/categories";
+
+const router = Router();
+
+const categorySelect = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  imageUrl: true,
+  parentId: true,
+  sortOrder: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// GET /api/admin/categories  -> full tree (inactive included) with product counts
+router.get("/", requireAuth, requireAdminAuth, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [categories, counts] = await Promise.all([
+      prisma.category.findMany({ select: categorySelect }),
+      prisma.product.groupBy({
+        by: ["categoryId"],
+        where: { isDeleted: false, categoryId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const productCounts = new Map(counts.map((c) => [c.categoryId!, c._count._all]));
+
+    return res.json({
+      success: true,
+      categories: buildCategoryTree(categories, productCounts),
+      total: categories.length,
+    });
+  } catch (e) {
+    console.error("Admin list categories error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/categories
+router.post("/", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = categoryCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const data = parsed.data;
+    const slug = data.slug ?? slugify(data.name);
+    if (!slug) {
+      return res.status(400).json({ success: false, message: "Name must contain letters or digits" });
+    }
+
+    await assertValidParent(null, data.parentId ?? null);
+
+    const category = await prisma.category.create({
+      data: { ...data, slug },
+      select: categorySelect,
+    });
+
+    return res.status(201).json({ success: true, category });
+  } catch (e) {
+    if (e instanceof CategoryError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    if (isDuplicateSlugError(e)) {
+      return res.status(409).json({ success: false, message: "A category with this slug already exists" });
+    }
+    console.error("Admin create category error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/categories/:id
+router.get("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const category = await prisma.category.findUnique({
+      where: { id: req.params.id },
+      select: {
+        ...categorySelect,
+        parent: { select: { id: true, name: true, slug: true } },
+        children: { select: { id: true, name: true, slug: true, isActive: true }, orderBy: { sortOrder: "asc" } },
+        _count: { select: { products: { where: { isDeleted: false } } } },
+      },
+    });
+
+    if (!category) {
+      return res.status(404).json({ success: false, message: "Category not found" });
+    }
+
+    return res.json({ success: true, category });
+  } catch (e) {
+    console.error("Admin get category error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// PATCH /api/admin/categories/:id  (renaming also updates Product.category on its products)
+router.patch("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = categoryUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const existing = await prisma.category.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Category not found" });
+    }
+
+    const data = parsed.data;
+    if (data.parentId !== undefined) {
+      await assertValidParent(existing.id, data.parentId);
+    }
+
+    const category = await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id: existing.id },
+        data,
+        select: categorySelect,
+      });
+
+      if (data.name !== undefined && data.name !== existing.name) {
+        await tx.product.updateMany({
+          where: { categoryId: existing.id },
+          data: { category: updated.name },
+        });
+      }
+
+      return updated;
+    });
+
+    return res.json({ success: true, category });
+  } catch (e) {
+    if (e instanceof CategoryError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    if (isDuplicateSlugError(e)) {
+      return res.status(409).json({ success: false, message: "A category with this slug already exists" });
+    }
+    console.error("Admin update category error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// DELETE /api/admin/categories/:id  (only empty leaves; deactivate anything else)
+router.delete("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await prisma.category.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, _count: { select: { children: true, products: true } } },
+    });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Category not found" });
+    }
+
+    if (existing._count.children > 0) {
+      return res.status(409).json({
+        success: false,
+        message: "Move or delete its subcategories first",
+      });
+    }
+    if (existing._count.products > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `${existing._count.products} products use this category; move them or set isActive to false instead`,
+      });
+    }
+
+    await prisma.category.delete({ where: { id: existing.id } });
+
+    return res.json({ success: true, message: "Category deleted" });
+  } catch (e) {
+    console.error("Admin delete category error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
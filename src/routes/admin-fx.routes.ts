@@ -4,28 +4,42 @@ import { z } from "zod";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
 import { requireAdminAuth } from "../middleware/adminAuth";
 import { prisma } from "../lib/prisma";
+import {
+  FX_KEY,
+  getUsdNgnRateInfo,
+  getUsdRates,
+  reviewPendingUsdNgnRate,
+  setUsdNgnRate,
+  setUsdRate,
+} from "../lib/fx";
+import { isCurrencyCode } from "../lib/currency";
+import { refreshUsdNgnRate } from "../jobs/fx-refresh";
 
 const router = Router();
 
 const bodySchema = z.object({
   rate: z.number().positive(),
+  note: z.string().max(500).optional(),
+});
+
+const historyQuerySchema = z.object({
+  status: z.enum(["APPLIED", "PENDING_CONFIRMATION", "REJECTED", "SUPERSEDED"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
 });
 
 // GET /api/admin/fx/usd-ngn  -> returns current rate from AppSetting
 router.get("/usd-ngn", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const row = await prisma.appSetting.findUnique({
-      where: { key: "USD_NGN_RATE" },
-      select: { value: true, updatedAt: true },
-    });
-
-    // fallback default if not set yet
-    const rate = row?.value ? Number(row.value) : 1600;
+    // falls back to the default rate if not set yet
+    const { rate, updatedAt } = await getUsdNgnRateInfo();
 
     return res.json({
       success: true,
       rate,
-      updatedAt: row?.updatedAt ?? null,
+      updatedAt,
     });
   } catch (e) {
     console.error("Admin FX get error:", e);
@@ -33,7 +47,7 @@ router.get("/usd-ngn", requireAuth, requireAdminAuth, async (req: AuthenticatedR
   }
 });
 
-// PATCH /api/admin/fx/usd-ngn -> saves current rate to AppSetting
+// PATCH /api/admin/fx/usd-ngn -> saves current rate to AppSetting (+ history row)
 router.patch("/usd-ngn", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const parsed = bodySchema.safeParse(req.body);
@@ -45,12 +59,12 @@ router.patch("/usd-ngn", requireAuth, requireAdminAuth, async (req: Authenticate
       });
     }
 
-    const rate = parsed.data.rate;
+    const { rate, note } = parsed.data;
 
-    await prisma.appSetting.upsert({
-      where: { key: "USD_NGN_RATE" },
-      create: { key: "USD_NGN_RATE", value: rate },
-      update: { value: rate },
+    await setUsdNgnRate(rate, {
+      changedById: req.userId,
+      source: "admin",
+      note,
     });
 
     return res.json({ success: true, message: "FX rate updated", rate });
@@ -60,4 +74,198 @@ router.patch("/usd-ngn", requireAuth, requireAdminAuth, async (req: Authenticate
   }
 });
 
+// GET /api/admin/fx/usd-ngn/history -> rate changes, newest first
+router.get("/usd-ngn/history", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = historyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { status, from, to, page, pageSize } = parsed.data;
+    const skip = (page - 1) * pageSize;
+
+    const where: any = { key: FX_KEY };
+    if (status) where.status = status;
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+
+    const [total, rows] = await Promise.all([
+      prisma.fxRate.count({ where }),
+      prisma.fxRate.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    // Resolve who made each change (changedById is a plain user id)
+    const userIds = [
+      ...new Set(
+        rows.flatMap((r) => [r.changedById, r.reviewedById]).filter((id): id is string => !!id)
+      ),
+    ];
+    const users = userIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, email: true, name: true },
+        })
+      : [];
+    const userMap = new Map(users.map((u) => [u.id, u]));
+
+    const history = rows.map((r) => ({
+      id: r.id,
+      rate: Number(r.rate),
+      previousRate: r.previousRate !== null ? Number(r.previousRate) : null,
+      status: r.status,
+      source: r.source,
+      note: r.note,
+      driftPercent: r.driftPercent !== null ? Number(r.driftPercent) : null,
+      changedBy: r.changedById ? userMap.get(r.changedById) ?? { id: r.changedById } : null,
+      reviewedBy: r.reviewedById ? userMap.get(r.reviewedById) ?? { id: r.reviewedById } : null,
+      reviewedAt: r.reviewedAt,
+      createdAt: r.createdAt,
+    }));
+
+    return res.json({
+      success: true,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      history,
+    });
+  } catch (e) {
+    console.error("Admin FX history error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/fx/usd-ngn/refresh -> pull from the configured provider now
+router.post("/usd-ngn/refresh", requireAuth, requireAdminAuth, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await refreshUsdNgnRate();
+    return res.json({ success: true, result });
+  } catch (e: any) {
+    console.error("Admin FX refresh error:", e);
+    return res.status(502).json({
+      success: false,
+      message: e?.message || "FX provider error",
+    });
+  }
+});
+
+// GET /api/admin/fx/usd-ngn/pending -> proposals held back by the drift guard
+router.get("/usd-ngn/pending", requireAuth, requireAdminAuth, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pending = await prisma.fxRate.findMany({
+      where: { key: FX_KEY, status: "PENDING_CONFIRMATION" },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json({
+      success: true,
+      pending: pending.map((r) => ({
+        id: r.id,
+        rate: Number(r.rate),
+        previousRate: r.previousRate !== null ? Number(r.previousRate) : null,
+        driftPercent: r.driftPercent !== null ? Number(r.driftPercent) : null,
+        source: r.source,
+        note: r.note,
+        createdAt: r.createdAt,
+      })),
+    });
+  } catch (e) {
+    console.error("Admin FX pending error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+function reviewPendingHandler(decision: "confirm" | "reject") {
+  return async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const reviewed = await reviewPendingUsdNgnRate(id, decision, req.userId!);
+
+      if (!reviewed) {
+        return res.status(404).json({
+          success: false,
+          message: "Pending FX rate not found",
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: decision === "confirm" ? "FX rate confirmed" : "FX rate rejected",
+        rate: Number(reviewed.rate),
+        status: reviewed.status,
+      });
+    } catch (e) {
+      console.error("Admin FX review error:", e);
+      return res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  };
+}
+
+// POST /api/admin/fx/usd-ngn/pending/:id/confirm -> apply a held proposal
+router.post("/usd-ngn/pending/:id/confirm", requireAuth, requireAdminAuth, reviewPendingHandler("confirm"));
+
+// POST /api/admin/fx/usd-ngn/pending/:id/reject -> discard it
+router.post("/usd-ngn/pending/:id/reject", requireAuth, requireAdminAuth, reviewPendingHandler("reject"));
+
+// GET /api/admin/fx/rates -> USD rates for every registry currency
+router.get("/rates", requireAuth, requireAdminAuth, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const rates = await getUsdRates();
+    return res.json({ success: true, base: "USD", rates });
+  } catch (e) {
+    console.error("Admin FX rates error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// PATCH /api/admin/fx/rates/:currency -> set units of :currency per 1 USD
+router.patch("/rates/:currency", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const currency = String(req.params.currency || "").toUpperCase();
+    if (!isCurrencyCode(currency) || currency === "USD") {
+      return res.status(400).json({ success: false, message: "Unsupported currency" });
+    }
+
+    const parsed = bodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { rate, note } = parsed.data;
+
+    await setUsdRate(currency, rate, {
+      changedById: req.userId,
+      source: "admin",
+      note,
+    });
+
+    return res.json({ success: true, message: "FX rate updated", currency, rate });
+  } catch (e) {
+    console.error("Admin FX rate update error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 export default router;
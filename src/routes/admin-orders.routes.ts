@@ -2,12 +2,22 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { refundOrder, RefundError } from "../lib/refunds";
+import { postChargeback, LedgerError } from "../lib/ledger";
+import { OrderTransitionError, transitionOrder } from "../lib/order-lifecycle";
 
 const router = Router();
 
-// Adjust to match your actual enum values if needed
-const OrderStatusEnum = z.enum(["PENDING", "ACCEPTED", "COMPLETED", "CANCELLED"]);
-const PaymentStatusEnum = z.enum(["PENDING", "PAID", "FAILED", "REFUNDED"]);
+const OrderStatusEnum = z.enum([
+  "PENDING",
+  "ACCEPTED",
+  "REJECTED",
+  "PREPARING",
+  "READY",
+  "COMPLETED",
+  "CANCELLED",
+]);
+const PaymentStatusEnum = z.enum(["PENDING", "PAID", "FAILED", "REFUNDED", "PARTIALLY_REFUNDED"]);
 
 // ===== Schemas =====
 
@@ -29,7 +39,19 @@ const listOrdersQuerySchema = z.object({
 });
 
 const updateOrderStatusSchema = z.object({
-  status: OrderStatusEnum,
+  status: OrderStatusEnum.exclude(["PENDING"]),
+  note: z.string().max(500).optional(),
+});
+
+const refundOrderSchema = z.object({
+  amount: z.number().int().positive().optional(), // minor units; omit for a full refund
+  reason: z.string().max(500).optional(),
+});
+
+const chargebackSchema = z.object({
+  reference: z.string().min(1).max(200), // provider dispute id
+  amount: z.number().int().positive().optional(), // minor units; omit for the full order
+  reason: z.string().max(500).optional(),
 });
 
 // ===== Middleware =====
@@ -92,8 +114,11 @@ router.get(
                 id: true,
                 productId: true,
                 quantity: true,
-                unitPriceKobo: true,
-                subtotalKobo: true, // ✅ use subtotalKobo here
+                unitPrice: true,
+                subtotal: true,
+                variantId: true,
+                variantName: true,
+                sku: true,
               },
             },
           },
@@ -142,12 +167,18 @@ router.get(
               id: true,
               productId: true,
               quantity: true,
-              unitPriceKobo: true,
-              subtotalKobo: true, // ✅ and here too
+              unitPrice: true,
+              subtotal: true,
+              variantId: true,
+              variantName: true,
+              sku: true,
             },
           },
           payments: true,
+          refunds: { orderBy: { createdAt: "desc" } },
           delivery: true,
+          discounts: true,
+          events: { orderBy: { createdAt: "asc" } },
         },
       });
 
@@ -188,19 +219,28 @@ router.patch(
         });
       }
 
-      const { status } = parsed.data;
+      const { status, note } = parsed.data;
 
-      const order = await prisma.order.update({
-        where: { id },
-        data: { status },
+      const { order, refund, refundError, delivery } = await transitionOrder(id, status, {
+        actor: "admin",
+        actorId: req.userId,
+        note: note ?? null,
       });
 
       return res.json({
         success: true,
         message: "Order status updated",
         order,
+        refund,
+        ...(refundError ? { refundError } : {}),
+        ...(delivery ? { delivery } : {}),
       });
     } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
       console.error("Admin update order status error:", error);
       return res
         .status(500)
@@ -209,4 +249,115 @@ router.patch(
   }
 );
 
+// POST /api/admin/orders/:id/refund  -> full or partial refund through the provider
+router.post(
+  "/:id/refund",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parsed = refundOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const order = await prisma.order.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!order) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Order not found" });
+      }
+
+      const refund = await refundOrder(order.id, {
+        ...parsed.data,
+        initiatedBy: "admin",
+        initiatedById: req.userId,
+      });
+
+      if (!refund) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Order has no captured payment to refund" });
+      }
+
+      if (refund.status === "FAILED") {
+        return res
+          .status(502)
+          .json({ success: false, message: "Provider rejected the refund", refund });
+      }
+
+      return res.json({
+        success: true,
+        message: refund.status === "SUCCEEDED" ? "Refund issued" : "Refund submitted",
+        refund,
+      });
+    } catch (error) {
+      if (error instanceof RefundError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
+
+      console.error("Admin refund order error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/admin/orders/:id/chargeback  -> debit the vendor for a lost dispute
+router.post(
+  "/:id/chargeback",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parsed = chargebackSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const transaction = await postChargeback({
+        ...parsed.data,
+        orderId: id,
+        createdById: req.userId,
+      });
+
+      return res.json({
+        success: true,
+        message: "Chargeback recorded",
+        transaction,
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
+
+      console.error("Admin chargeback error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
 export default router;
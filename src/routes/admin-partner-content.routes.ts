@@ -3,32 +3,26 @@ import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
 import { requireAdminAuth } from "../middleware/adminAuth";
+import { getStorage } from "../services/storage";
 import multer from "multer";
 import path from "path";
-import fs from "fs";
+import crypto from "crypto";
 
 const router = Router();
 
 // =======================
 // Upload config (multer) for documents
 // =======================
-const UPLOAD_DIR = path.join(process.cwd(), "uploads", "partner-docs");
-
-// Ensure folder exists
-if (!fs.existsSync(UPLOAD_DIR)) {
-  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+// Partner documents are confidential: kept in memory until they're written to
+// storage as private objects, and only ever handed out as signed, expiring URLs.
+const DOCUMENT_PREFIX = "partner-docs";
+
+function documentKey(originalName: string): string {
+  const ext = path.extname(originalName || "").toLowerCase();
+  const safeExt = /^\.[a-z0-9]{1,9}$/.test(ext) ? ext : "";
+  return `${DOCUMENT_PREFIX}/doc_${Date.now()}_${crypto.randomBytes(8).toString("hex")}${safeExt}`;
 }
 
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => cb(null, UPLOAD_DIR),
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname || "").toLowerCase();
-    const safeExt = ext && ext.length <= 10 ? ext : "";
-    const name = `doc_${Date.now()}_${Math.random().toString(16).slice(2)}${safeExt}`;
-    cb(null, name);
-  },
-});
-
 const ALLOWED_MIME_TYPES = [
   "application/pdf",
   "application/msword",
@@ -42,7 +36,7 @@ const ALLOWED_MIME_TYPES = [
 ];
 
 const upload = multer({
-  storage,
+  storage: multer.memoryStorage(),
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB for documents
   fileFilter: (_req, file, cb) => {
     if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
@@ -297,6 +291,7 @@ router.get("/documents/:id", requireAuth, requireAdminAuth, async (req: Authenti
     return res.json({
       success: true,
       document,
+      downloadUrl: await getStorage().signedUrl(document.storageKey, { downloadName: document.fileName }),
     });
   } catch (error) {
     console.error("Get document error:", error);
@@ -311,6 +306,7 @@ router.post(
   requireAdminAuth,
   upload.single("file"),
   async (req: AuthenticatedRequest, res) => {
+    let storageKey: string | null = null;
     try {
       if (!req.file) {
         return res.status(400).json({
@@ -321,8 +317,6 @@ router.post(
 
       const parsed = createDocumentSchema.safeParse(req.body);
       if (!parsed.success) {
-        // Delete uploaded file if validation fails
-        fs.unlinkSync(req.file.path);
         return res.status(400).json({
           success: false,
           message: "Invalid input",
@@ -332,13 +326,21 @@ router.post(
 
       const { title, description, category } = parsed.data;
 
+      storageKey = documentKey(req.file.originalname);
+      await getStorage().put({
+        key: storageKey,
+        body: req.file.buffer,
+        contentType: req.file.mimetype,
+        visibility: "private",
+      });
+
       const document = await prisma.partnerDocument.create({
         data: {
           title,
           description: description || null,
           category: category || "GENERAL",
           fileName: req.file.originalname,
-          filePath: `/uploads/partner-docs/${req.file.filename}`,
+          storageKey,
           fileSize: req.file.size,
           mimeType: req.file.mimetype,
           createdById: req.user!.id,
@@ -353,11 +355,9 @@ router.post(
       });
     } catch (error) {
       console.error("Upload document error:", error);
-      // Clean up file if error
-      if (req.file) {
-        try {
-          fs.unlinkSync(req.file.path);
-        } catch {}
+      // Clean up the stored file if the record wasn't created
+      if (storageKey) {
+        await getStorage().delete(storageKey).catch(() => {});
       }
       return res.status(500).json({ success: false, message: "Internal server error" });
     }
@@ -417,17 +417,15 @@ router.delete("/documents/:id", requireAuth, requireAdminAuth, async (req: Authe
       });
     }
 
-    // Delete the file from disk
-    const fullPath = path.join(process.cwd(), existing.filePath);
-    if (fs.existsSync(fullPath)) {
-      fs.unlinkSync(fullPath);
-    }
-
-    // Delete from database
+    // Delete from database, then the stored file
     await prisma.partnerDocument.delete({
       where: { id: req.params.id },
     });
 
+    await getStorage().delete(existing.storageKey).catch((e) => {
+      console.error("Delete document file error:", e);
+    });
+
     return res.json({
       success: true,
       message: "Document deleted",
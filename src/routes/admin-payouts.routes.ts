@@ -0,0 +1,215 @@
+// src/routes/admin-payouts.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { prisma } from "../lib/prisma";
+import { CURRENCY_CODES, CurrencyCode } from "../lib/currency";
+import {
+  closePayoutBatch,
+  createPayoutBatch,
+  LedgerError,
+  listVendorBalances,
+} from "../lib/ledger";
+
+const router = Router();
+
+const currencySchema = z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]);
+
+const listQuerySchema = z.object({
+  status: z.enum(["PENDING", "SETTLED", "CANCELLED"]).optional(),
+  currency: currencySchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const balancesQuerySchema = z.object({
+  currency: currencySchema.optional(),
+});
+
+const createBatchSchema = z.object({
+  currency: currencySchema,
+  vendorIds: z.array(z.string().min(1)).optional(), // default: every vendor with a balance
+  minAmount: z.number().int().positive().optional(), // minor units
+  note: z.string().max(500).optional(),
+});
+
+const settleSchema = z.object({
+  reference: z.string().max(200).optional(),
+});
+
+function ledgerErrorResponse(res: Response, error: unknown) {
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  return null;
+}
+
+// GET /api/admin/payouts/balances -> what the platform owes each vendor
+router.get("/balances", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = balancesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const rows = await listVendorBalances(parsed.data.currency);
+
+    const vendorIds = [...new Set(rows.map((b) => b.vendorId))];
+    const vendors = vendorIds.length
+      ? await prisma.vendor.findMany({
+          where: { id: { in: vendorIds } },
+          select: { id: true, businessName: true, email: true },
+        })
+      : [];
+    const vendorMap = new Map(vendors.map((v) => [v.id, v]));
+
+    const balances = rows.map((b) => ({ ...b, vendor: vendorMap.get(b.vendorId) ?? null }));
+
+    return res.json({ success: true, balances });
+  } catch (e) {
+    console.error("Admin payout balances error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/payouts -> payout batches, newest first
+router.get("/", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { status, currency, page, pageSize } = parsed.data;
+    const skip = (page - 1) * pageSize;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (currency) where.currency = currency;
+
+    const [total, batches] = await Promise.all([
+      prisma.payoutBatch.count({ where }),
+      prisma.payoutBatch.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+        include: { _count: { select: { payouts: true } } },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      batches,
+    });
+  } catch (e) {
+    console.error("Admin payout list error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/payouts -> batch current vendor balances for payout
+router.post("/", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = createBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const batch = await createPayoutBatch({ ...parsed.data, createdById: req.userId });
+
+    return res.status(201).json({ success: true, message: "Payout batch created", batch });
+  } catch (e) {
+    const handled = ledgerErrorResponse(res, e);
+    if (handled) return handled;
+
+    console.error("Admin payout create error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/payouts/:id
+router.get("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const batch = await prisma.payoutBatch.findUnique({
+      where: { id: req.params.id },
+      include: {
+        payouts: {
+          include: { vendor: { select: { id: true, businessName: true, email: true } } },
+        },
+      },
+    });
+
+    if (!batch) {
+      return res.status(404).json({ success: false, message: "Payout batch not found" });
+    }
+
+    return res.json({ success: true, batch });
+  } catch (e) {
+    console.error("Admin payout get error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/payouts/:id/settle -> transfers went out
+router.post("/:id/settle", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = settleSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const batch = await closePayoutBatch(req.params.id, "settle", {
+      reference: parsed.data.reference,
+      closedById: req.userId,
+    });
+
+    return res.json({ success: true, message: "Payout batch settled", batch });
+  } catch (e) {
+    const handled = ledgerErrorResponse(res, e);
+    if (handled) return handled;
+
+    console.error("Admin payout settle error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/payouts/:id/cancel -> return the amounts to vendor balances
+router.post("/:id/cancel", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const batch = await closePayoutBatch(req.params.id, "cancel", { closedById: req.userId });
+
+    return res.json({ success: true, message: "Payout batch cancelled", batch });
+  } catch (e) {
+    const handled = ledgerErrorResponse(res, e);
+    if (handled) return handled;
+
+    console.error("Admin payout cancel error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -3,6 +3,12 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import {
+  ModerationError,
+  approveProduct,
+  recordModerationEvent,
+  rejectProduct,
+} from "../lib/product-moderation";
 
 const router = Router();
 
@@ -13,7 +19,7 @@ function requireAdmin(req: AuthenticatedRequest, res: Response, next: () => void
   next();
 }
 
-const ProductStatusEnum = z.enum(["DRAFT", "PUBLISHED", "ARCHIVED"]);
+const ProductStatusEnum = z.enum(["DRAFT", "PENDING_REVIEW", "ACTIVE", "INACTIVE", "REJECTED"]);
 
 const listQuerySchema = z.object({
   search: z.string().optional(),
@@ -43,12 +49,27 @@ const listQuerySchema = z.object({
     .pipe(z.number().int().min(1).max(100).default(20)),
 });
 
+// Approving and rejecting go through the review endpoints, which notify the vendor
 const patchSchema = z.object({
-  status: ProductStatusEnum.optional(),
+  status: z.enum(["DRAFT", "ACTIVE", "INACTIVE"]).optional(),
   isAvailable: z.boolean().optional(),
   isDeleted: z.boolean().optional(),
 });
 
+const reviewQueueQuerySchema = z.object({
+  vendorId: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const approveSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+const rejectSchema = z.object({
+  reason: z.string().trim().min(3, "Give the vendor a reason").max(1000),
+});
+
 // GET /api/admin/products
 router.get("/", requireAuth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -128,6 +149,75 @@ router.get("/", requireAuth, requireAdmin, async (req: AuthenticatedRequest, res
   }
 });
 
+// GET /api/admin/products/review-queue  -> PENDING_REVIEW, oldest submission first
+router.get("/review-queue", requireAuth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = reviewQueueQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { vendorId, page, pageSize } = parsed.data;
+    const where = {
+      status: "PENDING_REVIEW" as const,
+      isDeleted: false,
+      ...(vendorId ? { vendorId } : {}),
+    };
+
+    const [total, products] = await Promise.all([
+      prisma.product.count({ where }),
+      prisma.product.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { updatedAt: "asc" },
+        select: {
+          id: true,
+          vendorId: true,
+          name: true,
+          shortDesc: true,
+          description: true,
+          priceUsdCents: true,
+          category: true,
+          imageUrl: true,
+          status: true,
+          approvedSnapshot: true, // set when this is a re-review: what was approved last time
+          createdAt: true,
+          updatedAt: true,
+          vendor: { select: { id: true, businessName: true, email: true } },
+          moderationEvents: {
+            where: { toStatus: "PENDING_REVIEW" },
+            orderBy: { createdAt: "desc" },
+            take: 1,
+            select: { actor: true, reason: true, createdAt: true },
+          },
+        },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      products: products.map(({ moderationEvents, ...p }) => ({
+        ...p,
+        submission: moderationEvents[0] ?? null,
+      })),
+    });
+  } catch (e) {
+    console.error("Admin review queue error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 // GET /api/admin/products/:id (details)
 router.get("/:id", requireAuth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -149,8 +239,12 @@ router.get("/:id", requireAuth, requireAdmin, async (req: AuthenticatedRequest,
         isAvailable: true,
         isDeleted: true,
         status: true,
+        approvedAt: true,
+        approvedSnapshot: true,
+        rejectionReason: true,
         createdAt: true,
         updatedAt: true,
+        moderationEvents: { orderBy: { createdAt: "asc" } },
         vendor: {
           select: {
             id: true,
@@ -189,26 +283,46 @@ router.patch("/:id", requireAuth, requireAdmin, async (req: AuthenticatedRequest
       });
     }
 
+    const existing = await prisma.product.findUnique({
+      where: { id },
+      select: { status: true, approvedAt: true },
+    });
+    if (!existing) return res.status(404).json({ success: false, message: "Product not found" });
+
+    // Only an approved product can be switched (back) on here
+    if (parsed.data.status === "ACTIVE" && existing.status !== "ACTIVE" && !existing.approvedAt) {
+      return res.status(409).json({
+        success: false,
+        message: "Product has not been approved; use POST /api/admin/products/:id/approve",
+      });
+    }
+
     const data: any = {};
     if (parsed.data.status) data.status = parsed.data.status;
     if (typeof parsed.data.isAvailable === "boolean") data.isAvailable = parsed.data.isAvailable;
     if (typeof parsed.data.isDeleted === "boolean") data.isDeleted = parsed.data.isDeleted;
 
-    const product = await prisma.product.update({
-      where: { id },
-      data,
-      select: {
-        id: true,
-        vendorId: true,
-        name: true,
-        category: true,
-        imageUrl: true,
-        status: true,
-        isAvailable: true,
-        isDeleted: true,
-        priceUsdCents: true,
-        updatedAt: true,
-      },
+    const product = await prisma.$transaction(async (tx) => {
+      if (parsed.data.status) {
+        await recordModerationEvent(tx, id, existing.status, parsed.data.status, "admin", req.userId ?? null);
+      }
+
+      return tx.product.update({
+        where: { id },
+        data,
+        select: {
+          id: true,
+          vendorId: true,
+          name: true,
+          category: true,
+          imageUrl: true,
+          status: true,
+          isAvailable: true,
+          isDeleted: true,
+          priceUsdCents: true,
+          updatedAt: true,
+        },
+      });
     });
 
     return res.json({ success: true, message: "Product updated", product });
@@ -218,4 +332,52 @@ router.patch("/:id", requireAuth, requireAdmin, async (req: AuthenticatedRequest
   }
 });
 
+// POST /api/admin/products/:id/approve  { note? }
+router.post("/:id/approve", requireAuth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = approveSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    await approveProduct(req.params.id, req.userId!, parsed.data.note || null);
+
+    return res.json({ success: true, message: "Product approved" });
+  } catch (e) {
+    if (e instanceof ModerationError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    console.error("Admin approve product error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/products/:id/reject  { reason }
+router.post("/:id/reject", requireAuth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = rejectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    await rejectProduct(req.params.id, req.userId!, parsed.data.reason);
+
+    return res.json({ success: true, message: "Product rejected" });
+  } catch (e) {
+    if (e instanceof ModerationError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    console.error("Admin reject product error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 export default router;
@@ -0,0 +1,228 @@
+// src/routes/admin-promotions.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { prisma } from "../lib/prisma";
+import {
+  deletePromotion,
+  getPromotionStats,
+  isDuplicateCodeError,
+  promotionCreateSchema,
+  promotionProductsError,
+  promotionRuleError,
+  promotionUpdateSchema,
+} from "../lib/promotions";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  vendorId: z.string().min(1).optional(),
+  scope: z.enum(["platform", "vendor"]).optional(),
+  type: z.enum(["PERCENTAGE", "FIXED_AMOUNT", "FREE_SHIPPING", "BUY_X_GET_Y"]).optional(),
+  isActive: z.enum(["true", "false"]).optional(),
+  q: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Admins can also create promotions on behalf of a vendor
+const createSchema = promotionCreateSchema.extend({
+  vendorId: z.string().min(1).nullable().optional(),
+});
+
+const vendorSelect = { select: { id: true, businessName: true, email: true } } as const;
+
+// GET /api/admin/promotions
+router.get("/", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { vendorId, scope, type, isActive, q, page, pageSize } = parsed.data;
+
+    const where = {
+      ...(vendorId ? { vendorId } : {}),
+      ...(scope === "platform" ? { vendorId: null } : {}),
+      ...(scope === "vendor" && !vendorId ? { vendorId: { not: null } } : {}),
+      ...(type ? { type } : {}),
+      ...(isActive ? { isActive: isActive === "true" } : {}),
+      ...(q
+        ? {
+            OR: [
+              { code: { contains: q, mode: "insensitive" as const } },
+              { name: { contains: q, mode: "insensitive" as const } },
+            ],
+          }
+        : {}),
+    };
+
+    const [total, promotions] = await Promise.all([
+      prisma.promotion.count({ where }),
+      prisma.promotion.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { vendor: vendorSelect },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      promotions,
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    });
+  } catch (e) {
+    console.error("Admin list promotions error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/promotions
+router.post("/", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const data = parsed.data;
+    const vendorId = data.vendorId ?? null;
+
+    const ruleError = promotionRuleError({
+      type: data.type,
+      percentOff: data.percentOff ?? null,
+      amountOffUsdCents: data.amountOffUsdCents ?? null,
+      buyQuantity: data.buyQuantity ?? null,
+      getQuantity: data.getQuantity ?? null,
+      startsAt: data.startsAt ?? null,
+      endsAt: data.endsAt ?? null,
+    });
+    if (ruleError) {
+      return res.status(400).json({ success: false, message: ruleError });
+    }
+
+    if (vendorId) {
+      const vendor = await prisma.vendor.findUnique({ where: { id: vendorId }, select: { id: true } });
+      if (!vendor) {
+        return res.status(404).json({ success: false, message: "Vendor not found" });
+      }
+    }
+
+    const productError = await promotionProductsError(data.productIds ?? [], vendorId);
+    if (productError) {
+      return res.status(400).json({ success: false, message: productError });
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: { ...data, vendorId, createdById: req.userId ?? null },
+      include: { vendor: vendorSelect },
+    });
+
+    return res.status(201).json({ success: true, promotion });
+  } catch (e) {
+    if (isDuplicateCodeError(e)) {
+      return res.status(409).json({ success: false, message: "Promotion code already exists" });
+    }
+    console.error("Admin create promotion error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/promotions/:id  -> promotion + redemption stats
+router.get("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const promotion = await prisma.promotion.findUnique({
+      where: { id: req.params.id },
+      include: { vendor: vendorSelect },
+    });
+
+    if (!promotion) {
+      return res.status(404).json({ success: false, message: "Promotion not found" });
+    }
+
+    const stats = await getPromotionStats(promotion.id);
+
+    return res.json({ success: true, promotion, stats });
+  } catch (e) {
+    console.error("Admin get promotion error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// PATCH /api/admin/promotions/:id
+router.patch("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = promotionUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const existing = await prisma.promotion.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Promotion not found" });
+    }
+
+    const data = parsed.data;
+
+    const ruleError = promotionRuleError({ ...existing, ...data });
+    if (ruleError) {
+      return res.status(400).json({ success: false, message: ruleError });
+    }
+
+    if (data.productIds) {
+      const productError = await promotionProductsError(data.productIds, existing.vendorId);
+      if (productError) {
+        return res.status(400).json({ success: false, message: productError });
+      }
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id: existing.id },
+      data,
+      include: { vendor: vendorSelect },
+    });
+
+    return res.json({ success: true, promotion });
+  } catch (e) {
+    if (isDuplicateCodeError(e)) {
+      return res.status(409).json({ success: false, message: "Promotion code already exists" });
+    }
+    console.error("Admin update promotion error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// DELETE /api/admin/promotions/:id  (redeemed promotions are deactivated instead)
+router.delete("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await prisma.promotion.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Promotion not found" });
+    }
+
+    const result = await deletePromotion(existing);
+
+    return res.json({ success: true, ...result });
+  } catch (e) {
+    console.error("Admin delete promotion error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
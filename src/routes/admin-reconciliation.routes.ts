@@ -0,0 +1,111 @@
+// src/routes/admin-reconciliation.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { prisma } from "../lib/prisma";
+import { reconcilePayments } from "../jobs/payment-reconciliation";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  trigger: z.enum(["schedule", "admin"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// GET /api/admin/reconciliation/reports -> run summaries, newest first
+router.get("/reports", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { trigger, page, pageSize } = parsed.data;
+    const skip = (page - 1) * pageSize;
+
+    const where: any = {};
+    if (trigger) where.trigger = trigger;
+
+    const [total, reports] = await Promise.all([
+      prisma.reconciliationReport.count({ where }),
+      prisma.reconciliationReport.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { startedAt: "desc" },
+        // per-payment details are on the detail endpoint
+        omit: { details: true },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      reports,
+    });
+  } catch (e) {
+    console.error("Admin reconciliation list error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/reconciliation/reports/latest
+router.get("/reports/latest", requireAuth, requireAdminAuth, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const report = await prisma.reconciliationReport.findFirst({
+      orderBy: { startedAt: "desc" },
+    });
+
+    return res.json({ success: true, report });
+  } catch (e) {
+    console.error("Admin reconciliation latest error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/reconciliation/reports/:id
+router.get("/reports/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const report = await prisma.reconciliationReport.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!report) {
+      return res.status(404).json({ success: false, message: "Report not found" });
+    }
+
+    return res.json({ success: true, report });
+  } catch (e) {
+    console.error("Admin reconciliation get error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/reconciliation/run -> run now instead of waiting for the schedule
+router.post("/run", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const report = await reconcilePayments({ trigger: "admin", triggeredById: req.userId });
+
+    if (!report) {
+      return res.status(409).json({ success: false, message: "Reconciliation is already running" });
+    }
+
+    return res.json({ success: true, message: "Reconciliation finished", report });
+  } catch (e) {
+    console.error("Admin reconciliation run error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
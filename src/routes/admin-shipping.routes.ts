@@ -0,0 +1,254 @@
+// src/routes/admin-shipping.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { prisma } from "../lib/prisma";
+import {
+  SHIPPING_TYPES,
+  shippingRateCreateSchema,
+  shippingRateError,
+  shippingRateUpdateSchema,
+  shippingZoneSchema,
+} from "../lib/shipping";
+
+const router = Router();
+
+const ratesQuerySchema = z.object({
+  zoneId: z.string().min(1).optional(),
+  vendorId: z.string().min(1).optional(), // omit for the platform table
+  shippingType: z.enum(SHIPPING_TYPES).optional(),
+});
+
+// Admins can also maintain a vendor's override rows
+const createRateSchema = shippingRateCreateSchema.extend({
+  vendorId: z.string().min(1).nullable().optional(),
+});
+
+// ===== Zones =====
+
+// GET /api/admin/shipping/zones
+router.get("/zones", requireAuth, requireAdminAuth, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const zones = await prisma.shippingZone.findMany({
+      orderBy: [{ priority: "desc" }, { name: "asc" }],
+      include: { _count: { select: { rates: true } } },
+    });
+
+    return res.json({ success: true, zones });
+  } catch (e) {
+    console.error("Admin list shipping zones error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/shipping/zones
+router.post("/zones", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = shippingZoneSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const zone = await prisma.shippingZone.create({ data: parsed.data });
+
+    return res.status(201).json({ success: true, zone });
+  } catch (e) {
+    console.error("Admin create shipping zone error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/shipping/zones/:id  -> zone + its rate table (platform and vendor rows)
+router.get("/zones/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const zone = await prisma.shippingZone.findUnique({
+      where: { id: req.params.id },
+      include: {
+        rates: {
+          orderBy: [{ vendorId: "asc" }, { shippingType: "asc" }, { minWeightGrams: "asc" }],
+          include: { vendor: { select: { id: true, businessName: true } } },
+        },
+      },
+    });
+
+    if (!zone) {
+      return res.status(404).json({ success: false, message: "Shipping zone not found" });
+    }
+
+    return res.json({ success: true, zone });
+  } catch (e) {
+    console.error("Admin get shipping zone error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// PATCH /api/admin/shipping/zones/:id
+router.patch("/zones/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = shippingZoneSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const existing = await prisma.shippingZone.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Shipping zone not found" });
+    }
+
+    const zone = await prisma.shippingZone.update({ where: { id: existing.id }, data: parsed.data });
+
+    return res.json({ success: true, zone });
+  } catch (e) {
+    console.error("Admin update shipping zone error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// DELETE /api/admin/shipping/zones/:id  (removes its rates too)
+router.delete("/zones/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await prisma.shippingZone.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Shipping zone not found" });
+    }
+
+    await prisma.shippingZone.delete({ where: { id: existing.id } });
+
+    return res.json({ success: true, message: "Shipping zone deleted" });
+  } catch (e) {
+    console.error("Admin delete shipping zone error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// ===== Rates =====
+
+// GET /api/admin/shipping/rates?zoneId=&vendorId=&shippingType=
+router.get("/rates", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = ratesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { zoneId, vendorId, shippingType } = parsed.data;
+
+    const rates = await prisma.shippingRate.findMany({
+      where: {
+        ...(zoneId ? { zoneId } : {}),
+        vendorId: vendorId ?? null,
+        ...(shippingType ? { shippingType } : {}),
+      },
+      orderBy: [{ zoneId: "asc" }, { shippingType: "asc" }, { minWeightGrams: "asc" }],
+      include: { zone: { select: { id: true, name: true } } },
+    });
+
+    return res.json({ success: true, rates });
+  } catch (e) {
+    console.error("Admin list shipping rates error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/shipping/rates
+router.post("/rates", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = createRateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const data = parsed.data;
+
+    const rateError = shippingRateError(data);
+    if (rateError) {
+      return res.status(400).json({ success: false, message: rateError });
+    }
+
+    const zone = await prisma.shippingZone.findUnique({ where: { id: data.zoneId }, select: { id: true } });
+    if (!zone) {
+      return res.status(404).json({ success: false, message: "Shipping zone not found" });
+    }
+
+    if (data.vendorId) {
+      const vendor = await prisma.vendor.findUnique({ where: { id: data.vendorId }, select: { id: true } });
+      if (!vendor) {
+        return res.status(404).json({ success: false, message: "Vendor not found" });
+      }
+    }
+
+    const rate = await prisma.shippingRate.create({ data: { ...data, vendorId: data.vendorId ?? null } });
+
+    return res.status(201).json({ success: true, rate });
+  } catch (e) {
+    console.error("Admin create shipping rate error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// PATCH /api/admin/shipping/rates/:id
+router.patch("/rates/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = shippingRateUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const existing = await prisma.shippingRate.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Shipping rate not found" });
+    }
+
+    const rateError = shippingRateError({ ...existing, ...parsed.data });
+    if (rateError) {
+      return res.status(400).json({ success: false, message: rateError });
+    }
+
+    const rate = await prisma.shippingRate.update({ where: { id: existing.id }, data: parsed.data });
+
+    return res.json({ success: true, rate });
+  } catch (e) {
+    console.error("Admin update shipping rate error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// DELETE /api/admin/shipping/rates/:id
+router.delete("/rates/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await prisma.shippingRate.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Shipping rate not found" });
+    }
+
+    await prisma.shippingRate.delete({ where: { id: existing.id } });
+
+    return res.json({ success: true, message: "Shipping rate deleted" });
+  } catch (e) {
+    console.error("Admin delete shipping rate error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
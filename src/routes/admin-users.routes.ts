@@ -2,6 +2,8 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { listSessions, revokeAllSessions } from "../lib/sessions";
+import { disableTwoFactor } from "../lib/two-factor";
 
 const router = Router();
 
@@ -79,6 +81,7 @@ router.get(
             email: true,
             name: true,
             role: true,
+            twoFactorEnabledAt: true,
             createdAt: true,
           },
         }),
@@ -139,14 +142,21 @@ router.patch(
           email: true,
           name: true,
           role: true,
+          twoFactorEnabledAt: true,
           createdAt: true,
         },
       });
 
+      // Admin tokens are only issued once 2FA is on
+      const twoFactorSetupRequired = user.role === "ADMIN" && !user.twoFactorEnabledAt;
+
       return res.json({
         success: true,
-        message: "User role updated",
+        message: twoFactorSetupRequired
+          ? "User role updated; admin access starts once they enable two-factor authentication"
+          : "User role updated",
         user,
+        ...(twoFactorSetupRequired ? { twoFactorSetupRequired } : {}),
       });
     } catch (error) {
       console.error("Admin update user role error:", error);
@@ -157,4 +167,113 @@ router.patch(
   }
 );
 
+// GET /api/admin/users/:id/sessions  -> live sessions (devices) of the account
+router.get(
+  "/:id/sessions",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      const sessions = await listSessions({ type: "USER", id });
+
+      return res.json({
+        success: true,
+        sessions,
+      });
+    } catch (error) {
+      console.error("Admin list user sessions error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/admin/users/:id/sessions/revoke  -> log a compromised account out everywhere
+router.post(
+  "/:id/sessions/revoke",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      const revoked = await revokeAllSessions({ type: "USER", id }, "admin");
+      console.warn(`Admin ${req.userId} revoked ${revoked} session(s) of user ${id}`);
+
+      return res.json({
+        success: true,
+        message: "Sessions revoked",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Admin revoke user sessions error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/admin/users/:id/2fa/reset  -> lost authenticator and recovery codes
+// Switches 2FA off and logs them out; admins must enrol again at next login.
+router.post(
+  "/:id/2fa/reset",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (req.userId === id) {
+        return res.status(400).json({
+          success: false,
+          message: "You cannot reset your own two-factor authentication",
+        });
+      }
+
+      const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      await disableTwoFactor({ type: "USER", id });
+      const revoked = await revokeAllSessions({ type: "USER", id }, "two_factor");
+      console.warn(`Admin ${req.userId} reset two-factor authentication of user ${id}`);
+
+      return res.json({
+        success: true,
+        message: "Two-factor authentication reset",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Admin reset user 2FA error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
 export default router;
@@ -2,11 +2,13 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { listSessions, revokeAllSessions } from "../lib/sessions";
+import { disableTwoFactor } from "../lib/two-factor";
 
 const router = Router();
 
 // Adjust to match your actual enum values if needed
-const VendorStatusEnum = z.enum(["PENDING", "APPROVED"]);
+const VendorStatusEnum = z.enum(["PENDING", "APPROVED", "SUSPENDED"]);
 
 // ===== Zod Schemas =====
 
@@ -92,6 +94,7 @@ router.get(
             phone: true,
             status: true,
             isActive: true,
+            emailVerified: true,
             createdAt: true,
           },
         }),
@@ -139,6 +142,7 @@ router.patch(
           phone: true,
           status: true,
           isActive: true,
+          emailVerified: true,
           createdAt: true,
         },
       });
@@ -190,14 +194,22 @@ router.patch(
           phone: true,
           status: true,
           isActive: true,
+          emailVerified: true,
           createdAt: true,
         },
       });
 
+      // requireVendorAuth already refuses them; this also ends their refresh tokens
+      let revokedSessions = 0;
+      if (vendor.status !== "APPROVED" || !vendor.isActive) {
+        revokedSessions = await revokeAllSessions({ type: "VENDOR", id }, "admin");
+      }
+
       return res.json({
         success: true,
         message: "Vendor status updated",
         vendor,
+        revokedSessions,
       });
     } catch (error) {
       console.error("Admin update vendor status error:", error);
@@ -208,4 +220,122 @@ router.patch(
   }
 );
 
+// GET /api/admin/vendors/:id/sessions  -> live sessions (devices) of the account
+router.get(
+  "/:id/sessions",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const vendor = await prisma.vendor.findUnique({ where: { id }, select: { id: true } });
+      if (!vendor) {
+        return res.status(404).json({
+          success: false,
+          message: "Vendor not found",
+        });
+      }
+
+      const sessions = await listSessions({ type: "VENDOR", id });
+
+      return res.json({
+        success: true,
+        sessions,
+      });
+    } catch (error) {
+      console.error("Admin list vendor sessions error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/admin/vendors/:id/sessions/revoke  -> log a compromised account out everywhere
+router.post(
+  "/:id/sessions/revoke",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const vendor = await prisma.vendor.findUnique({ where: { id }, select: { id: true } });
+      if (!vendor) {
+        return res.status(404).json({
+          success: false,
+          message: "Vendor not found",
+        });
+      }
+
+      const revoked = await revokeAllSessions({ type: "VENDOR", id }, "admin");
+      console.warn(`Admin ${req.userId} revoked ${revoked} session(s) of vendor ${id}`);
+
+      return res.json({
+        success: true,
+        message: "Sessions revoked",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Admin revoke vendor sessions error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/admin/vendors/:id/2fa/reset  { memberId? }  -> lost authenticator and recovery codes
+// Resets the account holder's 2FA, or a team member's when memberId is given.
+router.post(
+  "/:id/2fa/reset",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const memberId = typeof req.body?.memberId === "string" ? req.body.memberId : null;
+
+      const vendor = await prisma.vendor.findUnique({ where: { id }, select: { id: true } });
+      if (!vendor) {
+        return res.status(404).json({
+          success: false,
+          message: "Vendor not found",
+        });
+      }
+
+      if (memberId) {
+        const member = await prisma.vendorMember.findFirst({
+          where: { id: memberId, vendorId: id },
+          select: { id: true },
+        });
+        if (!member) {
+          return res.status(404).json({
+            success: false,
+            message: "Team member not found",
+          });
+        }
+      }
+
+      await disableTwoFactor({ type: "VENDOR", id, memberId });
+      const revoked = await revokeAllSessions({ type: "VENDOR", id, memberId }, "two_factor");
+      console.warn(
+        `Admin ${req.userId} reset two-factor authentication of vendor ${id}${memberId ? ` member ${memberId}` : ""}`
+      );
+
+      return res.json({
+        success: true,
+        message: "Two-factor authentication reset",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Admin reset vendor 2FA error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
 export default router;
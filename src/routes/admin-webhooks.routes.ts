@@ -0,0 +1,161 @@
+// src/routes/admin-webhooks.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { prisma } from "../lib/prisma";
+import { processWebhookEvent } from "../lib/webhooks";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  provider: z.enum(["paystack", "paypal", "fake"]).optional(),
+  status: z.enum(["RECEIVED", "PROCESSED", "IGNORED", "FAILED", "REJECTED"]).optional(),
+  providerRef: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const replayFailedSchema = z.object({
+  provider: z.enum(["paystack", "paypal", "fake"]).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+// GET /api/admin/webhooks -> ledger of inbound webhook events, newest first
+router.get("/", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { provider, status, providerRef, page, pageSize } = parsed.data;
+    const skip = (page - 1) * pageSize;
+
+    const where: any = {};
+    if (provider) where.provider = provider;
+    if (status) where.status = status;
+    if (providerRef) where.providerRef = providerRef;
+
+    const [total, events] = await Promise.all([
+      prisma.webhookEvent.count({ where }),
+      prisma.webhookEvent.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+        // payload/headers are on the detail endpoint
+        omit: { payload: true, headers: true },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      events,
+    });
+  } catch (e) {
+    console.error("Admin webhooks list error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/webhooks/replay-failed -> replay the oldest FAILED events
+router.post("/replay-failed", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = replayFailedSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { provider, limit } = parsed.data;
+
+    const failed = await prisma.webhookEvent.findMany({
+      where: { status: "FAILED", signatureValid: true, ...(provider ? { provider } : {}) },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+    });
+
+    // One at a time, in arrival order
+    const results = [];
+    for (const record of failed) {
+      const { event } = await processWebhookEvent(record);
+      results.push({ id: record.id, status: event?.status, detail: event?.detail });
+    }
+
+    return res.json({
+      success: true,
+      replayed: results.length,
+      stillFailing: results.filter((r) => r.status === "FAILED").length,
+      results,
+    });
+  } catch (e) {
+    console.error("Admin webhooks replay-failed error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/admin/webhooks/:id -> full event incl. payload
+router.get("/:id", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const event = await prisma.webhookEvent.findUnique({ where: { id: req.params.id } });
+
+    if (!event) {
+      return res.status(404).json({ success: false, message: "Webhook event not found" });
+    }
+
+    return res.json({ success: true, event });
+  } catch (e) {
+    console.error("Admin webhook get error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/admin/webhooks/:id/replay -> re-run a FAILED event
+router.post("/:id/replay", requireAuth, requireAdminAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const record = await prisma.webhookEvent.findUnique({ where: { id: req.params.id } });
+
+    if (!record) {
+      return res.status(404).json({ success: false, message: "Webhook event not found" });
+    }
+
+    // Unverified events are never processed
+    if (!record.signatureValid) {
+      return res.status(400).json({ success: false, message: "Event failed signature verification" });
+    }
+
+    if (record.status !== "FAILED") {
+      return res.status(400).json({
+        success: false,
+        message: `Only failed events can be replayed (this one is ${record.status})`,
+      });
+    }
+
+    const { event } = await processWebhookEvent(record);
+
+    return res.json({
+      success: event?.status !== "FAILED",
+      message: event?.status === "FAILED" ? "Replay failed again" : "Event replayed",
+      event,
+    });
+  } catch (e) {
+    console.error("Admin webhook replay error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
-import { Router } from "express";
+import { Router, Request } from "express";
+import { User } from "@prisma/client";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { z } from "zod";
 import rateLimit from "express-rate-limit";
 import { prisma } from "../lib/prisma";
@@ -8,6 +8,26 @@ import { env } from "../config/env";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
 import { generateToken, hashToken, getExpiryDate, isExpired } from "../services/tokens";
 import { sendEmail, getVerificationEmailHtml, getPasswordResetEmailHtml } from "../services/email";
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+  revokeOwnSession,
+  listSessions,
+  sessionContext,
+  SessionError,
+} from "../lib/sessions";
+import { signChallengeToken, verifyChallengeToken } from "../lib/auth-tokens";
+import {
+  beginEnrolment,
+  confirmEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  TwoFactorError,
+  verifySecondFactor,
+} from "../lib/two-factor";
 
 const router = Router();
 
@@ -48,6 +68,30 @@ const passwordResetLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Limit refreshes: 30 per 15 minutes per IP (clients refresh every ~15 minutes)
+const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: {
+    success: false,
+    message: "Too many refresh attempts. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Second-factor attempts: 10 per 15 minutes per IP; a challenge lasts 5 minutes
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: {
+    success: false,
+    message: "Too many verification attempts. Please try again after 15 minutes.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // ====== Schemas ======
 const registerSchema = z.object({
   email: z.string().email(),
@@ -73,27 +117,54 @@ const resendVerificationSchema = z.object({
   email: z.string().email(),
 });
 
-// ====== Helpers ======
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+  device: z.string().max(100).optional(),
+});
+
+const twoFactorVerifySchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(6).max(20), // 6-digit code or a recovery code
+  device: z.string().max(100).optional(),
+});
 
-type UserRole = "USER" | "ADMIN";
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
 
-function generateTokens(user: { id: string; role: UserRole }) {
-  const accessToken = jwt.sign(
-    {
-      sub: user.id,
-      role: user.role, // 👈 embed role so admin checks work
-    },
-    env.JWT_ACCESS_SECRET,
-    { expiresIn: env.JWT_EXPIRES_IN }
-  );
+const twoFactorDisableSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().trim().min(6).max(20),
+});
 
-  const refreshToken = jwt.sign(
-    { sub: user.id },
-    env.JWT_REFRESH_SECRET,
-    { expiresIn: env.REFRESH_EXPIRES_IN }
+// ====== Helpers ======
+
+// Start the session and build the login response; shared by password-only
+// logins and logins finished with a second factor
+async function completeLogin(req: Request, user: User) {
+  const twoFactor = !!user.twoFactorEnabledAt;
+  const tokens = await createSession(
+    { type: "USER", id: user.id, role: user.role, twoFactor },
+    sessionContext(req)
   );
 
-  return { accessToken, refreshToken };
+  return {
+    success: true,
+    message: "Login successful",
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      isPartner: user.isPartner,
+      twoFactorEnabled: twoFactor,
+      createdAt: user.createdAt,
+    },
+    // Admins work as plain users until they switch 2FA on
+    ...(user.role === "ADMIN" && !twoFactor ? { twoFactorSetupRequired: true } : {}),
+    ...tokens,
+  };
 }
 
 // ====== Routes ======
@@ -165,7 +236,11 @@ router.post("/register", registerLimiter, async (req, res) => {
       html: getVerificationEmailHtml(name || null, verifyUrl),
     });
 
-    const tokens = generateTokens({ id: user.id, role: user.role as UserRole });
+    // Role is embedded in the access token so admin checks work
+    const tokens = await createSession(
+      { type: "USER", id: user.id, role: user.role, twoFactor: false },
+      sessionContext(req)
+    );
 
     return res.status(201).json({
       success: true,
@@ -214,24 +289,17 @@ router.post("/login", loginLimiter, async (req, res) => {
         .json({ success: false, message: "Invalid email or password" });
     }
 
-    const tokens = generateTokens({ id: user.id, role: user.role as UserRole });
-
-    const safeUser = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      emailVerified: user.emailVerified,
-      isPartner: user.isPartner,
-      createdAt: user.createdAt,
-    };
+    // Password was right; the session waits for the second factor
+    if (user.twoFactorEnabledAt) {
+      return res.json({
+        success: true,
+        message: "Enter the code from your authenticator app",
+        twoFactorRequired: true,
+        challengeToken: signChallengeToken({ aud: "user", sub: user.id }),
+      });
+    }
 
-    return res.json({
-      success: true,
-      message: "Login successful",
-      user: safeUser,
-      ...tokens,
-    });
+    return res.json(await completeLogin(req, user));
   } catch (error) {
     console.error("Login error:", error);
     return res
@@ -522,6 +590,9 @@ router.post("/reset-password", async (req, res) => {
       }),
     ]);
 
+    // Whoever knew the old password is logged out everywhere
+    await revokeAllSessions({ type: "USER", id: resetToken.userId }, "password_reset");
+
     return res.json({
       success: true,
       message: "Password reset successfully. You can now log in with your new password.",
@@ -534,6 +605,334 @@ router.post("/reset-password", async (req, res) => {
   }
 });
 
+// POST /api/auth/refresh  { refreshToken, device? }
+// Rotates: the old refresh token stops working; presenting it again ends the session
+router.post("/refresh", refreshLimiter, async (req, res) => {
+  try {
+    const parsed = refreshSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const tokens = await rotateSession(parsed.data.refreshToken, "USER", sessionContext(req));
+
+    return res.json({
+      success: true,
+      ...tokens,
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("Refresh error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/auth/logout (protected) -> ends the current session
+router.post("/logout", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, "logout");
+    }
+
+    return res.json({
+      success: true,
+      message: "Logged out",
+    });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/auth/logout-all (protected) -> ends every session, this one included
+router.post("/logout-all", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const revoked = await revokeAllSessions({ type: "USER", id: req.user!.id }, "logout_all");
+
+    return res.json({
+      success: true,
+      message: "Logged out on all devices",
+      revoked,
+    });
+  } catch (error) {
+    console.error("Logout all error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/auth/sessions (protected)
+router.get("/sessions", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const sessions = await listSessions({ type: "USER", id: req.user!.id }, req.sessionId);
+
+    return res.json({
+      success: true,
+      sessions,
+    });
+  } catch (error) {
+    console.error("List sessions error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// DELETE /api/auth/sessions/:id (protected) -> sign out one device
+router.delete("/sessions/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const revoked = await revokeOwnSession({ type: "USER", id: req.user!.id }, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: "Session not found",
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: "Session ended",
+    });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// ====== Two-factor authentication ======
+
+// POST /api/auth/2fa/verify  { challengeToken, code, device? }
+// Second login step: a code from the app, or a recovery code (spent on use)
+router.post("/2fa/verify", twoFactorLimiter, async (req, res) => {
+  try {
+    const parsed = twoFactorVerifySchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const challenge = verifyChallengeToken(parsed.data.challengeToken, "user");
+    if (!challenge) {
+      return res.status(401).json({
+        success: false,
+        message: "Login has expired; please log in again",
+      });
+    }
+
+    const { method, recoveryCodesLeft } = await verifySecondFactor(
+      { type: "USER", id: challenge.sub },
+      parsed.data.code
+    );
+
+    const user = await prisma.user.findUnique({ where: { id: challenge.sub } });
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: "Login has expired; please log in again",
+      });
+    }
+
+    return res.json({
+      ...(await completeLogin(req, user)),
+      ...(method === "recovery" ? { recoveryCodesLeft } : {}),
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("2FA verify error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/auth/2fa (protected) -> enabled?, recovery codes left
+router.get("/2fa", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const status = await getTwoFactorStatus({ type: "USER", id: req.user!.id });
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { role: true },
+    });
+
+    return res.json({
+      success: true,
+      twoFactor: { ...status, required: user?.role === "ADMIN" },
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("2FA status error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/auth/2fa/setup (protected) -> secret + otpauth:// URI for the QR code
+router.post("/2fa/setup", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { secret, otpauthUrl } = await beginEnrolment({ type: "USER", id: req.user!.id });
+
+    return res.json({
+      success: true,
+      message: "Scan the QR code, then confirm with a code from the app",
+      secret,
+      otpauthUrl,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("2FA setup error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/auth/2fa/enable (protected)  { code }
+// Returns the recovery codes (shown once) and a fresh session; other sessions end
+router.post("/2fa/enable", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const recoveryCodes = await confirmEnrolment({ type: "USER", id: req.user!.id }, parsed.data.code);
+
+    // Sessions from before were password-only; admins also need a new token
+    // to get admin rights
+    await revokeAllSessions({ type: "USER", id: req.user!.id }, "two_factor");
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user!.id } });
+
+    return res.json({
+      ...(await completeLogin(req, user)),
+      message: "Two-factor authentication enabled. Store your recovery codes somewhere safe.",
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("2FA enable error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes (protected)  { code } -> new set; old codes stop working
+router.post("/2fa/recovery-codes", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes({ type: "USER", id: req.user!.id }, parsed.data.code);
+
+    return res.json({
+      success: true,
+      message: "New recovery codes generated",
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("2FA recovery codes error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/auth/2fa/disable (protected)  { password, code } -> not for admins
+router.post("/2fa/disable", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = twoFactorDisableSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user!.id } });
+
+    if (user.role === "ADMIN") {
+      return res.status(403).json({
+        success: false,
+        message: "Two-factor authentication is required for admin accounts",
+      });
+    }
+
+    const isValid = await bcrypt.compare(parsed.data.password, user.passwordHash);
+    if (!isValid) {
+      return res.status(401).json({ success: false, message: "Incorrect password" });
+    }
+
+    await verifySecondFactor({ type: "USER", id: user.id }, parsed.data.code);
+    await disableTwoFactor({ type: "USER", id: user.id });
+
+    // Every session ends; this device continues with a fresh one
+    await revokeAllSessions({ type: "USER", id: user.id }, "two_factor");
+    const tokens = await createSession(
+      { type: "USER", id: user.id, role: user.role, twoFactor: false },
+      sessionContext(req)
+    );
+
+    return res.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+      ...tokens,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("2FA disable error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
 // GET /api/auth/me (protected)
 router.get("/me", requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
@@ -554,6 +953,7 @@ router.get("/me", requireAuth, async (req: AuthenticatedRequest, res) => {
         role: true,
         emailVerified: true,
         isPartner: true,
+        twoFactorEnabledAt: true,
         createdAt: true,
       },
     });
@@ -565,9 +965,12 @@ router.get("/me", requireAuth, async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    const { twoFactorEnabledAt, ...rest } = user;
+
     return res.json({
       success: true,
-      user,
+      user: { ...rest, twoFactorEnabled: !!twoFactorEnabledAt },
+      ...(user.role === "ADMIN" && !twoFactorEnabledAt ? { twoFactorSetupRequired: true } : {}),
     });
   } catch (error) {
     console.error("Get /me error:", error);
@@ -0,0 +1,50 @@
+// src/routes/categories.routes.ts
+import { Router, Response } from "express";
+import { prisma } from "../lib/prisma";
+import { buildCategoryTree } from "../lib/categories";
+import { publicProductWhere } from "../lib/product-moderation";
+
+const router = Router();
+
+// GET /api/categories  -> active category tree with counts of live products
+router.get("/", async (_req, res: Response) => {
+  try {
+    const [categories, counts] = await Promise.all([
+      prisma.category.findMany({
+        where: { isActive: true },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          description: true,
+          imageUrl: true,
+          parentId: true,
+          sortOrder: true,
+        },
+      }),
+      prisma.product.groupBy({
+        by: ["categoryId"],
+        where: { ...publicProductWhere, categoryId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    // Everything under an inactive category is hidden with it
+    const parentOf = new Map(categories.map((c) => [c.id, c.parentId]));
+    const isVisible = (id: string): boolean => {
+      const parentId = parentOf.get(id);
+      if (parentId === undefined) return false; // inactive
+      return parentId === null || isVisible(parentId);
+    };
+    const visible = categories.filter((c) => isVisible(c.id));
+
+    const productCounts = new Map(counts.map((c) => [c.categoryId!, c._count._all]));
+
+    return res.json({ success: true, categories: buildCategoryTree(visible, productCounts) });
+  } catch (e) {
+    console.error("Public categories error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,37 @@
+// src/routes/files.routes.ts
+import { Router, Response } from "express";
+import { env } from "../config/env";
+import { localPathOf, verifyLocalSignature } from "../services/storage";
+
+const router = Router();
+
+// GET /api/files?key=&expires=&name=&sig=  -> private file behind a signed URL
+// Only the local driver signs these; with s3 the signed URL points at the bucket.
+router.get("/", async (req, res: Response) => {
+  try {
+    if (env.STORAGE_DRIVER !== "local") {
+      return res.status(404).json({ success: false, message: "Not found" });
+    }
+
+    const verified = verifyLocalSignature(req.query);
+    if (!verified) {
+      return res.status(403).json({ success: false, message: "Link is invalid or has expired" });
+    }
+
+    res.setHeader("Cache-Control", "private, no-store");
+    const file = localPathOf(verified.key);
+    const onError = (err: Error | undefined) => {
+      if (err && !res.headersSent) {
+        res.status(404).json({ success: false, message: "File not found" });
+      }
+    };
+
+    if (verified.downloadName) return res.download(file, verified.downloadName, onError);
+    return res.sendFile(file, onError);
+  } catch (e) {
+    console.error("Signed file error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,6 +1,8 @@
 // src/routes/fx.routes.ts
 import { Router, Response } from "express";
-import { getUsdNgnRate } from "../lib/fx";
+import { getUsdNgnRate, getUsdRates } from "../lib/fx";
+import { BASE_CURRENCY, CURRENCIES, PAYMENT_METHOD_CURRENCIES } from "../lib/currency";
+import { availablePaymentMethods } from "../services/payments";
 
 const router = Router();
 
@@ -15,4 +17,28 @@ router.get("/usd-ngn", async (_req, res: Response) => {
   }
 });
 
+// GET /api/fx/rates  -> every supported currency, its precision and USD rate
+router.get("/rates", async (_req, res: Response) => {
+  try {
+    const rates = await getUsdRates();
+
+    return res.json({
+      success: true,
+      base: BASE_CURRENCY,
+      currencies: rates.map((r) => ({
+        ...CURRENCIES[r.currency],
+        rate: r.rate,
+        available: r.rate !== null,
+        updatedAt: r.updatedAt,
+      })),
+      paymentMethods: Object.fromEntries(
+        availablePaymentMethods().map((m) => [m, PAYMENT_METHOD_CURRENCIES[m]])
+      ),
+    });
+  } catch (e) {
+    console.error("FX rates read error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 export default router;
@@ -7,6 +7,12 @@ import {
   requireVendorAuth,
   VendorAuthenticatedRequest,
 } from "../middleware/vendorAuth";
+import { recordVendorActivity, requireVendorPermission } from "../lib/vendor-team";
+import {
+  createOrderDelivery,
+  OrderTransitionError,
+  transitionOrder,
+} from "../lib/order-lifecycle";
 
 const router = Router();
 
@@ -15,7 +21,7 @@ const router = Router();
 const createDeliverySchema = z.object({
   orderId: z.string().min(1),
   pickupLocation: z.string().min(1),
-  dropoffLocation: z.string().min(1),
+  dropoffLocation: z.string().min(1).optional(), // defaults to the order's shipping address
   riderName: z.string().optional(),
   riderPhone: z.string().optional(),
   notes: z.string().optional(),
@@ -42,12 +48,6 @@ const createLogisticsRequestSchema = z.object({
 
 // ========= Helpers =========
 
-function genTrackingCode() {
-  // FCQ-TRK-XXXXXX
-  const rand = Math.random().toString(36).slice(2, 8).toUpperCase();
-  return `FCQ-TRK-${rand}`;
-}
-
 function genLogisticsTrackingCode() {
   // FCQ-LOG-XXXXXX
   const rand = Math.random().toString(36).slice(2, 8).toUpperCase();
@@ -73,6 +73,7 @@ function statusTitle(status: string) {
 router.post(
   "/vendor/deliveries",
   requireVendorAuth,
+  requireVendorPermission("orders:fulfil"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -115,57 +116,44 @@ router.post(
           .json({ success: false, message: "Order not found for this vendor" });
       }
 
-      if (order.paymentStatus !== "PAID") {
+      if (order.paymentStatus !== "PAID" && order.paymentStatus !== "PARTIALLY_REFUNDED") {
         return res.status(400).json({
           success: false,
           message: "Cannot create delivery for unpaid order",
         });
       }
 
-      // Idempotent: return existing delivery for this order
-      const existing = await prisma.delivery.findUnique({
-        where: { orderId: order.id },
-      });
+      // Idempotent: returns the existing delivery for this order
+      const result = await prisma.$transaction((tx) =>
+        createOrderDelivery(tx, order.id, {
+          pickupLocation,
+          dropoffLocation,
+          riderName,
+          riderPhone,
+          notes,
+        })
+      );
+
+      if (!result) {
+        return res.status(400).json({
+          success: false,
+          message: "dropoffLocation is required for orders without a shipping address",
+        });
+      }
 
-      if (existing) {
+      if (!result.created) {
         return res.status(200).json({
           success: true,
           message: "Delivery already exists for this order",
-          delivery: existing,
+          delivery: result.delivery,
         });
       }
-
-      const delivery = await prisma.$transaction(async (tx) => {
-        const created = await tx.delivery.create({
-          data: {
-            orderId: order.id,
-            vendorId: order.vendorId,
-            userId: order.userId,
-            pickupLocation,
-            dropoffLocation,
-            riderName: riderName || null,
-            riderPhone: riderPhone || null,
-            notes: notes || null,
-            status: "PENDING",
-            trackingCode: genTrackingCode(),
-          },
-        });
-
-        await tx.deliveryEvent.create({
-          data: {
-            deliveryId: created.id,
-            status: "PENDING",
-            title: "Delivery created",
-          },
-        });
-
-        return created;
-      });
+      await recordVendorActivity(req, "delivery.create", result.delivery.id, { orderId: order.id });
 
       return res.status(201).json({
         success: true,
         message: "Delivery task created",
-        delivery,
+        delivery: result.delivery,
       });
     } catch (error) {
       console.error("Vendor create delivery error:", error);
@@ -183,6 +171,7 @@ router.post(
 router.get(
   "/vendor/deliveries",
   requireVendorAuth,
+  requireVendorPermission("orders:read"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -361,6 +350,18 @@ router.patch(
         return updated;
       });
 
+      // Delivered -> close the order (no-op if it isn't in a completable state)
+      if (status === "COMPLETED") {
+        try {
+          await transitionOrder(delivery.orderId, "COMPLETED", {
+            actor: "system",
+            note: "Delivery completed",
+          });
+        } catch (e) {
+          if (!(e instanceof OrderTransitionError)) throw e;
+        }
+      }
+
       return res.json({
         success: true,
         message: "Delivery updated",
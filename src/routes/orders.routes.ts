@@ -2,48 +2,63 @@
 import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
+import { env } from "../config/env";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { getUsdNgnRate, getUsdRate } from "../lib/fx";
+import {
+  CURRENCY_CODES,
+  CurrencyCode,
+  PaymentMethod,
+  PAYMENT_METHOD_CURRENCIES,
+  convertUsdCents,
+  defaultCurrencyFor,
+  isSupportedBy,
+} from "../lib/currency";
+import { getPaymentProvider } from "../services/payments";
+import { AppliedPromotion, PromotionError, applyPromotion, redeemPromotion } from "../lib/promotions";
+import {
+  SHIPPING_TYPES,
+  ShippingAddress,
+  ShippingError,
+  ShippingPricing,
+  buildShipments,
+  loadShippingQuote,
+  markShippingQuoteUsed,
+  priceShipping,
+  shippingAddressSchema,
+  shippingItemsKey,
+} from "../lib/shipping";
+import { orderCreatedEvent, OrderTransitionError, transitionOrder } from "../lib/order-lifecycle";
+import { getOrderTimeline } from "../lib/order-timeline";
+import { InventoryError, reserveStock } from "../lib/inventory";
+import { resolveVariantChoices, withVariant } from "../lib/variants";
+import { publicProductWhere } from "../lib/product-moderation";
 
 const router = Router();
 
-// -----------------------------
-// Helpers (server FX conversion)
-// -----------------------------
-function getUsdNgnRate(): number {
-  // Prefer ENV, fallback to 1600
-  const fromEnv = Number(process.env.USD_NGN_RATE || 0);
-  return fromEnv > 0 ? fromEnv : 1600;
-}
-
-// USD cents -> NGN kobo
-function usdCentsToKobo(usdCents: number, rate: number) {
-  // kobo = usdCents * rate (because (cents/100)*rate*100)
-  return Math.round(Number(usdCents || 0) * Number(rate || 0));
-}
-
-// -----------------------------
-// Shipping Fee Constants (in USD cents)
-// -----------------------------
-const SHIPPING_FEES_USD_CENTS = {
-  standard: 500,  // $5.00
-  express: 1500,  // $15.00
-} as const;
-
-type ShippingType = keyof typeof SHIPPING_FEES_USD_CENTS;
-type PaymentMethod = "paypal" | "paystack";
-
 // -----------------------------
 // Validation
 // -----------------------------
 const orderItemSchema = z.object({
   productId: z.string().min(1),
+  variantId: z.string().min(1).optional(), // required when the product has variants
   quantity: z.number().int().min(1).max(100),
 });
 
 const createOrderSchema = z.object({
   items: z.array(orderItemSchema).min(1),
-  paymentMethod: z.enum(["paypal", "paystack"]).default("paypal"),
-  shippingType: z.enum(["standard", "express"]).default("standard"),
+  paymentMethod: z.enum(["paypal", "paystack", "fake"]).default("paypal"),
+  shippingType: z.enum(SHIPPING_TYPES).default("standard"),
+  // Either a quote from POST /api/shipping/quote (charged as quoted) or an address to price now
+  shippingQuoteId: z.string().min(1).optional(),
+  shippingAddress: shippingAddressSchema.optional(),
+  // Settlement currency; defaults to the provider's home currency (USD for PayPal, NGN for Paystack)
+  currency: z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]).optional(),
+  promotionCode: z.string().trim().min(1).max(32).optional(),
+});
+
+const cancelOrderSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
 });
 
 async function getProductsForItems(items: z.infer<typeof orderItemSchema>[]) {
@@ -52,14 +67,17 @@ async function getProductsForItems(items: z.infer<typeof orderItemSchema>[]) {
   const products = await prisma.product.findMany({
     where: {
       id: { in: productIds },
-      isDeleted: false,
-      isAvailable: true,
+      ...publicProductWhere,
     },
     select: {
       id: true,
       vendorId: true,
       priceUsdCents: true,
       name: true,
+      weightGrams: true,
+      lengthCm: true,
+      widthCm: true,
+      heightCm: true,
     },
   });
 
@@ -90,13 +108,20 @@ router.get("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =>
           select: {
             id: true,
             productId: true,
+            variantId: true,
+            variantName: true,
+            sku: true,
             quantity: true,
-            unitPriceKobo: true,
-            subtotalKobo: true,
+            unitPrice: true,
+            subtotal: true,
           },
         },
         payments: true,
         delivery: true,
+        discounts: true,
+        checkout: {
+          select: { id: true, totalAmount: true, currency: true, paymentStatus: true },
+        },
       },
     });
 
@@ -107,6 +132,58 @@ router.get("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =>
   }
 });
 
+// =====================================================
+// ✅ GET /api/orders/checkouts/:checkoutId  (checkout + child orders)
+// =====================================================
+router.get("/checkouts/:checkoutId", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: "Unauthenticated" });
+    }
+
+    const { checkoutId } = req.params;
+
+    const checkout = await prisma.checkout.findFirst({
+      where: { id: checkoutId, userId },
+      include: {
+        orders: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            vendor: {
+              select: { id: true, businessName: true, email: true },
+            },
+            items: {
+              select: {
+                id: true,
+                productId: true,
+                variantId: true,
+                variantName: true,
+                sku: true,
+                quantity: true,
+                unitPrice: true,
+                subtotal: true,
+              },
+            },
+            delivery: true,
+            discounts: true,
+          },
+        },
+        payments: true,
+      },
+    });
+
+    if (!checkout) {
+      return res.status(404).json({ success: false, message: "Checkout not found" });
+    }
+
+    return res.json({ success: true, checkout });
+  } catch (e) {
+    console.error("Get checkout error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 // =====================================================
 // ✅ GET /api/orders/:id  (single order details)
 // =====================================================
@@ -129,13 +206,20 @@ router.get("/:id", requireAuth, async (req: AuthenticatedRequest, res: Response)
           select: {
             id: true,
             productId: true,
+            variantId: true,
+            variantName: true,
+            sku: true,
             quantity: true,
-            unitPriceKobo: true,
-            subtotalKobo: true,
+            unitPrice: true,
+            subtotal: true,
           },
         },
         payments: true,
         delivery: true,
+        discounts: true,
+        checkout: {
+          select: { id: true, totalAmount: true, currency: true, paymentStatus: true },
+        },
       },
     });
 
@@ -150,8 +234,85 @@ router.get("/:id", requireAuth, async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+// =====================================================
+// ✅ GET /api/orders/:id/timeline  (status changes + payment + delivery, oldest first)
+// =====================================================
+router.get("/:id/timeline", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: "Unauthenticated" });
+    }
+
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true, checkoutId: true, status: true, paymentStatus: true },
+    });
+
+    if (!order) {
+      return res.status(404).json({ success: false, message: "Order not found" });
+    }
+
+    const { trackingCode, timeline } = await getOrderTimeline(order);
+
+    return res.json({
+      success: true,
+      order: { id: order.id, status: order.status, paymentStatus: order.paymentStatus, trackingCode },
+      timeline,
+    });
+  } catch (e) {
+    console.error("Order timeline error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+// =====================================================
+// ✅ POST /api/orders/:id/cancel  (before the vendor starts preparing; refunds if paid)
+// =====================================================
+router.post("/:id/cancel", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: "Unauthenticated" });
+    }
+
+    const parsed = cancelOrderSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { order, refund, refundError } = await transitionOrder(req.params.id, "CANCELLED", {
+      actor: "user",
+      actorId: userId,
+      scope: { userId },
+      note: parsed.data.reason || "Cancelled by customer",
+    });
+
+    return res.json({
+      success: true,
+      message: refund ? "Order cancelled and refund issued" : "Order cancelled",
+      order,
+      refund,
+      ...(refundError ? { refundError } : {}),
+    });
+  } catch (e) {
+    if (e instanceof OrderTransitionError) {
+      // Friendlier wording for the one rule shoppers hit
+      const message =
+        e.statusCode === 403 ? "Order can no longer be cancelled once the vendor has started preparing it" : e.message;
+      return res.status(e.statusCode === 403 ? 400 : e.statusCode).json({ success: false, message });
+    }
+    console.error("Cancel order error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 // -----------------------------
-// POST /api/orders  (create order with payment method & shipping)
+// POST /api/orders  (checkout: one mixed cart -> one child order per vendor)
 // -----------------------------
 router.post("/", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -168,7 +329,30 @@ router.post("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =
       });
     }
 
-    const { items, paymentMethod, shippingType } = parsed.data;
+    const { items, paymentMethod, shippingType, promotionCode, shippingQuoteId } = parsed.data;
+
+    if (!shippingQuoteId && !parsed.data.shippingAddress) {
+      return res.status(400).json({
+        success: false,
+        message: "shippingAddress or shippingQuoteId is required",
+      });
+    }
+
+    if (!getPaymentProvider(paymentMethod)) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment method not available: ${paymentMethod}`,
+      });
+    }
+
+    const currency = parsed.data.currency ?? defaultCurrencyFor(paymentMethod as PaymentMethod);
+
+    if (!isSupportedBy(paymentMethod as PaymentMethod, currency)) {
+      return res.status(400).json({
+        success: false,
+        message: `${paymentMethod} does not support ${currency}. Supported: ${PAYMENT_METHOD_CURRENCIES[paymentMethod as PaymentMethod].join(", ")}`,
+      });
+    }
 
     const { map } = await getProductsForItems(items);
 
@@ -182,93 +366,248 @@ router.post("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =
       }
     }
 
-    // Vendor rule: one order must belong to one vendor (based on your schema)
-    const firstProduct = map.get(items[0].productId)!;
-    const vendorId = firstProduct.vendorId;
+    const { variants, error: variantError } = await resolveVariantChoices(items);
+    if (variantError) {
+      return res.status(400).json({ success: false, message: variantError });
+    }
+
+    // The product as sold on each line (variant price/weight win)
+    const lineProduct = (i: (typeof items)[number]) =>
+      withVariant(map.get(i.productId)!, i.variantId ? variants.get(i.variantId) : null);
 
+    // Split the cart per vendor (each vendor fulfils its own order)
+    const itemsByVendor = new Map<string, typeof items>();
     for (const i of items) {
-      const p = map.get(i.productId)!;
-      if (p.vendorId !== vendorId) {
-        return res.status(400).json({
-          success: false,
-          message: "Cart contains products from different vendors. Please checkout per vendor.",
-        });
-      }
+      const vendorId = map.get(i.productId)!.vendorId;
+      const group = itemsByVendor.get(vendorId) ?? [];
+      group.push(i);
+      itemsByVendor.set(vendorId, group);
     }
 
-    // Get FX rate for conversions
-    const rate = getUsdNgnRate();
-
-    // Determine currency based on payment method
-    const currency = paymentMethod === "paypal" ? "USD" : "NGN";
+    // Get FX rates for conversions (admin-managed rates from lib/fx)
+    const usdNgnRate = await getUsdNgnRate();
+    const rate = await getUsdRate(currency);
 
-    // Calculate items subtotal in USD cents first
-    let subtotalUsdCents = 0;
-    items.forEach((i) => {
-      const p = map.get(i.productId)!;
-      subtotalUsdCents += Number(p.priceUsdCents || 0) * Number(i.quantity || 1);
-    });
+    if (rate === null) {
+      return res.status(400).json({
+        success: false,
+        message: `No exchange rate configured for ${currency}`,
+      });
+    }
 
-    // Get shipping fee in USD cents
-    const shippingFeeUsdCents = SHIPPING_FEES_USD_CENTS[shippingType as ShippingType] || SHIPPING_FEES_USD_CENTS.standard;
+    // USD cents -> minor units of the settlement currency
+    const toOrderCurrency = (usdCents: number) => convertUsdCents(usdCents, currency, rate);
 
-    // Calculate totals based on currency
-    let subtotalAmount: number;
-    let shippingFee: number;
-    let totalAmount: number;
+    // Shipping is charged per vendor order: as quoted, or priced now for the given address
+    let shippingAddress: ShippingAddress;
+    let shippingPricing: ShippingPricing;
 
-    if (currency === "USD") {
-      // PayPal: keep in USD cents
-      subtotalAmount = subtotalUsdCents;
-      shippingFee = shippingFeeUsdCents;
-      totalAmount = subtotalAmount + shippingFee;
+    if (shippingQuoteId) {
+      const quote = await loadShippingQuote(shippingQuoteId, {
+        userId: req.userId,
+        currency,
+        itemsKey: shippingItemsKey(items),
+      });
+      shippingAddress = quote.address;
+      shippingPricing = quote.pricing;
     } else {
-      // Paystack: convert to NGN kobo
-      subtotalAmount = usdCentsToKobo(subtotalUsdCents, rate);
-      shippingFee = usdCentsToKobo(shippingFeeUsdCents, rate);
-      totalAmount = subtotalAmount + shippingFee;
+      shippingAddress = parsed.data.shippingAddress!;
+      shippingPricing = await priceShipping(
+        shippingAddress,
+        buildShipments(items, map, variants),
+        toOrderCurrency
+      );
     }
 
-    // Prepare order items data (store in the order's currency)
-    const orderItemsData = items.map((i) => {
-      const p = map.get(i.productId)!;
-      const priceUsdCents = Number(p.priceUsdCents || 0);
+    const shippingOption = shippingPricing.options.find((o) => o.shippingType === shippingType);
+    if (!shippingOption?.available) {
+      return res.status(400).json({
+        success: false,
+        message: `${shippingType} shipping is not available for every item to this address`,
+        unavailableVendorIds: shippingOption?.unavailableVendorIds ?? [],
+      });
+    }
+
+    const shippingByVendor = new Map(shippingOption.vendors.map((v) => [v.vendorId, v]));
+
+    const vendorOrders = [...itemsByVendor.entries()].map(([vendorId, vendorItems]) => {
+      // Calculate items subtotal in USD cents first
+      let subtotalUsdCents = 0;
+      vendorItems.forEach((i) => {
+        const p = lineProduct(i);
+        subtotalUsdCents += Number(p.priceUsdCents || 0) * Number(i.quantity || 1);
+      });
 
-      // Unit price in order's currency
-      const unitPrice = currency === "USD" ? priceUsdCents : usdCentsToKobo(priceUsdCents, rate);
-      const subtotal = unitPrice * Number(i.quantity || 1);
+      const subtotalAmount = toOrderCurrency(subtotalUsdCents);
+      const shipping = shippingByVendor.get(vendorId)!;
+
+      // Prepare order items data (store in the order's currency)
+      const orderItemsData = vendorItems.map((i) => {
+        const p = lineProduct(i);
+        const variant = i.variantId ? variants.get(i.variantId)! : null;
+        const unitPrice = toOrderCurrency(Number(p.priceUsdCents || 0));
+
+        return {
+          productId: p.id,
+          variantId: variant?.id ?? null,
+          variantName: variant?.name ?? null,
+          sku: variant?.sku ?? null,
+          quantity: i.quantity,
+          unitPrice,
+          subtotal: unitPrice * Number(i.quantity || 1),
+        };
+      });
 
       return {
-        productId: p.id,
-        quantity: i.quantity,
-        unitPriceKobo: unitPrice,  // Named "Kobo" but stores cents for USD orders
-        subtotalKobo: subtotal,
+        vendorId,
+        subtotalAmount,
+        shippingFee: shipping.fee,
+        shippingRateId: shipping.rateId,
+        orderItemsData,
       };
     });
 
-    const order = await prisma.order.create({
-      data: {
-        userId: req.userId,
-        vendorId,
-        currency,
-        paymentMethod,
-        shippingType,
-        subtotalAmount,
-        shippingFee,
-        totalAmountKobo: totalAmount,  // Named "Kobo" but stores cents for USD orders
-        items: { create: orderItemsData },
-      },
-      include: {
-        items: true,
-      },
+    // Promotion code (discount is split across the vendor orders it covers)
+    const applied: AppliedPromotion | null = promotionCode
+      ? await applyPromotion(promotionCode, {
+          userId: req.userId,
+          currency,
+          orders: vendorOrders.map((o) => ({
+            vendorId: o.vendorId,
+            lines: o.orderItemsData,
+            shippingFee: o.shippingFee,
+          })),
+          toOrderCurrency,
+        })
+      : null;
+
+    const pricedOrders = vendorOrders.map((o) => {
+      const discountAmount = applied?.discounts.get(o.vendorId) ?? 0;
+      return {
+        ...o,
+        discountAmount,
+        totalAmount: o.subtotalAmount + o.shippingFee - discountAmount,
+      };
+    });
+
+    const checkoutSubtotal = pricedOrders.reduce((sum, o) => sum + o.subtotalAmount, 0);
+    const checkoutShipping = pricedOrders.reduce((sum, o) => sum + o.shippingFee, 0);
+    const checkoutDiscount = pricedOrders.reduce((sum, o) => sum + o.discountAmount, 0);
+    const checkoutTotal = checkoutSubtotal + checkoutShipping - checkoutDiscount;
+
+    // Providers cannot take a zero payment
+    if (checkoutTotal <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Order total after discounts must be greater than zero",
+      });
+    }
+
+    // Stock is held until payment lands or the hold expires (jobs/stock-reservations)
+    const reservationMinutes = Number(env.STOCK_RESERVATION_MINUTES || 0);
+    const reservationExpiresAt =
+      reservationMinutes > 0 ? new Date(Date.now() + reservationMinutes * 60 * 1000) : null;
+
+    const { checkout, orders } = await prisma.$transaction(async (tx) => {
+      const checkout = await tx.checkout.create({
+        data: {
+          userId: req.userId!,
+          currency,
+          paymentMethod,
+          shippingType,
+          subtotalAmount: checkoutSubtotal,
+          shippingFee: checkoutShipping,
+          discountAmount: checkoutDiscount,
+          totalAmount: checkoutTotal,
+          promotionCode: applied?.promotion.code ?? null,
+          shippingAddress,
+          shippingQuoteId: shippingQuoteId ?? null,
+          usdNgnRate,
+          fxRate: rate,
+        },
+      });
+
+      const orders = [];
+      for (const o of pricedOrders) {
+        orders.push(
+          await tx.order.create({
+            data: {
+              userId: req.userId!,
+              vendorId: o.vendorId,
+              checkoutId: checkout.id,
+              currency,
+              paymentMethod,
+              shippingType,
+              subtotalAmount: o.subtotalAmount,
+              shippingFee: o.shippingFee,
+              shippingAddress,
+              shippingZoneId: shippingPricing.zone.id,
+              shippingRateId: o.shippingRateId,
+              discountAmount: o.discountAmount,
+              totalAmount: o.totalAmount,
+              usdNgnRate,  // Snapshot so NGN totals can be reconciled later
+              fxRate: rate,
+              items: { create: o.orderItemsData },
+              events: orderCreatedEvent(req.userId!),
+              discounts:
+                applied && o.discountAmount > 0
+                  ? {
+                      create: {
+                        promotionId: applied.promotion.id,
+                        code: applied.promotion.code,
+                        type: applied.promotion.type,
+                        description: applied.promotion.name,
+                        amount: o.discountAmount,
+                        // Vendor promotions come out of the vendor's pocket, platform ones out of commission
+                        fundedBy: applied.promotion.vendorId ? "vendor" : "platform",
+                      },
+                    }
+                  : undefined,
+            },
+            include: {
+              items: true,
+              discounts: true,
+            },
+          })
+        );
+
+        await reserveStock(tx, o.orderItemsData, {
+          orderId: orders[orders.length - 1].id,
+          expiresAt: reservationExpiresAt,
+        });
+      }
+
+      if (shippingQuoteId) {
+        await markShippingQuoteUsed(tx, shippingQuoteId);
+      }
+
+      if (applied) {
+        await redeemPromotion(tx, applied, {
+          userId: req.userId!,
+          checkoutId: checkout.id,
+          currency,
+        });
+      }
+
+      return { checkout, orders };
     });
 
     return res.status(201).json({
       success: true,
-      order,
-      fx: { usdNgnRate: rate },
+      checkout,
+      orders,
+      // Single-vendor carts keep the old response shape
+      order: orders.length === 1 ? orders[0] : undefined,
+      fx: { usdNgnRate, currency, rate },
+      shipping: { zone: shippingPricing.zone, option: shippingOption },
     });
   } catch (e) {
+    if (e instanceof PromotionError || e instanceof ShippingError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    if (e instanceof InventoryError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message, productId: e.productId });
+    }
     console.error("Create order error:", e);
     return res.status(500).json({ success: false, message: "Internal server error" });
   }
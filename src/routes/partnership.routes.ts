@@ -2,6 +2,8 @@ import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { env } from "../config/env";
+import { getStorage } from "../services/storage";
 
 const router = Router();
 
@@ -431,10 +433,12 @@ router.get("/documents/:id/download", requireAuth, async (req: AuthenticatedRequ
       data: { downloadCount: { increment: 1 } },
     });
 
+    // Short-lived link; the file itself is never public
     return res.json({
       success: true,
-      downloadUrl: document.filePath,
+      downloadUrl: await getStorage().signedUrl(document.storageKey, { downloadName: document.fileName }),
       fileName: document.fileName,
+      expiresInSeconds: env.STORAGE_SIGNED_URL_TTL_SECONDS,
     });
   } catch (error) {
     console.error("Download document error:", error);
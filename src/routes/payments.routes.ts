@@ -1,74 +1,72 @@
 import { Router, Request, Response } from "express";
-import axios from "axios";
-import crypto from "crypto";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
 import { env } from "../config/env";
+import { findPayableForUser, applyPaymentResult } from "../lib/checkout";
+import { receiveWebhook } from "../lib/webhooks";
+import { refundCancelledOrders } from "../lib/refunds";
+import { isCurrencyCode } from "../lib/currency";
+import {
+  captureApprovedPayment,
+  getPaymentProvider,
+  PaymentProviderError,
+  ProviderName,
+} from "../services/payments";
 
 const router = Router();
 
 // -------------------------
 // Validation
 // -------------------------
-const initPaymentSchema = z.object({
-  orderId: z.string().min(1),
-});
-
-const capturePaymentSchema = z.object({
-  paypalOrderId: z.string().min(1),
-  orderId: z.string().min(1),
-});
-
-// ===========================================================
-// 🔵 PAYPAL HELPERS
-// ===========================================================
-
-function getPayPalBaseUrl(): string {
-  return env.PAYPAL_MODE === "live"
-    ? "https://api-m.paypal.com"
-    : "https://api-m.sandbox.paypal.com";
-}
-
-async function getPayPalAccessToken(): Promise<string> {
-  const clientId = env.PAYPAL_CLIENT_ID;
-  const clientSecret = env.PAYPAL_CLIENT_SECRET;
-
-  if (!clientId || !clientSecret) {
-    throw new Error("PayPal credentials not configured");
-  }
-
-  const auth = Buffer.from(`${clientId}:${clientSecret}`).toString("base64");
-
-  const response = await axios.post(
-    `${getPayPalBaseUrl()}/v1/oauth2/token`,
-    "grant_type=client_credentials",
-    {
-      headers: {
-        Authorization: `Basic ${auth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    }
-  );
-
-  return response.data.access_token;
+// Pay either a single order or a whole multi-vendor checkout
+const initPaymentSchema = z
+  .object({
+    orderId: z.string().min(1).optional(),
+    checkoutId: z.string().min(1).optional(),
+    // Fake provider only: force the simulated outcome
+    simulate: z.enum(["success", "failure", "pending"]).optional(),
+  })
+  .refine((v) => v.orderId || v.checkoutId, {
+    message: "orderId or checkoutId is required",
+  });
+
+const capturePaymentSchema = z
+  .object({
+    paypalOrderId: z.string().min(1).optional(),
+    reference: z.string().min(1).optional(),
+    orderId: z.string().min(1).optional(),
+    checkoutId: z.string().min(1).optional(),
+  })
+  .refine((v) => v.paypalOrderId || v.reference, {
+    message: "paypalOrderId or reference is required",
+  });
+
+// Response keys the storefront already reads for each provider
+function legacyInitKeys(method: ProviderName, providerRef: string, redirectUrl: string | null) {
+  if (method === "paypal") return { approvalUrl: redirectUrl, paypalOrderId: providerRef };
+  if (method === "paystack") return { authorizationUrl: redirectUrl, reference: providerRef };
+  return { reference: providerRef };
 }
 
 // ===========================================================
-// 🔵 INIT PAYPAL PAYMENT
+// 🔵 INIT PAYMENT (any provider)
 // ===========================================================
 
-router.post(
-  "/paypal/init",
-  requireAuth,
-  async (req: AuthenticatedRequest, res: Response) => {
+function initPaymentHandler(method: ProviderName) {
+  return async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.userId) {
         return res.status(401).json({ success: false, message: "Unauthenticated" });
       }
 
-      if (!env.PAYPAL_CLIENT_ID || !env.PAYPAL_CLIENT_SECRET) {
-        return res.status(500).json({ success: false, message: "PayPal is not configured" });
+      const provider = getPaymentProvider(method);
+      if (!provider) {
+        return res.status(404).json({ success: false, message: "Payment provider not available" });
+      }
+
+      if (!provider.isConfigured()) {
+        return res.status(500).json({ success: false, message: `${provider.label} is not configured` });
       }
 
       const parsed = initPaymentSchema.safeParse(req.body);
@@ -80,113 +78,113 @@ router.post(
         });
       }
 
-      const { orderId } = parsed.data;
-
-      const order = await prisma.order.findFirst({
-        where: { id: orderId, userId: req.userId },
-        select: {
-          id: true,
-          totalAmountKobo: true,  // Actually stores cents for USD orders
-          currency: true,
-          paymentStatus: true,
-          status: true,
-          paymentMethod: true,
-        },
-      });
+      // amount is in minor units of the order currency
+      const payable = await findPayableForUser(req.userId, parsed.data);
 
-      if (!order) {
+      if (!payable) {
         return res.status(404).json({ success: false, message: "Order not found" });
       }
 
-      if (order.paymentMethod !== "paypal") {
-        return res.status(400).json({ success: false, message: "Order is not set for PayPal payment" });
+      if (payable.paymentMethod !== method) {
+        return res.status(400).json({ success: false, message: `Order is not set for ${provider.label} payment` });
       }
 
-      if (order.paymentStatus === "PAID") {
+      if (payable.paymentStatus !== "PENDING" && payable.paymentStatus !== "FAILED") {
         return res.status(400).json({ success: false, message: "Order is already paid" });
       }
 
-      if (order.status === "CANCELLED") {
+      if (payable.isCancelled) {
         return res.status(400).json({ success: false, message: "Cannot pay for a cancelled order" });
       }
 
-      // Convert cents to dollars for PayPal
-      const amountUsd = (order.totalAmountKobo / 100).toFixed(2);
-
-      const accessToken = await getPayPalAccessToken();
-
-      const paypalOrderResponse = await axios.post(
-        `${getPayPalBaseUrl()}/v2/checkout/orders`,
-        {
-          intent: "CAPTURE",
-          purchase_units: [
-            {
-              reference_id: order.id,
-              amount: {
-                currency_code: "USD",
-                value: amountUsd,
-              },
-            },
-          ],
-          application_context: {
-            return_url: `${env.FRONTEND_URL}/order-success.html?orderId=${order.id}&provider=paypal`,
-            cancel_url: `${env.FRONTEND_URL}/checkout.html?cancelled=true`,
-          },
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+      if (!isCurrencyCode(payable.currency) || !provider.supportsCurrency(payable.currency)) {
+        return res.status(400).json({ success: false, message: `${provider.label} does not support ${payable.currency}` });
+      }
+
+      const email = (payable.email || "").trim();
 
-      const paypalOrder = paypalOrderResponse.data;
-      const approvalLink = paypalOrder.links.find((link: any) => link.rel === "approve");
+      // ✅ Paystack needs a real email; stop BEFORE the provider call
+      if (method === "paystack" && (!email || !email.includes("@"))) {
+        console.error("Paystack init blocked: missing/invalid user email", {
+          orderId: payable.orderId,
+          checkoutId: payable.checkoutId,
+          userId: req.userId,
+          emailFromDb: payable.email,
+        });
 
-      if (!approvalLink) {
-        return res.status(500).json({ success: false, message: "PayPal approval link not found" });
+        return res.status(400).json({
+          success: false,
+          message: "User email is missing or invalid for this order",
+        });
       }
 
+      const result = await provider.initPayment({
+        referenceId: payable.referenceId,
+        amount: payable.amount,
+        currency: payable.currency,
+        email,
+        returnUrl: payable.checkoutId
+          ? `${env.FRONTEND_URL}/order-success.html?checkoutId=${payable.checkoutId}&provider=${method}`
+          : `${env.FRONTEND_URL}/order-success.html?orderId=${payable.orderId}&provider=${method}`,
+        cancelUrl: `${env.FRONTEND_URL}/checkout.html?cancelled=true`,
+        metadata: {
+          orderId: payable.orderId,
+          checkoutId: payable.checkoutId,
+          ...(parsed.data.simulate ? { simulate: parsed.data.simulate } : {}),
+        },
+      });
+
       // Store payment record
       await prisma.payment.create({
         data: {
-          orderId: order.id,
-          provider: "paypal",
-          providerRef: paypalOrder.id,
-          amountKobo: order.totalAmountKobo,  // Store in cents
-          currency: "USD",
+          orderId: payable.orderId,
+          checkoutId: payable.checkoutId,
+          provider: method,
+          providerRef: result.providerRef,
+          amount: payable.amount, // Minor units of currency
+          currency: payable.currency,
           status: "PENDING",
-          rawResponse: paypalOrder,
+          rawResponse: result.raw,
         },
       });
 
       return res.json({
         success: true,
-        message: "PayPal payment initialized",
-        approvalUrl: approvalLink.href,
-        paypalOrderId: paypalOrder.id,
+        message: `${provider.label} payment initialized`,
+        redirectUrl: result.redirectUrl,
+        providerRef: result.providerRef,
+        ...legacyInitKeys(method, result.providerRef, result.redirectUrl),
+        orderId: payable.orderId,
+        checkoutId: payable.checkoutId,
       });
     } catch (error: any) {
-      console.error("PayPal init error:", error?.response?.data || error?.message || error);
+      if (error instanceof PaymentProviderError) {
+        console.error(`${method} init failed:`, error.message, error.raw);
+        return res.status(500).json({ success: false, message: error.message });
+      }
+
+      console.error(`${method} init error:`, error?.response?.data || error?.message || error);
       return res.status(500).json({ success: false, message: "Internal server error" });
     }
-  }
-);
+  };
+}
 
 // ===========================================================
-// 🔵 CAPTURE PAYPAL PAYMENT (after user approval)
+// 🔵 CAPTURE PAYMENT (after user approval)
 // ===========================================================
 
-router.post(
-  "/paypal/capture",
-  requireAuth,
-  async (req: AuthenticatedRequest, res: Response) => {
+function capturePaymentHandler(method: ProviderName) {
+  return async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.userId) {
         return res.status(401).json({ success: false, message: "Unauthenticated" });
       }
 
+      const provider = getPaymentProvider(method);
+      if (!provider) {
+        return res.status(404).json({ success: false, message: "Payment provider not available" });
+      }
+
       const parsed = capturePaymentSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({
@@ -196,347 +194,153 @@ router.post(
         });
       }
 
-      const { paypalOrderId, orderId } = parsed.data;
-
-      // Verify order belongs to user
-      const order = await prisma.order.findFirst({
-        where: { id: orderId, userId: req.userId },
-      });
+      const { orderId, checkoutId } = parsed.data;
+      const providerRef = (parsed.data.paypalOrderId ?? parsed.data.reference)!;
 
-      if (!order) {
-        return res.status(404).json({ success: false, message: "Order not found" });
-      }
-
-      // Find the payment record
+      // Find the payment record (must belong to this user's order or checkout)
       const payment = await prisma.payment.findFirst({
-        where: { orderId, provider: "paypal", providerRef: paypalOrderId },
+        where: {
+          provider: method,
+          providerRef,
+          OR: [
+            { order: { userId: req.userId } },
+            { checkout: { userId: req.userId } },
+          ],
+        },
       });
 
       if (!payment) {
         return res.status(404).json({ success: false, message: "Payment not found" });
       }
 
-      if (payment.status === "PAID") {
-        return res.json({ success: true, message: "Payment already captured", orderId });
+      if (
+        (orderId && payment.orderId && payment.orderId !== orderId) ||
+        (checkoutId && payment.checkoutId !== checkoutId)
+      ) {
+        return res.status(400).json({ success: false, message: "Payment does not match this order" });
       }
 
-      // Capture the payment
-      const accessToken = await getPayPalAccessToken();
-
-      const captureResponse = await axios.post(
-        `${getPayPalBaseUrl()}/v2/checkout/orders/${paypalOrderId}/capture`,
-        {},
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+      const paidFor = { orderId: payment.orderId, checkoutId: payment.checkoutId };
+
+      if (payment.status !== "PENDING" && payment.status !== "FAILED") {
+        return res.json({ success: true, message: "Payment already captured", ...paidFor });
+      }
 
-      const captureData = captureResponse.data;
+      // Falls back to a status read if the webhook already captured it
+      const result = await captureApprovedPayment(provider, providerRef);
 
-      if (captureData.status === "COMPLETED") {
-        // Update payment and order status
+      if (result.status === "PAID") {
+        // Update payment and every order it covers
         await prisma.$transaction(async (tx) => {
-          await tx.payment.update({
-            where: { id: payment.id },
-            data: {
-              status: "PAID",
-              rawResponse: captureData,
-            },
-          });
-
-          await tx.order.update({
-            where: { id: orderId },
-            data: {
-              paymentStatus: "PAID",
-              status: order.status === "PENDING" ? "ACCEPTED" : order.status,
-            },
-          });
+          await applyPaymentResult(tx, payment, "PAID", result.raw);
         });
 
+        // Orders cancelled while the buyer was paying get their money back
+        await refundCancelledOrders(payment.id);
+
         return res.json({
           success: true,
           message: "Payment captured successfully",
-          orderId,
+          ...paidFor,
         });
-      } else {
-        // Payment not completed
+      }
+
+      if (result.status === "PENDING") {
         await prisma.payment.update({
           where: { id: payment.id },
-          data: {
-            status: "FAILED",
-            rawResponse: captureData,
-          },
+          data: { rawResponse: result.raw },
         });
 
-        return res.status(400).json({
-          success: false,
-          message: "Payment capture failed",
-          status: captureData.status,
-        });
-      }
-    } catch (error: any) {
-      console.error("PayPal capture error:", error?.response?.data || error?.message || error);
-      return res.status(500).json({ success: false, message: "Internal server error" });
-    }
-  }
-);
-
-// ===========================================================
-// 🔵 INIT PAYSTACK PAYMENT
-// ===========================================================
-
-router.post(
-  "/paystack/init",
-  requireAuth,
-  async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      if (!req.userId) {
-        return res.status(401).json({ success: false, message: "Unauthenticated" });
-      }
-
-      if (!env.PAYSTACK_SECRET_KEY) {
-        return res.status(500).json({ success: false, message: "Paystack is not configured" });
-      }
-
-      const parsed = initPaymentSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({
-          success: false,
-          message: "Invalid input",
-          errors: parsed.error.flatten(),
+        return res.status(202).json({
+          success: true,
+          message: "Payment is still pending",
+          status: result.status,
+          ...paidFor,
         });
       }
 
-      const { orderId } = parsed.data;
-
-      // ✅ Make sure we always load the user's email
-      const order = await prisma.order.findFirst({
-        where: { id: orderId, userId: req.userId },
-        select: {
-          id: true,
-          totalAmountKobo: true,
-          currency: true,
-          paymentStatus: true,
-          status: true,
-          userId: true,
-          user: { select: { email: true } },
-        },
-      });
-
-      if (!order) {
-        return res.status(404).json({ success: false, message: "Order not found" });
-      }
-
-      if (order.paymentStatus === "PAID") {
-        return res.status(400).json({ success: false, message: "Order is already paid" });
-      }
-
-      if (order.status === "CANCELLED") {
-        return res.status(400).json({ success: false, message: "Cannot pay for a cancelled order" });
-      }
+      // Payment not completed
+      const failed = await prisma.$transaction((tx) => applyPaymentResult(tx, payment, "FAILED", result.raw));
 
-      const email = (order.user?.email || "").trim();
-
-      // ✅ If email is missing/invalid, stop BEFORE Paystack call
-      if (!email || !email.includes("@")) {
-        console.error("Paystack init blocked: missing/invalid user email", {
-          orderId: order.id,
-          userId: order.userId,
-          emailFromDb: order.user?.email,
-        });
-
-        return res.status(400).json({
-          success: false,
-          message: "User email is missing or invalid for this order",
+      // A webhook may have settled it while we were asking the provider
+      if (!failed) {
+        const current = await prisma.payment.findUnique({
+          where: { id: payment.id },
+          select: { status: true },
         });
-      }
-
-      const response = await axios.post(
-        `${env.PAYSTACK_BASE_URL}/transaction/initialize`,
-        {
-          email,
-          amount: order.totalAmountKobo,
-          currency: order.currency,
-          metadata: { orderId: order.id },
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${env.PAYSTACK_SECRET_KEY}`,
-            "Content-Type": "application/json",
-          },
+        if (current && current.status !== "FAILED") {
+          return res.json({ success: true, message: "Payment already captured", ...paidFor });
         }
-      );
-
-      const data = response.data;
-
-      if (!data.status) {
-        return res.status(500).json({
-          success: false,
-          message: "Paystack initialization failed",
-          paystack: data,
-        });
       }
 
-      const { authorization_url, reference } = data.data;
-
-      await prisma.payment.create({
-        data: {
-          orderId: order.id,
-          provider: "paystack",
-          providerRef: reference,
-          amountKobo: order.totalAmountKobo,
-          currency: order.currency,
-          status: "PENDING",
-          rawResponse: data,
-        },
-      });
-
-      return res.json({
-        success: true,
-        message: "Paystack payment initialized",
-        authorizationUrl: authorization_url,
-        reference,
+      return res.status(400).json({
+        success: false,
+        message: "Payment capture failed",
+        status: result.raw?.status ?? result.status,
       });
     } catch (error: any) {
-      console.error("Paystack init error:", error?.response?.data || error?.message || error);
+      console.error(`${method} capture error:`, error?.response?.data || error?.message || error);
       return res.status(500).json({ success: false, message: "Internal server error" });
     }
-  }
-);
+  };
+}
 
 // ===========================================================
-// 🔵 PAYSTACK WEBHOOK HANDLER (RAW BODY REQUIRED)
+// 🔵 PAYPAL
 // ===========================================================
 
-export const paystackWebhookHandler = async (
-  req: Request,
-  res: Response
-): Promise<void> => {
-  try {
-    const webhookSecret =
-      env.PAYSTACK_WEBHOOK_SECRET || env.PAYSTACK_SECRET_KEY;
+router.post("/paypal/init", requireAuth, initPaymentHandler("paypal"));
+router.post("/paypal/capture", requireAuth, capturePaymentHandler("paypal"));
 
-    if (!webhookSecret) {
-      console.error("Missing Paystack secret");
-      res.sendStatus(500);
-      return;
-    }
-
-    const signature = req.headers["x-paystack-signature"] as string;
-    if (!signature) {
-      console.warn("Missing signature header");
-      res.sendStatus(400);
-      return;
-    }
-
-    const rawBody = req.body as Buffer;
-
-    // Verify signature
-    const hash = crypto
-      .createHmac("sha512", webhookSecret)
-      .update(rawBody)
-      .digest("hex");
+// ===========================================================
+// 🔵 PAYSTACK (capture happens via webhook)
+// ===========================================================
 
-    if (hash !== signature) {
-      console.warn("Invalid webhook signature");
-      res.sendStatus(400);
-      return;
-    }
+router.post("/paystack/init", requireAuth, initPaymentHandler("paystack"));
 
-    // Parse event
-    const event = JSON.parse(rawBody.toString("utf8"));
+// ===========================================================
+// 🔵 FAKE PROVIDER (offline testing; 404 unless FAKE_PAYMENTS_ENABLED)
+// ===========================================================
 
-    const eventType = event.event;
-    const data = event.data;
-    const reference = data?.reference;
-    const status = data?.status;
+router.post("/fake/init", requireAuth, initPaymentHandler("fake"));
+router.post("/fake/capture", requireAuth, capturePaymentHandler("fake"));
 
-    console.log("Received Paystack webhook:", {
-      eventType,
-      reference,
-      status,
-    });
+// ===========================================================
+// 🔵 WEBHOOK HANDLER (RAW BODY REQUIRED)
+// ===========================================================
 
-    if (!reference) {
-      res.sendStatus(200);
-      return;
-    }
+function webhookHandler(method: ProviderName) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        console.warn(`${method} webhook without a raw JSON body`);
+        res.sendStatus(400);
+        return;
+      }
 
-    // Fetch payment record
-    const payment = await prisma.payment.findFirst({
-      where: { provider: "paystack", providerRef: reference },
-      include: { order: true },
-    });
+      // Ledger + dedupe + processing live in lib/webhooks
+      const receipt = await receiveWebhook(method, req.body, req.headers);
 
-    if (!payment) {
-      console.warn("No payment found for reference:", reference);
-      res.sendStatus(200);
-      return;
-    }
-
-    // Idempotency (ignore repeated webhooks)
-    if (payment.status === "PAID" || payment.status === "FAILED") {
-      console.log("Payment already finalized, skipping.");
-      res.sendStatus(200);
-      return;
-    }
+      if (receipt.event) {
+        console.log(`Received ${method} webhook:`, {
+          id: receipt.event.id,
+          type: receipt.event.eventType,
+          reference: receipt.event.providerRef,
+          status: receipt.event.status,
+          duplicate: !!receipt.duplicate,
+        });
+      }
 
-    let newPaymentStatus: "PENDING" | "PAID" | "FAILED" = "PENDING";
-    let newOrderPaymentStatus: "PENDING" | "PAID" | "FAILED" | "REFUNDED" =
-      "PENDING";
-
-    if (eventType === "charge.success" && status === "success") {
-      newPaymentStatus = "PAID";
-      newOrderPaymentStatus = "PAID";
-    } else if (
-      eventType === "charge.failed" ||
-      status === "failed" ||
-      status === "reversed"
-    ) {
-      newPaymentStatus = "FAILED";
-      newOrderPaymentStatus = "FAILED";
-    } else {
-      // Unknown event, just store raw payload
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: { rawResponse: event },
-      });
-      res.sendStatus(200);
-      return;
+      res.sendStatus(receipt.httpStatus);
+    } catch (error) {
+      console.error("Webhook handler error:", error);
+      res.sendStatus(500);
     }
+  };
+}
 
-    // Update database atomically
-    await prisma.$transaction(async (tx) => {
-      await tx.payment.update({
-        where: { id: payment.id },
-        data: {
-          status: newPaymentStatus,
-          rawResponse: event,
-        },
-      });
-
-      await tx.order.update({
-        where: { id: payment.orderId },
-        data: {
-          paymentStatus: newOrderPaymentStatus,
-
-          // ✅ if payment is successful, move order forward
-          ...(newOrderPaymentStatus === "PAID" && payment.order.status === "PENDING"
-            ? { status: "ACCEPTED" }
-            : {}),
-        },
-      });
-
-    });
-
-    res.sendStatus(200);
-  } catch (error) {
-    console.error("Webhook handler error:", error);
-    res.sendStatus(500);
-  }
-};
+export const paystackWebhookHandler = webhookHandler("paystack");
+export const paypalWebhookHandler = webhookHandler("paypal");
+export const fakeWebhookHandler = webhookHandler("fake");
 
 export default router;
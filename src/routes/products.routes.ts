@@ -1,14 +1,28 @@
 import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
+import { publicVariantSelect, toPublicVariant } from "../lib/variants";
+import { SearchError, productSearchQuerySchema, searchProducts } from "../lib/product-search";
+import { publicProductWhere } from "../lib/product-moderation";
 
 const router = Router();
 
-// ✅ Public list of products (FULL fields needed for product pages)
+const variantsInclude = {
+  where: { isDeleted: false },
+  orderBy: [{ sortOrder: "asc" as const }, { priceUsdCents: "asc" as const }],
+  select: publicVariantSelect,
+};
+
+const imagesInclude = {
+  orderBy: [{ sortOrder: "asc" as const }, { createdAt: "asc" as const }],
+  select: { id: true, altText: true, thumbUrl: true, mediumUrl: true, largeUrl: true, width: true, height: true },
+};
+
+// ✅ Public list of products (FULL fields needed for product pages); approved ACTIVE only
 router.get("/", async (_req, res: Response) => {
   try {
     const products = await prisma.product.findMany({
-      where: { isDeleted: false, isAvailable: true },
+      where: publicProductWhere,
       select: {
         id: true,
         name: true,
@@ -17,17 +31,23 @@ router.get("/", async (_req, res: Response) => {
         benefits: true,
         relatedIds: true,
         priceUsdCents: true,
+        categoryId: true,
         category: true,
         imageUrl: true,
         isAvailable: true,
         createdAt: true,
         vendor: { select: { businessName: true } }, // ✅ optional for cards
+        variants: variantsInclude,
+        images: imagesInclude,
       },
       orderBy: { createdAt: "desc" },
       take: 500,
     });
 
-    return res.json({ success: true, products });
+    return res.json({
+      success: true,
+      products: products.map((p) => ({ ...p, variants: p.variants.map(toPublicVariant) })),
+    });
   } catch (e) {
     console.error("Public products error:", e);
     return res
@@ -36,6 +56,65 @@ router.get("/", async (_req, res: Response) => {
   }
 });
 
+// ✅ Public search: GET /api/products/search?q=&category=&vendorId=&minPrice=&maxPrice=&availability=&sort=&cursor=&limit=
+// Full-text match, filters, facet counts and cursor paging (see lib/product-search.ts)
+router.get("/search", async (req, res: Response) => {
+  try {
+    const parsed = productSearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const result = await searchProducts(parsed.data);
+
+    const rows = await prisma.product.findMany({
+      where: { id: { in: result.ids } },
+      select: {
+        id: true,
+        name: true,
+        shortDesc: true,
+        priceUsdCents: true,
+        categoryId: true,
+        category: true,
+        imageUrl: true,
+        isAvailable: true,
+        createdAt: true,
+        vendor: { select: { id: true, businessName: true } },
+        variants: variantsInclude,
+        images: imagesInclude,
+      },
+    });
+    const byId = new Map(rows.map((p) => [p.id, p]));
+
+    return res.json({
+      success: true,
+      products: result.ids
+        .map((id) => byId.get(id))
+        .filter((p) => p !== undefined)
+        .map((p) => ({ ...p, variants: p.variants.map(toPublicVariant) })),
+      facets: result.facets,
+      pagination: {
+        total: result.total,
+        limit: parsed.data.limit,
+        sort: result.sort,
+        nextCursor: result.nextCursor,
+      },
+    });
+  } catch (e) {
+    if (e instanceof SearchError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    console.error("Product search error:", e);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
 // ✅ Public product details by ID
 router.get("/:id", async (req, res: Response) => {
   try {
@@ -47,7 +126,7 @@ router.get("/:id", async (req, res: Response) => {
     }
 
     const product = await prisma.product.findFirst({
-      where: { id, isDeleted: false, isAvailable: true },
+      where: { id, ...publicProductWhere },
       select: {
           id: true,
           name: true,
@@ -56,11 +135,14 @@ router.get("/:id", async (req, res: Response) => {
           benefits: true,
           relatedIds: true,
           priceUsdCents: true,
+          categoryId: true,
           category: true,
           imageUrl: true,
           isAvailable: true,
           createdAt: true,
         vendor: { select: { businessName: true } },
+        variants: variantsInclude,
+        images: imagesInclude,
       },
     });
 
@@ -70,7 +152,10 @@ router.get("/:id", async (req, res: Response) => {
         .json({ success: false, message: "Product not found" });
     }
 
-    return res.json({ success: true, product });
+    return res.json({
+      success: true,
+      product: { ...product, variants: product.variants.map(toPublicVariant) },
+    });
   } catch (e) {
     console.error("Public product details error:", e);
     return res
@@ -100,7 +185,7 @@ router.post("/resolve", async (req, res: Response) => {
     ];
 
     const products = await prisma.product.findMany({
-      where: { name: { in: names }, isDeleted: false, isAvailable: true },
+      where: { name: { in: names }, ...publicProductWhere },
       select: { id: true, name: true },
     });
 
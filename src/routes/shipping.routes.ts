@@ -0,0 +1,133 @@
+// src/routes/shipping.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { getUsdRate } from "../lib/fx";
+import {
+  CURRENCY_CODES,
+  CurrencyCode,
+  PaymentMethod,
+  convertUsdCents,
+  defaultCurrencyFor,
+} from "../lib/currency";
+import { resolveVariantChoices } from "../lib/variants";
+import { publicProductWhere } from "../lib/product-moderation";
+import {
+  ShippingError,
+  buildShipments,
+  createShippingQuote,
+  priceShipping,
+  shippingAddressSchema,
+  shippingItemsKey,
+} from "../lib/shipping";
+
+const router = Router();
+
+const quoteSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        variantId: z.string().min(1).optional(),
+        quantity: z.number().int().min(1).max(100),
+      })
+    )
+    .min(1),
+  shippingAddress: shippingAddressSchema,
+  paymentMethod: z.enum(["paypal", "paystack", "fake"]).default("paypal"),
+  // Same default as POST /api/orders: the payment provider's home currency
+  currency: z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]).optional(),
+});
+
+// POST /api/shipping/quote  -> shipping options for a cart; pass quoteId to POST /api/orders
+router.post("/quote", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, message: "Unauthenticated" });
+    }
+
+    const parsed = quoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { items, shippingAddress, paymentMethod } = parsed.data;
+    const currency = parsed.data.currency ?? defaultCurrencyFor(paymentMethod as PaymentMethod);
+
+    const rate = await getUsdRate(currency);
+    if (rate === null) {
+      return res.status(400).json({
+        success: false,
+        message: `No exchange rate configured for ${currency}`,
+      });
+    }
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: [...new Set(items.map((i) => i.productId))] },
+        ...publicProductWhere,
+      },
+      select: {
+        id: true,
+        vendorId: true,
+        priceUsdCents: true,
+        weightGrams: true,
+        lengthCm: true,
+        widthCm: true,
+        heightCm: true,
+      },
+    });
+    const map = new Map(products.map((p) => [p.id, p]));
+
+    for (const i of items) {
+      if (!map.get(i.productId)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid product: ${i.productId}`,
+        });
+      }
+    }
+
+    const { variants, error: variantError } = await resolveVariantChoices(items);
+    if (variantError) {
+      return res.status(400).json({ success: false, message: variantError });
+    }
+
+    const pricing = await priceShipping(
+      shippingAddress,
+      buildShipments(items, map, variants),
+      (usdCents) => convertUsdCents(usdCents, currency, rate)
+    );
+
+    const quote = await createShippingQuote({
+      userId: req.userId,
+      currency,
+      fxRate: rate,
+      address: shippingAddress,
+      itemsKey: shippingItemsKey(items),
+      pricing,
+    });
+
+    return res.json({
+      success: true,
+      quoteId: quote.id,
+      expiresAt: quote.expiresAt,
+      currency,
+      zone: pricing.zone,
+      options: pricing.options,
+    });
+  } catch (e) {
+    if (e instanceof ShippingError) {
+      return res.status(e.statusCode).json({ success: false, message: e.message });
+    }
+    console.error("Shipping quote error:", e);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,9 +1,36 @@
-import { Router } from "express";
+import { Router, Request } from "express";
+import { Vendor, VendorMember } from "@prisma/client";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { z } from "zod";
+import rateLimit from "express-rate-limit";
 import { prisma } from "../lib/prisma";
 import { env } from "../config/env";
+import { hashToken, issueToken, isExpired } from "../services/tokens";
+import { sendEmail, getVerificationEmailHtml, getPasswordResetEmailHtml } from "../services/email";
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+  revokeOwnSession,
+  listSessions,
+  sessionContext,
+  SessionError,
+  vendorBlockedReason,
+  memberBlockedReason,
+} from "../lib/sessions";
+import { ROLE_PERMISSIONS } from "../lib/vendor-team";
+import { signChallengeToken, verifyChallengeToken } from "../lib/auth-tokens";
+import {
+  beginEnrolment,
+  confirmEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  TwoFactorError,
+  TwoFactorSubject,
+  verifySecondFactor,
+} from "../lib/two-factor";
 import {
   requireVendorAuth,
   VendorAuthenticatedRequest,
@@ -11,6 +38,79 @@ import {
 
 const router = Router();
 
+// ====== Rate Limiting ======
+// Same budgets as the shopper auth routes, counted separately
+const vendorLoginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  message: {
+    success: false,
+    message: "Too many login attempts. Please try again after 15 minutes.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const vendorRegisterLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3,
+  message: {
+    success: false,
+    message: "Too many registration attempts. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Forgot-password, reset-password and resend-verification share this budget
+const vendorEmailTokenLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  message: {
+    success: false,
+    message: "Too many requests. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Invitation lookup and acceptance, kept apart from the email-token budget
+// so a team member accepting an invite doesn't lock out a password reset
+const vendorInvitationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 20,
+  message: {
+    success: false,
+    message: "Too many requests. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Limit refreshes: 30 per 15 minutes per IP (clients refresh every ~15 minutes)
+const vendorRefreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: {
+    success: false,
+    message: "Too many refresh attempts. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Second-factor attempts: 10 per 15 minutes per IP; a challenge lasts 5 minutes
+const vendorTwoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: {
+    success: false,
+    message: "Too many verification attempts. Please try again after 15 minutes.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // ====== Schemas ======
 const vendorRegisterSchema = z.object({
   email: z.string().email(),
@@ -25,27 +125,120 @@ const vendorLoginSchema = z.object({
   password: z.string().min(6),
 });
 
+const vendorRefreshSchema = z.object({
+  refreshToken: z.string().min(1),
+  device: z.string().max(100).optional(),
+});
+
+const vendorEmailSchema = z.object({
+  email: z.string().email(),
+});
+
+const vendorResetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+  name: z.string().min(1).max(100).optional(),
+});
+
+const twoFactorVerifySchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(6).max(20), // 6-digit code or a recovery code
+  device: z.string().max(100).optional(),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+const twoFactorDisableSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().trim().min(6).max(20),
+});
+
 // ====== Helpers ======
-function generateVendorTokens(vendorId: string) {
-  const accessToken = jwt.sign(
-    { sub: vendorId },
-    env.JWT_ACCESS_SECRET,
-    { expiresIn: env.JWT_EXPIRES_IN }
-  );
 
-  const refreshToken = jwt.sign(
-    { sub: vendorId },
-    env.JWT_REFRESH_SECRET,
-    { expiresIn: env.REFRESH_EXPIRES_IN }
+// Whoever is logged in: the account holder or one team member
+function twoFactorSubject(req: VendorAuthenticatedRequest): Extract<TwoFactorSubject, { type: "VENDOR" }> {
+  return { type: "VENDOR", id: req.vendorId!, memberId: req.vendorMember?.id ?? null };
+}
+
+// Start the session and build the login response; shared by password-only
+// logins and logins finished with a second factor
+async function completeVendorLogin(req: Request, vendor: Vendor, member: VendorMember | null) {
+  const tokens = await createSession(
+    { type: "VENDOR", id: vendor.id, memberId: member?.id ?? null },
+    sessionContext(req)
   );
 
-  return { accessToken, refreshToken };
+  if (member) {
+    await prisma.vendorMember.update({
+      where: { id: member.id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+
+  const role = member ? member.role : "OWNER";
+
+  const safeVendor = {
+    id: vendor.id,
+    email: vendor.email,
+    businessName: vendor.businessName,
+    contactName: vendor.contactName,
+    phone: vendor.phone,
+    status: vendor.status,
+    isActive: vendor.isActive,
+    emailVerified: vendor.emailVerified,
+    createdAt: vendor.createdAt,
+  };
+
+  return {
+    success: true,
+    message: "Vendor login successful",
+    vendor: safeVendor,
+    member: member
+      ? { id: member.id, email: member.email, name: member.name, role: member.role }
+      : null,
+    role,
+    permissions: ROLE_PERMISSIONS[role],
+    twoFactorEnabled: !!(member ?? vendor).twoFactorEnabledAt,
+    ...tokens,
+  };
+}
+
+// Replaces any earlier verification link, so only the newest one works
+async function sendVendorVerificationEmail(vendor: {
+  id: string;
+  email: string;
+  businessName: string;
+}) {
+  const { rawToken, hashedToken, expiresAt } = issueToken(env.EMAIL_VERIFY_TOKEN_EXPIRY_HOURS);
+
+  await prisma.$transaction([
+    prisma.vendorEmailVerificationToken.deleteMany({
+      where: { vendorId: vendor.id },
+    }),
+    prisma.vendorEmailVerificationToken.create({
+      data: { token: hashedToken, vendorId: vendor.id, expiresAt },
+    }),
+  ]);
+
+  const verifyUrl = `${env.FRONTEND_URL}/vendor/email-verified.html?token=${rawToken}`;
+  await sendEmail({
+    to: vendor.email,
+    subject: "Verify your FoodCheQ vendor email",
+    html: getVerificationEmailHtml(vendor.businessName, verifyUrl, "vendor"),
+  });
 }
 
 // ====== Routes ======
 
 // POST /api/vendor/auth/register
-router.post("/register", async (req, res) => {
+router.post("/register", vendorRegisterLimiter, async (req, res) => {
   try {
     const parsed = vendorRegisterSchema.safeParse(req.body);
 
@@ -59,11 +252,13 @@ router.post("/register", async (req, res) => {
 
     const { email, password, businessName, contactName, phone } = parsed.data;
 
-    const existing = await prisma.vendor.findUnique({
-      where: { email },
-    });
+    // Team members log in through this API too, so their emails are taken
+    const [existing, existingMember] = await Promise.all([
+      prisma.vendor.findUnique({ where: { email } }),
+      prisma.vendorMember.findUnique({ where: { email: email.toLowerCase() } }),
+    ]);
 
-    if (existing) {
+    if (existing || existingMember) {
       return res
         .status(409)
         .json({ success: false, message: "Email already in use" });
@@ -91,17 +286,19 @@ router.post("/register", async (req, res) => {
         phone: true,
         status: true,
         isActive: true,
+        emailVerified: true,
         createdAt: true,
       },
     });
 
-    const tokens = generateVendorTokens(vendor.id);
+    await sendVendorVerificationEmail(vendor);
 
+    // No session yet: vendor routes only accept approved, active accounts
     return res.status(201).json({
       success: true,
-      message: "Vendor registered successfully",
+      message:
+        "Vendor registered successfully. Please check your email to verify your address; you can log in once your account is approved.",
       vendor,
-      ...tokens,
     });
   } catch (error) {
     console.error("Vendor register error:", error);
@@ -112,7 +309,7 @@ router.post("/register", async (req, res) => {
 });
 
 // POST /api/vendor/auth/login
-router.post("/login", async (req, res) => {
+router.post("/login", vendorLoginLimiter, async (req, res) => {
   try {
     const parsed = vendorLoginSchema.safeParse(req.body);
 
@@ -126,17 +323,28 @@ router.post("/login", async (req, res) => {
 
     const { email, password } = parsed.data;
 
-    const vendor = await prisma.vendor.findUnique({
+    const holder = await prisma.vendor.findUnique({
       where: { email },
     });
 
-    if (!vendor) {
+    // Not an account holder? Then maybe a team member
+    const member = holder
+      ? null
+      : await prisma.vendorMember.findUnique({
+          where: { email: email.toLowerCase() }, // stored lowercased on invite
+          include: { vendor: true },
+        });
+
+    const vendor = holder ?? member?.vendor;
+    const passwordHash = holder ? holder.passwordHash : member?.passwordHash;
+
+    if (!vendor || !passwordHash) {
       return res
         .status(401)
         .json({ success: false, message: "Invalid email or password" });
     }
 
-    const isValid = await bcrypt.compare(password, vendor.passwordHash);
+    const isValid = await bcrypt.compare(password, passwordHash);
 
     if (!isValid) {
       return res
@@ -144,86 +352,945 @@ router.post("/login", async (req, res) => {
         .json({ success: false, message: "Invalid email or password" });
     }
 
-    console.log("Vendor login debug:", {
-      email: vendor.email,
-      status: vendor.status,
-      isActive: vendor.isActive,
-    });
-
-
-    // Optional: restrict login if not approved
-    if (vendor.status !== "APPROVED") {
+    // Same rules requireVendorAuth applies on every request
+    const blocked = vendorBlockedReason(vendor) || (member && memberBlockedReason(member));
+    if (blocked) {
       return res.status(403).json({
         success: false,
-        message: "Vendor account not approved yet",
+        message: blocked,
         status: vendor.status,
       });
     }
 
-    const tokens = generateVendorTokens(vendor.id);
+    // Password was right; the session waits for the second factor
+    if ((member ?? vendor).twoFactorEnabledAt) {
+      return res.json({
+        success: true,
+        message: "Enter the code from your authenticator app",
+        twoFactorRequired: true,
+        challengeToken: signChallengeToken({
+          aud: "vendor",
+          sub: vendor.id,
+          ...(member ? { mid: member.id } : {}),
+        }),
+      });
+    }
 
-    const safeVendor = {
-      id: vendor.id,
-      email: vendor.email,
-      businessName: vendor.businessName,
-      contactName: vendor.contactName,
-      phone: vendor.phone,
-      status: vendor.status,
-      isActive: vendor.isActive,
-      createdAt: vendor.createdAt,
-    };
+    return res.json(await completeVendorLogin(req, vendor, member));
+  } catch (error) {
+    console.error("Vendor login error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/vendor/auth/verify-email?token=...
+router.get("/verify-email", async (req, res) => {
+  try {
+    const token = req.query.token;
+
+    if (typeof token !== "string" || !token) {
+      return res.status(400).json({
+        success: false,
+        message: "Verification token is required",
+      });
+    }
+
+    const verificationToken = await prisma.vendorEmailVerificationToken.findUnique({
+      where: { token: hashToken(token) },
+    });
+
+    if (!verificationToken) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid verification token",
+      });
+    }
+
+    if (isExpired(verificationToken.expiresAt)) {
+      await prisma.vendorEmailVerificationToken.delete({
+        where: { id: verificationToken.id },
+      });
+      return res.status(400).json({
+        success: false,
+        message: "Verification token has expired. Please request a new one.",
+      });
+    }
+
+    // Deleting the tokens is what makes the link single use
+    await prisma.$transaction([
+      prisma.vendor.update({
+        where: { id: verificationToken.vendorId },
+        data: { emailVerified: true },
+      }),
+      prisma.vendorEmailVerificationToken.deleteMany({
+        where: { vendorId: verificationToken.vendorId },
+      }),
+    ]);
 
     return res.json({
       success: true,
-      message: "Vendor login successful",
-      vendor: safeVendor,
-      ...tokens,
+      message: "Email verified successfully.",
     });
   } catch (error) {
-    console.error("Vendor login error:", error);
+    console.error("Vendor verify email error:", error);
     return res
       .status(500)
       .json({ success: false, message: "Internal server error" });
   }
 });
 
-// GET /api/vendor/auth/me (protected)
-router.get(
-  "/me",
-  requireVendorAuth,
-  async (req: VendorAuthenticatedRequest, res) => {
-    try {
-      if (!req.vendorId) {
-        return res.status(401).json({
-          success: false,
-          message: "Unauthenticated",
+// POST /api/vendor/auth/resend-verification
+router.post("/resend-verification", vendorEmailTokenLimiter, async (req, res) => {
+  try {
+    const parsed = vendorEmailSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    // Always the same answer, so the endpoint can't be used to find vendor emails
+    const successResponse = {
+      success: true,
+      message: "If your email is registered and unverified, you will receive a verification email.",
+    };
+
+    const vendor = await prisma.vendor.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true, email: true, businessName: true, emailVerified: true },
+    });
+
+    if (!vendor || vendor.emailVerified) {
+      return res.json(successResponse);
+    }
+
+    // One email per minute per vendor; a throttled request gets the same answer
+    const recentToken = await prisma.vendorEmailVerificationToken.findFirst({
+      where: {
+        vendorId: vendor.id,
+        createdAt: { gte: new Date(Date.now() - 60 * 1000) },
+      },
+    });
+
+    if (recentToken) {
+      return res.json(successResponse);
+    }
+
+    await sendVendorVerificationEmail(vendor);
+
+    return res.json(successResponse);
+  } catch (error) {
+    console.error("Vendor resend verification error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/vendor/auth/forgot-password
+router.post("/forgot-password", vendorEmailTokenLimiter, async (req, res) => {
+  try {
+    const parsed = vendorEmailSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    // Always return success to prevent email enumeration
+    const successResponse = {
+      success: true,
+      message: "If your email is registered, you will receive a password reset link.",
+    };
+
+    const vendor = await prisma.vendor.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true, email: true, businessName: true, contactName: true },
+    });
+
+    // Not an account holder? Then maybe a team member who has set a password
+    const member = vendor
+      ? null
+      : await prisma.vendorMember.findFirst({
+          where: { email: parsed.data.email.toLowerCase(), status: "ACTIVE", passwordHash: { not: null } },
+          select: { id: true, email: true, name: true, vendorId: true, vendor: { select: { businessName: true } } },
         });
-      }
 
-      const vendor = await prisma.vendor.findUnique({
-        where: { id: req.vendorId },
-        select: {
-          id: true,
-          email: true,
-          businessName: true,
-          contactName: true,
-          phone: true,
-          status: true,
-          isActive: true,
-          createdAt: true,
-        },
+    const account = vendor
+      ? {
+          vendorId: vendor.id,
+          memberId: null,
+          email: vendor.email,
+          name: vendor.contactName || vendor.businessName,
+        }
+      : member
+      ? {
+          vendorId: member.vendorId,
+          memberId: member.id,
+          email: member.email,
+          name: member.name || member.vendor.businessName,
+        }
+      : null;
+
+    if (!account) {
+      return res.json(successResponse);
+    }
+
+    // One reset email per 5 minutes per login
+    const recentToken = await prisma.vendorPasswordResetToken.findFirst({
+      where: {
+        vendorId: account.vendorId,
+        memberId: account.memberId,
+        createdAt: { gte: new Date(Date.now() - 5 * 60 * 1000) },
+      },
+    });
+
+    if (recentToken) {
+      return res.json(successResponse);
+    }
+
+    const { rawToken, hashedToken, expiresAt } = issueToken(env.PASSWORD_RESET_TOKEN_EXPIRY_HOURS);
+
+    // Only the newest link works
+    await prisma.$transaction([
+      prisma.vendorPasswordResetToken.deleteMany({
+        where: { vendorId: account.vendorId, memberId: account.memberId },
+      }),
+      prisma.vendorPasswordResetToken.create({
+        data: { token: hashedToken, vendorId: account.vendorId, memberId: account.memberId, expiresAt },
+      }),
+    ]);
+
+    const resetUrl = `${env.FRONTEND_URL}/vendor/reset-password.html?token=${rawToken}`;
+    await sendEmail({
+      to: account.email,
+      subject: "Reset your FoodCheQ vendor password",
+      html: getPasswordResetEmailHtml(account.name, resetUrl),
+    });
+
+    return res.json(successResponse);
+  } catch (error) {
+    console.error("Vendor forgot password error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/vendor/auth/reset-password
+router.post("/reset-password", vendorEmailTokenLimiter, async (req, res) => {
+  try {
+    const parsed = vendorResetPasswordSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
       });
+    }
 
-      if (!vendor) {
-        return res.status(404).json({
-          success: false,
-          message: "Vendor not found",
+    const { token, password } = parsed.data;
+
+    const resetToken = await prisma.vendorPasswordResetToken.findUnique({
+      where: { token: hashToken(token) },
+    });
+
+    if (!resetToken || resetToken.used) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired reset token",
+      });
+    }
+
+    if (isExpired(resetToken.expiresAt)) {
+      await prisma.vendorPasswordResetToken.delete({
+        where: { id: resetToken.id },
+      });
+      return res.status(400).json({
+        success: false,
+        message: "Reset token has expired. Please request a new one.",
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    const applied = await prisma.$transaction(async (tx) => {
+      // Claim the token first; of two requests racing with it only one wins
+      const claimed = await tx.vendorPasswordResetToken.updateMany({
+        where: { id: resetToken.id, used: false },
+        data: { used: true },
+      });
+      if (claimed.count === 0) return false;
+
+      if (resetToken.memberId) {
+        await tx.vendorMember.update({
+          where: { id: resetToken.memberId },
+          data: { passwordHash },
+        });
+      } else {
+        await tx.vendor.update({
+          where: { id: resetToken.vendorId },
+          // The link reached their inbox, so the address is theirs
+          data: { passwordHash, emailVerified: true },
         });
       }
+      await tx.vendorPasswordResetToken.deleteMany({
+        where: { vendorId: resetToken.vendorId, memberId: resetToken.memberId, id: { not: resetToken.id } },
+      });
+      return true;
+    });
+
+    if (!applied) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired reset token",
+      });
+    }
+
+    // Whoever knew the old password is logged out everywhere
+    await revokeAllSessions(
+      { type: "VENDOR", id: resetToken.vendorId, memberId: resetToken.memberId },
+      "password_reset"
+    );
+
+    return res.json({
+      success: true,
+      message: "Password reset successfully. You can now log in with your new password.",
+    });
+  } catch (error) {
+    console.error("Vendor reset password error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/vendor/auth/invitation?token=...  -> who invited whom, for the accept page
+router.get("/invitation", vendorInvitationLimiter, async (req, res) => {
+  try {
+    const token = req.query.token;
+
+    if (typeof token !== "string" || !token) {
+      return res.status(400).json({
+        success: false,
+        message: "Invitation token is required",
+      });
+    }
+
+    const member = await prisma.vendorMember.findUnique({
+      where: { inviteTokenHash: hashToken(token) },
+      select: {
+        email: true,
+        name: true,
+        role: true,
+        status: true,
+        inviteExpiresAt: true,
+        vendor: { select: { businessName: true } },
+      },
+    });
+
+    if (!member || member.status !== "INVITED" || !member.inviteExpiresAt || isExpired(member.inviteExpiresAt)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired invitation",
+      });
+    }
+
+    return res.json({
+      success: true,
+      invitation: {
+        email: member.email,
+        name: member.name,
+        role: member.role,
+        businessName: member.vendor.businessName,
+        expiresAt: member.inviteExpiresAt,
+      },
+    });
+  } catch (error) {
+    console.error("Vendor get invitation error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/vendor/auth/accept-invitation  { token, password, name? }
+// Sets the member's password and logs them in
+router.post("/accept-invitation", vendorInvitationLimiter, async (req, res) => {
+  try {
+    const parsed = acceptInvitationSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const { token, password, name } = parsed.data;
+    const inviteTokenHash = hashToken(token);
+
+    const member = await prisma.vendorMember.findUnique({
+      where: { inviteTokenHash },
+      include: { vendor: true },
+    });
+
+    if (!member || member.status !== "INVITED" || !member.inviteExpiresAt || isExpired(member.inviteExpiresAt)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired invitation",
+      });
+    }
+
+    const blocked = vendorBlockedReason(member.vendor);
+    if (blocked) {
+      return res.status(403).json({
+        success: false,
+        message: blocked,
+      });
+    }
+
+    // Compare-and-set on the token so an invitation is accepted only once
+    const passwordHash = await bcrypt.hash(password, 10);
+    const accepted = await prisma.vendorMember.updateMany({
+      where: { id: member.id, inviteTokenHash, status: "INVITED" },
+      data: {
+        passwordHash,
+        name: name ?? member.name,
+        status: "ACTIVE",
+        inviteTokenHash: null,
+        inviteExpiresAt: null,
+        lastLoginAt: new Date(),
+      },
+    });
+
+    if (accepted.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired invitation",
+      });
+    }
+
+    const tokens = await createSession(
+      { type: "VENDOR", id: member.vendorId, memberId: member.id },
+      sessionContext(req)
+    );
+
+    return res.json({
+      success: true,
+      message: `Welcome to ${member.vendor.businessName} on FoodCheQ`,
+      member: {
+        id: member.id,
+        email: member.email,
+        name: name ?? member.name,
+        role: member.role,
+      },
+      role: member.role,
+      permissions: ROLE_PERMISSIONS[member.role],
+      ...tokens,
+    });
+  } catch (error) {
+    console.error("Vendor accept invitation error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/vendor/auth/refresh  { refreshToken, device? }
+// Rotates: the old refresh token stops working; presenting it again ends the session
+router.post("/refresh", vendorRefreshLimiter, async (req, res) => {
+  try {
+    const parsed = vendorRefreshSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const tokens = await rotateSession(parsed.data.refreshToken, "VENDOR", sessionContext(req));
+
+    return res.json({
+      success: true,
+      ...tokens,
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res
+        .status(error.statusCode)
+        .json({ success: false, message: error.message });
+    }
+    console.error("Vendor refresh error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// POST /api/vendor/auth/logout (protected) -> ends the current session
+router.post(
+  "/logout",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (req.sessionId) {
+        await revokeSession(req.sessionId, "logout");
+      }
+
+      return res.json({
+        success: true,
+        message: "Logged out",
+      });
+    } catch (error) {
+      console.error("Vendor logout error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/auth/logout-all (protected) -> ends every session, this one included
+router.post(
+  "/logout-all",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const revoked = await revokeAllSessions(
+        { type: "VENDOR", id: req.vendorId, memberId: req.vendorMember?.id ?? null },
+        "logout_all"
+      );
+
+      return res.json({
+        success: true,
+        message: "Logged out on all devices",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Vendor logout all error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// GET /api/vendor/auth/sessions (protected)
+router.get(
+  "/sessions",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const sessions = await listSessions(
+        { type: "VENDOR", id: req.vendorId, memberId: req.vendorMember?.id ?? null },
+        req.sessionId
+      );
+
+      return res.json({
+        success: true,
+        sessions,
+      });
+    } catch (error) {
+      console.error("Vendor list sessions error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// DELETE /api/vendor/auth/sessions/:id (protected) -> sign out one device
+router.delete(
+  "/sessions/:id",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const revoked = await revokeOwnSession(
+        { type: "VENDOR", id: req.vendorId, memberId: req.vendorMember?.id ?? null },
+        req.params.id
+      );
+
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          message: "Session not found",
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: "Session ended",
+      });
+    } catch (error) {
+      console.error("Vendor revoke session error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ====== Two-factor authentication ======
+
+// POST /api/vendor/auth/2fa/verify  { challengeToken, code, device? }
+// Second login step: a code from the app, or a recovery code (spent on use)
+router.post("/2fa/verify", vendorTwoFactorLimiter, async (req, res) => {
+  try {
+    const parsed = twoFactorVerifySchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid input",
+        errors: parsed.error.flatten(),
+      });
+    }
+
+    const challenge = verifyChallengeToken(parsed.data.challengeToken, "vendor");
+    if (!challenge) {
+      return res.status(401).json({
+        success: false,
+        message: "Login has expired; please log in again",
+      });
+    }
+
+    const { method, recoveryCodesLeft } = await verifySecondFactor(
+      { type: "VENDOR", id: challenge.sub, memberId: challenge.mid ?? null },
+      parsed.data.code
+    );
+
+    const [vendor, member] = await Promise.all([
+      prisma.vendor.findUnique({ where: { id: challenge.sub } }),
+      challenge.mid ? prisma.vendorMember.findUnique({ where: { id: challenge.mid } }) : null,
+    ]);
+    if (!vendor || (challenge.mid && member?.vendorId !== vendor.id)) {
+      return res.status(401).json({
+        success: false,
+        message: "Login has expired; please log in again",
+      });
+    }
+
+    // Suspended or disabled in the minutes since the password step
+    const blocked = vendorBlockedReason(vendor) || (member && memberBlockedReason(member));
+    if (blocked) {
+      return res.status(403).json({
+        success: false,
+        message: blocked,
+        status: vendor.status,
+      });
+    }
+
+    return res.json({
+      ...(await completeVendorLogin(req, vendor, member)),
+      ...(method === "recovery" ? { recoveryCodesLeft } : {}),
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error("Vendor 2FA verify error:", error);
+    return res
+      .status(500)
+      .json({ success: false, message: "Internal server error" });
+  }
+});
+
+// GET /api/vendor/auth/2fa (protected) -> enabled?, recovery codes left
+router.get(
+  "/2fa",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const status = await getTwoFactorStatus(twoFactorSubject(req));
+
+      return res.json({
+        success: true,
+        twoFactor: { ...status, required: false },
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor 2FA status error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/auth/2fa/setup (protected) -> secret + otpauth:// URI for the QR code
+router.post(
+  "/2fa/setup",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const { secret, otpauthUrl } = await beginEnrolment(twoFactorSubject(req));
+
+      return res.json({
+        success: true,
+        message: "Scan the QR code, then confirm with a code from the app",
+        secret,
+        otpauthUrl,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor 2FA setup error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/auth/2fa/enable (protected)  { code }
+// Returns the recovery codes (shown once) and a fresh session; other sessions end
+router.post(
+  "/2fa/enable",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const subject = twoFactorSubject(req);
+      const recoveryCodes = await confirmEnrolment(subject, parsed.data.code);
+
+      // Sessions from before were password-only
+      await revokeAllSessions(subject, "two_factor");
+      const tokens = await createSession(subject, sessionContext(req));
+
+      return res.json({
+        success: true,
+        message: "Two-factor authentication enabled. Store your recovery codes somewhere safe.",
+        recoveryCodes,
+        ...tokens,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor 2FA enable error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/auth/2fa/recovery-codes (protected)  { code } -> new set; old codes stop working
+router.post(
+  "/2fa/recovery-codes",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(twoFactorSubject(req), parsed.data.code);
+
+      return res.json({
+        success: true,
+        message: "New recovery codes generated",
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor 2FA recovery codes error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/auth/2fa/disable (protected)  { password, code }
+router.post(
+  "/2fa/disable",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const parsed = twoFactorDisableSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const account = req.vendorMember
+        ? await prisma.vendorMember.findUnique({
+            where: { id: req.vendorMember.id },
+            select: { passwordHash: true },
+          })
+        : await prisma.vendor.findUnique({
+            where: { id: req.vendorId },
+            select: { passwordHash: true },
+          });
+
+      const isValid =
+        !!account?.passwordHash && (await bcrypt.compare(parsed.data.password, account.passwordHash));
+      if (!isValid) {
+        return res.status(401).json({ success: false, message: "Incorrect password" });
+      }
+
+      const subject = twoFactorSubject(req);
+      await verifySecondFactor(subject, parsed.data.code);
+      await disableTwoFactor(subject);
+
+      // Every session ends; this device continues with a fresh one
+      await revokeAllSessions(subject, "two_factor");
+      const tokens = await createSession(subject, sessionContext(req));
+
+      return res.json({
+        success: true,
+        message: "Two-factor authentication disabled",
+        ...tokens,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor 2FA disable error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// GET /api/vendor/auth/me (protected)
+router.get(
+  "/me",
+  requireVendorAuth,
+  async (req: VendorAuthenticatedRequest, res) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated",
+        });
+      }
+
+      const vendor = await prisma.vendor.findUnique({
+        where: { id: req.vendorId },
+        select: {
+          id: true,
+          email: true,
+          businessName: true,
+          contactName: true,
+          phone: true,
+          status: true,
+          isActive: true,
+          emailVerified: true,
+          createdAt: true,
+        },
+      });
+
+      if (!vendor) {
+        return res.status(404).json({
+          success: false,
+          message: "Vendor not found",
+        });
+      }
+
+      const role = req.vendorRole ?? "OWNER";
 
       return res.json({
         success: true,
         vendor,
+        member: req.vendorMember ?? null,
+        role,
+        permissions: ROLE_PERMISSIONS[role],
       });
     } catch (error) {
       console.error("Vendor /me error:", error);
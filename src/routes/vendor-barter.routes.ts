@@ -2,12 +2,22 @@ import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireVendorAuth } from "../middleware/vendorAuth";
+import { recordVendorActivity, requireVendorPermission } from "../lib/vendor-team";
+import {
+  InventoryError,
+  commitBarterStock,
+  reserveStock,
+  stockShortage,
+} from "../lib/inventory";
+import { PickedVariant, resolveVariantChoices } from "../lib/variants";
+import { publicProductWhere } from "../lib/product-moderation";
 
 const router = Router();
 
 // ====== Schemas ======
 const barterItemSchema = z.object({
   productId: z.string().min(1),
+  variantId: z.string().min(1).optional(), // required when the product has variants
   quantity: z.number().int().min(1),
   isOffered: z.boolean(), // true = vendor offers, false = vendor requests
 });
@@ -39,6 +49,26 @@ const disputeSchema = z.object({
 });
 
 // ====== Helper Functions ======
+
+// Snapshot value of one unit: the variant's price when one is picked
+function itemValueCents(
+  item: { productId: string; variantId?: string },
+  productMap: Map<string, { priceUsdCents: number }>,
+  variants: Map<string, PickedVariant>
+) {
+  const variant = item.variantId ? variants.get(item.variantId) : undefined;
+  return variant ? variant.priceUsdCents : productMap.get(item.productId)!.priceUsdCents;
+}
+
+// Barter items draw on the same stock as orders; null when every item is covered
+async function barterStockError(items: { productId: string; variantId?: string | null; quantity: number }[]) {
+  const short = await stockShortage(prisma, items);
+  if (!short) return null;
+  return short.available > 0
+    ? `Only ${short.available} left of ${short.name}`
+    : `${short.name} is out of stock`;
+}
+
 async function getOfferWithDetails(offerId: string) {
   return prisma.barterOffer.findUnique({
     where: { id: offerId },
@@ -54,6 +84,9 @@ async function getOfferWithDetails(offerId: string) {
           product: {
             select: { id: true, name: true, imageUrl: true, priceUsdCents: true },
           },
+          variant: {
+            select: { id: true, sku: true, name: true, priceUsdCents: true },
+          },
         },
       },
       parentOffer: {
@@ -120,7 +153,7 @@ function transformOffer(offer: any, currentVendorId: string) {
 // ====== Routes ======
 
 // GET /api/vendor/barter/vendors - List other vendors for recipient selection
-router.get("/vendors", requireVendorAuth, async (req: any, res) => {
+router.get("/vendors", requireVendorAuth, requireVendorPermission("barter:read"), async (req: any, res) => {
   try {
     const currentVendorId = req.vendorId;
 
@@ -136,7 +169,7 @@ router.get("/vendors", requireVendorAuth, async (req: any, res) => {
         _count: {
           select: {
             products: {
-              where: { isDeleted: false, isAvailable: true, status: "ACTIVE" },
+              where: publicProductWhere,
             },
           },
         },
@@ -159,16 +192,14 @@ router.get("/vendors", requireVendorAuth, async (req: any, res) => {
 });
 
 // GET /api/vendor/barter/vendors/:id/products - Get products of a specific vendor
-router.get("/vendors/:id/products", requireVendorAuth, async (req: any, res) => {
+router.get("/vendors/:id/products", requireVendorAuth, requireVendorPermission("barter:read"), async (req: any, res) => {
   try {
     const vendorId = req.params.id;
 
     const products = await prisma.product.findMany({
       where: {
         vendorId,
-        isDeleted: false,
-        isAvailable: true,
-        status: "ACTIVE",
+        ...publicProductWhere,
       },
       select: {
         id: true,
@@ -191,7 +222,7 @@ router.get("/vendors/:id/products", requireVendorAuth, async (req: any, res) =>
 });
 
 // GET /api/vendor/barter/offers - List my offers (sent + received)
-router.get("/offers", requireVendorAuth, async (req: any, res) => {
+router.get("/offers", requireVendorAuth, requireVendorPermission("barter:read"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const status = req.query.status as string | undefined;
@@ -227,6 +258,9 @@ router.get("/offers", requireVendorAuth, async (req: any, res) => {
             product: {
               select: { id: true, name: true, imageUrl: true },
             },
+            variant: {
+              select: { id: true, sku: true, name: true },
+            },
           },
         },
       },
@@ -261,7 +295,7 @@ router.get("/offers", requireVendorAuth, async (req: any, res) => {
 });
 
 // GET /api/vendor/barter/offers/:id - Get offer details
-router.get("/offers/:id", requireVendorAuth, async (req: any, res) => {
+router.get("/offers/:id", requireVendorAuth, requireVendorPermission("barter:read"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -294,7 +328,7 @@ router.get("/offers/:id", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers - Create a new offer
-router.post("/offers", requireVendorAuth, async (req: any, res) => {
+router.post("/offers", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const initiatorVendorId = req.vendorId;
 
@@ -332,7 +366,7 @@ router.post("/offers", requireVendorAuth, async (req: any, res) => {
     const productIds = items.map((i) => i.productId);
     const products = await prisma.product.findMany({
       where: { id: { in: productIds } },
-      select: { id: true, vendorId: true, priceUsdCents: true, isAvailable: true, isDeleted: true },
+      select: { id: true, vendorId: true, priceUsdCents: true, isAvailable: true, isDeleted: true, status: true },
     });
 
     const productMap = new Map(products.map((p) => [p.id, p]));
@@ -347,7 +381,8 @@ router.post("/offers", requireVendorAuth, async (req: any, res) => {
         });
       }
 
-      if (product.isDeleted || !product.isAvailable) {
+      // Only approved, live products can be bartered
+      if (product.isDeleted || !product.isAvailable || product.status !== "ACTIVE") {
         return res.status(400).json({
           success: false,
           message: `Product ${item.productId} is not available`,
@@ -371,6 +406,16 @@ router.post("/offers", requireVendorAuth, async (req: any, res) => {
       }
     }
 
+    const { variants, error: variantError } = await resolveVariantChoices(items);
+    if (variantError) {
+      return res.status(400).json({ success: false, message: variantError });
+    }
+
+    const stockError = await barterStockError(items);
+    if (stockError) {
+      return res.status(409).json({ success: false, message: stockError });
+    }
+
     // Create offer with items
     const offer = await prisma.barterOffer.create({
       data: {
@@ -383,8 +428,9 @@ router.post("/offers", requireVendorAuth, async (req: any, res) => {
         items: {
           create: items.map((item) => ({
             productId: item.productId,
+            variantId: item.variantId ?? null,
             quantity: item.quantity,
-            valueCents: productMap.get(item.productId)!.priceUsdCents,
+            valueCents: itemValueCents(item, productMap, variants),
             isOffered: item.isOffered,
           })),
         },
@@ -393,6 +439,7 @@ router.post("/offers", requireVendorAuth, async (req: any, res) => {
         items: true,
       },
     });
+    await recordVendorActivity(req, "barter.create", offer.id);
 
     return res.status(201).json({
       success: true,
@@ -406,7 +453,7 @@ router.post("/offers", requireVendorAuth, async (req: any, res) => {
 });
 
 // PATCH /api/vendor/barter/offers/:id - Update draft offer
-router.patch("/offers/:id", requireVendorAuth, async (req: any, res) => {
+router.patch("/offers/:id", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -457,14 +504,20 @@ router.patch("/offers/:id", requireVendorAuth, async (req: any, res) => {
 
       const productMap = new Map(products.map((p) => [p.id, p]));
 
+      const { variants, error: variantError } = await resolveVariantChoices(items);
+      if (variantError) {
+        return res.status(400).json({ success: false, message: variantError });
+      }
+
       await prisma.$transaction([
         prisma.barterItem.deleteMany({ where: { offerId } }),
         prisma.barterItem.createMany({
           data: items.map((item) => ({
             offerId,
             productId: item.productId,
+            variantId: item.variantId ?? null,
             quantity: item.quantity,
-            valueCents: productMap.get(item.productId)!.priceUsdCents,
+            valueCents: itemValueCents(item, productMap, variants),
             isOffered: item.isOffered,
           })),
         }),
@@ -479,6 +532,7 @@ router.patch("/offers/:id", requireVendorAuth, async (req: any, res) => {
         ...(message !== undefined && { message }),
       },
     });
+    await recordVendorActivity(req, "barter.update", offerId);
 
     return res.json({
       success: true,
@@ -492,7 +546,7 @@ router.patch("/offers/:id", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers/:id/send - Send draft offer
-router.post("/offers/:id/send", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/send", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -530,10 +584,16 @@ router.post("/offers/:id/send", requireVendorAuth, async (req: any, res) => {
       });
     }
 
+    const stockError = await barterStockError(offer.items);
+    if (stockError) {
+      return res.status(409).json({ success: false, message: stockError });
+    }
+
     const updatedOffer = await prisma.barterOffer.update({
       where: { id: offerId },
       data: { status: "SENT" },
     });
+    await recordVendorActivity(req, "barter.send", offerId);
 
     return res.json({
       success: true,
@@ -547,13 +607,14 @@ router.post("/offers/:id/send", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers/:id/accept - Accept offer
-router.post("/offers/:id/accept", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/accept", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
 
     const offer = await prisma.barterOffer.findUnique({
       where: { id: offerId },
+      include: { items: true },
     });
 
     if (!offer) {
@@ -577,10 +638,21 @@ router.post("/offers/:id/accept", requireVendorAuth, async (req: any, res) => {
       });
     }
 
-    const updatedOffer = await prisma.barterOffer.update({
-      where: { id: offerId },
-      data: { status: "ACCEPTED" },
+    // Both sides' goods are held until each side is fulfilled (or the deal falls through)
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const accepted = await tx.barterOffer.updateMany({
+        where: { id: offerId, status: offer.status },
+        data: { status: "ACCEPTED" },
+      });
+      if (accepted.count === 0) {
+        throw new InventoryError("Offer changed while accepting, please retry");
+      }
+
+      await reserveStock(tx, offer.items, { barterOfferId: offerId });
+
+      return tx.barterOffer.findUniqueOrThrow({ where: { id: offerId } });
     });
+    await recordVendorActivity(req, "barter.accept", offerId);
 
     return res.json({
       success: true,
@@ -588,13 +660,16 @@ router.post("/offers/:id/accept", requireVendorAuth, async (req: any, res) => {
       offer: updatedOffer,
     });
   } catch (error) {
+    if (error instanceof InventoryError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     console.error("Accept offer error:", error);
     return res.status(500).json({ success: false, message: "Internal server error" });
   }
 });
 
 // POST /api/vendor/barter/offers/:id/reject - Reject offer
-router.post("/offers/:id/reject", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/reject", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -628,6 +703,7 @@ router.post("/offers/:id/reject", requireVendorAuth, async (req: any, res) => {
       where: { id: offerId },
       data: { status: "REJECTED" },
     });
+    await recordVendorActivity(req, "barter.reject", offerId);
 
     return res.json({
       success: true,
@@ -641,7 +717,7 @@ router.post("/offers/:id/reject", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers/:id/counter - Create counter-offer
-router.post("/offers/:id/counter", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/counter", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -691,6 +767,16 @@ router.post("/offers/:id/counter", requireVendorAuth, async (req: any, res) => {
 
     const productMap = new Map(products.map((p) => [p.id, p]));
 
+    const { variants, error: variantError } = await resolveVariantChoices(items);
+    if (variantError) {
+      return res.status(400).json({ success: false, message: variantError });
+    }
+
+    const stockError = await barterStockError(items);
+    if (stockError) {
+      return res.status(409).json({ success: false, message: stockError });
+    }
+
     // In counter-offer, roles are swapped: recipient becomes initiator
     const counterOffer = await prisma.$transaction(async (tx) => {
       // Mark original as countered
@@ -713,14 +799,16 @@ router.post("/offers/:id/counter", requireVendorAuth, async (req: any, res) => {
           items: {
             create: items.map((item) => ({
               productId: item.productId,
+              variantId: item.variantId ?? null,
               quantity: item.quantity,
-              valueCents: productMap.get(item.productId)!.priceUsdCents,
+              valueCents: itemValueCents(item, productMap, variants),
               isOffered: item.isOffered,
             })),
           },
         },
       });
     });
+    await recordVendorActivity(req, "barter.counter", counterOffer.id, { counteredOfferId: offerId });
 
     return res.status(201).json({
       success: true,
@@ -734,7 +822,7 @@ router.post("/offers/:id/counter", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers/:id/cancel - Cancel offer
-router.post("/offers/:id/cancel", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/cancel", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -768,6 +856,7 @@ router.post("/offers/:id/cancel", requireVendorAuth, async (req: any, res) => {
       where: { id: offerId },
       data: { status: "CANCELLED" },
     });
+    await recordVendorActivity(req, "barter.cancel", offerId);
 
     return res.json({
       success: true,
@@ -781,13 +870,14 @@ router.post("/offers/:id/cancel", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers/:id/fulfill - Mark my side as fulfilled
-router.post("/offers/:id/fulfill", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/fulfill", requireVendorAuth, requireVendorPermission("barter:fulfil"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
 
     const offer = await prisma.barterOffer.findUnique({
       where: { id: offerId },
+      include: { items: true },
     });
 
     if (!offer) {
@@ -844,10 +934,19 @@ router.post("/offers/:id/fulfill", requireVendorAuth, async (req: any, res) => {
       updateData.status = "IN_PROGRESS";
     }
 
-    const updatedOffer = await prisma.barterOffer.update({
-      where: { id: offerId },
-      data: updateData,
+    // My side's goods leave my stock now (initiator ships offered items, recipient requested ones)
+    const myProductIds = offer.items
+      .filter((i) => i.isOffered === isInitiator)
+      .map((i) => i.productId);
+
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      await commitBarterStock(tx, offerId, myProductIds);
+      return tx.barterOffer.update({
+        where: { id: offerId },
+        data: updateData,
+      });
     });
+    await recordVendorActivity(req, "barter.fulfil", offerId, { status: updatedOffer.status });
 
     return res.json({
       success: true,
@@ -863,7 +962,7 @@ router.post("/offers/:id/fulfill", requireVendorAuth, async (req: any, res) => {
 });
 
 // POST /api/vendor/barter/offers/:id/dispute - Raise a dispute
-router.post("/offers/:id/dispute", requireVendorAuth, async (req: any, res) => {
+router.post("/offers/:id/dispute", requireVendorAuth, requireVendorPermission("barter:negotiate"), async (req: any, res) => {
   try {
     const vendorId = req.vendorId;
     const offerId = req.params.id;
@@ -911,6 +1010,7 @@ router.post("/offers/:id/dispute", requireVendorAuth, async (req: any, res) => {
         disputeReason: reason,
       },
     });
+    await recordVendorActivity(req, "barter.dispute", offerId);
 
     return res.json({
       success: true,
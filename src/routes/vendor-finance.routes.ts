@@ -0,0 +1,237 @@
+// src/routes/vendor-finance.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import {
+  requireVendorAuth,
+  VendorAuthenticatedRequest,
+} from "../middleware/vendorAuth";
+import { requireVendorPermission } from "../lib/vendor-team";
+import { CURRENCY_CODES, CurrencyCode } from "../lib/currency";
+import { getVendorBalanceAt, getVendorBalances } from "../lib/ledger";
+
+const router = Router();
+
+const statementQuerySchema = z.object({
+  currency: z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const payoutsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// GET /api/vendor/finance/balance  -> amount owed per currency
+router.get(
+  "/balance",
+  requireVendorAuth,
+  requireVendorPermission("finance:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const balances = await getVendorBalances(req.vendorId);
+
+      return res.json({ success: true, balances });
+    } catch (error) {
+      console.error("Vendor balance error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/vendor/finance/statement?currency=NGN&from=&to=  -> ledger lines, oldest first
+router.get(
+  "/statement",
+  requireVendorAuth,
+  requireVendorPermission("finance:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = statementQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid query parameters",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const { currency, from, to, page, pageSize } = parsed.data;
+      const skip = (page - 1) * pageSize;
+
+      const where: any = {
+        vendorId: req.vendorId,
+        account: "VENDOR_PAYABLE",
+        currency,
+      };
+      if (from || to) {
+        where.createdAt = {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lte: to } : {}),
+        };
+      }
+
+      const [total, entries, openingBalance] = await Promise.all([
+        prisma.ledgerEntry.count({ where }),
+        prisma.ledgerEntry.findMany({
+          where,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            direction: true,
+            amount: true,
+            currency: true,
+            createdAt: true,
+            transaction: {
+              select: {
+                type: true,
+                description: true,
+                orderId: true,
+                refundId: true,
+                payoutId: true,
+              },
+            },
+          },
+        }),
+        getVendorBalanceAt(req.vendorId, currency, from),
+      ]);
+
+      // Balance just before this page, so each line can carry a running balance
+      const beforePage = skip
+        ? await prisma.ledgerEntry.findMany({
+            where,
+            take: skip,
+            orderBy: { createdAt: "asc" },
+            select: { direction: true, amount: true },
+          })
+        : [];
+
+      let running =
+        openingBalance +
+        beforePage.reduce((sum, e) => sum + (e.direction === "CREDIT" ? e.amount : -e.amount), 0);
+
+      const lines = entries.map((e) => {
+        const signed = e.direction === "CREDIT" ? e.amount : -e.amount;
+        running += signed;
+        return {
+          id: e.id,
+          createdAt: e.createdAt,
+          type: e.transaction.type,
+          description: e.transaction.description,
+          orderId: e.transaction.orderId,
+          refundId: e.transaction.refundId,
+          payoutId: e.transaction.payoutId,
+          amount: signed, // credit +, debit -
+          balance: running,
+        };
+      });
+
+      return res.json({
+        success: true,
+        currency,
+        openingBalance,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+        lines,
+      });
+    } catch (error) {
+      console.error("Vendor statement error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/vendor/finance/payouts  -> payouts to this vendor, newest first
+router.get(
+  "/payouts",
+  requireVendorAuth,
+  requireVendorPermission("finance:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = payoutsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid query parameters",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const { page, pageSize } = parsed.data;
+      const where = { vendorId: req.vendorId };
+
+      const [total, payouts] = await Promise.all([
+        prisma.payout.count({ where }),
+        prisma.payout.findMany({
+          where,
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            amount: true,
+            currency: true,
+            createdAt: true,
+            batch: {
+              select: { id: true, status: true, reference: true, settledAt: true },
+            },
+          },
+        }),
+      ]);
+
+      return res.json({
+        success: true,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+        payouts,
+      });
+    } catch (error) {
+      console.error("Vendor payouts error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,16 +1,30 @@
 import { Router, Response } from "express";
+import { z } from "zod";
 import { prisma } from "../lib/prisma";
+import { OrderTransitionError, transitionOrder } from "../lib/order-lifecycle";
 import {
   requireVendorAuth,
   VendorAuthenticatedRequest,
 } from "../middleware/vendorAuth";
+import { recordVendorActivity, requireVendorPermission } from "../lib/vendor-team";
 
 const router = Router();
 
+const updateStatusSchema = z.object({
+  status: z.string().transform((v) => v.toUpperCase()).pipe(z.enum(["PREPARING", "READY", "COMPLETED"])),
+  note: z.string().max(500).optional(),
+  pickupLocation: z.string().min(1).optional(),
+  dropoffLocation: z.string().min(1).optional(),
+  riderName: z.string().optional(),
+  riderPhone: z.string().optional(),
+  notes: z.string().optional(),
+});
+
 // GET /api/vendor/orders  -> Vendor's orders
 router.get(
   "/",
   requireVendorAuth,
+  requireVendorPermission("orders:read"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -32,7 +46,7 @@ router.get(
 
           status: true,
           paymentStatus: true,
-          totalAmountKobo: true,
+          totalAmount: true,
           currency: true,
 
           createdAt: true,
@@ -50,8 +64,11 @@ router.get(
             select: {
               id: true,
               quantity: true,
-              unitPriceKobo: true,
-              subtotalKobo: true,
+              unitPrice: true,
+              subtotal: true,
+              variantId: true,
+              variantName: true,
+              sku: true,
               product: {
                 select: {
                   id: true,
@@ -71,7 +88,7 @@ router.get(
               provider: true,
               providerRef: true,
               status: true,
-              amountKobo: true,
+              amount: true,
               currency: true,
               createdAt: true,
             },
@@ -93,10 +110,21 @@ router.get(
   }
 );
 
+function transitionErrorResponse(res: Response, error: unknown) {
+  if (error instanceof OrderTransitionError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  return null;
+}
+
 // PATCH /api/vendor/orders/:orderId/accept
 router.patch(
   "/:orderId/accept",
   requireVendorAuth,
+  requireVendorPermission("orders:fulfil"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -106,59 +134,21 @@ router.patch(
         });
       }
 
-      const { orderId } = req.params;
-
-      const order = await prisma.order.findFirst({
-        where: { id: orderId, vendorId: req.vendorId },
-        select: { id: true, status: true, paymentStatus: true },
-      });
-
-      if (!order) {
-        return res.status(404).json({
-          success: false,
-          message: "Order not found",
-        });
-      }
-
-      if (order.status === "CANCELLED" || order.status === "REJECTED") {
-        return res.status(400).json({
-          success: false,
-          message: `Cannot accept an order that is ${order.status.toLowerCase()}`,
-        });
-      }
-
-      if (order.status === "ACCEPTED") {
-        return res.status(400).json({
-          success: false,
-          message: "Order is already accepted",
-        });
-      }
-
-      // ✅ Paid-only rule
-      if (order.paymentStatus !== "PAID") {
-        return res.status(400).json({
-          success: false,
-          message: "Cannot accept an order until payment is PAID",
-        });
-      }
-
-      const updated = await prisma.order.update({
-        where: { id: order.id },
-        data: { status: "ACCEPTED" },
-        select: {
-          id: true,
-          status: true,
-          paymentStatus: true,
-          updatedAt: true,
-        },
+      const { order } = await transitionOrder(req.params.orderId, "ACCEPTED", {
+        actor: "vendor",
+        actorId: req.vendorMember?.id ?? req.vendorId,
+        scope: { vendorId: req.vendorId },
       });
+      await recordVendorActivity(req, "order.accept", order.id);
 
       return res.json({
         success: true,
         message: "Order accepted",
-        order: updated,
+        order,
       });
     } catch (error) {
+      const handled = transitionErrorResponse(res, error);
+      if (handled) return handled;
       console.error("Vendor accept order error:", error);
       return res.status(500).json({
         success: false,
@@ -168,10 +158,11 @@ router.patch(
   }
 );
 
-// PATCH /api/vendor/orders/:orderId/reject
+// PATCH /api/vendor/orders/:orderId/reject  -> refunds the buyer if already paid
 router.patch(
   "/:orderId/reject",
   requireVendorAuth,
+  requireVendorPermission("orders:fulfil"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -181,51 +172,26 @@ router.patch(
         });
       }
 
-      const { orderId } = req.params;
+      const { reason } = (req.body ?? {}) as { reason?: string };
 
-      const order = await prisma.order.findFirst({
-        where: { id: orderId, vendorId: req.vendorId },
-        select: { id: true, status: true },
-      });
-
-      if (!order) {
-        return res.status(404).json({
-          success: false,
-          message: "Order not found",
-        });
-      }
-
-      if (order.status === "CANCELLED") {
-        return res.status(400).json({
-          success: false,
-          message: "Order is already cancelled",
-        });
-      }
-
-      if (order.status === "REJECTED") {
-        return res.status(400).json({
-          success: false,
-          message: "Order is already rejected",
-        });
-      }
-
-      const updated = await prisma.order.update({
-        where: { id: order.id },
-        data: { status: "REJECTED" },
-        select: {
-          id: true,
-          status: true,
-          paymentStatus: true,
-          updatedAt: true,
-        },
+      const { order, refund, refundError } = await transitionOrder(req.params.orderId, "REJECTED", {
+        actor: "vendor",
+        actorId: req.vendorMember?.id ?? req.vendorId,
+        scope: { vendorId: req.vendorId },
+        note: typeof reason === "string" && reason.trim() ? reason.trim().slice(0, 500) : "Order rejected by vendor",
       });
+      await recordVendorActivity(req, "order.reject", order.id, { refunded: !!refund });
 
       return res.json({
         success: true,
-        message: "Order rejected",
-        order: updated,
+        message: refund ? "Order rejected and refund issued" : "Order rejected",
+        order,
+        refund,
+        ...(refundError ? { refundError } : {}),
       });
     } catch (error) {
+      const handled = transitionErrorResponse(res, error);
+      if (handled) return handled;
       console.error("Vendor reject order error:", error);
       return res.status(500).json({
         success: false,
@@ -236,9 +202,11 @@ router.patch(
 );
 
 // PATCH /api/vendor/orders/:orderId/status  -> Vendor updates order lifecycle
+// Moving to READY opens the delivery (optional pickupLocation / rider details in the body).
 router.patch(
   "/:orderId/status",
   requireVendorAuth,
+  requireVendorPermission("orders:fulfil"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -248,89 +216,35 @@ router.patch(
         });
       }
 
-      const { orderId } = req.params;
-      const { status } = req.body as { status?: string };
-
-      const next = String(status || "").toUpperCase();
-
-      // Allowed vendor lifecycle statuses
-      const allowed = new Set(["PREPARING", "READY", "COMPLETED"]);
-      if (!allowed.has(next)) {
+      const parsed = updateStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
         return res.status(400).json({
           success: false,
           message: "Invalid status. Allowed: PREPARING, READY, COMPLETED",
+          errors: parsed.error.flatten(),
         });
       }
 
-      const order = await prisma.order.findFirst({
-        where: { id: orderId, vendorId: req.vendorId },
-        select: {
-          id: true,
-          status: true,
-          paymentStatus: true,
-        },
-      });
-
-      if (!order) {
-        return res.status(404).json({
-          success: false,
-          message: "Order not found",
-        });
-      }
-
-      const current = String(order.status || "").toUpperCase();
-
-      if (current === "CANCELLED" || current === "REJECTED") {
-        return res.status(400).json({
-          success: false,
-          message: `Cannot update an order that is ${current.toLowerCase()}`,
-        });
-      }
-
-      // Paid-only fulfillment rule
-      if (order.paymentStatus !== "PAID") {
-        return res.status(400).json({
-          success: false,
-          message: "Cannot update fulfillment status until payment is PAID",
-        });
-      }
-
-      // Enforce correct step order
-      const flow = ["ACCEPTED", "PREPARING", "READY", "COMPLETED"];
-      const idxCurrent = flow.indexOf(current);
-      const idxNext = flow.indexOf(next);
-
-      if (idxCurrent === -1) {
-        return res.status(400).json({
-          success: false,
-          message: `Order must be ACCEPTED before moving to ${next}`,
-        });
-      }
+      const { status, note, ...delivery } = parsed.data;
 
-      if (idxNext <= idxCurrent) {
-        return res.status(400).json({
-          success: false,
-          message: `Cannot move from ${current} to ${next}`,
-        });
-      }
-
-      const updated = await prisma.order.update({
-        where: { id: order.id },
-        data: { status: next as any },
-        select: {
-          id: true,
-          status: true,
-          paymentStatus: true,
-          updatedAt: true,
-        },
+      const { order, delivery: createdDelivery } = await transitionOrder(req.params.orderId, status, {
+        actor: "vendor",
+        actorId: req.vendorMember?.id ?? req.vendorId,
+        scope: { vendorId: req.vendorId },
+        note: note ?? null,
+        delivery,
       });
+      await recordVendorActivity(req, "order.status", order.id, { status });
 
       return res.json({
         success: true,
-        message: `Order updated to ${next}`,
-        order: updated,
+        message: `Order updated to ${status}`,
+        order,
+        ...(createdDelivery ? { delivery: createdDelivery } : {}),
       });
     } catch (error) {
+      const handled = transitionErrorResponse(res, error);
+      if (handled) return handled;
       console.error("Vendor update order status error:", error);
       return res.status(500).json({
         success: false,
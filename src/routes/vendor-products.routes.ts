@@ -1,50 +1,38 @@
 // src/routes/vendor-products.routes.ts
 import { Router, Response } from "express";
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma";
+import { syncStockFlags } from "../lib/inventory";
+import { CategoryError, resolveProductCategory } from "../lib/categories";
+import { isDuplicateSkuError, variantCreateSchema, variantUpdateSchema } from "../lib/variants";
+import {
+  materialChanges,
+  notifyVendorOfReview,
+  recordModerationEvent,
+  sendBackToReview,
+  statusAfterVendorEdit,
+} from "../lib/product-moderation";
+import {
+  ImageError,
+  MAX_IMAGES_PER_PRODUCT,
+  deleteProductImages,
+  externalImage,
+  imageUpload,
+  processProductImage,
+  removeImageFiles,
+  reorderImages,
+  replaceCoverImage,
+  syncCoverImage,
+} from "../lib/product-images";
 import {
   requireVendorAuth,
   VendorAuthenticatedRequest,
 } from "../middleware/vendorAuth";
-
-import multer from "multer";
-import path from "path";
-import fs from "fs";
+import { recordVendorActivity, requireVendorPermission } from "../lib/vendor-team";
 
 const router = Router();
 
-// =======================
-// Upload config (multer)
-// =======================
-const UPLOAD_DIR = path.join(process.cwd(), "uploads", "vendor-products");
-
-// ensure folder exists
-if (!fs.existsSync(UPLOAD_DIR)) {
-  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
-}
-
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => cb(null, UPLOAD_DIR),
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname || "").toLowerCase();
-    const safeExt = ext && ext.length <= 10 ? ext : "";
-    const name = `vp_${Date.now()}_${Math.random().toString(16).slice(2)}${safeExt}`;
-    cb(null, name);
-  },
-});
-
-const upload = multer({
-  storage,
-  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
-  fileFilter: (_req, file, cb) => {
-    // accept only images
-    if (!file.mimetype || !file.mimetype.startsWith("image/")) {
-      return cb(new Error("Only image uploads are allowed"));
-    }
-    cb(null, true);
-  },
-});
-
 // =======================
 // Zod schemas
 // =======================
@@ -65,18 +53,67 @@ const createProductSchema = z.object({
     .int()
     .min(1, "Price must be at least 1 cent"),
 
+  // From GET /api/categories; `category` also accepts a category slug or name
+  categoryId: z.string().min(1).optional(),
   category: z.string().optional(),
 
-  // NOTE: keeping your validation as-is for create-by-URL.
-  // Upload endpoint below will set imageUrl to a public /uploads/... path.
+  // Shipping weight/dimensions (see lib/shipping.ts)
+  weightGrams: z.number().int().positive().max(1000000).optional(),
+  lengthCm: z.number().int().positive().max(1000).optional(),
+  widthCm: z.number().int().positive().max(1000).optional(),
+  heightCm: z.number().int().positive().max(1000).optional(),
+
+  // Inventory (see lib/inventory.ts); leave stockQuantity out to not track stock
+  stockQuantity: z.number().int().min(0).max(1000000).optional(),
+  lowStockThreshold: z.number().int().min(0).max(1000000).optional(),
+
+  // External image URL; becomes the cover of the gallery (see POST /:id/images for uploads)
   imageUrl: z.string().url("imageUrl must be a valid URL").optional(),
 
   isAvailable: z.boolean().optional(),
+
+  // ACTIVE (default) submits it for review; DRAFT keeps it private
+  status: z.enum(["DRAFT", "ACTIVE"]).optional(),
 });
 
+// Fields returned to the vendor for list/create/update
+const productSelect = {
+  id: true,
+  name: true,
+  description: true,
+  shortDesc: true,
+  benefits: true,
+  relatedIds: true,
+  priceUsdCents: true,
+  categoryId: true,
+  category: true,
+  weightGrams: true,
+  lengthCm: true,
+  widthCm: true,
+  heightCm: true,
+  stockQuantity: true,
+  reservedQuantity: true,
+  lowStockThreshold: true,
+  imageUrl: true,
+  isAvailable: true,
+  status: true,
+  approvedAt: true,
+  rejectionReason: true,
+  isDeleted: true,
+  createdAt: true,
+  updatedAt: true,
+  variants: {
+    where: { isDeleted: false },
+    orderBy: { sortOrder: "asc" },
+  },
+  images: {
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+  },
+} satisfies Prisma.ProductSelect;
+
 const listProductsQuerySchema = z.object({
   status: z
-    .enum(["DRAFT", "ACTIVE", "INACTIVE"])
+    .enum(["DRAFT", "PENDING_REVIEW", "ACTIVE", "INACTIVE", "REJECTED"])
     .optional()
     .or(z.literal("").transform(() => undefined)),
   includeDeleted: z
@@ -92,6 +129,7 @@ const listProductsQuerySchema = z.object({
 router.post(
   "/",
   requireVendorAuth,
+  requireVendorPermission("products:write"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -117,42 +155,63 @@ router.post(
         benefits,
         relatedIds,
         priceUsdCents,
+        categoryId,
         category,
         imageUrl,
         isAvailable,
+        weightGrams,
+        lengthCm,
+        widthCm,
+        heightCm,
+        stockQuantity,
+        lowStockThreshold,
+        status,
       } = parsed.data;
 
-      const product = await prisma.product.create({
-        data: {
-          vendorId: req.vendorId,
-          name,
-          description: description || null,
-          shortDesc: shortDesc || null,
-          benefits: benefits ?? [],
-          relatedIds: relatedIds ?? [],
-          priceUsdCents,
-          category: category || null,
-          imageUrl: imageUrl || null,
-          isAvailable: isAvailable ?? true,
-          status: "ACTIVE", // Default to ACTIVE so products are visible
-        },
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          shortDesc: true,
-          benefits: true,
-          relatedIds: true,
-          priceUsdCents: true,
-          category: true,
-          imageUrl: true,
-          isAvailable: true,
-          status: true,
-          isDeleted: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+      const vendorId = req.vendorId;
+      const taxonomy = await resolveProductCategory({ categoryId, category: category || undefined });
+      const initialStatus = status === "DRAFT" ? "DRAFT" : "PENDING_REVIEW";
+
+      const product = await prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            vendorId,
+            name,
+            description: description || null,
+            shortDesc: shortDesc || null,
+            benefits: benefits ?? [],
+            relatedIds: relatedIds ?? [],
+            priceUsdCents,
+            categoryId: taxonomy?.categoryId ?? null,
+            category: taxonomy?.category ?? null,
+            imageUrl: imageUrl || null,
+            isAvailable: isAvailable ?? true,
+            weightGrams: weightGrams ?? null,
+            lengthCm: lengthCm ?? null,
+            widthCm: widthCm ?? null,
+            heightCm: heightCm ?? null,
+            stockQuantity: stockQuantity ?? null,
+            lowStockThreshold: lowStockThreshold ?? null,
+            status: initialStatus, // public once an admin approves it
+          },
+          select: { id: true },
+        });
+
+        await recordModerationEvent(tx, created.id, "DRAFT", initialStatus, "vendor", vendorId);
+
+        if (imageUrl) {
+          await tx.productImage.create({ data: { ...externalImage(imageUrl), productId: created.id } });
+        }
+
+        // Created with 0 in stock -> starts out sold out
+        await syncStockFlags(tx, [created.id]);
+
+        return tx.product.findUniqueOrThrow({
+          where: { id: created.id },
+          select: productSelect,
+        });
       });
+      await recordVendorActivity(req, "product.create", product.id, { name: product.name });
 
       return res.status(201).json({
         success: true,
@@ -160,6 +219,11 @@ router.post(
         product,
       });
     } catch (error) {
+      if (error instanceof CategoryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
       console.error("Create product error:", error);
       return res
         .status(500)
@@ -170,13 +234,14 @@ router.post(
 
 // =======================
 // ✅ POST /api/vendor/products/:id/image
-// Upload product image (multipart/form-data)
+// Upload product image (multipart/form-data); replaces the gallery cover
 // Field name: "image"
 // =======================
 router.post(
   "/:id/image",
   requireVendorAuth,
-  upload.single("image"),
+  requireVendorPermission("products:write"),
+  imageUpload.single("image"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -206,28 +271,29 @@ router.post(
       });
 
       if (!product) {
-        // cleanup uploaded file
-        try {
-          fs.unlinkSync(req.file.path);
-        } catch {}
         return res.status(404).json({
           success: false,
           message: "Product not found for this vendor",
         });
       }
 
-      // public URL path served by app.ts: app.use("/uploads", express.static(...))
-      const publicPath = `/uploads/vendor-products/${req.file.filename}`;
+      const processed = await processProductImage(product.id, req.file.buffer);
 
-      const updated = await prisma.product.update({
-        where: { id: productId },
-        data: { imageUrl: publicPath },
-        select: {
-          id: true,
-          imageUrl: true,
-          updatedAt: true,
-        },
+      // Replaces the cover; the old cover's files go once the swap is committed
+      const { updated, replacedKey } = await prisma.$transaction(async (tx) => {
+        const replacedKey = await replaceCoverImage(tx, product.id, processed);
+        const updated = await tx.product.findUniqueOrThrow({
+          where: { id: product.id },
+          select: {
+            id: true,
+            imageUrl: true,
+            updatedAt: true,
+          },
+        });
+        return { updated, replacedKey };
       });
+      await removeImageFiles([replacedKey]);
+      await recordVendorActivity(req, "product.image.replace", product.id);
 
       return res.json({
         success: true,
@@ -235,6 +301,11 @@ router.post(
         product: updated,
       });
     } catch (error: any) {
+      if (error instanceof ImageError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
       console.error("Upload product image error:", error);
 
       // multer fileFilter errors show up here too
@@ -255,6 +326,7 @@ router.post(
 router.get(
   "/",
   requireVendorAuth,
+  requireVendorPermission("products:read"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -282,22 +354,7 @@ router.get(
           ...(includeDeleted ? {} : { isDeleted: false }),
         },
         orderBy: { createdAt: "desc" },
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          shortDesc: true,
-          benefits: true,
-          relatedIds: true,
-          priceUsdCents: true,
-          category: true,
-          imageUrl: true,
-          isAvailable: true,
-          status: true,
-          isDeleted: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: productSelect,
       });
 
       return res.json({
@@ -324,15 +381,24 @@ const updateProductSchema = z.object({
   benefits: z.array(z.string().min(1)).optional(),
   relatedIds: z.array(z.string().min(1)).optional(),
   priceUsdCents: z.number().int().min(1).optional(),
+  categoryId: z.string().min(1).optional().nullable(),
   category: z.string().optional().nullable(),
   imageUrl: z.string().url().optional().nullable(),
   isAvailable: z.boolean().optional(),
   status: z.enum(["DRAFT", "ACTIVE", "INACTIVE"]).optional(),
+  weightGrams: z.number().int().positive().max(1000000).optional().nullable(),
+  lengthCm: z.number().int().positive().max(1000).optional().nullable(),
+  widthCm: z.number().int().positive().max(1000).optional().nullable(),
+  heightCm: z.number().int().positive().max(1000).optional().nullable(),
+  // null stops tracking stock for this product
+  stockQuantity: z.number().int().min(0).max(1000000).optional().nullable(),
+  lowStockThreshold: z.number().int().min(0).max(1000000).optional().nullable(),
 });
 
 router.patch(
   "/:id",
   requireVendorAuth,
+  requireVendorPermission("products:write"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -377,44 +443,101 @@ router.patch(
 
       const data = parsed.data;
 
-      const product = await prisma.product.update({
-        where: { id: productId },
-        data: {
-          ...(data.name !== undefined && { name: data.name }),
-          ...(data.description !== undefined && { description: data.description }),
-          ...(data.shortDesc !== undefined && { shortDesc: data.shortDesc }),
-          ...(data.benefits !== undefined && { benefits: data.benefits }),
-          ...(data.relatedIds !== undefined && { relatedIds: data.relatedIds }),
-          ...(data.priceUsdCents !== undefined && { priceUsdCents: data.priceUsdCents }),
-          ...(data.category !== undefined && { category: data.category }),
-          ...(data.imageUrl !== undefined && { imageUrl: data.imageUrl }),
-          ...(data.isAvailable !== undefined && { isAvailable: data.isAvailable }),
-          ...(data.status !== undefined && { status: data.status }),
-        },
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          shortDesc: true,
-          benefits: true,
-          relatedIds: true,
-          priceUsdCents: true,
-          category: true,
-          imageUrl: true,
-          isAvailable: true,
-          status: true,
-          isDeleted: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+      // Can't drop below what unpaid orders and accepted barters are holding
+      if (
+        typeof data.stockQuantity === "number" &&
+        data.stockQuantity < existing.reservedQuantity
+      ) {
+        return res.status(409).json({
+          success: false,
+          message: `${existing.reservedQuantity} units are reserved by open orders or barters; stockQuantity cannot be lower`,
+        });
+      }
+
+      const taxonomy = await resolveProductCategory({
+        categoryId: data.categoryId,
+        category: data.category,
       });
 
+      // Publishing and material edits go through admin review (see lib/product-moderation.ts)
+      const review = statusAfterVendorEdit(existing, data);
+      let replacedKey: string | null = null;
+
+      const product = await prisma.$transaction(async (tx) => {
+        await tx.product.update({
+          where: { id: productId },
+          data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.description !== undefined && { description: data.description }),
+            ...(data.shortDesc !== undefined && { shortDesc: data.shortDesc }),
+            ...(data.benefits !== undefined && { benefits: data.benefits }),
+            ...(data.relatedIds !== undefined && { relatedIds: data.relatedIds }),
+            ...(data.priceUsdCents !== undefined && { priceUsdCents: data.priceUsdCents }),
+            ...(taxonomy && { categoryId: taxonomy.categoryId, category: taxonomy.category }),
+            ...(data.imageUrl !== undefined && { imageUrl: data.imageUrl }),
+            // A manual switch overrides the automatic sold-out flag
+            ...(data.isAvailable !== undefined && { isAvailable: data.isAvailable, soldOutAt: null }),
+            status: review.status,
+            ...(review.approvalLost && { approvedAt: null }),
+            ...(data.weightGrams !== undefined && { weightGrams: data.weightGrams }),
+            ...(data.lengthCm !== undefined && { lengthCm: data.lengthCm }),
+            ...(data.widthCm !== undefined && { widthCm: data.widthCm }),
+            ...(data.heightCm !== undefined && { heightCm: data.heightCm }),
+            ...(data.stockQuantity !== undefined && { stockQuantity: data.stockQuantity }),
+            ...(data.lowStockThreshold !== undefined && {
+              lowStockThreshold: data.lowStockThreshold,
+              lowStockAlertedAt: null, // re-check against the new threshold
+            }),
+          },
+        });
+
+        await syncStockFlags(tx, [productId]);
+
+        // imageUrl swaps the gallery cover (null drops it)
+        if (data.imageUrl !== undefined) {
+          replacedKey = await replaceCoverImage(
+            tx,
+            productId,
+            data.imageUrl ? externalImage(data.imageUrl) : null
+          );
+        }
+
+        await recordModerationEvent(
+          tx,
+          productId,
+          existing.status,
+          review.status,
+          "vendor",
+          req.vendorId!,
+          review.reason
+        );
+
+        return tx.product.findUniqueOrThrow({
+          where: { id: productId },
+          select: productSelect,
+        });
+      });
+
+      await removeImageFiles([replacedKey]);
+      if (review.backToReview) {
+        await notifyVendorOfReview(productId, "IN_REVIEW", review.reason);
+      }
+      await recordVendorActivity(req, "product.update", productId, { fields: Object.keys(data) });
+
       return res.json({
         success: true,
-        message: "Product updated successfully",
+        message:
+          review.status === "PENDING_REVIEW" && existing.status !== "PENDING_REVIEW"
+            ? "Product updated and submitted for review"
+            : "Product updated successfully",
         product,
       });
     } catch (error) {
+      if (error instanceof CategoryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
       console.error("Update product error:", error);
       return res
         .status(500)
@@ -430,6 +553,7 @@ router.patch(
 router.delete(
   "/:id",
   requireVendorAuth,
+  requireVendorPermission("products:write"),
   async (req: VendorAuthenticatedRequest, res: Response) => {
     try {
       if (!req.vendorId) {
@@ -464,9 +588,13 @@ router.delete(
 
       await prisma.product.update({
         where: { id: productId },
-        data: { isDeleted: true },
+        data: { isDeleted: true, imageUrl: null },
       });
 
+      // Past orders keep their snapshots; the image files can go
+      await deleteProductImages([productId]);
+      await recordVendorActivity(req, "product.delete", productId);
+
       return res.json({
         success: true,
         message: "Product deleted successfully",
@@ -480,4 +608,626 @@ router.delete(
   }
 );
 
+// =======================
+// Variants: /api/vendor/products/:id/variants
+// Sizes/packs with their own SKU, price and stock (see lib/variants.ts)
+// =======================
+async function findVendorProduct(vendorId: string, productId: string) {
+  return prisma.product.findFirst({
+    where: { id: productId, vendorId, isDeleted: false },
+    select: { id: true, vendorId: true, approvedSnapshot: true },
+  });
+}
+
+// GET /api/vendor/products/:id/variants
+router.get(
+  "/:id/variants",
+  requireVendorAuth,
+  requireVendorPermission("products:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const variants = await prisma.productVariant.findMany({
+        where: { productId: product.id, isDeleted: false },
+        orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+      });
+
+      return res.json({ success: true, variants });
+    } catch (error) {
+      console.error("List variants error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/products/:id/variants
+router.post(
+  "/:id/variants",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = variantCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const data = parsed.data;
+      let backToReview = false;
+      let reviewReason: string | null = null;
+
+      const variant = await prisma.$transaction(async (tx) => {
+        const created = await tx.productVariant.create({
+          data: {
+            productId: product.id,
+            vendorId: product.vendorId,
+            sku: data.sku,
+            name: data.name,
+            attributes: data.attributes ?? {},
+            priceUsdCents: data.priceUsdCents,
+            weightGrams: data.weightGrams ?? null,
+            stockQuantity: data.stockQuantity ?? null,
+            lowStockThreshold: data.lowStockThreshold ?? null,
+            isAvailable: data.isAvailable ?? true,
+            sortOrder: data.sortOrder ?? 0,
+          },
+        });
+
+        await syncStockFlags(tx, [], [created.id]);
+
+        // A new size priced far from the approved price needs another look
+        const changes = materialChanges(product.approvedSnapshot, {
+          variant: { variantId: null, priceUsdCents: data.priceUsdCents },
+        });
+        if (changes.length) {
+          reviewReason = changes.join("; ");
+          backToReview = await sendBackToReview(tx, product.id, reviewReason, "vendor", product.vendorId);
+        }
+
+        return tx.productVariant.findUniqueOrThrow({ where: { id: created.id } });
+      });
+
+      if (backToReview) {
+        await notifyVendorOfReview(product.id, "IN_REVIEW", reviewReason);
+      }
+      await recordVendorActivity(req, "product.variant.create", product.id, { variantId: variant.id });
+
+      return res.status(201).json({
+        success: true,
+        message: "Variant created successfully",
+        variant,
+      });
+    } catch (error) {
+      if (isDuplicateSkuError(error)) {
+        return res.status(409).json({
+          success: false,
+          message: "You already have a variant with this SKU",
+        });
+      }
+      console.error("Create variant error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// PATCH /api/vendor/products/:id/variants/:variantId
+router.patch(
+  "/:id/variants/:variantId",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = variantUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const existing = await prisma.productVariant.findFirst({
+        where: {
+          id: String(req.params.variantId),
+          productId: String(req.params.id),
+          vendorId: req.vendorId,
+          isDeleted: false,
+        },
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: "Variant not found",
+        });
+      }
+
+      const data = parsed.data;
+
+      // Can't drop below what unpaid orders and accepted barters are holding
+      if (
+        typeof data.stockQuantity === "number" &&
+        data.stockQuantity < existing.reservedQuantity
+      ) {
+        return res.status(409).json({
+          success: false,
+          message: `${existing.reservedQuantity} units are reserved by open orders or barters; stockQuantity cannot be lower`,
+        });
+      }
+
+      let backToReview = false;
+      let reviewReason: string | null = null;
+
+      const variant = await prisma.$transaction(async (tx) => {
+        await tx.productVariant.update({
+          where: { id: existing.id },
+          data: {
+            ...(data.sku !== undefined && { sku: data.sku }),
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.attributes !== undefined && { attributes: data.attributes }),
+            ...(data.priceUsdCents !== undefined && { priceUsdCents: data.priceUsdCents }),
+            ...(data.weightGrams !== undefined && { weightGrams: data.weightGrams }),
+            // A manual switch overrides the automatic sold-out flag
+            ...(data.isAvailable !== undefined && { isAvailable: data.isAvailable, soldOutAt: null }),
+            ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+            ...(data.stockQuantity !== undefined && { stockQuantity: data.stockQuantity }),
+            ...(data.lowStockThreshold !== undefined && {
+              lowStockThreshold: data.lowStockThreshold,
+              lowStockAlertedAt: null, // re-check against the new threshold
+            }),
+          },
+        });
+
+        await syncStockFlags(tx, [], [existing.id]);
+
+        if (data.priceUsdCents !== undefined) {
+          const product = await tx.product.findUniqueOrThrow({
+            where: { id: existing.productId },
+            select: { approvedSnapshot: true },
+          });
+          const changes = materialChanges(product.approvedSnapshot, {
+            variant: { variantId: existing.id, priceUsdCents: data.priceUsdCents },
+          });
+          if (changes.length) {
+            reviewReason = changes.join("; ");
+            backToReview = await sendBackToReview(tx, existing.productId, reviewReason, "vendor", existing.vendorId);
+          }
+        }
+
+        return tx.productVariant.findUniqueOrThrow({ where: { id: existing.id } });
+      });
+
+      if (backToReview) {
+        await notifyVendorOfReview(existing.productId, "IN_REVIEW", reviewReason);
+      }
+      await recordVendorActivity(req, "product.variant.update", existing.productId, { variantId: existing.id });
+
+      return res.json({
+        success: true,
+        message: "Variant updated successfully",
+        variant,
+      });
+    } catch (error) {
+      if (isDuplicateSkuError(error)) {
+        return res.status(409).json({
+          success: false,
+          message: "You already have a variant with this SKU",
+        });
+      }
+      console.error("Update variant error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// DELETE /api/vendor/products/:id/variants/:variantId
+// Soft delete: past orders keep pointing at it
+router.delete(
+  "/:id/variants/:variantId",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const deleted = await prisma.productVariant.updateMany({
+        where: {
+          id: String(req.params.variantId),
+          productId: String(req.params.id),
+          vendorId: req.vendorId,
+          isDeleted: false,
+        },
+        data: { isDeleted: true, isAvailable: false },
+      });
+
+      if (deleted.count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Variant not found",
+        });
+      }
+      await recordVendorActivity(req, "product.variant.delete", String(req.params.id), {
+        variantId: String(req.params.variantId),
+      });
+
+      return res.json({
+        success: true,
+        message: "Variant deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete variant error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// =======================
+// Gallery: /api/vendor/products/:id/images
+// Ordered images with alt text; uploads become thumb/medium/large webp renditions
+// (see lib/product-images.ts). The first image is the cover (Product.imageUrl).
+// =======================
+const imageUpdateSchema = z.object({
+  altText: z.string().trim().max(200).nullable(),
+});
+
+const imageOrderSchema = z.object({
+  imageIds: z.array(z.string().min(1)).min(1).max(MAX_IMAGES_PER_PRODUCT),
+});
+
+const imageOrderBy = [{ sortOrder: "asc" as const }, { createdAt: "asc" as const }];
+
+// GET /api/vendor/products/:id/images
+router.get(
+  "/:id/images",
+  requireVendorAuth,
+  requireVendorPermission("products:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const images = await prisma.productImage.findMany({
+        where: { productId: product.id },
+        orderBy: imageOrderBy,
+      });
+
+      return res.json({ success: true, images });
+    } catch (error) {
+      console.error("List images error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// POST /api/vendor/products/:id/images
+// multipart/form-data: "images" (up to 10 files), optional "altText" per file in the same order
+router.post(
+  "/:id/images",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  imageUpload.array("images", MAX_IMAGES_PER_PRODUCT),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    const processed: Awaited<ReturnType<typeof processProductImage>>[] = [];
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (!files.length) {
+        return res.status(400).json({
+          success: false,
+          message: "No images uploaded. Use form-data field name: images",
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const existingCount = await prisma.productImage.count({ where: { productId: product.id } });
+      if (existingCount + files.length > MAX_IMAGES_PER_PRODUCT) {
+        return res.status(409).json({
+          success: false,
+          message: `A product can have at most ${MAX_IMAGES_PER_PRODUCT} images (it has ${existingCount})`,
+        });
+      }
+
+      const altTexts = ([] as unknown[]).concat(req.body?.altText ?? []);
+
+      for (const file of files) {
+        try {
+          processed.push(await processProductImage(product.id, file.buffer));
+        } catch (e) {
+          if (e instanceof ImageError) {
+            e.message = `${file.originalname}: ${e.message}`;
+          }
+          throw e;
+        }
+      }
+
+      const images = await prisma.$transaction(async (tx) => {
+        await tx.productImage.createMany({
+          data: processed.map((image, i) => ({
+            ...image,
+            productId: product.id,
+            altText: typeof altTexts[i] === "string" && altTexts[i] ? String(altTexts[i]).trim().slice(0, 200) : null,
+            sortOrder: existingCount + i,
+          })),
+        });
+        await syncCoverImage(tx, product.id);
+
+        return tx.productImage.findMany({
+          where: { productId: product.id },
+          orderBy: imageOrderBy,
+        });
+      });
+      await recordVendorActivity(req, "product.images.add", product.id, { count: files.length });
+
+      return res.status(201).json({
+        success: true,
+        message: files.length === 1 ? "Image uploaded successfully" : `${files.length} images uploaded`,
+        images,
+      });
+    } catch (error) {
+      // Nothing was saved; don't leave renditions behind
+      await removeImageFiles(processed.map((p) => p.storageKey));
+
+      if (error instanceof ImageError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
+      console.error("Upload images error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// PUT /api/vendor/products/:id/images/order  { imageIds } (first = cover)
+router.put(
+  "/:id/images/order",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = imageOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const images = await prisma.$transaction(async (tx) => {
+        await reorderImages(tx, product.id, parsed.data.imageIds);
+        await syncCoverImage(tx, product.id);
+
+        return tx.productImage.findMany({
+          where: { productId: product.id },
+          orderBy: imageOrderBy,
+        });
+      });
+      await recordVendorActivity(req, "product.images.reorder", product.id);
+
+      return res.json({ success: true, images });
+    } catch (error) {
+      if (error instanceof ImageError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, message: error.message });
+      }
+      console.error("Reorder images error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// PATCH /api/vendor/products/:id/images/:imageId  { altText }
+router.patch(
+  "/:id/images/:imageId",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = imageUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const updated = await prisma.productImage.updateMany({
+        where: { id: String(req.params.imageId), productId: product.id },
+        data: { altText: parsed.data.altText || null },
+      });
+
+      if (updated.count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Image not found",
+        });
+      }
+
+      const image = await prisma.productImage.findUnique({
+        where: { id: String(req.params.imageId) },
+      });
+      await recordVendorActivity(req, "product.image.update", product.id, { imageId: String(req.params.imageId) });
+
+      return res.json({ success: true, image });
+    } catch (error) {
+      console.error("Update image error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// DELETE /api/vendor/products/:id/images/:imageId  (files are removed too)
+router.delete(
+  "/:id/images/:imageId",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const product = await findVendorProduct(req.vendorId, String(req.params.id));
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: "Product not found",
+        });
+      }
+
+      const image = await prisma.productImage.findFirst({
+        where: { id: String(req.params.imageId), productId: product.id },
+        select: { id: true, storageKey: true },
+      });
+
+      if (!image) {
+        return res.status(404).json({
+          success: false,
+          message: "Image not found",
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.productImage.delete({ where: { id: image.id } });
+        await reorderImages(tx, product.id, []);
+        await syncCoverImage(tx, product.id);
+      });
+      await removeImageFiles([image.storageKey]);
+      await recordVendorActivity(req, "product.image.delete", product.id, { imageId: image.id });
+
+      return res.json({
+        success: true,
+        message: "Image deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete image error:", error);
+      return res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
 export default router;
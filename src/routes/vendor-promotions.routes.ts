@@ -0,0 +1,284 @@
+// src/routes/vendor-promotions.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import {
+  requireVendorAuth,
+  VendorAuthenticatedRequest,
+} from "../middleware/vendorAuth";
+import { recordVendorActivity, requireVendorPermission } from "../lib/vendor-team";
+import {
+  deletePromotion,
+  getPromotionStats,
+  isDuplicateCodeError,
+  promotionCreateSchema,
+  promotionProductsError,
+  promotionRuleError,
+  promotionUpdateSchema,
+} from "../lib/promotions";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  isActive: z.enum(["true", "false"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// GET /api/vendor/promotions  -> this vendor's promotions
+router.get(
+  "/",
+  requireVendorAuth,
+  requireVendorPermission("products:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = listQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid query parameters",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const { isActive, page, pageSize } = parsed.data;
+      const where = {
+        vendorId: req.vendorId,
+        ...(isActive ? { isActive: isActive === "true" } : {}),
+      };
+
+      const [total, promotions] = await Promise.all([
+        prisma.promotion.count({ where }),
+        prisma.promotion.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      return res.json({
+        success: true,
+        promotions,
+        pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+      });
+    } catch (error) {
+      console.error("Vendor list promotions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/vendor/promotions  -> always scoped to the vendor's own products
+router.post(
+  "/",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = promotionCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const data = parsed.data;
+
+      const ruleError = promotionRuleError({
+        type: data.type,
+        percentOff: data.percentOff ?? null,
+        amountOffUsdCents: data.amountOffUsdCents ?? null,
+        buyQuantity: data.buyQuantity ?? null,
+        getQuantity: data.getQuantity ?? null,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+      });
+      if (ruleError) {
+        return res.status(400).json({ success: false, message: ruleError });
+      }
+
+      const productError = await promotionProductsError(data.productIds ?? [], req.vendorId);
+      if (productError) {
+        return res.status(400).json({ success: false, message: productError });
+      }
+
+      const promotion = await prisma.promotion.create({
+        data: { ...data, vendorId: req.vendorId },
+      });
+      await recordVendorActivity(req, "promotion.create", promotion.id, { name: promotion.name });
+
+      return res.status(201).json({ success: true, promotion });
+    } catch (error) {
+      if (isDuplicateCodeError(error)) {
+        return res.status(409).json({
+          success: false,
+          message: "Promotion code already exists",
+        });
+      }
+      console.error("Vendor create promotion error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/vendor/promotions/:id  -> promotion + redemption stats
+router.get(
+  "/:id",
+  requireVendorAuth,
+  requireVendorPermission("products:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const promotion = await prisma.promotion.findFirst({
+        where: { id: req.params.id, vendorId: req.vendorId },
+      });
+
+      if (!promotion) {
+        return res.status(404).json({ success: false, message: "Promotion not found" });
+      }
+
+      const stats = await getPromotionStats(promotion.id);
+
+      return res.json({ success: true, promotion, stats });
+    } catch (error) {
+      console.error("Vendor get promotion error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// PATCH /api/vendor/promotions/:id
+router.patch(
+  "/:id",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = promotionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const existing = await prisma.promotion.findFirst({
+        where: { id: req.params.id, vendorId: req.vendorId },
+      });
+      if (!existing) {
+        return res.status(404).json({ success: false, message: "Promotion not found" });
+      }
+
+      const data = parsed.data;
+
+      const ruleError = promotionRuleError({ ...existing, ...data });
+      if (ruleError) {
+        return res.status(400).json({ success: false, message: ruleError });
+      }
+
+      if (data.productIds) {
+        const productError = await promotionProductsError(data.productIds, req.vendorId);
+        if (productError) {
+          return res.status(400).json({ success: false, message: productError });
+        }
+      }
+
+      const promotion = await prisma.promotion.update({
+        where: { id: existing.id },
+        data,
+      });
+      await recordVendorActivity(req, "promotion.update", promotion.id, { fields: Object.keys(data) });
+
+      return res.json({ success: true, promotion });
+    } catch (error) {
+      if (isDuplicateCodeError(error)) {
+        return res.status(409).json({
+          success: false,
+          message: "Promotion code already exists",
+        });
+      }
+      console.error("Vendor update promotion error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// DELETE /api/vendor/promotions/:id  (redeemed promotions are deactivated instead)
+router.delete(
+  "/:id",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const existing = await prisma.promotion.findFirst({
+        where: { id: req.params.id, vendorId: req.vendorId },
+      });
+      if (!existing) {
+        return res.status(404).json({ success: false, message: "Promotion not found" });
+      }
+
+      const result = await deletePromotion(existing);
+      await recordVendorActivity(req, "promotion.delete", existing.id, { name: existing.name });
+
+      return res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Vendor delete promotion error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,224 @@
+// src/routes/vendor-shipping.routes.ts
+import { Router, Response } from "express";
+import { prisma } from "../lib/prisma";
+import {
+  requireVendorAuth,
+  VendorAuthenticatedRequest,
+} from "../middleware/vendorAuth";
+import { recordVendorActivity, requireVendorPermission } from "../lib/vendor-team";
+import {
+  shippingRateCreateSchema,
+  shippingRateError,
+  shippingRateUpdateSchema,
+} from "../lib/shipping";
+
+const router = Router();
+
+// GET /api/vendor/shipping/zones  -> zones with the platform table and this vendor's overrides
+router.get(
+  "/zones",
+  requireVendorAuth,
+  requireVendorPermission("products:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const zones = await prisma.shippingZone.findMany({
+        where: { isActive: true },
+        orderBy: [{ priority: "desc" }, { name: "asc" }],
+        include: {
+          rates: {
+            where: { isActive: true, OR: [{ vendorId: null }, { vendorId: req.vendorId }] },
+            orderBy: [{ shippingType: "asc" }, { minWeightGrams: "asc" }],
+          },
+        },
+      });
+
+      return res.json({ success: true, zones });
+    } catch (error) {
+      console.error("Vendor shipping zones error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/vendor/shipping/rates  -> this vendor's override rows
+router.get(
+  "/rates",
+  requireVendorAuth,
+  requireVendorPermission("products:read"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const rates = await prisma.shippingRate.findMany({
+        where: { vendorId: req.vendorId },
+        orderBy: [{ zoneId: "asc" }, { shippingType: "asc" }, { minWeightGrams: "asc" }],
+        include: { zone: { select: { id: true, name: true } } },
+      });
+
+      return res.json({ success: true, rates });
+    } catch (error) {
+      console.error("Vendor list shipping rates error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/vendor/shipping/rates
+// Once a vendor has rows for a zone + shipping type, they replace the platform table there.
+router.post(
+  "/rates",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = shippingRateCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const rateError = shippingRateError(parsed.data);
+      if (rateError) {
+        return res.status(400).json({ success: false, message: rateError });
+      }
+
+      const zone = await prisma.shippingZone.findFirst({
+        where: { id: parsed.data.zoneId, isActive: true },
+        select: { id: true },
+      });
+      if (!zone) {
+        return res.status(404).json({ success: false, message: "Shipping zone not found" });
+      }
+
+      const rate = await prisma.shippingRate.create({
+        data: { ...parsed.data, vendorId: req.vendorId },
+      });
+      await recordVendorActivity(req, "shipping_rate.create", rate.id, { zoneId: rate.zoneId });
+
+      return res.status(201).json({ success: true, rate });
+    } catch (error) {
+      console.error("Vendor create shipping rate error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// PATCH /api/vendor/shipping/rates/:id
+router.patch(
+  "/rates/:id",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = shippingRateUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const existing = await prisma.shippingRate.findFirst({
+        where: { id: req.params.id, vendorId: req.vendorId },
+      });
+      if (!existing) {
+        return res.status(404).json({ success: false, message: "Shipping rate not found" });
+      }
+
+      const rateError = shippingRateError({ ...existing, ...parsed.data });
+      if (rateError) {
+        return res.status(400).json({ success: false, message: rateError });
+      }
+
+      const rate = await prisma.shippingRate.update({
+        where: { id: existing.id },
+        data: parsed.data,
+      });
+      await recordVendorActivity(req, "shipping_rate.update", rate.id, { fields: Object.keys(parsed.data) });
+
+      return res.json({ success: true, rate });
+    } catch (error) {
+      console.error("Vendor update shipping rate error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// DELETE /api/vendor/shipping/rates/:id
+router.delete(
+  "/rates/:id",
+  requireVendorAuth,
+  requireVendorPermission("products:write"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const existing = await prisma.shippingRate.findFirst({
+        where: { id: req.params.id, vendorId: req.vendorId },
+      });
+      if (!existing) {
+        return res.status(404).json({ success: false, message: "Shipping rate not found" });
+      }
+
+      await prisma.shippingRate.delete({ where: { id: existing.id } });
+      await recordVendorActivity(req, "shipping_rate.delete", existing.id, { zoneId: existing.zoneId });
+
+      return res.json({ success: true, message: "Shipping rate deleted" });
+    } catch (error) {
+      console.error("Vendor delete shipping rate error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,282 @@
+// src/routes/vendor-team.routes.ts
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import {
+  requireVendorAuth,
+  VendorAuthenticatedRequest,
+} from "../middleware/vendorAuth";
+import {
+  inviteMember,
+  memberSelect,
+  recordVendorActivity,
+  removeMember,
+  requireVendorPermission,
+  resendInvitation,
+  updateMember,
+  VendorTeamError,
+} from "../lib/vendor-team";
+
+const router = Router();
+
+const roleSchema = z.enum(["OWNER", "MANAGER", "FULFILMENT", "FINANCE"]);
+
+const inviteSchema = z.object({
+  email: z.string().email(),
+  name: z.string().trim().min(1).max(100).optional(),
+  role: roleSchema,
+});
+
+const updateMemberSchema = z
+  .object({
+    role: roleSchema.optional(),
+    status: z.enum(["ACTIVE", "DISABLED"]).optional(),
+  })
+  .refine((v) => v.role !== undefined || v.status !== undefined, {
+    message: "Nothing to update",
+  });
+
+const activityQuerySchema = z.object({
+  memberId: z.string().optional(),
+  action: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Every route here needs team:manage, which only owners have
+
+// GET /api/vendor/team  -> members and pending invitations
+router.get(
+  "/",
+  requireVendorAuth,
+  requireVendorPermission("team:manage"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const members = await prisma.vendorMember.findMany({
+        where: { vendorId: req.vendorId },
+        orderBy: { createdAt: "asc" },
+        select: memberSelect,
+      });
+
+      return res.json({ success: true, members });
+    } catch (error) {
+      console.error("Vendor list team error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/vendor/team/invitations  { email, name?, role }
+router.post(
+  "/invitations",
+  requireVendorAuth,
+  requireVendorPermission("team:manage"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = inviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const member = await inviteMember(req, parsed.data);
+      await recordVendorActivity(req, "team.invite", member.id, {
+        email: member.email,
+        role: member.role,
+      });
+
+      return res.status(201).json({ success: true, member });
+    } catch (error) {
+      if (error instanceof VendorTeamError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor invite member error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/vendor/team/invitations/:memberId/resend
+router.post(
+  "/invitations/:memberId/resend",
+  requireVendorAuth,
+  requireVendorPermission("team:manage"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const member = await resendInvitation(req, req.params.memberId);
+      await recordVendorActivity(req, "team.invite_resend", member.id, { email: member.email });
+
+      return res.json({ success: true, member });
+    } catch (error) {
+      if (error instanceof VendorTeamError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor resend invitation error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// PATCH /api/vendor/team/:memberId  { role?, status? }
+router.patch(
+  "/:memberId",
+  requireVendorAuth,
+  requireVendorPermission("team:manage"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = updateMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid input",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const { member, revokedSessions } = await updateMember(req, req.params.memberId, parsed.data);
+      await recordVendorActivity(req, "team.update", member.id, {
+        email: member.email,
+        ...parsed.data,
+      });
+
+      return res.json({ success: true, member, revokedSessions });
+    } catch (error) {
+      if (error instanceof VendorTeamError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor update member error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// DELETE /api/vendor/team/:memberId  -> remove a member or withdraw an invitation
+router.delete(
+  "/:memberId",
+  requireVendorAuth,
+  requireVendorPermission("team:manage"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      await removeMember(req, req.params.memberId);
+      await recordVendorActivity(req, "team.remove", req.params.memberId);
+
+      return res.json({ success: true, message: "Team member removed" });
+    } catch (error) {
+      if (error instanceof VendorTeamError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Vendor remove member error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/vendor/team/activity?memberId=&action=  -> who did what, newest first
+router.get(
+  "/activity",
+  requireVendorAuth,
+  requireVendorPermission("team:manage"),
+  async (req: VendorAuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthenticated vendor",
+        });
+      }
+
+      const parsed = activityQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid query parameters",
+          errors: parsed.error.flatten(),
+        });
+      }
+
+      const { memberId, action, page, pageSize } = parsed.data;
+      const where = {
+        vendorId: req.vendorId,
+        ...(memberId ? { memberId } : {}),
+        ...(action ? { action: { startsWith: action } } : {}),
+      };
+
+      const [total, activity] = await Promise.all([
+        prisma.vendorActivity.count({ where }),
+        prisma.vendorActivity.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      return res.json({
+        success: true,
+        activity,
+        pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+      });
+    } catch (error) {
+      console.error("Vendor team activity error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+export default router;
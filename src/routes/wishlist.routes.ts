@@ -3,11 +3,14 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
+import { publicVariantSelect, resolveVariantChoices, toPublicVariant } from "../lib/variants";
+import { publicProductWhere } from "../lib/product-moderation";
 
 const router = Router();
 
 const idSchema = z.object({
   productId: z.string().min(1),
+  variantId: z.string().min(1).optional(), // required when the product has variants
 });
 
 // ✅ GET /api/wishlist  (list my wishlist)
@@ -36,6 +39,7 @@ router.get("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =>
             vendor: { select: { businessName: true } },
           },
         },
+        variant: { select: publicVariantSelect },
       },
     });
 
@@ -45,6 +49,7 @@ router.get("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =>
         id: i.id,
         createdAt: i.createdAt,
         product: i.product,
+        variant: i.variant ? toPublicVariant(i.variant) : null,
       })),
     });
   } catch (e) {
@@ -88,11 +93,11 @@ router.post("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =
       });
     }
 
-    const { productId } = parsed.data;
+    const { productId, variantId } = parsed.data;
 
     // ensure product exists & public
     const product = await prisma.product.findFirst({
-      where: { id: productId, isDeleted: false, isAvailable: true },
+      where: { id: productId, ...publicProductWhere },
       select: { id: true },
     });
 
@@ -100,7 +105,15 @@ router.post("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =
       return res.status(404).json({ success: false, message: "Product not found" });
     }
 
-    // idempotent add
+    // Sold-out variants can still be wished for
+    const { error: variantError } = await resolveVariantChoices([{ productId, variantId }], {
+      requireAvailable: false,
+    });
+    if (variantError) {
+      return res.status(400).json({ success: false, message: variantError });
+    }
+
+    // idempotent add (re-adding switches the chosen variant)
     const item = await prisma.wishlistItem.upsert({
       where: {
         userId_productId: {
@@ -108,10 +121,11 @@ router.post("/", requireAuth, async (req: AuthenticatedRequest, res: Response) =
           productId,
         },
       },
-      update: {},
+      update: { variantId: variantId ?? null },
       create: {
         userId: req.userId,
         productId,
+        variantId: variantId ?? null,
       },
     });
 
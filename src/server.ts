@@ -1,5 +1,9 @@
 import app from "./app";
 import { env } from "./config/env";
+import { startFxRefreshJob } from "./jobs/fx-refresh";
+import { startPaymentReconciliationJob } from "./jobs/payment-reconciliation";
+import { startStockReservationJob } from "./jobs/stock-reservations";
+import { startUploadCleanupJob } from "./jobs/upload-cleanup";
 
 
 
@@ -8,4 +12,10 @@ const PORT = env.PORT;
 
 app.listen(PORT, () => {
   console.log(`FoodCheq backend listening on http://localhost:${PORT}`);
+
+  // Background jobs
+  startFxRefreshJob();
+  startPaymentReconciliationJob();
+  startStockReservationJob();
+  startUploadCleanupJob();
 });
@@ -45,8 +45,16 @@ export async function sendEmail({ to, subject, html }: SendEmailOptions): Promis
 // EMAIL TEMPLATES
 // ============================================
 
-export function getVerificationEmailHtml(name: string | null, verifyUrl: string): string {
+export function getVerificationEmailHtml(
+  name: string | null,
+  verifyUrl: string,
+  accountType: "shopper" | "vendor" = "shopper"
+): string {
   const displayName = name || "there";
+  const intro =
+    accountType === "vendor"
+      ? "Thanks for registering your business on FoodCheQ! Please verify your email address by clicking the button below:"
+      : "Thanks for signing up for FoodCheQ! Please verify your email address by clicking the button below:";
   return `
 <!DOCTYPE html>
 <html>
@@ -62,7 +70,7 @@ export function getVerificationEmailHtml(name: string | null, verifyUrl: string)
   <div style="background: #ffffff; padding: 40px 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
     <h2 style="color: #333; margin-top: 0;">Verify Your Email Address</h2>
     <p>Hi ${displayName},</p>
-    <p>Thanks for signing up for FoodCheQ! Please verify your email address by clicking the button below:</p>
+    <p>${intro}</p>
     <div style="text-align: center; margin: 30px 0;">
       <a href="${verifyUrl}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 40px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">Verify Email</a>
     </div>
@@ -166,3 +174,190 @@ export function getPartnershipStatusEmailHtml(
 </html>
   `.trim();
 }
+
+export function getOrderStatusEmailHtml(
+  name: string | null,
+  orderId: string,
+  status: "ACCEPTED" | "REJECTED" | "PREPARING" | "READY" | "COMPLETED" | "CANCELLED",
+  note?: string | null
+): string {
+  const displayName = name || "there";
+
+  const statusMessages = {
+    ACCEPTED: { title: "Order Confirmed", message: "Your order has been paid and confirmed.", color: "#22c55e" },
+    REJECTED: { title: "Order Rejected", message: "The vendor couldn't fulfil your order. Any payment taken will be refunded.", color: "#ef4444" },
+    PREPARING: { title: "Order Being Prepared", message: "The vendor has started preparing your order.", color: "#3b82f6" },
+    READY: { title: "Order Ready", message: "Your order is ready and will be dispatched shortly.", color: "#8b5cf6" },
+    COMPLETED: { title: "Order Completed", message: "Your order has been delivered. Enjoy!", color: "#22c55e" },
+    CANCELLED: { title: "Order Cancelled", message: "Your order has been cancelled. Any payment taken will be refunded.", color: "#ef4444" },
+  };
+
+  const statusInfo = statusMessages[status];
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${statusInfo.title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">FoodCheQ</h1>
+  </div>
+  <div style="background: #ffffff; padding: 40px 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+    <div style="text-align: center; margin-bottom: 20px;">
+      <span style="background: ${statusInfo.color}; color: white; padding: 8px 20px; border-radius: 20px; font-size: 14px; font-weight: bold;">${status}</span>
+    </div>
+    <h2 style="color: #333; margin-top: 0; text-align: center;">${statusInfo.title}</h2>
+    <p>Hi ${displayName},</p>
+    <p>${statusInfo.message}</p>
+    <p style="color: #666; font-size: 14px;">Order reference: <strong>${orderId}</strong></p>
+    ${note ? `<div style="background: #f3f4f6; padding: 15px; border-radius: 5px; margin: 20px 0;"><strong>Notes:</strong><br>${note}</div>` : ""}
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${env.FRONTEND_URL}/orders/${orderId}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 40px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">View Order</a>
+    </div>
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
+    <p style="color: #999; font-size: 12px; margin: 0;">Thank you for shopping with FoodCheQ.</p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function getLowStockEmailHtml(
+  businessName: string | null,
+  products: { name: string; available: number }[]
+): string {
+  const displayName = businessName || "there";
+  const rows = products
+    .map(
+      (p) =>
+        `<tr><td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">${p.name}</td><td style="padding: 8px; border-bottom: 1px solid #e0e0e0; text-align: right; font-weight: bold; color: ${p.available > 0 ? "#f59e0b" : "#ef4444"};">${p.available}</td></tr>`
+    )
+    .join("");
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Low Stock Alert</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">FoodCheQ</h1>
+  </div>
+  <div style="background: #ffffff; padding: 40px 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+    <h2 style="color: #333; margin-top: 0;">Low Stock Alert</h2>
+    <p>Hi ${displayName},</p>
+    <p>These products are running low. Products at 0 have been hidden from the store until you restock them.</p>
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+      <tr><th style="text-align: left; padding: 8px; border-bottom: 2px solid #e0e0e0;">Product</th><th style="text-align: right; padding: 8px; border-bottom: 2px solid #e0e0e0;">Available</th></tr>
+      ${rows}
+    </table>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${env.FRONTEND_URL}/vendor/products" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 40px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">Manage Stock</a>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function getProductReviewEmailHtml(
+  businessName: string | null,
+  productName: string,
+  outcome: "APPROVED" | "REJECTED" | "IN_REVIEW",
+  reason: string | null
+): string {
+  const displayName = businessName || "there";
+
+  const outcomes = {
+    APPROVED: {
+      title: "Product Approved",
+      message: `<strong>${productName}</strong> has been approved and is now visible in the store.`,
+      color: "#22c55e",
+    },
+    REJECTED: {
+      title: "Product Needs Changes",
+      message: `We couldn't approve <strong>${productName}</strong>. Update it and set it to active again to resubmit it for review.`,
+      color: "#ef4444",
+    },
+    IN_REVIEW: {
+      title: "Product Back in Review",
+      message: `Your latest changes to <strong>${productName}</strong> need a fresh review. It is hidden from the store until an admin approves it.`,
+      color: "#f59e0b",
+    },
+  };
+
+  const info = outcomes[outcome];
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${info.title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">FoodCheQ</h1>
+  </div>
+  <div style="background: #ffffff; padding: 40px 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+    <div style="text-align: center; margin-bottom: 20px;">
+      <span style="background: ${info.color}; color: white; padding: 8px 20px; border-radius: 20px; font-size: 14px; font-weight: bold;">${outcome.replace("_", " ")}</span>
+    </div>
+    <h2 style="color: #333; margin-top: 0; text-align: center;">${info.title}</h2>
+    <p>Hi ${displayName},</p>
+    <p>${info.message}</p>
+    ${reason ? `<div style="background: #f3f4f6; padding: 15px; border-radius: 5px; margin: 20px 0;"><strong>${outcome === "APPROVED" ? "Notes" : "Reason"}:</strong><br>${reason}</div>` : ""}
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${env.FRONTEND_URL}/vendor/products" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 40px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">View Products</a>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function getVendorInvitationEmailHtml(
+  businessName: string,
+  invitedBy: string,
+  role: string,
+  acceptUrl: string,
+  expiresInHours: number
+): string {
+  const roleName = role.charAt(0) + role.slice(1).toLowerCase();
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Join ${businessName} on FoodCheQ</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">FoodCheQ</h1>
+  </div>
+  <div style="background: #ffffff; padding: 40px 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+    <h2 style="color: #333; margin-top: 0;">You're Invited</h2>
+    <p>Hi there,</p>
+    <p>${invitedBy} has invited you to join <strong>${businessName}</strong> on FoodCheQ as <strong>${roleName}</strong>. Click the button below to set your password:</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${acceptUrl}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 40px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">Accept Invitation</a>
+    </div>
+    <p style="color: #666; font-size: 14px;">Or copy and paste this link into your browser:</p>
+    <p style="color: #667eea; word-break: break-all; font-size: 14px;">${acceptUrl}</p>
+    <p style="color: #666; font-size: 14px;">This invitation will expire in ${expiresInHours} hours.</p>
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
+    <p style="color: #999; font-size: 12px; margin: 0;">If you weren't expecting this invitation, you can safely ignore this email.</p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { env } from "../../config/env";
+import { isSupportedBy } from "../../lib/currency";
+import { PaymentOutcome, PaymentProvider } from "./types";
+
+/**
+ * Local provider for offline testing of the order -> payment -> fulfilment flow.
+ *
+ * The outcome is decided at init time (metadata.simulate, else FAKE_PAYMENT_OUTCOME)
+ * and encoded in the reference, so every later call on that payment is deterministic:
+ *   fake_success_<id>  -> capture/verify PAID, refunds succeed
+ *   fake_failure_<id>  -> capture/verify FAILED, refunds fail
+ *   fake_pending_<id>  -> stays PENDING until a signed fake webhook settles it
+ */
+export type FakeOutcome = "success" | "failure" | "pending";
+
+const OUTCOME_STATUS: Record<FakeOutcome, PaymentOutcome> = {
+  success: "PAID",
+  failure: "FAILED",
+  pending: "PENDING",
+};
+
+export function isFakeOutcome(value: unknown): value is FakeOutcome {
+  return value === "success" || value === "failure" || value === "pending";
+}
+
+function outcomeOf(providerRef: string): FakeOutcome | null {
+  const match = /^fake_(success|failure|pending)_/.exec(providerRef);
+  return match ? (match[1] as FakeOutcome) : null;
+}
+
+export function isFakePaymentsEnabled(): boolean {
+  return env.FAKE_PAYMENTS_ENABLED && env.NODE_ENV !== "production";
+}
+
+// Signature the fake webhook endpoint expects in `x-fake-signature`
+export function signFakeWebhook(rawBody: string | Buffer): string {
+  return crypto
+    .createHmac("sha256", env.FAKE_PAYMENT_WEBHOOK_SECRET)
+    .update(rawBody)
+    .digest("hex");
+}
+
+export const fakeProvider: PaymentProvider = {
+  name: "fake",
+  label: "Fake provider",
+
+  isConfigured() {
+    return isFakePaymentsEnabled();
+  },
+
+  supportsCurrency(currency) {
+    return isSupportedBy("fake", currency);
+  },
+
+  async initPayment(input) {
+    const requested = input.metadata?.simulate;
+    const outcome: FakeOutcome = isFakeOutcome(requested) ? requested : env.FAKE_PAYMENT_OUTCOME;
+    const providerRef = `fake_${outcome}_${crypto.randomBytes(8).toString("hex")}`;
+
+    const redirectUrl = new URL(input.returnUrl);
+    redirectUrl.searchParams.set("provider", "fake");
+    redirectUrl.searchParams.set("reference", providerRef);
+
+    return {
+      providerRef,
+      redirectUrl: redirectUrl.toString(),
+      raw: {
+        provider: "fake",
+        reference: providerRef,
+        outcome,
+        referenceId: input.referenceId,
+        amount: input.amount,
+        currency: input.currency,
+      },
+    };
+  },
+
+  async capturePayment(providerRef) {
+    return this.verifyPayment(providerRef);
+  },
+
+  async verifyPayment(providerRef) {
+    const outcome = outcomeOf(providerRef);
+    return {
+      status: outcome ? OUTCOME_STATUS[outcome] : "FAILED",
+      raw: { provider: "fake", reference: providerRef, outcome },
+    };
+  },
+
+  async refund(input) {
+    const succeeded = outcomeOf(input.providerRef) !== "failure";
+    return {
+      status: succeeded ? "SUCCEEDED" : "FAILED",
+      providerRefundId: succeeded ? `fake_refund_${crypto.randomBytes(8).toString("hex")}` : null,
+      raw: {
+        provider: "fake",
+        reference: input.providerRef,
+        amount: input.amount,
+        currency: input.currency,
+        reason: input.reason ?? null,
+      },
+    };
+  },
+
+  // Fake refunds settle immediately, so there is never a pending one to look up
+  async refundStatus(providerRefundId) {
+    return { status: "SUCCEEDED", providerRefundId, raw: { provider: "fake", refundId: providerRefundId } };
+  },
+
+  // Body: { id, type: "payment.succeeded" | "payment.failed", reference }
+  async parseWebhook(rawBody, headers) {
+    const signature = headers["x-fake-signature"];
+    const expected = signFakeWebhook(rawBody);
+
+    const verified =
+      typeof signature === "string" &&
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    const type: string = event.type || "";
+
+    let status: PaymentOutcome | null = null;
+    if (type === "payment.succeeded") status = "PAID";
+    else if (type === "payment.failed") status = "FAILED";
+
+    return {
+      verified,
+      event: {
+        eventId: event.id ?? null,
+        type,
+        providerRef: event.reference ?? null,
+        status,
+        raw: event,
+      },
+    };
+  },
+};
@@ -0,0 +1,50 @@
+import { fakeProvider, isFakePaymentsEnabled } from "./fake";
+import { paypalProvider } from "./paypal";
+import { paystackProvider } from "./paystack";
+import { PaymentProvider, PaymentStatusResult, ProviderName } from "./types";
+
+export * from "./types";
+export { isFakePaymentsEnabled, signFakeWebhook } from "./fake";
+
+const providers: Record<ProviderName, PaymentProvider> = {
+  paypal: paypalProvider,
+  paystack: paystackProvider,
+  fake: fakeProvider,
+};
+
+export function isProviderName(name: string): name is ProviderName {
+  return Object.prototype.hasOwnProperty.call(providers, name);
+}
+
+/**
+ * Adapter for a Payment.provider / Order.paymentMethod value.
+ * The fake provider is only returned when enabled outside production.
+ */
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  if (!isProviderName(name)) return null;
+  if (name === "fake" && !isFakePaymentsEnabled()) return null;
+  return providers[name];
+}
+
+/**
+ * Capture a payment the buyer already approved. If the buyer's own /capture
+ * call got there first the provider refuses, so fall back to reading the status.
+ */
+export async function captureApprovedPayment(
+  provider: PaymentProvider,
+  providerRef: string
+): Promise<PaymentStatusResult> {
+  try {
+    return await provider.capturePayment(providerRef);
+  } catch (error: any) {
+    console.warn(`${provider.label} capture failed, verifying instead:`, error?.message || error);
+    return provider.verifyPayment(providerRef);
+  }
+}
+
+// Providers a checkout may currently be created with
+export function availablePaymentMethods(): ProviderName[] {
+  return (Object.keys(providers) as ProviderName[]).filter(
+    (name) => name !== "fake" || isFakePaymentsEnabled()
+  );
+}
@@ -0,0 +1,229 @@
+import axios from "axios";
+import { env } from "../../config/env";
+import { formatMajor, isSupportedBy } from "../../lib/currency";
+import {
+  PaymentOutcome,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentStatusResult,
+  RefundResult,
+} from "./types";
+
+function getPayPalBaseUrl(): string {
+  return env.PAYPAL_MODE === "live"
+    ? "https://api-m.paypal.com"
+    : "https://api-m.sandbox.paypal.com";
+}
+
+async function getPayPalAccessToken(): Promise<string> {
+  const clientId = env.PAYPAL_CLIENT_ID;
+  const clientSecret = env.PAYPAL_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new PaymentProviderError("PayPal credentials not configured");
+  }
+
+  const auth = Buffer.from(`${clientId}:${clientSecret}`).toString("base64");
+
+  const response = await axios.post(
+    `${getPayPalBaseUrl()}/v1/oauth2/token`,
+    "grant_type=client_credentials",
+    {
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    }
+  );
+
+  return response.data.access_token;
+}
+
+async function paypalRequest(method: "get" | "post", path: string, body?: unknown) {
+  const accessToken = await getPayPalAccessToken();
+
+  const response = await axios.request({
+    method,
+    url: `${getPayPalBaseUrl()}${path}`,
+    data: body,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  return response.data;
+}
+
+// PayPal order status -> our outcome
+function mapOrderStatus(status: string | undefined): PaymentOutcome {
+  if (status === "COMPLETED") return "PAID";
+  if (status === "VOIDED") return "FAILED";
+  return "PENDING"; // CREATED / SAVED / APPROVED / PAYER_ACTION_REQUIRED
+}
+
+// PayPal refund status -> ours
+function mapRefundStatus(status: string | undefined): RefundResult["status"] {
+  if (status === "COMPLETED") return "SUCCEEDED";
+  if (status === "PENDING") return "PENDING";
+  return "FAILED"; // FAILED / CANCELLED
+}
+
+function firstCaptureId(order: any): string | null {
+  return order?.purchase_units?.[0]?.payments?.captures?.[0]?.id ?? null;
+}
+
+export const paypalProvider: PaymentProvider = {
+  name: "paypal",
+  label: "PayPal",
+
+  isConfigured() {
+    return !!(env.PAYPAL_CLIENT_ID && env.PAYPAL_CLIENT_SECRET);
+  },
+
+  supportsCurrency(currency) {
+    return isSupportedBy("paypal", currency);
+  },
+
+  async initPayment(input) {
+    const paypalOrder = await paypalRequest("post", "/v2/checkout/orders", {
+      intent: "CAPTURE",
+      purchase_units: [
+        {
+          reference_id: input.referenceId,
+          amount: {
+            currency_code: input.currency,
+            value: formatMajor(input.amount, input.currency),
+          },
+        },
+      ],
+      application_context: {
+        return_url: input.returnUrl,
+        cancel_url: input.cancelUrl,
+      },
+    });
+
+    const approvalLink = (paypalOrder.links || []).find((link: any) => link.rel === "approve");
+
+    if (!approvalLink) {
+      throw new PaymentProviderError("PayPal approval link not found", paypalOrder);
+    }
+
+    return {
+      providerRef: paypalOrder.id,
+      redirectUrl: approvalLink.href,
+      raw: paypalOrder,
+    };
+  },
+
+  async capturePayment(providerRef): Promise<PaymentStatusResult> {
+    const captureData = await paypalRequest("post", `/v2/checkout/orders/${providerRef}/capture`, {});
+    return {
+      status: captureData.status === "COMPLETED" ? "PAID" : "FAILED",
+      raw: captureData,
+    };
+  },
+
+  async verifyPayment(providerRef) {
+    try {
+      const order = await paypalRequest("get", `/v2/checkout/orders/${providerRef}`);
+      return {
+        status: mapOrderStatus(order.status),
+        needsCapture: order.status === "APPROVED",
+        raw: order,
+      };
+    } catch (error: any) {
+      // Abandoned PayPal orders expire and disappear
+      if (error?.response?.status === 404) {
+        return { status: "FAILED", raw: error.response.data };
+      }
+      throw error;
+    }
+  },
+
+  async refund(input) {
+    // Refunds go against the capture, not the order
+    const order = await paypalRequest("get", `/v2/checkout/orders/${input.providerRef}`);
+    const captureId = firstCaptureId(order);
+
+    if (!captureId) {
+      throw new PaymentProviderError("No PayPal capture found to refund", order);
+    }
+
+    const refund = await paypalRequest("post", `/v2/payments/captures/${captureId}/refund`, {
+      amount: {
+        currency_code: input.currency,
+        value: formatMajor(input.amount, input.currency),
+      },
+      ...(input.reason ? { note_to_payer: input.reason.slice(0, 255) } : {}),
+    });
+
+    return {
+      status: mapRefundStatus(refund.status),
+      providerRefundId: refund.id ?? null,
+      raw: refund,
+    };
+  },
+
+  async refundStatus(providerRefundId) {
+    const refund = await paypalRequest("get", `/v2/payments/refunds/${encodeURIComponent(providerRefundId)}`);
+    return { status: mapRefundStatus(refund.status), providerRefundId, raw: refund };
+  },
+
+  async parseWebhook(rawBody, headers) {
+    const event = JSON.parse(rawBody.toString("utf8"));
+
+    let verified = false;
+
+    if (env.PAYPAL_WEBHOOK_ID && this.isConfigured()) {
+      // PayPal verifies its own signatures for us
+      const verification = await paypalRequest("post", "/v1/notifications/verify-webhook-signature", {
+        auth_algo: headers["paypal-auth-algo"],
+        cert_url: headers["paypal-cert-url"],
+        transmission_id: headers["paypal-transmission-id"],
+        transmission_sig: headers["paypal-transmission-sig"],
+        transmission_time: headers["paypal-transmission-time"],
+        webhook_id: env.PAYPAL_WEBHOOK_ID,
+        webhook_event: event,
+      });
+
+      verified = verification?.verification_status === "SUCCESS";
+    }
+
+    const type: string = event.event_type || "";
+    const resource = event.resource || {};
+
+    // Capture events point at the PayPal order through related_ids
+    const providerRef: string | null =
+      resource.supplementary_data?.related_ids?.order_id ??
+      (type.startsWith("CHECKOUT.ORDER") ? resource.id : null) ??
+      null;
+
+    // The resource of a refund event is the refund itself
+    const isRefund = type === "PAYMENT.CAPTURE.REFUNDED";
+
+    let status: PaymentOutcome | null = null;
+    if (type === "PAYMENT.CAPTURE.COMPLETED" || type === "CHECKOUT.ORDER.COMPLETED") {
+      status = "PAID";
+    } else if (type === "PAYMENT.CAPTURE.DENIED" || type === "CHECKOUT.ORDER.VOIDED") {
+      status = "FAILED";
+    }
+
+    return {
+      verified,
+      event: {
+        eventId: event.id ?? null,
+        type,
+        providerRef: isRefund ? null : providerRef,
+        status,
+        refund:
+          isRefund && resource.id
+            ? { providerRefundId: resource.id, status: mapRefundStatus(resource.status) }
+            : null,
+        // Buyer approved but closed the tab before /paypal/capture ran
+        needsCapture: type === "CHECKOUT.ORDER.APPROVED",
+        raw: event,
+      },
+    };
+  },
+};
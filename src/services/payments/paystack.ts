@@ -0,0 +1,167 @@
+import axios from "axios";
+import crypto from "crypto";
+import { env } from "../../config/env";
+import { isSupportedBy } from "../../lib/currency";
+import { PaymentOutcome, PaymentProvider, PaymentProviderError, RefundResult } from "./types";
+
+async function paystackRequest(method: "get" | "post", path: string, body?: unknown) {
+  if (!env.PAYSTACK_SECRET_KEY) {
+    throw new PaymentProviderError("Paystack is not configured");
+  }
+
+  const response = await axios.request({
+    method,
+    url: `${env.PAYSTACK_BASE_URL}${path}`,
+    data: body,
+    headers: {
+      Authorization: `Bearer ${env.PAYSTACK_SECRET_KEY}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  return response.data;
+}
+
+// Paystack transaction status -> our outcome
+function mapTransactionStatus(status: string | undefined): PaymentOutcome {
+  if (status === "success") return "PAID";
+  if (status === "failed" || status === "reversed" || status === "abandoned") return "FAILED";
+  return "PENDING"; // ongoing / pending / processing / queued
+}
+
+// Paystack refund status -> ours
+function mapRefundStatus(status: string | undefined): RefundResult["status"] {
+  if (status === "processed") return "SUCCEEDED";
+  if (status === "failed") return "FAILED";
+  return "PENDING"; // pending / processing / needs-attention
+}
+
+export const paystackProvider: PaymentProvider = {
+  name: "paystack",
+  label: "Paystack",
+
+  isConfigured() {
+    return !!env.PAYSTACK_SECRET_KEY;
+  },
+
+  supportsCurrency(currency) {
+    return isSupportedBy("paystack", currency);
+  },
+
+  async initPayment(input) {
+    const data = await paystackRequest("post", "/transaction/initialize", {
+      email: input.email,
+      amount: input.amount, // Paystack wants the subunit (kobo, pesewas...)
+      currency: input.currency,
+      // callback URL is configured on the Paystack dashboard
+      metadata: input.metadata ?? {},
+    });
+
+    if (!data.status) {
+      throw new PaymentProviderError("Paystack initialization failed", data);
+    }
+
+    const { authorization_url, reference } = data.data;
+
+    return {
+      providerRef: reference,
+      redirectUrl: authorization_url,
+      raw: data,
+    };
+  },
+
+  // Paystack captures automatically; "capture" just confirms with verify
+  async capturePayment(providerRef) {
+    return this.verifyPayment(providerRef);
+  },
+
+  async verifyPayment(providerRef) {
+    try {
+      const data = await paystackRequest("get", `/transaction/verify/${encodeURIComponent(providerRef)}`);
+      return { status: mapTransactionStatus(data?.data?.status), raw: data };
+    } catch (error: any) {
+      // Reference never reached Paystack (buyer never opened the checkout)
+      if (error?.response?.status === 404) {
+        return { status: "FAILED", raw: error.response.data };
+      }
+      throw error;
+    }
+  },
+
+  async refund(input) {
+    const data = await paystackRequest("post", "/refund", {
+      transaction: input.providerRef,
+      amount: input.amount,
+      currency: input.currency,
+      ...(input.reason ? { merchant_note: input.reason } : {}),
+    });
+
+    if (!data.status) {
+      return { status: "FAILED", providerRefundId: null, raw: data };
+    }
+
+    return {
+      status: mapRefundStatus(data.data?.status),
+      providerRefundId: data.data?.id != null ? String(data.data.id) : null,
+      raw: data,
+    };
+  },
+
+  async refundStatus(providerRefundId) {
+    const data = await paystackRequest("get", `/refund/${encodeURIComponent(providerRefundId)}`);
+    return { status: mapRefundStatus(data?.data?.status), providerRefundId, raw: data };
+  },
+
+  async parseWebhook(rawBody, headers) {
+    const webhookSecret = env.PAYSTACK_WEBHOOK_SECRET || env.PAYSTACK_SECRET_KEY;
+    const signature = headers["x-paystack-signature"];
+
+    let verified = false;
+
+    if (webhookSecret && typeof signature === "string") {
+      // Verify signature
+      const hash = crypto
+        .createHmac("sha512", webhookSecret)
+        .update(rawBody)
+        .digest("hex");
+
+      verified =
+        hash.length === signature.length &&
+        crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+
+    const eventType: string = event.event || "";
+    const data = event.data || {};
+
+    // refund.pending / processing / processed / failed: about a refund, not the charge
+    const isRefund = eventType.startsWith("refund.");
+
+    let status: PaymentOutcome | null = null;
+    if (eventType === "charge.success" && data.status === "success") {
+      status = "PAID";
+    } else if (
+      !isRefund &&
+      (eventType === "charge.failed" || data.status === "failed" || data.status === "reversed")
+    ) {
+      status = "FAILED";
+    }
+
+    return {
+      verified,
+      event: {
+        // Paystack has no event id; event + transaction id is unique enough
+        eventId: data.id != null ? `${eventType}:${data.id}` : null,
+        type: eventType,
+        providerRef: isRefund ? null : data.reference ?? null,
+        status,
+        refund:
+          isRefund && data.id != null
+            ? { providerRefundId: String(data.id), status: mapRefundStatus(data.status) }
+            : null,
+        raw: event,
+      },
+    };
+  },
+};
@@ -0,0 +1,91 @@
+import { CurrencyCode } from "../../lib/currency";
+
+export type ProviderName = "paypal" | "paystack" | "fake";
+
+// Normalised payment state every adapter maps its own statuses onto
+export type PaymentOutcome = "PAID" | "FAILED" | "PENDING";
+
+export interface InitPaymentInput {
+  referenceId: string; // our order/checkout id
+  amount: number; // minor units of currency
+  currency: CurrencyCode;
+  email?: string | null;
+  returnUrl: string;
+  cancelUrl: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitPaymentResult {
+  providerRef: string; // PayPal order id / Paystack reference / fake ref
+  redirectUrl: string | null; // where to send the buyer (null = nothing to approve)
+  raw: any;
+}
+
+export interface PaymentStatusResult {
+  status: PaymentOutcome;
+  needsCapture?: boolean; // buyer approved, funds not captured yet (PayPal)
+  raw: any;
+}
+
+export interface RefundInput {
+  providerRef: string;
+  amount: number; // minor units
+  currency: CurrencyCode;
+  reason?: string | null;
+}
+
+export interface RefundResult {
+  status: "SUCCEEDED" | "PENDING" | "FAILED";
+  providerRefundId: string | null;
+  raw: any;
+}
+
+export interface ParsedWebhookEvent {
+  eventId: string | null; // provider's unique event id (for dedupe)
+  type: string;
+  providerRef: string | null;
+  status: PaymentOutcome | null; // null = event doesn't change payment state
+  needsCapture?: boolean; // approved but not captured yet; we capture server-side
+  refund?: { providerRefundId: string; status: RefundResult["status"] } | null; // refund events only
+  raw: any;
+}
+
+export interface WebhookParseResult {
+  verified: boolean;
+  event: ParsedWebhookEvent | null;
+}
+
+export interface PaymentProvider {
+  name: ProviderName;
+  label: string; // human readable, for messages
+  isConfigured(): boolean;
+  supportsCurrency(currency: CurrencyCode): boolean;
+
+  initPayment(input: InitPaymentInput): Promise<InitPaymentResult>;
+
+  // Finalise after buyer approval (PayPal captures, others just verify)
+  capturePayment(providerRef: string): Promise<PaymentStatusResult>;
+
+  // Read-only status lookup (reconciliation, webhook fallbacks)
+  verifyPayment(providerRef: string): Promise<PaymentStatusResult>;
+
+  refund(input: RefundInput): Promise<RefundResult>;
+
+  // Where a refund the provider accepted as pending has got to (reconciliation)
+  refundStatus(providerRefundId: string): Promise<RefundResult>;
+
+  // Returns the event even when the signature is bad (it still goes in the ledger);
+  // throws on a malformed body
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): Promise<WebhookParseResult>;
+}
+
+/**
+ * Thrown by adapters when the provider rejects a call.
+ * `raw` carries the provider payload for logging.
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string, public raw?: unknown) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
@@ -0,0 +1,55 @@
+import path from "path";
+import { env } from "../../config/env";
+import { localDriver } from "./local";
+import { s3Driver } from "./s3";
+import { StorageDriver, StorageDriverName } from "./types";
+
+export * from "./types";
+export { LOCAL_ROOT, localPathOf, verifyLocalSignature } from "./local";
+
+const drivers: Record<StorageDriverName, StorageDriver> = {
+  local: localDriver,
+  s3: s3Driver,
+};
+
+// Key prefixes that must never be served without a signed URL
+export const PRIVATE_PREFIXES = ["partner-docs/"];
+
+/**
+ * Whether a request path under /uploads reaches a private object. Decoded and
+ * normalised the way express.static resolves it, so `/partner%2Ddocs/a.pdf`
+ * or `/x/../partner-docs/a.pdf` count too.
+ */
+export function isPrivateUploadPath(urlPath: string): boolean {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    return false; // express.static refuses malformed paths itself
+  }
+
+  // Lower-cased for case-insensitive disks
+  const key = path.posix.normalize(`/${decoded}`).replace(/^\/+/, "").toLowerCase();
+  return PRIVATE_PREFIXES.some((prefix) => key.startsWith(prefix) || key === prefix.replace(/\/+$/, ""));
+}
+
+/**
+ * The configured storage driver (STORAGE_DRIVER).
+ */
+export function getStorage(): StorageDriver {
+  return drivers[env.STORAGE_DRIVER];
+}
+
+/**
+ * Storage key behind one of our public URLs, or null for anything else
+ * (external image URLs, other hosts).
+ */
+export function keyFromPublicUrl(url: string): string | null {
+  const base = getStorage().publicUrl("");
+  if (!url.startsWith(base)) return null;
+  try {
+    return decodeURIComponent(url.slice(base.length)) || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { env } from "../../config/env";
+import { StorageDriver, StorageError, StoredObject } from "./types";
+
+/**
+ * Files on this machine's disk under STORAGE_LOCAL_DIR. Fine for a single
+ * instance; use the s3 driver once there is more than one.
+ *
+ * Public objects are served by express.static at /uploads/<key>. Private ones
+ * are only reachable through /api/files with an HMAC-signed, expiring query
+ * (see verifyLocalSignature), which app.ts keeps out of the static handler.
+ */
+
+export const LOCAL_ROOT = path.resolve(process.cwd(), env.STORAGE_LOCAL_DIR);
+
+function signingSecret(): string {
+  return env.STORAGE_SIGNING_SECRET || env.JWT_ACCESS_SECRET;
+}
+
+// Absolute path of a key; refuses anything that would escape the root
+export function localPathOf(key: string): string {
+  const full = path.resolve(LOCAL_ROOT, key);
+  if (!full.startsWith(LOCAL_ROOT + path.sep)) {
+    throw new StorageError(`Invalid storage key: ${key}`);
+  }
+  return full;
+}
+
+function signature(key: string, expires: number, name: string): string {
+  return crypto.createHmac("sha256", signingSecret()).update(`${key}\n${expires}\n${name}`).digest("hex");
+}
+
+/**
+ * Check a /api/files query. Returns the key and download name when the
+ * signature matches and hasn't expired, else null.
+ */
+export function verifyLocalSignature(query: {
+  key?: unknown;
+  expires?: unknown;
+  name?: unknown;
+  sig?: unknown;
+}): { key: string; downloadName: string | null } | null {
+  const { key, expires, name = "", sig } = query;
+  if (typeof key !== "string" || typeof expires !== "string" || typeof name !== "string" || typeof sig !== "string") {
+    return null;
+  }
+
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) return null;
+
+  const expected = Buffer.from(signature(key, expiresAt, name), "hex");
+  const given = Buffer.from(sig, "hex");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  return { key, downloadName: name || null };
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(full)));
+    else if (entry.isFile()) files.push(full);
+  }
+  return files;
+}
+
+export const localDriver: StorageDriver = {
+  name: "local",
+
+  async put({ key, body }) {
+    const full = localPathOf(key);
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    await fs.writeFile(full, body);
+  },
+
+  async delete(key) {
+    await fs.rm(localPathOf(key), { force: true });
+  },
+
+  async list(prefix) {
+    const base = localPathOf(prefix.replace(/\/+$/, ""));
+    const objects: StoredObject[] = [];
+    for (const file of await walk(base)) {
+      const stat = await fs.stat(file).catch(() => null);
+      if (!stat) continue;
+      objects.push({
+        key: path.relative(LOCAL_ROOT, file).split(path.sep).join("/"),
+        lastModified: stat.mtime,
+      });
+    }
+    return objects;
+  },
+
+  publicUrl(key) {
+    return `/uploads/${key}`;
+  },
+
+  async signedUrl(key, options = {}) {
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? env.STORAGE_SIGNED_URL_TTL_SECONDS);
+    const name = options.downloadName ?? "";
+    const query = new URLSearchParams({
+      key,
+      expires: String(expires),
+      ...(name ? { name } : {}),
+      sig: signature(key, expires, name),
+    });
+    return `/api/files?${query.toString()}`;
+  },
+};
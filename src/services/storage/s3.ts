@@ -0,0 +1,164 @@
+import axios from "axios";
+import crypto from "crypto";
+import { env } from "../../config/env";
+import { StorageDriver, StorageError, StoredObject } from "./types";
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2...). Every request is a
+ * SigV4 presigned URL (query-string auth, UNSIGNED-PAYLOAD), so one signer
+ * covers uploads, deletes, listing and the expiring download links we hand out.
+ *
+ * Public objects are read straight from S3_PUBLIC_URL (or the bucket URL); the
+ * bucket policy must allow anonymous GET on public prefixes such as
+ * vendor-products/* and nothing else. Local MinIO:
+ *
+ *   STORAGE_DRIVER=s3 S3_ENDPOINT=http://localhost:9000 S3_BUCKET=foodcheq
+ *   S3_ACCESS_KEY_ID=minioadmin S3_SECRET_ACCESS_KEY=minioadmin
+ */
+
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60; // SigV4 limit
+
+function config() {
+  if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+    throw new StorageError("S3 storage is not configured (S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)");
+  }
+  return {
+    bucket: env.S3_BUCKET,
+    region: env.S3_REGION,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    endpoint: env.S3_ENDPOINT || `https://s3.${env.S3_REGION}.amazonaws.com`,
+    pathStyle: env.S3_FORCE_PATH_STYLE,
+  };
+}
+
+// RFC 3986 encoding as SigV4 wants it
+function encode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encode).join("/");
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// Origin and path of the bucket (key = "") or of an object
+function objectLocation(key: string): { origin: string; path: string; host: string } {
+  const c = config();
+  const url = new URL(c.endpoint);
+  if (c.pathStyle) {
+    return { origin: url.origin, host: url.host, path: `/${encode(c.bucket)}/${encodeKey(key)}` };
+  }
+  const host = `${c.bucket}.${url.host}`;
+  return { origin: `${url.protocol}//${host}`, host, path: `/${encodeKey(key)}` };
+}
+
+function presign(
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  expiresInSeconds: number,
+  extraQuery: Record<string, string> = {}
+): string {
+  const c = config();
+  const { origin, path, host } = objectLocation(key);
+
+  const amzDate = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${c.region}/s3/aws4_request`;
+
+  const params: Record<string, string> = {
+    ...extraQuery,
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${c.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), MAX_PRESIGN_SECONDS)),
+    "X-Amz-SignedHeaders": "host",
+  };
+  const query = Object.keys(params)
+    .sort()
+    .map((k) => `${encode(k)}=${encode(params[k])}`)
+    .join("&");
+
+  const canonicalRequest = [method, path, query, `host:${host}\n`, "host", "UNSIGNED-PAYLOAD"].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    crypto.createHash("sha256").update(canonicalRequest).digest("hex"),
+  ].join("\n");
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${c.secretAccessKey}`, date), c.region), "s3"), "aws4_request");
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return `${origin}${path}?${query}&X-Amz-Signature=${signature}`;
+}
+
+// Values out of a ListObjectsV2 XML response
+function xmlValues(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, "g"))].map((m) => m[1]);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export const s3Driver: StorageDriver = {
+  name: "s3",
+
+  async put({ key, body, contentType }) {
+    await axios.put(presign("PUT", key, 300), body, {
+      headers: { "Content-Type": contentType },
+      maxBodyLength: Infinity,
+    });
+  },
+
+  async delete(key) {
+    // S3 answers 204 for missing keys too
+    await axios.delete(presign("DELETE", key, 300));
+  },
+
+  async list(prefix) {
+    const objects: StoredObject[] = [];
+    let token: string | null = null;
+
+    do {
+      const query: Record<string, string> = { "list-type": "2", prefix };
+      if (token) query["continuation-token"] = token;
+
+      const { data } = await axios.get<string>(presign("GET", "", 300, query), { responseType: "text" });
+
+      for (const block of data.match(/<Contents>[\s\S]*?<\/Contents>/g) ?? []) {
+        const [key] = xmlValues(block, "Key");
+        const [lastModified] = xmlValues(block, "LastModified");
+        if (key) objects.push({ key: decodeXml(key), lastModified: new Date(lastModified) });
+      }
+
+      const truncated = xmlValues(data, "IsTruncated")[0] === "true";
+      token = truncated ? decodeXml(xmlValues(data, "NextContinuationToken")[0] ?? "") || null : null;
+    } while (token);
+
+    return objects;
+  },
+
+  publicUrl(key) {
+    if (env.S3_PUBLIC_URL) return `${env.S3_PUBLIC_URL.replace(/\/+$/, "")}/${encodeKey(key)}`;
+    const { origin, path } = objectLocation(key);
+    return `${origin}${path}`;
+  },
+
+  async signedUrl(key, options = {}) {
+    const query: Record<string, string> = {};
+    if (options.downloadName) {
+      query["response-content-disposition"] = `attachment; filename="${options.downloadName.replace(/["\\\r\n]/g, "_")}"`;
+    }
+    return presign("GET", key, options.expiresInSeconds ?? env.STORAGE_SIGNED_URL_TTL_SECONDS, query);
+  },
+};
@@ -0,0 +1,37 @@
+export type StorageDriverName = "local" | "s3";
+
+// public = anyone with the URL (product images); private = signed, expiring URLs only
+export type Visibility = "public" | "private";
+
+export interface PutObjectInput {
+  key: string; // e.g. "vendor-products/<productId>/<id>-large.webp"
+  body: Buffer;
+  contentType: string;
+  visibility: Visibility;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds?: number; // default STORAGE_SIGNED_URL_TTL_SECONDS
+  downloadName?: string; // sent as Content-Disposition: attachment
+}
+
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  put(input: PutObjectInput): Promise<void>;
+  delete(key: string): Promise<void>; // no error if it's already gone
+  list(prefix: string): Promise<StoredObject[]>;
+  publicUrl(key: string): string;
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
@@ -16,6 +16,15 @@ export function hashToken(token: string): string {
   return crypto.createHash("sha256").update(token).digest("hex");
 }
 
+/**
+ * A fresh single-use token: the raw value goes in the email link, only the
+ * hash is stored
+ */
+export function issueToken(expiryHours: number): { rawToken: string; hashedToken: string; expiresAt: Date } {
+  const rawToken = generateToken();
+  return { rawToken, hashedToken: hashToken(rawToken), expiresAt: getExpiryDate(expiryHours) };
+}
+
 /**
  * Generate expiry date from now
  */
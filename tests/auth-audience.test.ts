@@ -0,0 +1,231 @@
+// tests/auth-audience.test.ts
+import { AddressInfo } from "net";
+import express from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Every auth check reads the account and its session; no database needed
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+  vendor: { findUnique: vi.fn() },
+  vendorMember: { findUnique: vi.fn() },
+  session: { findUnique: vi.fn() },
+}));
+vi.mock("../src/lib/prisma", () => ({ prisma: db }));
+
+import { requireAuth } from "../src/middleware/auth";
+import { requireVendorAuth } from "../src/middleware/vendorAuth";
+import { requireAdminAuth } from "../src/middleware/adminAuth";
+import adminUsersRoutes from "../src/routes/admin-users.routes";
+import {
+  signAccessToken,
+  signChallengeToken,
+  signRefreshToken,
+  verifyAccessToken,
+} from "../src/lib/auth-tokens";
+
+const SID = "ses_test";
+
+const shopperToken = () => signAccessToken({ aud: "user", sub: "user_1", sid: SID, role: "USER" });
+const adminToken = () => signAccessToken({ aud: "admin", sub: "admin_1", sid: SID, role: "ADMIN" });
+const vendorToken = () => signAccessToken({ aud: "vendor", sub: "vendor_1", sid: SID });
+
+function approvedVendor(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "vendor_1",
+    email: "vendor@example.com",
+    businessName: "Test Foods",
+    status: "APPROVED",
+    isActive: true,
+    ...overrides,
+  };
+}
+
+// Runs one middleware against a bare request; reports the status or next()
+async function run(
+  middleware: (req: any, res: any, next: () => void) => unknown,
+  token: string,
+  req: Record<string, unknown> = {}
+): Promise<{ status: number | null; body: any; nextCalled: boolean; req: any }> {
+  const result = { status: null as number | null, body: null as any, nextCalled: false };
+  const request = { headers: { authorization: `Bearer ${token}` }, ...req };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return res;
+    },
+  };
+  await middleware(request, res, () => {
+    result.nextCalled = true;
+  });
+  return { ...result, req: request };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.session.findUnique.mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+  db.vendor.findUnique.mockResolvedValue(approvedVendor());
+  db.user.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+    Promise.resolve({
+      id: where.id,
+      email: `${where.id}@example.com`,
+      name: null,
+      role: where.id.startsWith("admin") ? "ADMIN" : "USER",
+    })
+  );
+});
+
+describe("requireVendorAuth", () => {
+  it("accepts a vendor access token", async () => {
+    const out = await run(requireVendorAuth, vendorToken());
+    expect(out.nextCalled).toBe(true);
+    expect(out.req.vendorId).toBe("vendor_1");
+    expect(out.req.vendorRole).toBe("OWNER");
+  });
+
+  it("rejects a shopper token", async () => {
+    const out = await run(requireVendorAuth, shopperToken());
+    expect(out.status).toBe(401);
+    expect(out.nextCalled).toBe(false);
+    expect(db.vendor.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects an admin token", async () => {
+    const out = await run(requireVendorAuth, adminToken());
+    expect(out.status).toBe(401);
+    expect(out.nextCalled).toBe(false);
+  });
+
+  it("rejects a vendor refresh token", async () => {
+    const { token } = signRefreshToken({ aud: "vendor", sub: "vendor_1", sid: SID });
+    const out = await run(requireVendorAuth, token);
+    expect(out.status).toBe(401);
+  });
+
+  it("rejects a vendor 2FA challenge token", async () => {
+    const out = await run(requireVendorAuth, signChallengeToken({ aud: "vendor", sub: "vendor_1" }));
+    expect(out.status).toBe(401);
+  });
+
+  it.each([
+    ["suspended", { status: "SUSPENDED" }, "Vendor account is suspended"],
+    ["pending approval", { status: "PENDING" }, "Vendor account not approved yet"],
+    ["rejected", { status: "REJECTED" }, "Vendor account not approved yet"],
+    ["inactive", { isActive: false }, "Vendor account is inactive"],
+  ])("answers 403 for a %s vendor holding a live token", async (_label, overrides, message) => {
+    db.vendor.findUnique.mockResolvedValue(approvedVendor(overrides));
+    const out = await run(requireVendorAuth, vendorToken());
+    expect(out.status).toBe(403);
+    expect(out.body.message).toBe(message);
+    expect(out.nextCalled).toBe(false);
+  });
+
+  it("rejects a token whose session was revoked", async () => {
+    db.session.findUnique.mockResolvedValue({ revokedAt: new Date(), expiresAt: new Date(Date.now() + 60_000) });
+    const out = await run(requireVendorAuth, vendorToken());
+    expect(out.status).toBe(401);
+  });
+});
+
+describe("requireAuth", () => {
+  it("accepts a shopper token", async () => {
+    const out = await run(requireAuth, shopperToken());
+    expect(out.nextCalled).toBe(true);
+    expect(out.req.userRole).toBe("USER");
+  });
+
+  it("rejects a vendor token", async () => {
+    const out = await run(requireAuth, vendorToken());
+    expect(out.status).toBe(401);
+    expect(out.nextCalled).toBe(false);
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects a user refresh token", async () => {
+    const { token } = signRefreshToken({ aud: "user", sub: "user_1", sid: SID });
+    const out = await run(requireAuth, token);
+    expect(out.status).toBe(401);
+  });
+
+  it("rejects a user 2FA challenge token", async () => {
+    const out = await run(requireAuth, signChallengeToken({ aud: "user", sub: "user_1" }));
+    expect(out.status).toBe(401);
+  });
+
+  it("gives admin rights only to an admin token", async () => {
+    // DB role is ADMIN, but the token was issued as a plain user token
+    const userAudience = signAccessToken({ aud: "user", sub: "admin_1", sid: SID, role: "ADMIN" });
+    expect((await run(requireAuth, userAudience)).req.userRole).toBe("USER");
+    expect((await run(requireAuth, adminToken())).req.userRole).toBe("ADMIN");
+  });
+});
+
+describe("requireAdminAuth", () => {
+  it("refuses a vendor token before reaching the admin check", async () => {
+    const auth = await run(requireAuth, vendorToken());
+    expect(auth.status).toBe(401);
+
+    // Even if a route forgot requireAuth, there is no user on the request
+    const admin = await run(requireAdminAuth, vendorToken());
+    expect(admin.status).toBe(401);
+    expect(admin.nextCalled).toBe(false);
+  });
+
+  it("refuses a shopper and lets an admin through", async () => {
+    const shopper = await run(requireAuth, shopperToken());
+    expect((await run(requireAdminAuth, "", { user: shopper.req.user })).status).toBe(403);
+
+    const admin = await run(requireAuth, adminToken());
+    expect((await run(requireAdminAuth, "", { user: admin.req.user })).nextCalled).toBe(true);
+  });
+});
+
+describe("admin routes (requireAuth + requireAdmin)", () => {
+  async function getUsers(token: string): Promise<number> {
+    const app = express();
+    app.use("/api/admin/users", adminUsersRoutes);
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const res = await fetch(`http://127.0.0.1:${port}/api/admin/users`, {
+        headers: { authorization: `Bearer ${token}` },
+      });
+      return res.status;
+    } finally {
+      server.close();
+    }
+  }
+
+  it("refuses vendor, shopper, refresh and challenge tokens", async () => {
+    expect(await getUsers(vendorToken())).toBe(401);
+    expect(await getUsers(shopperToken())).toBe(403);
+    expect(await getUsers(signRefreshToken({ aud: "user", sub: "admin_1", sid: SID }).token)).toBe(401);
+    expect(await getUsers(signChallengeToken({ aud: "user", sub: "admin_1" }))).toBe(401);
+  });
+
+  it("serves an admin token", async () => {
+    db.user.count.mockResolvedValue(0);
+    db.user.findMany.mockResolvedValue([]);
+    expect(await getUsers(adminToken())).toBe(200);
+  });
+});
+
+describe("verifyAccessToken", () => {
+  it("never returns claims for refresh or challenge tokens", () => {
+    const refresh = signRefreshToken({ aud: "vendor", sub: "vendor_1", sid: SID }).token;
+    const challenge = signChallengeToken({ aud: "vendor", sub: "vendor_1", mid: "member_1" });
+    expect(verifyAccessToken(refresh, ["vendor"])).toBeNull();
+    expect(verifyAccessToken(challenge, ["vendor"])).toBeNull();
+    expect(verifyAccessToken(challenge, ["user", "admin", "vendor"])).toBeNull();
+  });
+
+  it("only accepts the audiences asked for", () => {
+    expect(verifyAccessToken(vendorToken(), ["user", "admin"])).toBeNull();
+    expect(verifyAccessToken(shopperToken(), ["vendor"])).toBeNull();
+    expect(verifyAccessToken(adminToken(), ["vendor"])).toBeNull();
+    expect(verifyAccessToken(vendorToken(), ["vendor"])?.sub).toBe("vendor_1");
+  });
+});
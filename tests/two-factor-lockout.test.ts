@@ -0,0 +1,80 @@
+// tests/two-factor-lockout.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { hashToken } from "../src/services/tokens";
+
+// One user row kept in memory; update/updateMany apply to it like Postgres would
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+}));
+vi.mock("../src/lib/prisma", () => ({ prisma: db }));
+
+import { TwoFactorError, verifySecondFactor } from "../src/lib/two-factor";
+
+const RECOVERY_CODE = "abcde-12345";
+const subject = { type: "USER" as const, id: "user_1" };
+
+let row: Record<string, any>;
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  row = {
+    email: "user_1@example.com",
+    twoFactorSecret: null,
+    twoFactorEnabledAt: new Date(),
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: [hashToken(RECOVERY_CODE.replace("-", ""))],
+    twoFactorFailedAttempts: 0,
+    twoFactorLockedUntil: null,
+  };
+
+  db.user.findUnique.mockImplementation(() => Promise.resolve({ ...row }));
+  db.user.update.mockImplementation(({ data }: any) => {
+    row.twoFactorFailedAttempts += data.twoFactorFailedAttempts.increment;
+    return Promise.resolve({ twoFactorFailedAttempts: row.twoFactorFailedAttempts });
+  });
+  db.user.updateMany.mockImplementation(({ where, data }: any) => {
+    const has = where.twoFactorRecoveryCodes?.has;
+    if (has && !row.twoFactorRecoveryCodes.includes(has)) return Promise.resolve({ count: 0 });
+    Object.assign(row, data);
+    return Promise.resolve({ count: 1 });
+  });
+});
+
+async function statusOf(code: string): Promise<number | "ok"> {
+  try {
+    await verifySecondFactor(subject, code);
+    return "ok";
+  } catch (e) {
+    if (e instanceof TwoFactorError) return e.statusCode;
+    throw e;
+  }
+}
+
+describe("verifySecondFactor lockout", () => {
+  it("locks the account after five wrong codes, whatever the IP", async () => {
+    for (let i = 0; i < 4; i++) {
+      expect(await statusOf("000000")).toBe(401);
+    }
+    expect(row.twoFactorFailedAttempts).toBe(4);
+
+    expect(await statusOf("wrong-code")).toBe(401);
+    expect(row.twoFactorLockedUntil).toBeInstanceOf(Date);
+
+    // Locked: even the right recovery code is refused, and nothing is spent
+    expect(await statusOf(RECOVERY_CODE)).toBe(429);
+    expect(row.twoFactorRecoveryCodes).toHaveLength(1);
+  });
+
+  it("accepts a code again once the lock has passed", async () => {
+    row.twoFactorLockedUntil = new Date(Date.now() - 1000);
+    expect(await statusOf(RECOVERY_CODE)).toBe("ok");
+    expect(row.twoFactorLockedUntil).toBeNull();
+  });
+
+  it("starts the count over after a correct code", async () => {
+    expect(await statusOf("000000")).toBe(401);
+    expect(await statusOf("000000")).toBe(401);
+    expect(await statusOf(RECOVERY_CODE)).toBe("ok");
+    expect(row.twoFactorFailedAttempts).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+// tests/uploads-private.test.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Local storage in a scratch directory; set before src/config/env is read
+const root = vi.hoisted(() => {
+  const dir = require("fs").mkdtempSync(require("path").join(require("os").tmpdir(), "uploads-"));
+  process.env.STORAGE_DRIVER = "local";
+  process.env.STORAGE_LOCAL_DIR = dir;
+  return dir as string;
+});
+vi.mock("../src/lib/prisma", () => ({ prisma: {} }));
+
+import app from "../src/app";
+import { getStorage } from "../src/services/storage";
+
+let server: ReturnType<typeof app.listen>;
+let base: string;
+
+beforeAll(async () => {
+  fs.mkdirSync(path.join(root, "partner-docs"), { recursive: true });
+  fs.mkdirSync(path.join(root, "products"), { recursive: true });
+  fs.writeFileSync(path.join(root, "partner-docs", "a.txt"), "private");
+  fs.writeFileSync(path.join(root, "products", "p.txt"), "public");
+
+  server = app.listen(0);
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("/uploads", () => {
+  it("serves public files", async () => {
+    const res = await fetch(`${base}/uploads/products/p.txt`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("public");
+  });
+
+  it.each([
+    "/uploads/partner-docs/a.txt",
+    "/uploads/partner%2Ddocs/a.txt",
+    "/uploads/partner%2ddocs/a.txt",
+    "/uploads/%70artner-docs/a.txt",
+    "/uploads/products/%2E%2E/partner-docs/a.txt",
+    "/uploads/Partner-Docs/a.txt",
+  ])("never serves a private file at %s", async (url) => {
+    const res = await fetch(`${base}${url}`);
+    expect(res.status).not.toBe(200);
+    expect(await res.text()).not.toBe("private");
+  });
+
+  it("serves a private file through a signed link only", async () => {
+    const url = await getStorage().signedUrl("partner-docs/a.txt");
+    const res = await fetch(`${base}${url}`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("private");
+
+    const tampered = await fetch(`${base}${url.replace(/sig=[0-9a-f]+/, "sig=00")}`);
+    expect(tampered.status).toBe(403);
+  });
+});